@@ -4,7 +4,15 @@ import mysql from 'mysql2/promise';
 dotenv.config();
 
 // Extraemos variables de entorno
-const { DB_HOST, DB_USER, DB_PASSWORD, DB_NAME, DB_PORT, PORT, JWT_SECRET, BASE_URL: ENV_BASE_URL } = process.env;
+const {
+    DB_HOST, DB_USER, DB_PASSWORD, DB_NAME, DB_PORT, PORT, JWT_SECRET, BASE_URL: ENV_BASE_URL,
+    UNPAID_ORDER_TTL_MINUTES: ENV_UNPAID_ORDER_TTL_MINUTES,
+    UNPAID_ORDER_SWEEP_INTERVAL_MINUTES: ENV_UNPAID_ORDER_SWEEP_INTERVAL_MINUTES,
+    IDEMPOTENCY_KEY_TTL_HOURS: ENV_IDEMPOTENCY_KEY_TTL_HOURS,
+    GIFT_WRAP_FEE: ENV_GIFT_WRAP_FEE,
+    VAT_RATE: ENV_VAT_RATE,
+    STRIPE_PAYMENT_METHOD_TYPES: ENV_STRIPE_PAYMENT_METHOD_TYPES,
+} = process.env;
 
 // Validamos que estén definidas
 if (!DB_HOST || !DB_USER || !DB_PASSWORD || !DB_NAME || !JWT_SECRET) {
@@ -20,6 +28,28 @@ export const JWT_KEY: string = JWT_SECRET;
 // URL base de la aplicación, para construir URLs completas y rutas a recursos estáticos
 export const BASE_URL: string = ENV_BASE_URL || `http://localhost:${SERVER_PORT}`;
 
+// Minutos que un pedido puede permanecer en 'pending' (sin pagar) antes de caducar
+export const UNPAID_ORDER_TTL_MINUTES: number = Number(ENV_UNPAID_ORDER_TTL_MINUTES) || 60;
+
+// Cada cuántos minutos se ejecuta el job que caduca los pedidos sin pagar (0 = desactivado)
+export const UNPAID_ORDER_SWEEP_INTERVAL_MINUTES: number =
+    ENV_UNPAID_ORDER_SWEEP_INTERVAL_MINUTES !== undefined ? Number(ENV_UNPAID_ORDER_SWEEP_INTERVAL_MINUTES) : 5;
+
+// Horas que se conserva una clave `Idempotency-Key` (pasado ese tiempo se puede reutilizar)
+export const IDEMPOTENCY_KEY_TTL_HOURS: number = Number(ENV_IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+
+// Recargo (en euros) por envolver un pedido para regalo
+export const GIFT_WRAP_FEE: number = ENV_GIFT_WRAP_FEE !== undefined ? Number(ENV_GIFT_WRAP_FEE) : 3.5;
+
+// Tipo general de IVA (%) incluido en los precios: productos cuya categoría no tiene tipo propio y envoltorio de regalo
+export const VAT_RATE: number = ENV_VAT_RATE !== undefined ? Number(ENV_VAT_RATE) : 21;
+
+// Métodos de pago que se ofrecen en Stripe Checkout (p.ej. `card,sepa_debit,klarna`). SEPA se confirma más tarde por webhook
+export const STRIPE_PAYMENT_METHOD_TYPES: string[] = (ENV_STRIPE_PAYMENT_METHOD_TYPES || 'card')
+    .split(',')
+    .map(type => type.trim())
+    .filter(Boolean);
+
 // Pool de conexión a MySQL usando mysql2/promise
 export const db = mysql.createPool({
     host: DB_HOST,
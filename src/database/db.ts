@@ -1,4 +1,6 @@
+import { PoolConnection } from 'mysql2/promise';
 import { db } from '../config/config';
+import { RESERVE_DOCUMENT_NUMBER, GET_RESERVED_DOCUMENT_NUMBER } from './queries/document-sequences.queries';
 
 /**
  * Ejecuta una consulta SQL usando el pool de MySQL configurado.
@@ -22,4 +24,64 @@ export const query = async (sql: string, params: any[] = []) => {
         console.error("❌ Error en query:", error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Ejecuta una función dentro de una transacción MySQL con una conexión dedicada del pool.
+ * - Hace `COMMIT` si la función termina correctamente.
+ * - Hace `ROLLBACK` y relanza el error si la función falla.
+ * - Libera siempre la conexión al terminar.
+ *
+ * @template T Tipo del valor devuelto por la función
+ * @param {(conn: PoolConnection) => Promise<T>} fn Función que recibe la conexión de la transacción
+ * @returns {Promise<T>} Resultado de la función
+ * @throws {Error} El error original si la transacción falla
+ *
+ * @example
+ * ```ts
+ * const orderId = await withTransaction(async (conn) => {
+ *     await conn.query('SELECT stock FROM products WHERE id = ? FOR UPDATE', [productId]);
+ *     const [res]: any = await conn.query(CREATE_ORDER, [userId, addressId, 'pending', total]);
+ *     return res.insertId;
+ * });
+ * ```
+ */
+export const withTransaction = async <T>(fn: (conn: PoolConnection) => Promise<T>): Promise<T> => {
+    const conn = await db.getConnection();
+    try {
+        await conn.beginTransaction();
+        const result = await fn(conn);
+        await conn.commit();
+        return result;
+    } catch (error) {
+        try {
+            await conn.rollback();
+        } catch (rollbackError) {
+            console.error("❌ Error haciendo rollback:", rollbackError);
+        }
+        throw error;
+    } finally {
+        conn.release();
+    }
+};
+
+/**
+ * Reserva el siguiente número de una serie de documentos (sin huecos) dentro de una transacción.
+ * El número queda consumido solo si la transacción hace `COMMIT`.
+ *
+ * @param {PoolConnection} conn Conexión de la transacción (ver `withTransaction`)
+ * @param {string} series Serie del documento (p.ej. 'R' para facturas rectificativas)
+ * @param {number} year Año de emisión
+ * @returns {Promise<{sequence: number, number: string}>} Secuencia y número con formato `{año}-{serie}-{000001}`
+ *
+ * @example
+ * ```ts
+ * const { number } = await nextDocumentNumber(conn, 'R', 2026); // '2026-R-000001'
+ * ```
+ */
+export const nextDocumentNumber = async (conn: PoolConnection, series: string, year: number) => {
+    await conn.query(RESERVE_DOCUMENT_NUMBER, [series, year]);
+    const [rows]: any = await conn.query(GET_RESERVED_DOCUMENT_NUMBER);
+    const sequence = Number(rows[0].number);
+    return { sequence, number: `${year}-${series}-${String(sequence).padStart(6, '0')}` };
+};
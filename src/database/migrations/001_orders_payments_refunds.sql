@@ -0,0 +1,314 @@
+-- =====================================================================================================
+-- Migración 001: pedidos, pagos, reembolsos, devoluciones, facturación, envíos, divisas e idempotencia
+-- -----------------------------------------------------------------------------------------------------
+-- Parte del esquema inicial (users, addresses, products, categories, product_categories, cart, cart_items,
+-- orders, order_items, payments, returns) y añade las tablas y columnas que usa el código actual.
+-- Se ejecuta una sola vez, en orden, sobre MySQL 8:
+--   mysql -u <usuario> -p <base_de_datos> < src/database/migrations/001_orders_payments_refunds.sql
+-- Resumen de tablas y columnas en docs/API.md ("Esquema de la base de datos").
+-- =====================================================================================================
+
+-- -----------------------------------------------------------------------------------------------------
+-- Usuarios: compras como invitado (sin contraseña) y reclamación de la cuenta
+-- -----------------------------------------------------------------------------------------------------
+ALTER TABLE users
+    MODIFY password_hash VARCHAR(255) NULL,
+    MODIFY role ENUM('admin', 'user', 'guest') NOT NULL DEFAULT 'user';
+
+CREATE TABLE guest_claims (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    token CHAR(64) NOT NULL,
+    user_id INT NOT NULL,
+    first_name VARCHAR(100) NOT NULL,
+    last_name VARCHAR(100) NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    role ENUM('admin', 'user', 'guest') NOT NULL DEFAULT 'user',
+    phone VARCHAR(30) NULL,
+    expires_at DATETIME NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_guest_claims_token (token),
+    KEY idx_guest_claims_user (user_id)
+);
+
+-- -----------------------------------------------------------------------------------------------------
+-- Catálogo: peso para el envío, IVA por categoría y precios en otras divisas
+-- -----------------------------------------------------------------------------------------------------
+ALTER TABLE products
+    ADD COLUMN weight DECIMAL(8,3) NULL AFTER sku;
+
+ALTER TABLE categories
+    ADD COLUMN vat_rate DECIMAL(5,2) NULL;
+
+CREATE TABLE currencies (
+    code CHAR(3) PRIMARY KEY,
+    rate DECIMAL(12,6) NOT NULL,
+    rounding ENUM('cent', 'five_cents', 'whole', 'ninety_nine') NOT NULL DEFAULT 'cent',
+    updated_by INT NULL,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+CREATE TABLE product_prices (
+    product_id INT NOT NULL,
+    currency CHAR(3) NOT NULL,
+    price DECIMAL(10,2) NOT NULL,
+    PRIMARY KEY (product_id, currency)
+);
+
+-- -----------------------------------------------------------------------------------------------------
+-- Envíos: métodos, tarifas por zona y envíos con seguimiento
+-- -----------------------------------------------------------------------------------------------------
+CREATE TABLE shipping_methods (
+    code VARCHAR(20) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description VARCHAR(255) NULL,
+    active TINYINT(1) NOT NULL DEFAULT 1,
+    sort_order INT NOT NULL DEFAULT 0,
+    updated_by INT NULL,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+CREATE TABLE shipping_rates (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    method_code VARCHAR(20) NOT NULL,
+    zone ENUM('peninsula', 'baleares', 'canarias', 'eu', 'rest') NOT NULL,
+    basis ENUM('weight', 'value') NOT NULL,
+    min_value DECIMAL(10,3) NOT NULL DEFAULT 0,
+    max_value DECIMAL(10,3) NULL,
+    price DECIMAL(10,2) NOT NULL,
+    free_from DECIMAL(10,2) NULL,
+    KEY idx_shipping_rates_method_zone (method_code, zone)
+);
+
+CREATE TABLE shipments (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    order_id INT NOT NULL,
+    carrier VARCHAR(100) NOT NULL,
+    tracking_number VARCHAR(100) NULL,
+    tracking_url VARCHAR(500) NULL,
+    shipped_at DATETIME NOT NULL,
+    delivered_at DATETIME NULL,
+    created_by INT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    KEY idx_shipments_order (order_id)
+);
+
+CREATE TABLE shipment_items (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    shipment_id INT NOT NULL,
+    order_item_id INT NOT NULL,
+    quantity INT NOT NULL,
+    KEY idx_shipment_items_shipment (shipment_id),
+    KEY idx_shipment_items_order_item (order_item_id)
+);
+
+-- -----------------------------------------------------------------------------------------------------
+-- Pedidos: estados, IVA, divisa, regalo, envío, cancelación, archivo, cambios, disputas y confirmación
+-- -----------------------------------------------------------------------------------------------------
+ALTER TABLE orders
+    MODIFY status ENUM('pending', 'completed', 'shipped', 'delivered', 'cancelled', 'expired', 'awaiting_return', 'returned')
+        NOT NULL DEFAULT 'pending',
+    ADD COLUMN stripe_session_id VARCHAR(255) NULL,
+    ADD COLUMN cancelled_by INT NULL,
+    ADD COLUMN cancellation_reason VARCHAR(500) NULL,
+    ADD COLUMN cancel_restocked TINYINT(1) NULL,
+    ADD COLUMN cancelled_at DATETIME NULL,
+    ADD COLUMN archived_at DATETIME NULL,
+    ADD COLUMN archived_by INT NULL,
+    ADD COLUMN archive_reason VARCHAR(500) NULL,
+    ADD COLUMN replacement_for_order_id INT NULL,
+    ADD COLUMN replacement_return_id INT NULL,
+    ADD COLUMN is_gift TINYINT(1) NOT NULL DEFAULT 0,
+    ADD COLUMN gift_message VARCHAR(500) NULL,
+    ADD COLUMN gift_wrap TINYINT(1) NOT NULL DEFAULT 0,
+    ADD COLUMN gift_wrap_fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN gift_hide_prices TINYINT(1) NOT NULL DEFAULT 0,
+    ADD COLUMN tax_zone ENUM('es', 'eu', 'canarias', 'ceuta', 'melilla', 'export') NULL,
+    ADD COLUMN tax_base DECIMAL(10,2) NULL,
+    ADD COLUMN tax_amount DECIMAL(10,2) NULL,
+    ADD COLUMN tax_breakdown JSON NULL,
+    ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'EUR',
+    ADD COLUMN exchange_rate DECIMAL(12,6) NOT NULL DEFAULT 1,
+    ADD COLUMN total_eur DECIMAL(10,2) NULL,
+    ADD COLUMN shipping_method VARCHAR(20) NULL,
+    ADD COLUMN shipping_method_name VARCHAR(100) NULL,
+    ADD COLUMN shipping_zone ENUM('peninsula', 'baleares', 'canarias', 'eu', 'rest') NULL,
+    ADD COLUMN shipping_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN stripe_dispute_id VARCHAR(255) NULL,
+    ADD COLUMN dispute_status VARCHAR(50) NULL,
+    ADD COLUMN dispute_reason VARCHAR(100) NULL,
+    ADD COLUMN dispute_amount DECIMAL(10,2) NULL,
+    ADD COLUMN disputed_at DATETIME NULL,
+    ADD COLUMN dispute_closed_at DATETIME NULL,
+    ADD COLUMN confirmation_sent_at DATETIME NULL,
+    ADD KEY idx_orders_status_created (status, created_at),
+    ADD KEY idx_orders_replacement_for (replacement_for_order_id),
+    ADD KEY idx_orders_stripe_session (stripe_session_id);
+
+ALTER TABLE order_items
+    ADD COLUMN vat_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+    ADD COLUMN tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE order_status_history (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    order_id INT NOT NULL,
+    from_status VARCHAR(20) NULL,
+    to_status VARCHAR(20) NOT NULL,
+    changed_by INT NULL,
+    note VARCHAR(500) NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    KEY idx_order_status_history_order (order_id, created_at)
+);
+
+-- -----------------------------------------------------------------------------------------------------
+-- Pagos: un registro por PaymentIntent, pagos diferidos, reembolsos y pagos no aplicados
+-- -----------------------------------------------------------------------------------------------------
+-- Antes de crear el índice único hay que resolver los duplicados que hubiera de un mismo PaymentIntent:
+--   SELECT transaction_id, COUNT(*) FROM payments WHERE transaction_id IS NOT NULL GROUP BY transaction_id HAVING COUNT(*) > 1;
+ALTER TABLE payments
+    MODIFY status ENUM('pending', 'completed', 'failed', 'partially_refunded', 'refunded') NOT NULL,
+    ADD COLUMN unapplied TINYINT(1) NOT NULL DEFAULT 0,
+    ADD UNIQUE KEY uq_payments_transaction (transaction_id),
+    ADD KEY idx_payments_order (order_id);
+
+CREATE TABLE refunds (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    order_id INT NOT NULL,
+    payment_id INT NOT NULL,
+    return_id INT NULL,
+    stripe_refund_id VARCHAR(255) NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    reason VARCHAR(500) NOT NULL,
+    status ENUM('pending', 'requires_action', 'succeeded', 'failed', 'canceled') NOT NULL DEFAULT 'pending',
+    failure_reason VARCHAR(500) NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    requested_by INT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_refunds_stripe (stripe_refund_id),
+    KEY idx_refunds_order (order_id),
+    KEY idx_refunds_payment (payment_id),
+    KEY idx_refunds_return (return_id),
+    KEY idx_refunds_status (status, created_at)
+);
+
+CREATE TABLE refund_items (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    refund_id INT NOT NULL,
+    order_item_id INT NOT NULL,
+    quantity INT NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    KEY idx_refund_items_refund (refund_id),
+    KEY idx_refund_items_order_item (order_item_id)
+);
+
+-- -----------------------------------------------------------------------------------------------------
+-- Devoluciones: RMA, inspección, reembolso aceptado y cambios de talla o color
+-- -----------------------------------------------------------------------------------------------------
+ALTER TABLE returns
+    MODIFY status ENUM('pending', 'approved', 'received', 'rejected') NOT NULL DEFAULT 'pending',
+    ADD COLUMN rma_number VARCHAR(30) NULL,
+    ADD COLUMN refund_amount DECIMAL(10,2) NULL,
+    ADD COLUMN approved_by INT NULL,
+    ADD COLUMN approved_at DATETIME NULL,
+    ADD COLUMN received_by INT NULL,
+    ADD COLUMN received_at DATETIME NULL,
+    ADD COLUMN inspection_note VARCHAR(1000) NULL,
+    ADD COLUMN replacement_order_id INT NULL,
+    ADD UNIQUE KEY uq_returns_rma (rma_number),
+    ADD KEY idx_returns_order (order_id);
+
+CREATE TABLE return_items (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    return_id INT NOT NULL,
+    order_item_id INT NOT NULL,
+    quantity INT NOT NULL,
+    reason VARCHAR(500) NULL,
+    refund_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    status ENUM('pending', 'approved', 'received', 'rejected') NOT NULL DEFAULT 'pending',
+    inspection_result ENUM('restockable', 'damaged', 'rejected') NULL,
+    inspection_note VARCHAR(1000) NULL,
+    approved_refund_amount DECIMAL(10,2) NULL,
+    exchange_product_id INT NULL,
+    exchange_reserved TINYINT(1) NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    KEY idx_return_items_return (return_id),
+    KEY idx_return_items_order_item (order_item_id)
+);
+
+-- -----------------------------------------------------------------------------------------------------
+-- Facturación: facturas, rectificativas y numeración correlativa por serie y año
+-- -----------------------------------------------------------------------------------------------------
+CREATE TABLE document_sequences (
+    series VARCHAR(5) NOT NULL,
+    year SMALLINT NOT NULL,
+    last_number INT NOT NULL DEFAULT 0,
+    PRIMARY KEY (series, year)
+);
+
+CREATE TABLE invoices (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    number VARCHAR(30) NOT NULL,
+    series VARCHAR(5) NOT NULL,
+    year SMALLINT NOT NULL,
+    sequence INT NOT NULL,
+    order_id INT NOT NULL,
+    data JSON NOT NULL,
+    pdf LONGBLOB NULL,
+    issued_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_invoices_number (number),
+    UNIQUE KEY uq_invoices_order (order_id)
+);
+
+CREATE TABLE credit_notes (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    number VARCHAR(30) NOT NULL,
+    series VARCHAR(5) NOT NULL,
+    year SMALLINT NOT NULL,
+    sequence INT NOT NULL,
+    order_id INT NOT NULL,
+    refund_id INT NULL,
+    return_id INT NULL,
+    invoice_number VARCHAR(30) NOT NULL,
+    reason VARCHAR(500) NOT NULL,
+    subtotal DECIMAL(10,2) NOT NULL,
+    tax_amount DECIMAL(10,2) NOT NULL,
+    total DECIMAL(10,2) NOT NULL,
+    data JSON NOT NULL,
+    issued_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_credit_notes_number (number),
+    UNIQUE KEY uq_credit_notes_refund (refund_id),
+    KEY idx_credit_notes_order (order_id)
+);
+
+-- -----------------------------------------------------------------------------------------------------
+-- Webhooks de Stripe e idempotencia de la API
+-- -----------------------------------------------------------------------------------------------------
+CREATE TABLE webhook_events (
+    id VARCHAR(255) PRIMARY KEY,
+    type VARCHAR(100) NOT NULL,
+    payload JSON NOT NULL,
+    status ENUM('received', 'processing', 'processed', 'failed') NOT NULL DEFAULT 'received',
+    attempts INT NOT NULL DEFAULT 0,
+    error TEXT NULL,
+    received_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_attempt_at DATETIME NULL,
+    processed_at DATETIME NULL,
+    KEY idx_webhook_events_status (status, received_at)
+);
+
+CREATE TABLE idempotency_keys (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    scope VARCHAR(100) NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL,
+    method VARCHAR(10) NOT NULL,
+    path VARCHAR(255) NOT NULL,
+    request_hash CHAR(64) NOT NULL,
+    status ENUM('processing', 'completed') NOT NULL DEFAULT 'processing',
+    response_status SMALLINT NULL,
+    response_body JSON NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME NULL,
+    UNIQUE KEY uq_idempotency_keys_scope_key (scope, idempotency_key),
+    KEY idx_idempotency_keys_created (created_at)
+);
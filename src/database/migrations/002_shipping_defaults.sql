@@ -0,0 +1,37 @@
+-- =====================================================================================================
+-- Migración 002: métodos y tarifas de envío por defecto
+-- -----------------------------------------------------------------------------------------------------
+-- Sin métodos ni tarifas no se puede hacer ningún pedido, así que se cargan unos iniciales que el
+-- administrador puede cambiar después con la API de envíos (PUT /shipping/methods/:code...).
+-- `standard` es el método por defecto de los pedidos que no indican `shipping_method`
+-- (DEFAULT_SHIPPING_METHOD en shipping.rules.ts). Precios en euros; tramos por peso en kg, [min, max).
+--   mysql -u <usuario> -p <base_de_datos> < src/database/migrations/002_shipping_defaults.sql
+-- =====================================================================================================
+
+INSERT INTO shipping_methods (code, name, description, active, sort_order) VALUES
+    ('standard', 'Envío estándar', 'Entrega en 2-5 días laborables', 1, 1),
+    ('express', 'Envío exprés', 'Entrega en 24-48 horas', 1, 2),
+    ('pickup', 'Recogida en tienda', 'Recogida gratuita en nuestra tienda', 1, 3)
+ON DUPLICATE KEY UPDATE code = code;
+
+-- Solo si aún no hay tarifas (no pisa las que haya configurado el administrador)
+INSERT INTO shipping_rates (method_code, zone, basis, min_value, max_value, price, free_from)
+SELECT t.method_code, t.zone, 'weight', t.min_value, t.max_value, t.price, t.free_from
+FROM (
+    SELECT 'standard' AS method_code, 'peninsula' AS zone, 0 AS min_value, 2 AS max_value, 4.95 AS price, 50 AS free_from
+    UNION ALL SELECT 'standard', 'peninsula', 2, 5, 6.95, 50
+    UNION ALL SELECT 'standard', 'peninsula', 5, NULL, 9.95, 50
+    UNION ALL SELECT 'standard', 'baleares', 0, 5, 7.95, 80
+    UNION ALL SELECT 'standard', 'baleares', 5, NULL, 12.95, 80
+    UNION ALL SELECT 'standard', 'canarias', 0, 5, 9.95, NULL
+    UNION ALL SELECT 'standard', 'canarias', 5, NULL, 15.95, NULL
+    UNION ALL SELECT 'standard', 'eu', 0, 5, 12.95, NULL
+    UNION ALL SELECT 'standard', 'eu', 5, NULL, 19.95, NULL
+    UNION ALL SELECT 'standard', 'rest', 0, 5, 24.95, NULL
+    UNION ALL SELECT 'standard', 'rest', 5, NULL, 39.95, NULL
+    UNION ALL SELECT 'express', 'peninsula', 0, NULL, 9.95, NULL
+    UNION ALL SELECT 'express', 'baleares', 0, NULL, 14.95, NULL
+    UNION ALL SELECT 'express', 'eu', 0, NULL, 24.95, NULL
+    UNION ALL SELECT 'pickup', 'peninsula', 0, NULL, 0, NULL
+) AS t
+WHERE NOT EXISTS (SELECT 1 FROM shipping_rates);
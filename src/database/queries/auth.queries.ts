@@ -86,4 +86,100 @@ export const GET_USER_BY_RESET_TOKEN = `
  */
 export const CLEAR_RESET_TOKEN = `
     UPDATE users SET reset_token = NULL, reset_token_expires = NULL WHERE id = ?
-`;
\ No newline at end of file
+`;
+/**
+ * Query para crear el usuario de un comprador invitado (compra sin cuenta).
+ * Se guarda con rol `guest` y sin contraseña: no puede iniciar sesión hasta registrarse con el mismo email.
+ * @example
+ * ```ts
+ * const [res] = await db.query(CREATE_GUEST_USER, [firstName, lastName, email, phone]);
+ * ```
+ * @param {string} firstName - Nombre del comprador.
+ * @param {string} lastName - Apellido del comprador.
+ * @param {string} email - Correo electrónico (único en `users`).
+ * @param {string|null} phone - Teléfono de contacto.
+ */
+export const CREATE_GUEST_USER = `
+    INSERT INTO users (first_name, last_name, email, password_hash, role, phone)
+    VALUES (?, ?, ?, NULL, 'guest', ?)
+`;
+
+/**
+ * Query para guardar una solicitud de registro con el email de un comprador invitado.
+ * Guarda los datos de la cuenta hasta que el dueño del email la confirma con el token enviado por correo.
+ * @example
+ * ```ts
+ * await db.query(CREATE_GUEST_CLAIM, [token, userId, firstName, lastName, passwordHash, role, phone, expires]);
+ * ```
+ * @param {string} token - Token aleatorio enviado por email.
+ * @param {number} userId - ID del usuario invitado.
+ * @param {string} firstName - Nombre de la cuenta.
+ * @param {string} lastName - Apellido de la cuenta.
+ * @param {string} passwordHash - Contraseña en formato hash (bcrypt).
+ * @param {'admin'|'user'} role - Rol de la cuenta.
+ * @param {string} phone - Teléfono de la cuenta.
+ * @param {Date} expires - Fecha y hora de expiración del token.
+ */
+export const CREATE_GUEST_CLAIM = `
+    INSERT INTO guest_claims (token, user_id, first_name, last_name, password_hash, role, phone, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+/**
+ * Query para bloquear una solicitud de registro de invitado por su token (dentro de una transacción).
+ * Solo devuelve resultados si el token existe y no ha expirado.
+ * @example
+ * ```ts
+ * const [rows] = await conn.query(LOCK_GUEST_CLAIM_BY_TOKEN, [token]);
+ * ```
+ * @param {string} token - Token recibido desde el enlace del email.
+ * @returns {Promise<any[]>} Array con la solicitud encontrada si el token es válido.
+ */
+export const LOCK_GUEST_CLAIM_BY_TOKEN = `
+    SELECT * FROM guest_claims WHERE token = ? AND expires_at > NOW() FOR UPDATE
+`;
+
+/**
+ * Query para eliminar las solicitudes de registro de un invitado una vez reclamado.
+ * @example
+ * ```ts
+ * await conn.query(DELETE_GUEST_CLAIMS_BY_USER, [userId]);
+ * ```
+ * @param {number} userId - ID del usuario invitado.
+ */
+export const DELETE_GUEST_CLAIMS_BY_USER = `
+    DELETE FROM guest_claims WHERE user_id = ?
+`;
+
+/**
+ * Query para convertir un usuario invitado en una cuenta registrada al confirmar el registro con su email.
+ * Conserva el ID, por lo que sus pedidos y direcciones pasan a la nueva cuenta.
+ * @example
+ * ```ts
+ * await db.query(CLAIM_GUEST_USER, [firstName, lastName, passwordHash, role, phone, userId]);
+ * ```
+ * @param {string} firstName - Nombre del usuario.
+ * @param {string} lastName - Apellido del usuario.
+ * @param {string} passwordHash - Contraseña en formato hash (bcrypt).
+ * @param {'admin'|'user'} role - Rol de la cuenta.
+ * @param {string} phone - Teléfono del usuario.
+ * @param {number} userId - ID del usuario invitado.
+ */
+export const CLAIM_GUEST_USER = `
+    UPDATE users
+    SET first_name = ?, last_name = ?, password_hash = ?, role = ?, phone = ?
+    WHERE id = ? AND role = 'guest'
+`;
+
+/**
+ * Query para contar los pedidos de un usuario (p.ej. los que se vinculan al registrar un invitado).
+ * @example
+ * ```ts
+ * const [rows] = await db.query(COUNT_ORDERS_BY_USER, [userId]);
+ * ```
+ * @param {number} userId - ID del usuario.
+ * @returns {Promise<any[]>} Array con `{ count }`.
+ */
+export const COUNT_ORDERS_BY_USER = `
+    SELECT COUNT(*) AS count FROM orders WHERE user_id = ?
+`;
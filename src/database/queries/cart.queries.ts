@@ -45,6 +45,7 @@ export const GET_CART_ITEMS_BY_CART = `
         p.name AS product_name,
         p.price AS product_price,
         p.stock AS product_stock,
+        p.weight AS product_weight,
         p.image_url AS product_image
     FROM cart_items ci
     JOIN products p ON p.id = ci.product_id
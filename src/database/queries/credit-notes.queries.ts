@@ -0,0 +1,90 @@
+/**
+ * Líneas de un pedido con los datos del producto para una factura rectificativa
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{id:number, quantity:number, price:number, product_name:string|null, sku:string|null, size:string|null, color:string|null}>>} Líneas del pedido
+ * @example
+ * const [items] = await conn.query(GET_ORDER_ITEMS_FOR_CREDIT_NOTE, [orderId]);
+ */
+export const GET_ORDER_ITEMS_FOR_CREDIT_NOTE = `
+    SELECT oi.id, oi.quantity, oi.price, p.name AS product_name, p.sku, p.size, p.color
+    FROM order_items oi
+    LEFT JOIN products p ON oi.product_id = p.id
+    WHERE oi.order_id = ?
+    ORDER BY oi.id
+`;
+
+/**
+ * Registrar una factura rectificativa (importes en negativo)
+ * @constant
+ * @type {string}
+ * @param {string} number - Número completo (p.ej. '2026-R-000001')
+ * @param {string} series - Serie ('R')
+ * @param {number} year - Año de emisión
+ * @param {number} sequence - Número dentro de la serie y el año
+ * @param {number} orderId - ID del pedido
+ * @param {number} refundId - ID del reembolso que la origina
+ * @param {number|null} returnId - ID de la devolución (NULL si no viene de una devolución)
+ * @param {string} invoiceNumber - Número de la factura original que rectifica
+ * @param {string} reason - Motivo de la rectificación
+ * @param {number} subtotal - Base imponible (negativa)
+ * @param {number} taxAmount - Cuota de IVA (negativa)
+ * @param {number} total - Total (negativo)
+ * @param {string} data - JSON con los datos congelados del documento (cliente, dirección, líneas, desglose de IVA)
+ * @returns {Promise<Object>} Resultado con `insertId`
+ * @example
+ * const [res] = await conn.query(INSERT_CREDIT_NOTE, [number, 'R', 2026, 1, orderId, refundId, null, '2026-03/SB45', 'Pedido cancelado', -41.32, -8.68, -50, json]);
+ */
+export const INSERT_CREDIT_NOTE = `
+    INSERT INTO credit_notes
+        (number, series, year, sequence, order_id, refund_id, return_id, invoice_number, reason, subtotal, tax_amount, total, data)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+/**
+ * Obtener una factura rectificativa por su ID (con el cliente del pedido, para comprobar permisos)
+ * @constant
+ * @type {string}
+ * @param {number} creditNoteId - ID de la factura rectificativa
+ * @returns {Promise<Array<Object>>} Factura rectificativa con `user_id` del pedido
+ * @example
+ * const [rows] = await db.query(GET_CREDIT_NOTE_BY_ID, [creditNoteId]);
+ */
+export const GET_CREDIT_NOTE_BY_ID = `
+    SELECT cn.*, o.user_id
+    FROM credit_notes cn
+    JOIN orders o ON o.id = cn.order_id
+    WHERE cn.id = ?
+`;
+
+/**
+ * Obtener la factura rectificativa de un reembolso
+ * @constant
+ * @type {string}
+ * @param {number} refundId - ID del reembolso
+ * @returns {Promise<Array<{id:number, number:string, total:number}>>} Factura rectificativa (vacío si aún no se ha emitido)
+ * @example
+ * const [rows] = await conn.query(GET_CREDIT_NOTE_BY_REFUND, [refundId]);
+ */
+export const GET_CREDIT_NOTE_BY_REFUND = `
+    SELECT id, number, total
+    FROM credit_notes
+    WHERE refund_id = ?
+`;
+
+/**
+ * Obtener las facturas rectificativas de un pedido, de la más antigua a la más reciente
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Facturas rectificativas del pedido
+ * @example
+ * const [rows] = await db.query(GET_CREDIT_NOTES_BY_ORDER, [orderId]);
+ */
+export const GET_CREDIT_NOTES_BY_ORDER = `
+    SELECT *
+    FROM credit_notes
+    WHERE order_id = ?
+    ORDER BY issued_at ASC, id ASC
+`;
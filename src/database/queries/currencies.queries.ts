@@ -0,0 +1,122 @@
+/**
+ * Tipos de cambio configurados (unidades de cada divisa por euro y regla de redondeo)
+ * @constant
+ * @type {string}
+ * @returns {Promise<Array<{code:string, rate:number, rounding:string, updated_by:number|null, updated_at:string}>>} Divisas configuradas
+ * @example
+ * const [rows] = await db.query(GET_CURRENCY_RATES);
+ */
+export const GET_CURRENCY_RATES = `
+    SELECT code, rate, rounding, updated_by, updated_at
+    FROM currencies
+    ORDER BY code
+`;
+
+/**
+ * Tipo de cambio de una divisa
+ * @constant
+ * @type {string}
+ * @param {string} code - Código ISO 4217 (`GBP`, `CHF`)
+ * @returns {Promise<Array<{code:string, rate:number, rounding:string}>>} Tipo de cambio (vacío si no está configurado)
+ * @example
+ * const [rows] = await conn.query(GET_CURRENCY_RATE, ['GBP']);
+ */
+export const GET_CURRENCY_RATE = `
+    SELECT code, rate, rounding
+    FROM currencies
+    WHERE code = ?
+`;
+
+/**
+ * Crear o actualizar el tipo de cambio de una divisa
+ * @constant
+ * @type {string}
+ * @param {string} code - Código ISO 4217
+ * @param {number} rate - Unidades de la divisa por euro
+ * @param {string} rounding - Regla de redondeo (`cent`, `five_cents`, `whole`, `ninety_nine`)
+ * @param {number} updatedBy - ID del administrador
+ * @returns {Promise<Object>} Resultado del INSERT/UPDATE
+ * @example
+ * await db.query(UPSERT_CURRENCY_RATE, ['GBP', 0.85, 'ninety_nine', adminId]);
+ */
+export const UPSERT_CURRENCY_RATE = `
+    INSERT INTO currencies (code, rate, rounding, updated_by)
+    VALUES (?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE rate = VALUES(rate), rounding = VALUES(rounding), updated_by = VALUES(updated_by)
+`;
+
+/**
+ * Precios explícitos de varios productos en una divisa (tienen prioridad sobre la conversión)
+ * @constant
+ * @type {string}
+ * @param {string} currency - Código ISO 4217
+ * @param {number[]} productIds - IDs de los productos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<{product_id:number, price:number}>>} Precios definidos
+ * @example
+ * const [rows] = await conn.query(GET_PRODUCT_PRICES_FOR_CURRENCY, ['GBP', [1, 2, 3]]);
+ */
+export const GET_PRODUCT_PRICES_FOR_CURRENCY = `
+    SELECT product_id, price
+    FROM product_prices
+    WHERE currency = ? AND product_id IN (?)
+`;
+
+/**
+ * Precios explícitos de un producto en todas las divisas
+ * @constant
+ * @type {string}
+ * @param {number} productId - ID del producto
+ * @returns {Promise<Array<{currency:string, price:number}>>} Precios definidos
+ * @example
+ * const [rows] = await db.query(GET_PRODUCT_PRICES, [productId]);
+ */
+export const GET_PRODUCT_PRICES = `
+    SELECT currency, price
+    FROM product_prices
+    WHERE product_id = ?
+    ORDER BY currency
+`;
+
+/**
+ * Crear o actualizar el precio explícito de un producto en una divisa
+ * @constant
+ * @type {string}
+ * @param {number} productId - ID del producto
+ * @param {string} currency - Código ISO 4217
+ * @param {number} price - Precio en la divisa (IVA incluido)
+ * @returns {Promise<Object>} Resultado del INSERT/UPDATE
+ * @example
+ * await db.query(UPSERT_PRODUCT_PRICE, [productId, 'GBP', 19.99]);
+ */
+export const UPSERT_PRODUCT_PRICE = `
+    INSERT INTO product_prices (product_id, currency, price)
+    VALUES (?, ?, ?)
+    ON DUPLICATE KEY UPDATE price = VALUES(price)
+`;
+
+/**
+ * Eliminar el precio explícito de un producto en una divisa (vuelve a usarse la conversión)
+ * @constant
+ * @type {string}
+ * @param {number} productId - ID del producto
+ * @param {string} currency - Código ISO 4217
+ * @returns {Promise<Object>} Resultado del DELETE
+ * @example
+ * await db.query(DELETE_PRODUCT_PRICE, [productId, 'GBP']);
+ */
+export const DELETE_PRODUCT_PRICE = `
+    DELETE FROM product_prices WHERE product_id = ? AND currency = ?
+`;
+
+/**
+ * País de una dirección (para elegir la divisa por defecto)
+ * @constant
+ * @type {string}
+ * @param {number} addressId - ID de la dirección
+ * @returns {Promise<Array<{country:string}>>} País de la dirección
+ * @example
+ * const [rows] = await conn.query(GET_ADDRESS_COUNTRY, [addressId]);
+ */
+export const GET_ADDRESS_COUNTRY = `
+    SELECT country FROM addresses WHERE id = ?
+`;
@@ -1,7 +1,8 @@
 export const DashboardQueries = {
   /**
    * Resumen general del dashboard:
-   * total de ventas, cantidad de pedidos, ticket promedio y total de usuarios
+   * total de ventas, cantidad de pedidos, ticket promedio y total de usuarios registrados (sin compradores invitados).
+   * Los importes están en euros (`total_eur`, el equivalente guardado al crear cada pedido)
    * @constant
    * @type {string}
    * @example
@@ -9,12 +10,31 @@ export const DashboardQueries = {
    */
   OVERVIEW: `
     SELECT
-      IFNULL(SUM(o.total), 0) AS total_sales,
+      IFNULL(SUM(COALESCE(o.total_eur, o.total)), 0) AS total_sales,
       COUNT(o.id) AS total_orders,
-      IFNULL(AVG(o.total), 0) AS avg_order_value,
-      (SELECT COUNT(id) FROM users) AS total_users
+      IFNULL(AVG(COALESCE(o.total_eur, o.total)), 0) AS avg_order_value,
+      (SELECT COUNT(id) FROM users WHERE role <> 'guest') AS total_users
     FROM orders o
-    WHERE o.created_at >= DATE_SUB(NOW(), INTERVAL 5 YEAR);
+    WHERE o.created_at >= DATE_SUB(NOW(), INTERVAL 5 YEAR) AND o.archived_at IS NULL;
+  `,
+
+  /**
+   * Ventas por divisa en el mismo periodo que el resumen: total en la divisa del pedido y su equivalente en euros
+   * @constant
+   * @type {string}
+   * @example
+   * const [byCurrency] = await db.query(DashboardQueries.SALES_BY_CURRENCY);
+   */
+  SALES_BY_CURRENCY: `
+    SELECT
+      COALESCE(o.currency, 'EUR') AS currency,
+      COUNT(o.id) AS orders_count,
+      IFNULL(SUM(o.total), 0) AS total_sales,
+      IFNULL(SUM(COALESCE(o.total_eur, o.total)), 0) AS total_sales_eur
+    FROM orders o
+    WHERE o.created_at >= DATE_SUB(NOW(), INTERVAL 5 YEAR) AND o.archived_at IS NULL
+    GROUP BY COALESCE(o.currency, 'EUR')
+    ORDER BY total_sales_eur DESC;
   `,
 
   /**
@@ -27,6 +47,7 @@ export const DashboardQueries = {
   ORDERS_BY_STATUS: `
     SELECT status, COUNT(*) AS count
     FROM orders
+    WHERE archived_at IS NULL
     GROUP BY status;
   `,
 
@@ -40,18 +61,19 @@ export const DashboardQueries = {
    */
   RECENT_ORDERS: `
     SELECT
-      o.id, o.user_id, o.total, o.status, o.created_at,
+      o.id, o.user_id, o.total, o.currency, o.total_eur, o.status, o.created_at,
       u.first_name, u.last_name, u.email,
       a.street, a.city, a.province
     FROM orders o
     LEFT JOIN users u ON o.user_id = u.id
     LEFT JOIN addresses a ON o.address_id = a.id
+    WHERE o.archived_at IS NULL
     ORDER BY o.created_at DESC
     LIMIT ?;
   `,
 
   /**
-   * Productos más vendidos con cantidad y total de ingresos
+   * Productos más vendidos con cantidad y total de ingresos (en euros, con el tipo de cambio de cada pedido)
    * @constant
    * @type {string}
    * @param {number} limit - Número máximo de productos
@@ -62,16 +84,18 @@ export const DashboardQueries = {
     SELECT
       p.id AS product_id, p.name AS product_name, p.image_url,
       SUM(oi.quantity) AS total_quantity,
-      SUM(oi.quantity * oi.price) AS total_revenue
+      ROUND(SUM(oi.quantity * oi.price / COALESCE(o.exchange_rate, 1)), 2) AS total_revenue
     FROM order_items oi
+    JOIN orders o ON oi.order_id = o.id
     JOIN products p ON oi.product_id = p.id
+    WHERE o.archived_at IS NULL
     GROUP BY p.id
     ORDER BY total_quantity DESC
     LIMIT ?;
   `,
 
   /**
-   * Ventas por día
+   * Ventas por día (en euros)
    * @param {number} daysCount - Número de días a considerar (default: 30)
    * @returns {string} SQL dinámico
    * @example
@@ -81,16 +105,16 @@ export const DashboardQueries = {
   SALES_BY_DAY: (daysCount = 30) => `
     SELECT
       DATE(o.created_at) AS day,
-      SUM(o.total) AS total_sales,
+      SUM(COALESCE(o.total_eur, o.total)) AS total_sales,
       COUNT(o.id) AS orders_count
     FROM orders o
-    WHERE o.created_at >= DATE_SUB(CURDATE(), INTERVAL ${Number(daysCount)} DAY)
+    WHERE o.created_at >= DATE_SUB(CURDATE(), INTERVAL ${Number(daysCount)} DAY) AND o.archived_at IS NULL
     GROUP BY DATE(o.created_at)
     ORDER BY DATE(o.created_at) ASC;
   `,
 
   /**
-   * Ventas por mes
+   * Ventas por mes (en euros)
    * @param {number} months - Número de meses a considerar (default: 6)
    * @returns {string} SQL dinámico
    * @example
@@ -100,16 +124,16 @@ export const DashboardQueries = {
   SALES_BY_MONTH: (months = 6) => `
     SELECT
       DATE_FORMAT(o.created_at, '%Y-%m') AS month,
-      SUM(o.total) AS total_sales,
+      SUM(COALESCE(o.total_eur, o.total)) AS total_sales,
       COUNT(o.id) AS orders_count
     FROM orders o
-    WHERE o.created_at >= DATE_SUB(CURDATE(), INTERVAL ${Number(months)} MONTH)
+    WHERE o.created_at >= DATE_SUB(CURDATE(), INTERVAL ${Number(months)} MONTH) AND o.archived_at IS NULL
     GROUP BY DATE_FORMAT(o.created_at, '%Y-%m')
     ORDER BY DATE_FORMAT(o.created_at, '%Y-%m') ASC;
   `,
 
   /**
-   * Cantidad de usuarios registrados por día
+   * Cantidad de usuarios registrados por día (sin compradores invitados)
    * @param {number} days - Número de días a considerar (default: 30)
    * @returns {string} SQL dinámico
    * @example
@@ -121,13 +145,13 @@ export const DashboardQueries = {
       DATE(created_at) AS day,
       COUNT(id) AS users_count
     FROM users
-    WHERE created_at >= DATE_SUB(CURDATE(), INTERVAL ${Number(days)} DAY)
+    WHERE created_at >= DATE_SUB(CURDATE(), INTERVAL ${Number(days)} DAY) AND role <> 'guest'
     GROUP BY DATE(created_at)
     ORDER BY DATE(created_at) ASC;
   `,
 
   /**
-   * Pedidos filtrados dinámicamente con condiciones WHERE
+   * Pedidos filtrados dinámicamente con condiciones WHERE (el servicio siempre excluye los archivados)
    * @param {string} conditions - Condiciones SQL dinámicas para la cláusula WHERE
    * @returns {string} SQL dinámico
    * @example
@@ -136,7 +160,7 @@ export const DashboardQueries = {
    */
   FILTERED_ORDERS: (conditions: string) => `
     SELECT
-      o.id, o.user_id, o.total, o.status, o.created_at,
+      o.id, o.user_id, o.total, o.currency, o.total_eur, o.status, o.created_at,
       u.first_name, u.last_name, u.email
     FROM orders o
     JOIN users u ON u.id = o.user_id
@@ -164,7 +188,7 @@ export const DashboardQueries = {
    * @constant
    * @type {string}
    */
-  FILTER_OPTIONS_STATUS: `SELECT DISTINCT status FROM orders;`,
+  FILTER_OPTIONS_STATUS: `SELECT DISTINCT status FROM orders WHERE archived_at IS NULL;`,
 
   /**
    * Opciones de métodos de pago únicas para filtros
@@ -174,7 +198,7 @@ export const DashboardQueries = {
   FILTER_OPTIONS_METHODS: `SELECT DISTINCT method FROM payments;`,
 
   /**
-   * Resumen de devoluciones: cantidad por estado y total aprobado
+   * Resumen de devoluciones: cantidad por estado e importe en euros (el inspeccionado en las recibidas)
    * @constant
    * @type {string}
    * @example
@@ -182,11 +206,13 @@ export const DashboardQueries = {
    */
   RETURNS_SUMMARY: `
     SELECT
-      status,
+      r.status,
       COUNT(*) AS count,
-      SUM(total_amount) AS total_amount
-    FROM returns
-    GROUP BY status;
+      ROUND(SUM(COALESCE(r.refund_amount, r.total_amount) / COALESCE(o.exchange_rate, 1)), 2) AS total_amount
+    FROM returns r
+    JOIN orders o ON r.order_id = o.id
+    WHERE o.archived_at IS NULL
+    GROUP BY r.status;
   `,
 
   /**
@@ -201,5 +227,6 @@ export const DashboardQueries = {
     FROM returns r
     LEFT JOIN orders o ON r.order_id = o.id
     LEFT JOIN users u ON r.user_id = u.id
+    WHERE o.archived_at IS NULL
   `,
 };
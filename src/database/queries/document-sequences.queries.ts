@@ -0,0 +1,31 @@
+/**
+ * Reservar el siguiente número de una serie de documentos para un año (facturas rectificativas, ...).
+ * - Crea el contador de la serie y el año si no existe (empieza en 1).
+ * - Guarda el número en `LAST_INSERT_ID()` de la conexión, que se lee con `GET_RESERVED_DOCUMENT_NUMBER`.
+ * - La fila queda bloqueada hasta el final de la transacción: si se hace rollback el número no se consume,
+ *   así la serie no tiene huecos.
+ * @constant
+ * @type {string}
+ * @param {string} series - Serie del documento (p.ej. 'R')
+ * @param {number} year - Año de emisión
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(RESERVE_DOCUMENT_NUMBER, ['R', 2026]);
+ */
+export const RESERVE_DOCUMENT_NUMBER = `
+    INSERT INTO document_sequences (series, year, last_number)
+    VALUES (?, ?, LAST_INSERT_ID(1))
+    ON DUPLICATE KEY UPDATE last_number = LAST_INSERT_ID(last_number + 1)
+`;
+
+/**
+ * Leer el número reservado con `RESERVE_DOCUMENT_NUMBER` (en la misma conexión)
+ * @constant
+ * @type {string}
+ * @returns {Promise<Array<{number:number}>>} Número reservado
+ * @example
+ * const [rows] = await conn.query(GET_RESERVED_DOCUMENT_NUMBER);
+ */
+export const GET_RESERVED_DOCUMENT_NUMBER = `
+    SELECT LAST_INSERT_ID() AS number
+`;
@@ -0,0 +1,79 @@
+/**
+ * Reservar una clave de idempotencia (si ya existe en el mismo ámbito no inserta nada)
+ * @constant
+ * @type {string}
+ * @param {string} scope - Ámbito de la clave: usuario autenticado (`user:12`) o `anonymous`
+ * @param {string} idempotencyKey - Valor de la cabecera `Idempotency-Key`
+ * @param {string} method - Método HTTP
+ * @param {string} path - Ruta de la petición (sin query)
+ * @param {string} requestHash - SHA-256 del método, la ruta y el body
+ * @returns {Promise<Object>} Resultado con `affectedRows` (1 si se ha reservado, 0 si ya existía)
+ * @example
+ * const [res] = await db.query(INSERT_IDEMPOTENCY_KEY, ['user:12', key, 'POST', '/api/orders', hash]);
+ */
+export const INSERT_IDEMPOTENCY_KEY = `
+    INSERT IGNORE INTO idempotency_keys (scope, idempotency_key, method, path, request_hash, status)
+    VALUES (?, ?, ?, ?, ?, 'processing')
+`;
+
+/**
+ * Obtener una clave de idempotencia con la respuesta guardada
+ * @constant
+ * @type {string}
+ * @param {string} scope - Ámbito de la clave
+ * @param {string} idempotencyKey - Valor de la cabecera `Idempotency-Key`
+ * @returns {Promise<Array<Object>>} Clave con `request_hash`, `status`, `response_status` y `response_body`
+ * @example
+ * const [rows] = await db.query(GET_IDEMPOTENCY_KEY, ['user:12', key]);
+ */
+export const GET_IDEMPOTENCY_KEY = `
+    SELECT id, method, path, request_hash, status, response_status, response_body, created_at
+    FROM idempotency_keys
+    WHERE scope = ? AND idempotency_key = ?
+`;
+
+/**
+ * Guardar la respuesta de la petición original para repetirla en los reintentos
+ * @constant
+ * @type {string}
+ * @param {number} responseStatus - Código HTTP de la respuesta
+ * @param {string} responseBody - Body JSON de la respuesta
+ * @param {number} id - ID de la clave
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(COMPLETE_IDEMPOTENCY_KEY, [200, JSON.stringify(body), id]);
+ */
+export const COMPLETE_IDEMPOTENCY_KEY = `
+    UPDATE idempotency_keys
+    SET status = 'completed', response_status = ?, response_body = ?, completed_at = NOW()
+    WHERE id = ?
+`;
+
+/**
+ * Liberar una clave (la petición falló con un error de servidor y se puede reintentar con la misma clave)
+ * @constant
+ * @type {string}
+ * @param {number} id - ID de la clave
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(DELETE_IDEMPOTENCY_KEY, [id]);
+ */
+export const DELETE_IDEMPOTENCY_KEY = `
+    DELETE FROM idempotency_keys WHERE id = ?
+`;
+
+/**
+ * Borrar la clave de un ámbito si ha caducado (para poder reutilizarla)
+ * @constant
+ * @type {string}
+ * @param {string} scope - Ámbito de la clave
+ * @param {string} idempotencyKey - Valor de la cabecera `Idempotency-Key`
+ * @param {number} ttlHours - Horas que se conserva una clave
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(DELETE_EXPIRED_IDEMPOTENCY_KEY, ['user:12', key, 24]);
+ */
+export const DELETE_EXPIRED_IDEMPOTENCY_KEY = `
+    DELETE FROM idempotency_keys
+    WHERE scope = ? AND idempotency_key = ? AND created_at < DATE_SUB(NOW(), INTERVAL ? HOUR)
+`;
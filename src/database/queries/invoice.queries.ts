@@ -1,5 +1,5 @@
 /**
- * Obtener información de un pedido junto con la dirección y datos del usuario
+ * Obtener información de un pedido junto con la dirección, datos del usuario y número de factura (si ya se ha emitido)
  * @param {number} orderId - ID del pedido
  * @returns {Promise<Object>} Información completa del pedido, incluyendo dirección y datos del usuario
  * @example
@@ -8,12 +8,18 @@
 export const GET_ORDER_WITH_ADDRESS = `
     SELECT 
         o.id, o.user_id, o.total, o.total_paid, o.discount_amount, o.promotion_code, o.created_at, o.status,
-        u.first_name, u.last_name, u.email,
+        o.is_gift, o.gift_message, o.gift_wrap, o.gift_wrap_fee, o.gift_hide_prices,
+        o.tax_zone, o.tax_base, o.tax_amount, o.tax_breakdown,
+        o.currency, o.exchange_rate, o.total_eur,
+        o.shipping_method, o.shipping_method_name, o.shipping_zone, o.shipping_cost,
+        u.first_name, u.last_name, u.email, u.role AS user_role,
         CONCAT(a.first_name, ' ', a.last_name) AS full_name,
-        a.street, a.city, a.province, a.postal_code, a.country, a.phone
+        a.street, a.city, a.province, a.postal_code, a.country, a.phone,
+        i.number AS invoice_number, i.issued_at AS invoice_date
     FROM orders o
     LEFT JOIN addresses a ON o.address_id = a.id
     LEFT JOIN users u ON o.user_id = u.id
+    LEFT JOIN invoices i ON i.order_id = o.id
     WHERE o.id = ?;
 `;
 
@@ -39,7 +45,7 @@ export const GET_USER_BY_ID = `
  */
 export const GET_ORDER_ITEMS_WITH_PRODUCT = `
     SELECT 
-        oi.quantity, oi.price, 
+        oi.quantity, oi.price, oi.vat_rate, oi.tax_amount,
         p.name, p.image_url, p.size, p.color, p.sku
     FROM order_items oi
     JOIN products p ON oi.product_id = p.id
@@ -47,7 +53,7 @@ export const GET_ORDER_ITEMS_WITH_PRODUCT = `
 `;
 
 /**
- * Obtener todos los pagos realizados para un pedido específico
+ * Obtener todos los pagos realizados para un pedido específico (sin los no aplicados, que se devuelven enteros)
  * @param {number} orderId - ID del pedido
  * @returns {Promise<Array>} Lista de pagos asociados al pedido
  * @example
@@ -56,5 +62,104 @@ export const GET_ORDER_ITEMS_WITH_PRODUCT = `
 export const GET_PAYMENTS_BY_ORDER = `
     SELECT id, method, status, transaction_id, amount, discount_amount, promotion_code, created_at
     FROM payments
-    WHERE order_id = ?;
+    WHERE order_id = ? AND unapplied = 0;
+`;
+
+/**
+ * Bloquear un pedido para emitir su factura (evita emitir dos facturas del mismo pedido a la vez)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{id:number, user_id:number}>>} Pedido
+ * @example
+ * const [rows] = await conn.query(LOCK_ORDER_FOR_INVOICE, [orderId]);
+ */
+export const LOCK_ORDER_FOR_INVOICE = `
+    SELECT id, user_id
+    FROM orders
+    WHERE id = ?
+    FOR UPDATE
+`;
+
+/**
+ * Contar los pagos cobrados de un pedido (aunque después se hayan reembolsado; no cuenta los no aplicados)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{count:number}>>} Número de pagos cobrados
+ * @example
+ * const [rows] = await db.query(COUNT_PAID_PAYMENTS, [orderId]);
+ */
+export const COUNT_PAID_PAYMENTS = `
+    SELECT COUNT(*) AS count
+    FROM payments
+    WHERE order_id = ? AND status IN ('completed', 'partially_refunded', 'refunded') AND unapplied = 0
+`;
+
+/**
+ * Obtener la factura emitida de un pedido (sin el PDF), con el cliente del pedido para comprobar permisos
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Factura (`has_pdf` indica si el PDF ya está guardado)
+ * @example
+ * const [rows] = await db.query(GET_INVOICE_BY_ORDER, [orderId]);
+ */
+export const GET_INVOICE_BY_ORDER = `
+    SELECT i.id, i.number, i.series, i.year, i.sequence, i.order_id, i.data, i.issued_at,
+        i.pdf IS NOT NULL AS has_pdf, o.user_id
+    FROM invoices i
+    JOIN orders o ON o.id = i.order_id
+    WHERE i.order_id = ?
+`;
+
+/**
+ * Obtener el PDF guardado de una factura
+ * @constant
+ * @type {string}
+ * @param {number} invoiceId - ID de la factura
+ * @returns {Promise<Array<{pdf: Buffer | null}>>} PDF de la factura
+ * @example
+ * const [rows] = await db.query(GET_INVOICE_PDF, [invoiceId]);
+ */
+export const GET_INVOICE_PDF = `
+    SELECT pdf
+    FROM invoices
+    WHERE id = ?
+`;
+
+/**
+ * Registrar una factura con sus datos congelados (el PDF se guarda después con `UPDATE_INVOICE_PDF`)
+ * @constant
+ * @type {string}
+ * @param {string} number - Número completo (p.ej. '2026-A-000123')
+ * @param {string} series - Serie ('A')
+ * @param {number} year - Año de emisión
+ * @param {number} sequence - Número dentro de la serie y el año
+ * @param {number} orderId - ID del pedido
+ * @param {string} data - JSON con los datos del pedido en el momento de la emisión (`OrderData`)
+ * @param {Date} issuedAt - Fecha de emisión
+ * @returns {Promise<Object>} Resultado con `insertId`
+ * @example
+ * const [res] = await conn.query(INSERT_INVOICE, ['2026-A-000123', 'A', 2026, 123, orderId, json, new Date()]);
+ */
+export const INSERT_INVOICE = `
+    INSERT INTO invoices (number, series, year, sequence, order_id, data, issued_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+`;
+
+/**
+ * Guardar el PDF de una factura
+ * @constant
+ * @type {string}
+ * @param {Buffer} pdf - PDF generado
+ * @param {number} invoiceId - ID de la factura
+ * @returns {Promise<Object>} Resultado del UPDATE
+ * @example
+ * await db.query(UPDATE_INVOICE_PDF, [pdfBuffer, invoiceId]);
+ */
+export const UPDATE_INVOICE_PDF = `
+    UPDATE invoices
+    SET pdf = ?
+    WHERE id = ?
 `;
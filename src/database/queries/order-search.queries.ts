@@ -0,0 +1,72 @@
+/**
+ * Tablas comunes de la búsqueda de pedidos: pedido, cliente y último pago del pedido
+ * (el estado de pago de un pedido es el de su último pago; `unpaid` si no tiene ninguno).
+ */
+const ORDER_SEARCH_FROM = `
+    FROM orders o
+    JOIN users u ON u.id = o.user_id
+    LEFT JOIN payments p ON p.id = (SELECT MAX(p2.id) FROM payments p2 WHERE p2.order_id = o.id)
+`;
+
+/**
+ * Buscar pedidos (admin) con filtros, orden y paginación
+ * @param {string} where - Cláusula `WHERE ...` con placeholders (construida por `OrderSearchService`)
+ * @param {string} orderBy - Cláusula `ORDER BY ...` (solo columnas de la lista permitida)
+ * @returns {string} SQL dinámico; los dos últimos parámetros son `LIMIT ?` y `OFFSET ?`
+ * @example
+ * const [rows] = await db.query(SEARCH_ORDERS('WHERE o.archived_at IS NULL', 'ORDER BY o.created_at DESC, o.id DESC'), [20, 0]);
+ */
+export const SEARCH_ORDERS = (where: string, orderBy: string) => `
+    SELECT
+        o.id, o.user_id, o.status, o.total, o.total_paid, o.discount_amount, o.promotion_code,
+        o.archived_at, o.replacement_for_order_id, o.created_at, o.updated_at,
+        u.first_name, u.last_name, u.email,
+        COALESCE(p.status, 'unpaid') AS payment_status,
+        (SELECT COALESCE(SUM(oi.quantity), 0) FROM order_items oi WHERE oi.order_id = o.id) AS items_count,
+        (SELECT s.tracking_number FROM shipments s WHERE s.order_id = o.id AND s.tracking_number IS NOT NULL ORDER BY s.id DESC LIMIT 1) AS tracking_number
+    ${ORDER_SEARCH_FROM}
+    ${where}
+    ${orderBy}
+    LIMIT ? OFFSET ?
+`;
+
+/**
+ * Contar los pedidos que cumplen los filtros de la búsqueda
+ * @param {string} where - La misma cláusula `WHERE ...` que en `SEARCH_ORDERS`
+ * @returns {string} SQL dinámico
+ * @example
+ * const [rows] = await db.query(COUNT_SEARCH_ORDERS('WHERE o.status = ?'), ['completed']);
+ */
+export const COUNT_SEARCH_ORDERS = (where: string) => `
+    SELECT COUNT(*) AS total
+    ${ORDER_SEARCH_FROM}
+    ${where}
+`;
+
+/**
+ * Condición de texto libre: nº de pedido, nombre o email del cliente, SKU de alguna línea o nº de seguimiento de algún envío
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido (o -1 si el texto no es un número)
+ * @param {string} namePattern - Patrón `LIKE` del nombre completo
+ * @param {string} emailPattern - Patrón `LIKE` del email
+ * @param {string} skuPattern - Patrón `LIKE` del SKU
+ * @param {string} trackingPattern - Patrón `LIKE` del nº de seguimiento
+ * @example
+ * conditions.push(ORDER_SEARCH_TEXT_CONDITION);
+ * values.push(orderId, like, like, like, like);
+ */
+export const ORDER_SEARCH_TEXT_CONDITION = `(
+    o.id = ?
+    OR CONCAT(u.first_name, ' ', u.last_name) LIKE ?
+    OR u.email LIKE ?
+    OR EXISTS (
+        SELECT 1 FROM order_items oi
+        JOIN products pr ON pr.id = oi.product_id
+        WHERE oi.order_id = o.id AND pr.sku LIKE ?
+    )
+    OR EXISTS (
+        SELECT 1 FROM shipments s
+        WHERE s.order_id = o.id AND s.tracking_number LIKE ?
+    )
+)`;
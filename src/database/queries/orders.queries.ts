@@ -5,14 +5,29 @@
  * @param {number} userId - ID del usuario que realiza el pedido
  * @param {number} addressId - ID de la dirección de envío
  * @param {string} status - Estado inicial del pedido (ej: 'pending')
- * @param {number} total - Total del pedido
+ * @param {number} total - Total del pedido en su divisa (incluye el recargo por envoltorio de regalo y los gastos de envío)
+ * @param {boolean} isGift - Si el pedido es un regalo
+ * @param {string|null} giftMessage - Mensaje de regalo
+ * @param {boolean} giftWrap - Si se envuelve para regalo
+ * @param {number} giftWrapFee - Recargo por envoltorio aplicado (0 si no hay)
+ * @param {boolean} giftHidePrices - Si el paquete no debe llevar documentos con precios
+ * @param {string} currency - Divisa del pedido (`EUR`, `GBP`, `CHF`)
+ * @param {number} exchangeRate - Unidades de la divisa por euro al crear el pedido (1 en euros)
+ * @param {number} totalEur - Equivalente en euros del total
+ * @param {string} shippingMethod - Método de envío (`standard`, `express`, `pickup`)
+ * @param {string} shippingMethodName - Nombre del método al crear el pedido
+ * @param {string} shippingZone - Zona de envío (`peninsula`, `baleares`, `canarias`, `eu`, `rest`)
+ * @param {number} shippingCost - Gastos de envío en la divisa del pedido (0 si es gratis)
  * @returns {Promise<void>}
  * @example
- * await db.query(CREATE_ORDER, [userId, addressId, status, total]);
+ * await db.query(CREATE_ORDER, [userId, addressId, status, total, false, null, false, 0, false, 'EUR', 1, total, 'standard', 'Envío estándar', 'peninsula', 4.95]);
  */
 export const CREATE_ORDER = `
-    INSERT INTO orders (user_id, address_id, status, total)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO orders (
+        user_id, address_id, status, total, is_gift, gift_message, gift_wrap, gift_wrap_fee, gift_hide_prices, currency, exchange_rate, total_eur,
+        shipping_method, shipping_method_name, shipping_zone, shipping_cost
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 `;
 
 /**
@@ -22,18 +37,20 @@ export const CREATE_ORDER = `
  * @param {number} orderId - ID del pedido
  * @param {number} productId - ID del producto
  * @param {number} quantity - Cantidad del producto
- * @param {number} price - Precio unitario del producto
+ * @param {number} price - Precio unitario del producto (IVA incluido)
+ * @param {number} vatRate - Tipo de IVA aplicado a la línea (0 en destinos exentos)
+ * @param {number} taxAmount - Cuota de IVA de la línea (precio × cantidad)
  * @returns {Promise<void>}
  * @example
- * await db.query(CREATE_ORDER_ITEM, [orderId, productId, quantity, price]);
+ * await db.query(CREATE_ORDER_ITEM, [orderId, productId, quantity, price, 21, 3.47]);
  */
 export const CREATE_ORDER_ITEM = `
-    INSERT INTO order_items (order_id, product_id, quantity, price)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO order_items (order_id, product_id, quantity, price, vat_rate, tax_amount)
+    VALUES (?, ?, ?, ?, ?, ?)
 `;
 
 /**
- * Obtener todos los pedidos de un usuario junto con items y dirección
+ * Obtener todos los pedidos de un usuario junto con items y dirección (sin los archivados)
  * @constant
  * @type {string}
  * @param {number} userId - ID del usuario
@@ -44,14 +61,18 @@ export const CREATE_ORDER_ITEM = `
 export const GET_ORDERS_BY_USER = `
     SELECT 
         o.id, o.user_id, o.status, o.total, o.total_paid, o.discount_amount, o.promotion_code, o.address_id, o.created_at, o.updated_at,
+        o.currency, o.exchange_rate, o.total_eur,
+        o.shipping_method, o.shipping_method_name, o.shipping_zone, o.shipping_cost,
+        o.is_gift, o.gift_message, o.gift_wrap, o.gift_wrap_fee, o.gift_hide_prices,
+        o.tax_zone, o.tax_base, o.tax_amount, o.tax_breakdown,
         a.first_name, a.last_name, a.street, a.city, a.province, a.postal_code, a.country, a.phone,
-        oi.id AS order_item_id, oi.product_id, oi.quantity, oi.price,
+        oi.id AS order_item_id, oi.product_id, oi.quantity, oi.price, oi.vat_rate, oi.tax_amount AS item_tax_amount,
         p.name AS product_name, p.image_url, p.size, p.color, p.sku
     FROM orders o
     LEFT JOIN addresses a ON o.address_id = a.id
     LEFT JOIN order_items oi ON o.id = oi.order_id
     LEFT JOIN products p ON oi.product_id = p.id
-    WHERE o.user_id = ?
+    WHERE o.user_id = ? AND o.archived_at IS NULL
     ORDER BY o.created_at DESC;
 `;
 
@@ -67,8 +88,15 @@ export const GET_ORDERS_BY_USER = `
 export const GET_ORDER_BY_ID = `
     SELECT 
         o.id, o.user_id, o.status, o.total, o.total_paid, o.discount_amount, o.promotion_code, o.address_id, o.created_at, o.updated_at,
+        o.currency, o.exchange_rate, o.total_eur,
+        o.shipping_method, o.shipping_method_name, o.shipping_zone, o.shipping_cost,
+        o.cancelled_by, o.cancellation_reason, o.cancel_restocked, o.cancelled_at, o.archived_at, o.archived_by, o.archive_reason,
+        o.replacement_for_order_id, o.replacement_return_id,
+        o.is_gift, o.gift_message, o.gift_wrap, o.gift_wrap_fee, o.gift_hide_prices,
+        o.tax_zone, o.tax_base, o.tax_amount, o.tax_breakdown,
+        o.stripe_dispute_id, o.dispute_status, o.dispute_reason, o.dispute_amount, o.disputed_at, o.dispute_closed_at,
         a.first_name, a.last_name, a.street, a.city, a.province, a.postal_code, a.country, a.phone,
-        oi.id AS order_item_id, oi.product_id, oi.quantity, oi.price,
+        oi.id AS order_item_id, oi.product_id, oi.quantity, oi.price, oi.vat_rate, oi.tax_amount AS item_tax_amount,
         p.name AS product_name, p.image_url, p.size, p.color, p.sku
     FROM orders o
     LEFT JOIN addresses a ON o.address_id = a.id
@@ -78,15 +106,31 @@ export const GET_ORDER_BY_ID = `
 `;
 
 /**
- * Obtener todos los pedidos
+ * Obtener todos los pedidos no archivados
  * @constant
  * @type {string}
- * @returns {Promise<Array<Object>>} Lista de todos los pedidos
+ * @returns {Promise<Array<Object>>} Lista de pedidos activos
  * @example
  * const allOrders = await db.query(GET_ALL_ORDERS);
  */
 export const GET_ALL_ORDERS = `
-    SELECT * FROM orders
+    SELECT * FROM orders WHERE archived_at IS NULL
+`;
+
+/**
+ * Obtener los pedidos archivados, del último archivado al primero
+ * @constant
+ * @type {string}
+ * @returns {Promise<Array<Object>>} Lista de pedidos archivados con el nombre de quien los archivó
+ * @example
+ * const [archived] = await db.query(GET_ARCHIVED_ORDERS);
+ */
+export const GET_ARCHIVED_ORDERS = `
+    SELECT o.*, u.first_name AS archived_by_name
+    FROM orders o
+    LEFT JOIN users u ON o.archived_by = u.id
+    WHERE o.archived_at IS NOT NULL
+    ORDER BY o.archived_at DESC
 `;
 
 /**
@@ -178,3 +222,337 @@ export const GET_RETURN_BY_ID = `
     LEFT JOIN orders o ON r.order_id = o.id
     WHERE r.id = ?
 `;
+
+/**
+ * Actualizar el estado de un pedido solo si sigue en el estado esperado
+ * (evita condiciones de carrera entre dos cambios de estado simultáneos)
+ * @constant
+ * @type {string}
+ * @param {string} status - Nuevo estado del pedido
+ * @param {number} orderId - ID del pedido
+ * @param {string} currentStatus - Estado que debe tener el pedido para aplicar el cambio
+ * @returns {Promise<ResultSetHeader>} `affectedRows = 0` si el estado cambió entre medias
+ * @example
+ * await db.query(UPDATE_ORDER_STATUS_IF_CURRENT, ['shipped', orderId, 'completed']);
+ */
+export const UPDATE_ORDER_STATUS_IF_CURRENT = `
+    UPDATE orders SET status = ? WHERE id = ? AND status = ?
+`;
+
+/**
+ * Registrar una transición de estado en el historial del pedido
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @param {string|null} fromStatus - Estado anterior
+ * @param {string} toStatus - Estado nuevo
+ * @param {number|null} changedBy - ID del usuario que realiza el cambio (null si es el sistema, p.ej. webhook)
+ * @param {string|null} note - Nota opcional
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(INSERT_ORDER_STATUS_HISTORY, [orderId, 'completed', 'shipped', adminId, 'Enviado por SEUR']);
+ */
+export const INSERT_ORDER_STATUS_HISTORY = `
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, note)
+    VALUES (?, ?, ?, ?, ?)
+`;
+
+/**
+ * Obtener el historial de estados de un pedido, con los datos de quién realizó cada cambio
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Transiciones ordenadas de la más antigua a la más reciente
+ * @example
+ * const [history] = await db.query(GET_ORDER_STATUS_HISTORY, [orderId]);
+ */
+export const GET_ORDER_STATUS_HISTORY = `
+    SELECT 
+        h.id, h.order_id, h.from_status, h.to_status, h.changed_by, h.note, h.created_at,
+        u.first_name, u.last_name, u.role
+    FROM order_status_history h
+    LEFT JOIN users u ON h.changed_by = u.id
+    WHERE h.order_id = ?
+    ORDER BY h.created_at ASC, h.id ASC
+`;
+
+/**
+ * Bloquear (SELECT ... FOR UPDATE) los productos de un pedido dentro de una transacción.
+ * Se ordenan por ID para que dos transacciones concurrentes bloqueen las filas en el mismo orden.
+ * @constant
+ * @type {string}
+ * @param {number[]} productIds - IDs de los productos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<{id:number, name:string, price:number, stock:number|null, weight:number|null}>>} Productos bloqueados
+ * @example
+ * const [products] = await conn.query(LOCK_PRODUCTS_FOR_UPDATE, [[1, 2, 3]]);
+ */
+export const LOCK_PRODUCTS_FOR_UPDATE = `
+    SELECT id, name, price, stock, weight
+    FROM products
+    WHERE id IN (?)
+    ORDER BY id
+    FOR UPDATE
+`;
+
+/**
+ * Descontar stock de un producto (solo si hay stock suficiente o el stock no está controlado)
+ * @constant
+ * @type {string}
+ * @param {number} quantity - Cantidad a descontar
+ * @param {number} productId - ID del producto
+ * @param {number} quantity - Cantidad mínima disponible requerida (la misma cantidad)
+ * @returns {Promise<ResultSetHeader>} `affectedRows = 0` si no hay stock suficiente
+ * @example
+ * await conn.query(DECREMENT_PRODUCT_STOCK, [2, productId, 2]);
+ */
+export const DECREMENT_PRODUCT_STOCK = `
+    UPDATE products
+    SET stock = stock - ?
+    WHERE id = ? AND (stock IS NULL OR stock >= ?)
+`;
+
+/**
+ * Reponer stock de un producto (p.ej. al cancelar o caducar un pedido)
+ * @constant
+ * @type {string}
+ * @param {number} quantity - Cantidad a reponer
+ * @param {number} productId - ID del producto
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(INCREMENT_PRODUCT_STOCK, [2, productId]);
+ */
+export const INCREMENT_PRODUCT_STOCK = `
+    UPDATE products SET stock = stock + ? WHERE id = ?
+`;
+
+/**
+ * Obtener producto y cantidad de cada línea de un pedido
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{product_id:number, quantity:number}>>} Líneas del pedido
+ * @example
+ * const [items] = await conn.query(GET_ORDER_ITEM_QUANTITIES, [orderId]);
+ */
+export const GET_ORDER_ITEM_QUANTITIES = `
+    SELECT product_id, quantity FROM order_items WHERE order_id = ?
+`;
+
+/**
+ * Obtener pedidos pendientes de pago creados antes de una fecha límite, por páginas de ID
+ * (sin los pedidos de cambio, que esperan a que el cliente pague la diferencia y no caducan,
+ * ni los que tienen un pago en curso, p.ej. un adeudo SEPA pendiente de confirmar)
+ * @constant
+ * @type {string}
+ * @param {Date} cutoff - Fecha límite (pedidos con `created_at` anterior)
+ * @param {number} afterId - Devolver solo pedidos con ID mayor (0 para la primera página)
+ * @param {number} limit - Número máximo de pedidos a devolver
+ * @returns {Promise<Array<{id:number, user_id:number, stripe_session_id:string|null, created_at:Date}>>} Pedidos a caducar
+ * @example
+ * const [orders] = await db.query(GET_UNPAID_ORDERS_BEFORE, [cutoff, 0, 100]);
+ */
+export const GET_UNPAID_ORDERS_BEFORE = `
+    SELECT id, user_id, stripe_session_id, created_at
+    FROM orders
+    WHERE status = 'pending' AND created_at < ? AND id > ? AND replacement_for_order_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.order_id = orders.id AND p.status = 'pending')
+    ORDER BY id ASC
+    LIMIT ?
+`;
+
+/**
+ * Bloquear la fila de un pedido dentro de una transacción
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{id:number, user_id:number, status:string, replacement_for_order_id:number|null}>>} Pedido bloqueado
+ * @example
+ * const [rows] = await conn.query(LOCK_ORDER_FOR_UPDATE, [orderId]);
+ */
+export const LOCK_ORDER_FOR_UPDATE = `
+    SELECT id, user_id, status, replacement_for_order_id FROM orders WHERE id = ? FOR UPDATE
+`;
+
+/**
+ * Bloquear un pedido del usuario para crear una devolución (evita devoluciones simultáneas de las mismas líneas)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @param {number} userId - ID del usuario propietario
+ * @returns {Promise<Array<Object>>} Pedido con estado y totales
+ * @example
+ * const [rows] = await conn.query(LOCK_USER_ORDER_FOR_RETURN, [orderId, userId]);
+ */
+export const LOCK_USER_ORDER_FOR_RETURN = `
+    SELECT id, user_id, status, total, total_paid, discount_amount
+    FROM orders
+    WHERE id = ? AND user_id = ?
+    FOR UPDATE
+`;
+
+/**
+ * Obtener las líneas de un pedido con nombre de producto (para calcular devoluciones)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{id:number, product_id:number, quantity:number, price:number, product_name:string}>>} Líneas del pedido
+ * @example
+ * const [items] = await conn.query(GET_ORDER_ITEMS_FOR_RETURN, [orderId]);
+ */
+export const GET_ORDER_ITEMS_FOR_RETURN = `
+    SELECT oi.id, oi.product_id, oi.quantity, oi.price, p.name AS product_name
+    FROM order_items oi
+    LEFT JOIN products p ON oi.product_id = p.id
+    WHERE oi.order_id = ?
+`;
+
+/**
+ * Cantidades ya solicitadas para devolución por línea de pedido (excluye devoluciones rechazadas)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{order_item_id:number, returned_quantity:number}>>} Cantidad devuelta o en curso por línea
+ * @example
+ * const [rows] = await conn.query(GET_RETURNED_QUANTITIES_BY_ORDER, [orderId]);
+ */
+export const GET_RETURNED_QUANTITIES_BY_ORDER = `
+    SELECT ri.order_item_id, SUM(ri.quantity) AS returned_quantity
+    FROM return_items ri
+    JOIN returns r ON ri.return_id = r.id
+    WHERE r.order_id = ? AND r.status <> 'rejected'
+    GROUP BY ri.order_item_id
+`;
+
+/**
+ * Crear una línea de devolución
+ * @constant
+ * @type {string}
+ * @param {number} returnId - ID de la devolución
+ * @param {number} orderItemId - ID de la línea del pedido
+ * @param {number} quantity - Unidades devueltas
+ * @param {string} reason - Motivo de la devolución de esta línea
+ * @param {number} refundAmount - Importe reembolsable (incluye la parte proporcional del descuento)
+ * @param {number|null} exchangeProductId - Variante que se pide a cambio (NULL si se pide reembolso)
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(CREATE_RETURN_ITEM, [returnId, orderItemId, 1, 'Talla pequeña', 24.5, 58]);
+ */
+export const CREATE_RETURN_ITEM = `
+    INSERT INTO return_items (return_id, order_item_id, quantity, reason, refund_amount, exchange_product_id, status)
+    VALUES (?, ?, ?, ?, ?, ?, 'pending')
+`;
+
+/**
+ * Obtener las líneas de varias devoluciones con datos del producto
+ * @constant
+ * @type {string}
+ * @param {number[]} returnIds - IDs de las devoluciones (se expanden en `IN (?)`)
+ * @returns {Promise<Array<Object>>} Líneas de devolución
+ * @example
+ * const [items] = await db.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [[1, 2]]);
+ */
+export const GET_RETURN_ITEMS_BY_RETURN_IDS = `
+    SELECT 
+        ri.id, ri.return_id, ri.order_item_id, ri.quantity, ri.reason, ri.refund_amount, ri.status,
+        ri.inspection_result, ri.inspection_note, ri.approved_refund_amount,
+        ri.exchange_product_id, ri.exchange_reserved,
+        oi.product_id, oi.price,
+        p.name AS product_name, p.image_url, p.size, p.color, p.sku,
+        ep.name AS exchange_product_name, ep.size AS exchange_size, ep.color AS exchange_color, ep.sku AS exchange_sku, ep.price AS exchange_price
+    FROM return_items ri
+    JOIN order_items oi ON ri.order_item_id = oi.id
+    LEFT JOIN products p ON oi.product_id = p.id
+    LEFT JOIN products ep ON ri.exchange_product_id = ep.id
+    WHERE ri.return_id IN (?)
+    ORDER BY ri.id
+`;
+
+/**
+ * Actualizar el estado de todas las líneas de una devolución
+ * @constant
+ * @type {string}
+ * @param {string} status - Nuevo estado de las líneas
+ * @param {number} returnId - ID de la devolución
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(UPDATE_RETURN_ITEMS_STATUS, ['approved', returnId]);
+ */
+export const UPDATE_RETURN_ITEMS_STATUS = `
+    UPDATE return_items SET status = ? WHERE return_id = ?
+`;
+
+/**
+ * Obtener precio y stock actuales de varios productos (para repetir un pedido)
+ * @constant
+ * @type {string}
+ * @param {number[]} productIds - IDs de los productos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<{id:number, name:string, price:number, stock:number|null}>>} Productos que siguen existiendo
+ * @example
+ * const [products] = await db.query(GET_PRODUCTS_FOR_REORDER, [[1, 2, 3]]);
+ */
+export const GET_PRODUCTS_FOR_REORDER = `
+    SELECT id, name, price, stock FROM products WHERE id IN (?)
+`;
+
+/**
+ * Registrar quién cancela un pedido, cuándo y por qué
+ * @constant
+ * @type {string}
+ * @param {number|null} cancelledBy - ID del usuario (cliente o administrador) que cancela
+ * @param {string|null} reason - Motivo de la cancelación
+ * @param {boolean} restocked - Si se ha repuesto el stock del pedido
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(SET_ORDER_CANCELLATION, [adminId, 'Cliente llama para anular', true, orderId]);
+ */
+export const SET_ORDER_CANCELLATION = `
+    UPDATE orders
+    SET cancelled_by = ?, cancellation_reason = ?, cancel_restocked = ?, cancelled_at = NOW()
+    WHERE id = ?
+`;
+
+/**
+ * Archivar un pedido (borrado lógico). Solo afecta a pedidos que no estén ya archivados.
+ * @constant
+ * @type {string}
+ * @param {number} archivedBy - ID del administrador que archiva
+ * @param {string} reason - Motivo del archivado
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Object>} Resultado con `affectedRows` (0 si ya estaba archivado)
+ * @example
+ * const [res] = await db.query(ARCHIVE_ORDER, [adminId, 'Pedido de prueba', orderId]);
+ */
+export const ARCHIVE_ORDER = `
+    UPDATE orders
+    SET archived_at = NOW(), archived_by = ?, archive_reason = ?
+    WHERE id = ? AND archived_at IS NULL
+`;
+
+/**
+ * Restaurar un pedido archivado
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Object>} Resultado con `affectedRows` (0 si no estaba archivado)
+ * @example
+ * const [res] = await db.query(RESTORE_ORDER, [orderId]);
+ */
+export const RESTORE_ORDER = `
+    UPDATE orders
+    SET archived_at = NULL, archived_by = NULL, archive_reason = NULL
+    WHERE id = ? AND archived_at IS NOT NULL
+`;
+
+/**
+ * Número de pagos registrados para un pedido (en cualquier estado)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{count:number}>>} Total de pagos del pedido
+ * @example
+ * const [rows] = await conn.query(COUNT_ORDER_PAYMENTS, [orderId]);
+ */
+export const COUNT_ORDER_PAYMENTS = `
+    SELECT COUNT(*) AS count FROM payments WHERE order_id = ?
+`;
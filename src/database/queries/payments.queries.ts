@@ -40,6 +40,7 @@ export const UPDATE_ORDER_STATUS = `
  * @param {number} discountAmount - Monto de descuento aplicado
  * @param {string|null} promotionCode - Código de promoción usado, si aplica
  * @returns {Promise<void>} Inserta el registro de pago en la tabla `payments`
+ * (falla con `ER_DUP_ENTRY` si la transacción ya está registrada: `transaction_id` es único)
  * @example
  * await db.query(INSERT_PAYMENT_RECORD, [orderId, transactionId, amount, status, method, discountAmount, promotionCode]);
  */
@@ -63,3 +64,182 @@ export const UPDATE_ORDER_TOTALS = `
     SET total_paid = ?, discount_amount = ?, promotion_code = ?
     WHERE id = ?;
 `;
+
+/**
+ * Guardar la sesión de Stripe Checkout asociada a un pedido
+ * @param {string} sessionId - ID de la sesión de Stripe Checkout
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<void>} Actualiza `orders.stripe_session_id`
+ * @example
+ * await db.query(SET_ORDER_CHECKOUT_SESSION, [session.id, orderId]);
+ */
+export const SET_ORDER_CHECKOUT_SESSION = `
+    UPDATE orders
+    SET stripe_session_id = ?
+    WHERE id = ?;
+`;
+
+/**
+ * Líneas de un pedido con los datos del producto que se envían a Stripe Checkout
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array>} Líneas (id, product_id, quantity, price, vat_rate) con name, image_url, size, color y sku del producto
+ * @example
+ * const [items] = await db.query(GET_ORDER_ITEMS_FOR_CHECKOUT, [orderId]);
+ */
+export const GET_ORDER_ITEMS_FOR_CHECKOUT = `
+    SELECT
+        oi.id, oi.product_id, oi.quantity, oi.price, oi.vat_rate,
+        p.name, p.image_url, p.size, p.color, p.sku
+    FROM order_items oi
+    JOIN products p ON oi.product_id = p.id
+    WHERE oi.order_id = ?
+    ORDER BY oi.id;
+`;
+
+/**
+ * Completar un pago ya registrado de la transacción (pago diferido pendiente o intento fallido que al final se cobra)
+ * @param {number} amount - Importe cobrado
+ * @param {string} method - Método de pago (`card`, `sepa_debit`, `klarna`...)
+ * @param {number} discountAmount - Descuento aplicado
+ * @param {string|null} promotionCode - Código de promoción usado, si aplica
+ * @param {number} paymentId - ID del pago
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(SETTLE_PAYMENT, [49.9, 'sepa_debit', 0, null, paymentId]);
+ */
+export const SETTLE_PAYMENT = `
+    UPDATE payments
+    SET status = 'completed', amount = ?, method = ?, discount_amount = ?, promotion_code = ?
+    WHERE id = ?;
+`;
+
+/**
+ * Obtener el pago de una transacción de Stripe, sea cual sea su estado
+ * (`payments.transaction_id` es único: un PaymentIntent tiene un solo registro)
+ * @param {string} transactionId - ID del PaymentIntent de Stripe
+ * @returns {Promise<Array>} `[{ id, order_id, status }]` (vacío si la transacción no está registrada)
+ * @example
+ * const [rows] = await db.query(GET_PAYMENT_BY_TRANSACTION, ['pi_123']);
+ */
+export const GET_PAYMENT_BY_TRANSACTION = `
+    SELECT id, order_id, status
+    FROM payments
+    WHERE transaction_id = ?;
+`;
+
+/**
+ * Bloquear el pago de una transacción de Stripe dentro de una transacción
+ * (evita registrar dos veces el mismo cobro si el webhook se repite o se reprocesa)
+ * @param {string} transactionId - ID del PaymentIntent de Stripe
+ * @returns {Promise<Array>} `[{ id, order_id, status, unapplied }]` (vacío si la transacción no está registrada)
+ * @example
+ * const [rows] = await conn.query(LOCK_PAYMENT_BY_TRANSACTION, ['pi_123']);
+ */
+export const LOCK_PAYMENT_BY_TRANSACTION = `
+    SELECT id, order_id, status, unapplied
+    FROM payments
+    WHERE transaction_id = ?
+    FOR UPDATE;
+`;
+
+/**
+ * Marcar un pago como no aplicado: se cobró cuando el pedido ya no estaba pendiente (caducado, cancelado
+ * o pagado con otra sesión), así que no cuenta para el pedido ni se factura y se devuelve entero
+ * @param {number} paymentId - ID del pago
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(MARK_PAYMENT_UNAPPLIED, [paymentId]);
+ */
+export const MARK_PAYMENT_UNAPPLIED = `
+    UPDATE payments SET unapplied = 1 WHERE id = ?;
+`;
+
+/**
+ * Marcar que se ha enviado la confirmación de un pedido pagado (email y aviso al admin), solo la primera vez
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Object>} Resultado con `affectedRows` (0 si ya se había enviado)
+ * @example
+ * const [res] = await db.query(CLAIM_ORDER_CONFIRMATION, [orderId]);
+ */
+export const CLAIM_ORDER_CONFIRMATION = `
+    UPDATE orders
+    SET confirmation_sent_at = NOW()
+    WHERE id = ? AND confirmation_sent_at IS NULL;
+`;
+
+/**
+ * Liberar la marca de confirmación enviada de un pedido (el email falló y debe reintentarse)
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(RELEASE_ORDER_CONFIRMATION, [orderId]);
+ */
+export const RELEASE_ORDER_CONFIRMATION = `
+    UPDATE orders
+    SET confirmation_sent_at = NULL
+    WHERE id = ?;
+`;
+
+/**
+ * Actualizar un pago a fallido (nuevo intento fallido de la misma transacción)
+ * @param {string} method - Método de pago del intento
+ * @param {number} paymentId - ID del pago
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(MARK_PAYMENT_FAILED, ['card', paymentId]);
+ */
+export const MARK_PAYMENT_FAILED = `
+    UPDATE payments
+    SET status = 'failed', method = ?
+    WHERE id = ?;
+`;
+
+/**
+ * Obtener el pedido de una transacción de Stripe (PaymentIntent)
+ * @param {string} transactionId - ID del PaymentIntent
+ * @returns {Promise<Array>} `[{ order_id }]` (vacío si la transacción no está registrada)
+ * @example
+ * const [rows] = await db.query(GET_ORDER_ID_BY_TRANSACTION, ['pi_123']);
+ */
+export const GET_ORDER_ID_BY_TRANSACTION = `
+    SELECT order_id
+    FROM payments
+    WHERE transaction_id = ?
+    ORDER BY id
+    LIMIT 1;
+`;
+
+/**
+ * Marcar un pedido como disputado (contracargo abierto en Stripe)
+ * @param {string} disputeId - ID de la disputa en Stripe (`dp_...`)
+ * @param {string} status - Estado de la disputa
+ * @param {string|null} reason - Motivo indicado por el banco (`fraudulent`, `product_not_received`...)
+ * @param {number} amount - Importe disputado
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<void>} Actualiza las columnas `dispute_*` del pedido
+ * @example
+ * await db.query(UPDATE_ORDER_DISPUTE_OPENED, ['dp_123', 'needs_response', 'fraudulent', 49.9, orderId]);
+ */
+export const UPDATE_ORDER_DISPUTE_OPENED = `
+    UPDATE orders
+    SET stripe_dispute_id = ?, dispute_status = ?, dispute_reason = ?, dispute_amount = ?, disputed_at = NOW(), dispute_closed_at = NULL
+    WHERE id = ?;
+`;
+
+/**
+ * Cerrar la disputa de un pedido con su resultado
+ * @param {string} disputeId - ID de la disputa en Stripe
+ * @param {string} status - Estado final (`won`, `lost` o `warning_closed`)
+ * @param {string|null} reason - Motivo de la disputa
+ * @param {number} amount - Importe disputado
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(UPDATE_ORDER_DISPUTE_CLOSED, ['dp_123', 'won', 'fraudulent', 49.9, orderId]);
+ */
+export const UPDATE_ORDER_DISPUTE_CLOSED = `
+    UPDATE orders
+    SET stripe_dispute_id = ?, dispute_status = ?, dispute_reason = ?, dispute_amount = ?,
+        disputed_at = COALESCE(disputed_at, NOW()), dispute_closed_at = NOW()
+    WHERE id = ?;
+`;
@@ -8,14 +8,15 @@
  * @param {string} [size] - Talla o tamaño
  * @param {string} [color] - Color del producto
  * @param {string} [sku] - SKU del producto
+ * @param {number} [weight] - Peso en kg (para las tarifas de envío por peso)
  * @returns {Promise<any>} Resultado de la inserción en la base de datos
  * @example
- * await db.query(CREATE_PRODUCT, [name, description, image_url, price, stock, size, color, sku]);
+ * await db.query(CREATE_PRODUCT, [name, description, image_url, price, stock, size, color, sku, weight]);
  */
 export const CREATE_PRODUCT = `
     INSERT INTO products 
-    (name, description, image_url, price, stock, size, color, sku)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    (name, description, image_url, price, stock, size, color, sku, weight)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
 `;
 
 /**
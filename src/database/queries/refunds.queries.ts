@@ -0,0 +1,365 @@
+/**
+ * Bloquear un pedido para calcular un reembolso (evita reembolsos simultáneos del mismo pedido)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Pedido con estado, total, descuento y divisa
+ * @example
+ * const [rows] = await conn.query(LOCK_ORDER_FOR_REFUND, [orderId]);
+ */
+export const LOCK_ORDER_FOR_REFUND = `
+    SELECT id, user_id, status, total, total_paid, discount_amount, currency
+    FROM orders
+    WHERE id = ?
+    FOR UPDATE
+`;
+
+/**
+ * Bloquear los pagos reembolsables de un pedido (cobrados, con transacción en Stripe y aplicados al pedido)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Pagos `completed` o `partially_refunded`
+ * @example
+ * const [payments] = await conn.query(LOCK_REFUNDABLE_PAYMENTS, [orderId]);
+ */
+export const LOCK_REFUNDABLE_PAYMENTS = `
+    SELECT id, order_id, transaction_id, amount, status
+    FROM payments
+    WHERE order_id = ? AND status IN ('completed', 'partially_refunded') AND transaction_id IS NOT NULL AND unapplied = 0
+    ORDER BY id
+    FOR UPDATE
+`;
+
+/**
+ * Obtener los pagos reembolsables de un pedido (sin bloquearlos ni contar los no aplicados)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Pagos `completed` o `partially_refunded`
+ * @example
+ * const [payments] = await db.query(GET_REFUNDABLE_PAYMENTS, [orderId]);
+ */
+export const GET_REFUNDABLE_PAYMENTS = `
+    SELECT id, order_id, transaction_id, amount, status
+    FROM payments
+    WHERE order_id = ? AND status IN ('completed', 'partially_refunded') AND transaction_id IS NOT NULL AND unapplied = 0
+    ORDER BY id
+`;
+
+/**
+ * Bloquear un pago concreto (para reintentar un reembolso)
+ * @constant
+ * @type {string}
+ * @param {number} paymentId - ID del pago
+ * @returns {Promise<Array<Object>>} Pago
+ * @example
+ * const [rows] = await conn.query(LOCK_PAYMENT_FOR_REFUND, [paymentId]);
+ */
+export const LOCK_PAYMENT_FOR_REFUND = `
+    SELECT id, order_id, transaction_id, amount, status, unapplied
+    FROM payments
+    WHERE id = ?
+    FOR UPDATE
+`;
+
+/**
+ * Importe ya reembolsado (o en curso) por pago. No cuenta los reembolsos fallidos ni cancelados.
+ * @constant
+ * @type {string}
+ * @param {number[]} paymentIds - IDs de los pagos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<{payment_id:number, refunded_amount:number}>>} Importe reembolsado por pago
+ * @example
+ * const [rows] = await conn.query(GET_REFUNDED_AMOUNT_BY_PAYMENT_IDS, [[1, 2]]);
+ */
+export const GET_REFUNDED_AMOUNT_BY_PAYMENT_IDS = `
+    SELECT payment_id, COALESCE(SUM(amount), 0) AS refunded_amount
+    FROM refunds
+    WHERE payment_id IN (?) AND status NOT IN ('failed', 'canceled')
+    GROUP BY payment_id
+`;
+
+/**
+ * Unidades ya reembolsadas por línea de pedido (no cuenta los reembolsos fallidos ni cancelados)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{order_item_id:number, refunded_quantity:number}>>} Unidades reembolsadas por línea
+ * @example
+ * const [rows] = await conn.query(GET_REFUNDED_QUANTITIES_BY_ORDER, [orderId]);
+ */
+export const GET_REFUNDED_QUANTITIES_BY_ORDER = `
+    SELECT ri.order_item_id, SUM(ri.quantity) AS refunded_quantity
+    FROM refund_items ri
+    JOIN refunds r ON ri.refund_id = r.id
+    WHERE r.order_id = ? AND r.status NOT IN ('failed', 'canceled')
+    GROUP BY ri.order_item_id
+`;
+
+/**
+ * Crear un reembolso en estado `pending` (antes de enviarlo a Stripe)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @param {number} paymentId - ID del pago que se reembolsa
+ * @param {number|null} returnId - ID de la devolución asociada (si aplica)
+ * @param {number} amount - Importe a reembolsar
+ * @param {string} reason - Motivo del reembolso
+ * @param {number|null} requestedBy - ID del usuario que lo solicita (NULL si lo lanza el sistema)
+ * @returns {Promise<Object>} Resultado con `insertId`
+ * @example
+ * const [res] = await conn.query(INSERT_REFUND, [orderId, paymentId, null, 10.5, 'Talla incorrecta', adminId]);
+ */
+export const INSERT_REFUND = `
+    INSERT INTO refunds (order_id, payment_id, return_id, amount, reason, status, attempts, requested_by)
+    VALUES (?, ?, ?, ?, ?, 'pending', 0, ?)
+`;
+
+/**
+ * Añadir una línea de pedido a un reembolso
+ * @constant
+ * @type {string}
+ * @param {number} refundId - ID del reembolso
+ * @param {number} orderItemId - ID de la línea de pedido
+ * @param {number} quantity - Unidades reembolsadas
+ * @param {number} amount - Importe reembolsado de la línea
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(INSERT_REFUND_ITEM, [refundId, orderItemId, 1, 18.9]);
+ */
+export const INSERT_REFUND_ITEM = `
+    INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (?, ?, ?, ?)
+`;
+
+/**
+ * Guardar el resultado de enviar un reembolso a Stripe (incrementa el número de intentos)
+ * @constant
+ * @type {string}
+ * @param {string|null} stripeRefundId - ID del reembolso en Stripe (`re_...`)
+ * @param {string} status - Estado devuelto por Stripe (o `failed` si la llamada falló)
+ * @param {string|null} failureReason - Motivo del fallo, si lo hay
+ * @param {number} refundId - ID del reembolso
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(UPDATE_REFUND_RESULT, ['re_123', 'succeeded', null, refundId]);
+ */
+export const UPDATE_REFUND_RESULT = `
+    UPDATE refunds
+    SET stripe_refund_id = COALESCE(?, stripe_refund_id), status = ?, failure_reason = ?, attempts = attempts + 1
+    WHERE id = ?
+`;
+
+/**
+ * Actualizar el estado de un reembolso
+ * @constant
+ * @type {string}
+ * @param {string} status - Nuevo estado
+ * @param {string|null} failureReason - Motivo del fallo, si lo hay
+ * @param {number} refundId - ID del reembolso
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(UPDATE_REFUND_STATUS, ['succeeded', null, refundId]);
+ */
+export const UPDATE_REFUND_STATUS = `
+    UPDATE refunds
+    SET status = ?, failure_reason = ?
+    WHERE id = ?
+`;
+
+/**
+ * Obtener un reembolso por su ID
+ * @constant
+ * @type {string}
+ * @param {number} refundId - ID del reembolso
+ * @returns {Promise<Array<Object>>} Reembolso con el `transaction_id` del pago y si el pago es no aplicado (`unapplied`)
+ * @example
+ * const [rows] = await db.query(GET_REFUND_BY_ID, [refundId]);
+ */
+export const GET_REFUND_BY_ID = `
+    SELECT r.*, p.transaction_id, p.unapplied, o.currency
+    FROM refunds r
+    JOIN payments p ON r.payment_id = p.id
+    JOIN orders o ON r.order_id = o.id
+    WHERE r.id = ?
+`;
+
+/**
+ * Bloquear un reembolso para emitir su factura rectificativa (evita emitir dos si el webhook llega a la vez)
+ * @constant
+ * @type {string}
+ * @param {number} refundId - ID del reembolso
+ * @returns {Promise<Array<Object>>} Reembolso con pedido, devolución, importe, motivo y estado
+ * @example
+ * const [rows] = await conn.query(LOCK_REFUND_FOR_CREDIT_NOTE, [refundId]);
+ */
+export const LOCK_REFUND_FOR_CREDIT_NOTE = `
+    SELECT id, order_id, payment_id, return_id, amount, reason, status
+    FROM refunds
+    WHERE id = ?
+    FOR UPDATE
+`;
+
+/**
+ * Importe cobrado de un pedido (pagos cobrados y aplicados al pedido, aunque ya estén reembolsados)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{paid_amount:number}>>} Importe cobrado
+ * @example
+ * const [rows] = await conn.query(GET_PAID_AMOUNT_BY_ORDER, [orderId]);
+ */
+export const GET_PAID_AMOUNT_BY_ORDER = `
+    SELECT COALESCE(SUM(amount), 0) AS paid_amount
+    FROM payments
+    WHERE order_id = ? AND status IN ('completed', 'partially_refunded', 'refunded') AND unapplied = 0
+`;
+
+/**
+ * Obtener un reembolso por su ID de Stripe
+ * @constant
+ * @type {string}
+ * @param {string} stripeRefundId - ID del reembolso en Stripe (`re_...`)
+ * @returns {Promise<Array<Object>>} Reembolso
+ * @example
+ * const [rows] = await db.query(GET_REFUND_BY_STRIPE_ID, ['re_123']);
+ */
+export const GET_REFUND_BY_STRIPE_ID = `
+    SELECT * FROM refunds WHERE stripe_refund_id = ?
+`;
+
+/**
+ * Listar los reembolsos de un pedido
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Reembolsos del pedido, del más antiguo al más reciente
+ * @example
+ * const [refunds] = await db.query(GET_REFUNDS_BY_ORDER, [orderId]);
+ */
+export const GET_REFUNDS_BY_ORDER = `
+    SELECT r.*, u.first_name AS requested_by_name
+    FROM refunds r
+    LEFT JOIN users u ON r.requested_by = u.id
+    WHERE r.order_id = ?
+    ORDER BY r.created_at, r.id
+`;
+
+/**
+ * Listar reembolsos por estado (p.ej. `failed` para reintentarlos)
+ * @constant
+ * @type {string}
+ * @param {string} status - Estado del reembolso
+ * @param {number} limit - Máximo de resultados
+ * @returns {Promise<Array<Object>>} Reembolsos con el email del cliente
+ * @example
+ * const [refunds] = await db.query(GET_REFUNDS_BY_STATUS, ['failed', 50]);
+ */
+export const GET_REFUNDS_BY_STATUS = `
+    SELECT r.*, o.user_id, u.email AS customer_email
+    FROM refunds r
+    JOIN orders o ON r.order_id = o.id
+    JOIN users u ON o.user_id = u.id
+    WHERE r.status = ?
+    ORDER BY r.created_at DESC
+    LIMIT ?
+`;
+
+/**
+ * Obtener las líneas de varios reembolsos
+ * @constant
+ * @type {string}
+ * @param {number[]} refundIds - IDs de los reembolsos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<Object>>} Líneas con nombre de producto
+ * @example
+ * const [items] = await db.query(GET_REFUND_ITEMS_BY_REFUND_IDS, [[1, 2]]);
+ */
+export const GET_REFUND_ITEMS_BY_REFUND_IDS = `
+    SELECT ri.refund_id, ri.order_item_id, ri.quantity, ri.amount, oi.product_id, p.name AS product_name
+    FROM refund_items ri
+    JOIN order_items oi ON ri.order_item_id = oi.id
+    LEFT JOIN products p ON oi.product_id = p.id
+    WHERE ri.refund_id IN (?)
+    ORDER BY ri.id
+`;
+
+/**
+ * Actualizar el estado de un pago (`completed`, `partially_refunded`, `refunded`)
+ * @constant
+ * @type {string}
+ * @param {string} status - Nuevo estado del pago
+ * @param {number} paymentId - ID del pago
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(UPDATE_PAYMENT_STATUS, ['partially_refunded', paymentId]);
+ */
+export const UPDATE_PAYMENT_STATUS = `
+    UPDATE payments SET status = ? WHERE id = ?
+`;
+
+/**
+ * Devoluciones aprobadas de un pedido que todavía no tienen ningún reembolso asociado
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{id:number, total_amount:number, reason:string}>>} Devoluciones pendientes de reembolso
+ * @example
+ * const [returns] = await db.query(GET_UNREFUNDED_APPROVED_RETURNS, [orderId]);
+ */
+export const GET_UNREFUNDED_APPROVED_RETURNS = `
+    SELECT r.id, r.total_amount, r.reason
+    FROM returns r
+    WHERE r.order_id = ? AND r.status = 'approved'
+      AND NOT EXISTS (SELECT 1 FROM refunds f WHERE f.return_id = r.id)
+    ORDER BY r.id
+`;
+
+/**
+ * Número de devoluciones aceptadas de un pedido (aprobadas o ya recibidas e inspeccionadas)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{count:number}>>} Total de devoluciones aceptadas
+ * @example
+ * const [rows] = await db.query(COUNT_APPROVED_RETURNS, [orderId]);
+ */
+export const COUNT_APPROVED_RETURNS = `
+    SELECT COUNT(*) AS count FROM returns WHERE order_id = ? AND status IN ('approved', 'received')
+`;
+
+/**
+ * Bloquear el pago reembolsable de una transacción de Stripe (para registrar un reembolso hecho desde el panel de Stripe)
+ * @constant
+ * @type {string}
+ * @param {string} transactionId - ID del PaymentIntent
+ * @returns {Promise<Array<Object>>} Pago `completed` o `partially_refunded`
+ * @example
+ * const [rows] = await conn.query(LOCK_PAYMENT_BY_TRANSACTION, ['pi_123']);
+ */
+export const LOCK_PAYMENT_BY_TRANSACTION = `
+    SELECT id, order_id, transaction_id, amount, status
+    FROM payments
+    WHERE transaction_id = ? AND status IN ('completed', 'partially_refunded')
+    ORDER BY id
+    LIMIT 1
+    FOR UPDATE
+`;
+
+/**
+ * Reembolsos de un pago registrados pero nunca enviados a Stripe (`pending` sin `stripe_refund_id`),
+ * p.ej. si el proceso se cortó entre registrarlos y enviarlos
+ * @constant
+ * @type {string}
+ * @param {number} paymentId - ID del pago
+ * @returns {Promise<Array<Object>>} Reembolsos con el `transaction_id` del pago y la divisa del pedido
+ * @example
+ * const [rows] = await db.query(GET_UNSENT_REFUNDS_BY_PAYMENT, [paymentId]);
+ */
+export const GET_UNSENT_REFUNDS_BY_PAYMENT = `
+    SELECT r.*, p.transaction_id, o.currency
+    FROM refunds r
+    JOIN payments p ON r.payment_id = p.id
+    JOIN orders o ON r.order_id = o.id
+    WHERE r.payment_id = ? AND r.status = 'pending' AND r.stripe_refund_id IS NULL
+    ORDER BY r.id
+`;
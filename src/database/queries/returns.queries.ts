@@ -0,0 +1,147 @@
+/**
+ * Asignar el número de RMA a una devolución (solo si todavía no tiene)
+ * @constant
+ * @type {string}
+ * @param {string} rmaNumber - Número de RMA (p.ej. 'RMA-2026-000042')
+ * @param {number} approvedBy - ID del administrador que aprueba la devolución
+ * @param {number} returnId - ID de la devolución
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(SET_RETURN_RMA, ['RMA-2026-000042', adminId, returnId]);
+ */
+export const SET_RETURN_RMA = `
+    UPDATE returns
+    SET rma_number = ?, approved_by = ?, approved_at = NOW()
+    WHERE id = ? AND rma_number IS NULL
+`;
+
+/**
+ * Bloquear una devolución para resolverla o registrar su recepción (evita procesarla dos veces)
+ * @constant
+ * @type {string}
+ * @param {number} returnId - ID de la devolución
+ * @returns {Promise<Array<Object>>} Devolución con el estado y la dirección del pedido
+ * @example
+ * const [rows] = await conn.query(LOCK_RETURN_FOR_INSPECTION, [returnId]);
+ */
+export const LOCK_RETURN_FOR_INSPECTION = `
+    SELECT r.*, o.status AS order_status, o.address_id AS order_address_id, o.currency AS order_currency
+    FROM returns r
+    JOIN orders o ON r.order_id = o.id
+    WHERE r.id = ?
+    FOR UPDATE
+`;
+
+/**
+ * Guardar el resultado de la inspección de una línea de devolución
+ * @constant
+ * @type {string}
+ * @param {string} inspectionResult - Resultado: 'restockable', 'damaged' o 'rejected'
+ * @param {string|null} inspectionNote - Observaciones del almacén
+ * @param {number} approvedRefundAmount - Importe que se reembolsa de la línea tras la inspección
+ * @param {number} returnItemId - ID de la línea de devolución
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(UPDATE_RETURN_ITEM_INSPECTION, ['damaged', 'Costura abierta', 12.5, returnItemId]);
+ */
+export const UPDATE_RETURN_ITEM_INSPECTION = `
+    UPDATE return_items
+    SET status = 'received', inspection_result = ?, inspection_note = ?, approved_refund_amount = ?
+    WHERE id = ?
+`;
+
+/**
+ * Marcar una devolución como recibida e inspeccionada
+ * @constant
+ * @type {string}
+ * @param {number} receivedBy - ID del administrador que registra la recepción
+ * @param {number} refundAmount - Importe a reembolsar según la inspección
+ * @param {string|null} inspectionNote - Observaciones generales
+ * @param {number} returnId - ID de la devolución
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(MARK_RETURN_RECEIVED, [adminId, 37.8, null, returnId]);
+ */
+export const MARK_RETURN_RECEIVED = `
+    UPDATE returns
+    SET status = 'received', received_at = NOW(), received_by = ?, refund_amount = ?, inspection_note = ?
+    WHERE id = ?
+`;
+
+/**
+ * Número de devoluciones aprobadas de un pedido que aún no se han recibido
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{count:number}>>} Devoluciones pendientes de recibir
+ * @example
+ * const [rows] = await db.query(COUNT_RETURNS_AWAITING_RECEIPT, [orderId]);
+ */
+export const COUNT_RETURNS_AWAITING_RECEIPT = `
+    SELECT COUNT(*) AS count FROM returns WHERE order_id = ? AND status = 'approved'
+`;
+
+/**
+ * Obtener las variantes pedidas a cambio en una devolución (para validar que existen y tienen stock)
+ * @constant
+ * @type {string}
+ * @param {number[]} productIds - IDs de los productos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<{id:number, name:string, price:number, stock:number|null, size:string|null, color:string|null}>>} Variantes
+ * @example
+ * const [variants] = await conn.query(GET_EXCHANGE_VARIANTS, [[58, 59]]);
+ */
+export const GET_EXCHANGE_VARIANTS = `
+    SELECT id, name, price, stock, size, color
+    FROM products
+    WHERE id IN (?)
+`;
+
+/**
+ * Marcar si el stock de la variante de cambio de una línea está reservado
+ * @constant
+ * @type {string}
+ * @param {boolean} reserved - `true` al reservar, `false` al liberar
+ * @param {number} returnItemId - ID de la línea de devolución
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(SET_RETURN_ITEM_EXCHANGE_RESERVED, [true, returnItemId]);
+ */
+export const SET_RETURN_ITEM_EXCHANGE_RESERVED = `
+    UPDATE return_items SET exchange_reserved = ? WHERE id = ?
+`;
+
+/**
+ * Crear el pedido de reposición de un cambio, enlazado al pedido original y a la devolución
+ * @constant
+ * @type {string}
+ * @param {number} userId - ID del cliente
+ * @param {number} addressId - Dirección de envío (la del pedido original)
+ * @param {number} total - Importe a pagar (diferencia de precio; 0 si el cambio no tiene coste)
+ * @param {number} discountAmount - Crédito aplicado de los productos devueltos
+ * @param {number} originalOrderId - ID del pedido original
+ * @param {number} returnId - ID de la devolución
+ * @param {string} currency - Divisa (la del pedido original)
+ * @param {number} exchangeRate - Unidades de la divisa por euro al crear el pedido
+ * @param {number} totalEur - Equivalente en euros del total
+ * @returns {Promise<Object>} Resultado con `insertId`
+ * @example
+ * const [res] = await conn.query(CREATE_REPLACEMENT_ORDER, [userId, addressId, 0, 24.5, orderId, returnId, 'EUR', 1, 0]);
+ */
+export const CREATE_REPLACEMENT_ORDER = `
+    INSERT INTO orders (user_id, address_id, status, total, discount_amount, replacement_for_order_id, replacement_return_id, currency, exchange_rate, total_eur)
+    VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?)
+`;
+
+/**
+ * Enlazar una devolución con su pedido de reposición
+ * @constant
+ * @type {string}
+ * @param {number} replacementOrderId - ID del pedido de reposición
+ * @param {number} returnId - ID de la devolución
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(SET_RETURN_REPLACEMENT_ORDER, [replacementOrderId, returnId]);
+ */
+export const SET_RETURN_REPLACEMENT_ORDER = `
+    UPDATE returns SET replacement_order_id = ? WHERE id = ?
+`;
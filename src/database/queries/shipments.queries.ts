@@ -0,0 +1,144 @@
+/**
+ * Bloquear un pedido para registrar un envío (evita enviar dos veces las mismas unidades)
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Pedido con su estado y usuario
+ * @example
+ * const [rows] = await conn.query(LOCK_ORDER_FOR_SHIPMENT, [orderId]);
+ */
+export const LOCK_ORDER_FOR_SHIPMENT = `
+    SELECT id, user_id, status FROM orders WHERE id = ? FOR UPDATE
+`;
+
+/**
+ * Unidades ya incluidas en algún envío, por línea de pedido
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{order_item_id:number, shipped_quantity:number}>>} Unidades enviadas por línea
+ * @example
+ * const [rows] = await conn.query(GET_SHIPPED_QUANTITIES_BY_ORDER, [orderId]);
+ */
+export const GET_SHIPPED_QUANTITIES_BY_ORDER = `
+    SELECT si.order_item_id, SUM(si.quantity) AS shipped_quantity
+    FROM shipment_items si
+    JOIN shipments s ON si.shipment_id = s.id
+    WHERE s.order_id = ?
+    GROUP BY si.order_item_id
+`;
+
+/**
+ * Crear un envío (bulto) de un pedido
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @param {string|null} carrier - Transportista (p.ej. 'correos', 'seur')
+ * @param {string|null} trackingNumber - Número de seguimiento
+ * @param {string|null} trackingUrl - URL de seguimiento
+ * @param {Date} shippedAt - Fecha de envío
+ * @param {number|null} createdBy - ID del administrador que lo registra
+ * @returns {Promise<Object>} Resultado con `insertId`
+ * @example
+ * const [res] = await conn.query(INSERT_SHIPMENT, [orderId, 'correos', 'PK123ES', null, new Date(), adminId]);
+ */
+export const INSERT_SHIPMENT = `
+    INSERT INTO shipments (order_id, carrier, tracking_number, tracking_url, shipped_at, created_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+`;
+
+/**
+ * Añadir una línea de pedido a un envío
+ * @constant
+ * @type {string}
+ * @param {number} shipmentId - ID del envío
+ * @param {number} orderItemId - ID de la línea de pedido
+ * @param {number} quantity - Unidades incluidas en el bulto
+ * @returns {Promise<void>}
+ * @example
+ * await conn.query(INSERT_SHIPMENT_ITEM, [shipmentId, orderItemId, 2]);
+ */
+export const INSERT_SHIPMENT_ITEM = `
+    INSERT INTO shipment_items (shipment_id, order_item_id, quantity)
+    VALUES (?, ?, ?)
+`;
+
+/**
+ * Obtener un envío por su ID
+ * @constant
+ * @type {string}
+ * @param {number} shipmentId - ID del envío
+ * @returns {Promise<Array<Object>>} Envío
+ * @example
+ * const [rows] = await db.query(GET_SHIPMENT_BY_ID, [shipmentId]);
+ */
+export const GET_SHIPMENT_BY_ID = `
+    SELECT * FROM shipments WHERE id = ?
+`;
+
+/**
+ * Actualizar los datos de un envío
+ * @constant
+ * @type {string}
+ * @param {string|null} carrier - Transportista
+ * @param {string|null} trackingNumber - Número de seguimiento
+ * @param {string|null} trackingUrl - URL de seguimiento
+ * @param {Date|null} shippedAt - Fecha de envío
+ * @param {Date|null} deliveredAt - Fecha de entrega
+ * @param {number} shipmentId - ID del envío
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(UPDATE_SHIPMENT, ['seur', 'SEUR123', null, shippedAt, new Date(), shipmentId]);
+ */
+export const UPDATE_SHIPMENT = `
+    UPDATE shipments
+    SET carrier = ?, tracking_number = ?, tracking_url = ?, shipped_at = ?, delivered_at = ?
+    WHERE id = ?
+`;
+
+/**
+ * Obtener los envíos de varios pedidos
+ * @constant
+ * @type {string}
+ * @param {number[]} orderIds - IDs de los pedidos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<Object>>} Envíos ordenados por fecha de envío
+ * @example
+ * const [shipments] = await db.query(GET_SHIPMENTS_BY_ORDER_IDS, [[1, 2]]);
+ */
+export const GET_SHIPMENTS_BY_ORDER_IDS = `
+    SELECT id, order_id, carrier, tracking_number, tracking_url, shipped_at, delivered_at, created_at, updated_at
+    FROM shipments
+    WHERE order_id IN (?)
+    ORDER BY shipped_at, id
+`;
+
+/**
+ * Obtener las líneas de varios envíos con información del producto
+ * @constant
+ * @type {string}
+ * @param {number[]} shipmentIds - IDs de los envíos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<Object>>} Líneas de los envíos
+ * @example
+ * const [items] = await db.query(GET_SHIPMENT_ITEMS_BY_SHIPMENT_IDS, [[1, 2]]);
+ */
+export const GET_SHIPMENT_ITEMS_BY_SHIPMENT_IDS = `
+    SELECT si.shipment_id, si.order_item_id, si.quantity, oi.product_id, p.name AS product_name, p.sku, p.size, p.color
+    FROM shipment_items si
+    JOIN order_items oi ON si.order_item_id = oi.id
+    LEFT JOIN products p ON oi.product_id = p.id
+    WHERE si.shipment_id IN (?)
+    ORDER BY si.id
+`;
+
+/**
+ * Marcar como entregados los envíos de un pedido que aún no tienen fecha de entrega
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(MARK_ORDER_SHIPMENTS_DELIVERED, [orderId]);
+ */
+export const MARK_ORDER_SHIPMENTS_DELIVERED = `
+    UPDATE shipments SET delivered_at = NOW() WHERE order_id = ? AND delivered_at IS NULL
+`;
@@ -0,0 +1,137 @@
+/**
+ * Métodos de envío configurados
+ * @constant
+ * @type {string}
+ * @returns {Promise<Array<{code:string, name:string, description:string|null, active:number, sort_order:number, updated_by:number|null, updated_at:string}>>} Métodos
+ * @example
+ * const [rows] = await db.query(GET_SHIPPING_METHODS);
+ */
+export const GET_SHIPPING_METHODS = `
+    SELECT code, name, description, active, sort_order, updated_by, updated_at
+    FROM shipping_methods
+    ORDER BY sort_order, code
+`;
+
+/**
+ * Método de envío por código
+ * @constant
+ * @type {string}
+ * @param {string} code - Código del método (`standard`, `express`, `pickup`)
+ * @returns {Promise<Array<Object>>} Método (vacío si no está configurado)
+ * @example
+ * const [rows] = await conn.query(GET_SHIPPING_METHOD, ['express']);
+ */
+export const GET_SHIPPING_METHOD = `
+    SELECT code, name, description, active, sort_order
+    FROM shipping_methods
+    WHERE code = ?
+`;
+
+/**
+ * Tramos de tarifa de todos los métodos
+ * @constant
+ * @type {string}
+ * @returns {Promise<Array<{method_code:string, zone:string, basis:string, min_value:number, max_value:number|null, price:number, free_from:number|null}>>} Tramos
+ * @example
+ * const [rows] = await db.query(GET_SHIPPING_RATES);
+ */
+export const GET_SHIPPING_RATES = `
+    SELECT method_code, zone, basis, min_value, max_value, price, free_from
+    FROM shipping_rates
+    ORDER BY method_code, zone, basis, min_value
+`;
+
+/**
+ * Tramos de tarifa de los métodos activos en una zona, con los datos del método
+ * @constant
+ * @type {string}
+ * @param {string} zone - Zona de envío (`peninsula`, `baleares`, `canarias`, `eu`, `rest`)
+ * @returns {Promise<Array<Object>>} Tramos ordenados por método (`sort_order`) y tramo
+ * @example
+ * const [rows] = await conn.query(GET_ACTIVE_SHIPPING_RATES_FOR_ZONE, ['peninsula']);
+ */
+export const GET_ACTIVE_SHIPPING_RATES_FOR_ZONE = `
+    SELECT m.code, m.name, m.description, r.zone, r.basis, r.min_value, r.max_value, r.price, r.free_from
+    FROM shipping_methods m
+    JOIN shipping_rates r ON r.method_code = m.code
+    WHERE m.active = 1 AND r.zone = ?
+    ORDER BY m.sort_order, m.code, r.basis, r.min_value
+`;
+
+/**
+ * Crear o actualizar un método de envío
+ * @constant
+ * @type {string}
+ * @param {string} code - Código del método
+ * @param {string} name - Nombre que ve el cliente
+ * @param {string|null} description - Descripción (plazo de entrega, punto de recogida...)
+ * @param {boolean} active - Si se ofrece en el checkout
+ * @param {number} sortOrder - Orden en el checkout
+ * @param {number} updatedBy - ID del administrador
+ * @returns {Promise<Object>} Resultado del INSERT/UPDATE
+ * @example
+ * await conn.query(UPSERT_SHIPPING_METHOD, ['express', 'Envío exprés', '24 h', true, 2, adminId]);
+ */
+export const UPSERT_SHIPPING_METHOD = `
+    INSERT INTO shipping_methods (code, name, description, active, sort_order, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE name = VALUES(name), description = VALUES(description), active = VALUES(active),
+        sort_order = VALUES(sort_order), updated_by = VALUES(updated_by)
+`;
+
+/**
+ * Eliminar los tramos de tarifa de un método (antes de guardar los nuevos)
+ * @constant
+ * @type {string}
+ * @param {string} code - Código del método
+ * @returns {Promise<Object>} Resultado del DELETE
+ * @example
+ * await conn.query(DELETE_SHIPPING_RATES_BY_METHOD, ['express']);
+ */
+export const DELETE_SHIPPING_RATES_BY_METHOD = `
+    DELETE FROM shipping_rates WHERE method_code = ?
+`;
+
+/**
+ * Insertar varios tramos de tarifa
+ * @constant
+ * @type {string}
+ * @param {Array<Array<any>>} values - Filas `[method_code, zone, basis, min_value, max_value, price, free_from]`
+ * @returns {Promise<Object>} Resultado del INSERT
+ * @example
+ * await conn.query(INSERT_SHIPPING_RATES, [[['standard', 'peninsula', 'weight', 0, 2, 4.95, 50]]]);
+ */
+export const INSERT_SHIPPING_RATES = `
+    INSERT INTO shipping_rates (method_code, zone, basis, min_value, max_value, price, free_from)
+    VALUES ?
+`;
+
+/**
+ * Datos de una dirección necesarios para la zona de envío
+ * @constant
+ * @type {string}
+ * @param {number} addressId - ID de la dirección
+ * @returns {Promise<Array<{user_id:number, country:string, postal_code:string, province:string|null}>>} Dirección
+ * @example
+ * const [rows] = await conn.query(GET_ADDRESS_FOR_SHIPPING, [addressId]);
+ */
+export const GET_ADDRESS_FOR_SHIPPING = `
+    SELECT user_id, country, postal_code, province
+    FROM addresses
+    WHERE id = ?
+`;
+
+/**
+ * Precio en euros y peso de varios productos (para calcular el paquete de un pedido)
+ * @constant
+ * @type {string}
+ * @param {number[]} productIds - IDs de los productos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<{id:number, price:number, weight:number|null}>>} Productos
+ * @example
+ * const [rows] = await db.query(GET_PRODUCTS_FOR_SHIPPING, [[1, 2, 3]]);
+ */
+export const GET_PRODUCTS_FOR_SHIPPING = `
+    SELECT id, price, weight
+    FROM products
+    WHERE id IN (?)
+`;
@@ -0,0 +1,115 @@
+/**
+ * Tipo de IVA de cada producto según sus categorías (si tiene varias con tipo propio, el mayor)
+ * @constant
+ * @type {string}
+ * @param {number[]} productIds - IDs de los productos (se expanden en `IN (?)`)
+ * @returns {Promise<Array<{product_id:number, vat_rate:number|null}>>} Tipo por producto (`NULL` si ninguna categoría tiene tipo)
+ * @example
+ * const [rows] = await conn.query(GET_PRODUCT_VAT_RATES, [[1, 2, 3]]);
+ */
+export const GET_PRODUCT_VAT_RATES = `
+    SELECT p.id AS product_id, MAX(c.vat_rate) AS vat_rate
+    FROM products p
+    LEFT JOIN product_categories pc ON pc.product_id = p.id
+    LEFT JOIN categories c ON c.id = pc.category_id
+    WHERE p.id IN (?)
+    GROUP BY p.id
+`;
+
+/**
+ * Datos de una dirección necesarios para determinar la zona fiscal
+ * @constant
+ * @type {string}
+ * @param {number} addressId - ID de la dirección
+ * @returns {Promise<Array<{country:string, postal_code:string, province:string|null}>>} Dirección
+ * @example
+ * const [rows] = await conn.query(GET_ADDRESS_FOR_TAX, [addressId]);
+ */
+export const GET_ADDRESS_FOR_TAX = `
+    SELECT country, postal_code, province
+    FROM addresses
+    WHERE id = ?
+`;
+
+/**
+ * Datos de un pedido para calcular su desglose de IVA
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<Object>>} Pedido con zona fiscal, recargo de envoltorio, gastos de envío, total (cobrado) y país/código postal de la dirección
+ * @example
+ * const [rows] = await conn.query(GET_ORDER_FOR_TAX, [orderId]);
+ */
+export const GET_ORDER_FOR_TAX = `
+    SELECT o.id, o.tax_zone, o.gift_wrap_fee, o.shipping_cost, o.total, o.total_paid, a.country, a.postal_code, a.province
+    FROM orders o
+    LEFT JOIN addresses a ON a.id = o.address_id
+    WHERE o.id = ?
+`;
+
+/**
+ * Líneas de un pedido con su tipo de IVA
+ * @constant
+ * @type {string}
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Array<{id:number, product_id:number, quantity:number, price:number, vat_rate:number|null}>>} Líneas del pedido
+ * @example
+ * const [items] = await conn.query(GET_ORDER_ITEMS_FOR_TAX, [orderId]);
+ */
+export const GET_ORDER_ITEMS_FOR_TAX = `
+    SELECT id, product_id, quantity, price, vat_rate
+    FROM order_items
+    WHERE order_id = ?
+    ORDER BY id
+`;
+
+/**
+ * Guardar el IVA de un pedido (zona fiscal, base, cuota y desglose por tipo)
+ * @constant
+ * @type {string}
+ * @param {string} taxZone - Zona fiscal (`es`, `eu`, `canarias`, `ceuta`, `melilla`, `export`)
+ * @param {number} taxBase - Base imponible total
+ * @param {number} taxAmount - Cuota de IVA total
+ * @param {string} taxBreakdown - JSON con el desglose por tipo (`[{ rate, base, tax, total }]`)
+ * @param {number} orderId - ID del pedido
+ * @returns {Promise<Object>} Resultado del UPDATE
+ * @example
+ * await conn.query(UPDATE_ORDER_TAX, ['es', 100, 21, '[{"rate":21,"base":100,"tax":21,"total":121}]', orderId]);
+ */
+export const UPDATE_ORDER_TAX = `
+    UPDATE orders
+    SET tax_zone = ?, tax_base = ?, tax_amount = ?, tax_breakdown = ?
+    WHERE id = ?
+`;
+
+/**
+ * Listar las categorías con su tipo de IVA
+ * @constant
+ * @type {string}
+ * @returns {Promise<Array<{id:number, name:string, vat_rate:number|null, products_count:number}>>} Categorías
+ * @example
+ * const [rows] = await db.query(GET_CATEGORIES_WITH_VAT_RATE);
+ */
+export const GET_CATEGORIES_WITH_VAT_RATE = `
+    SELECT c.id, c.name, c.vat_rate, COUNT(pc.product_id) AS products_count
+    FROM categories c
+    LEFT JOIN product_categories pc ON pc.category_id = c.id
+    GROUP BY c.id, c.name, c.vat_rate
+    ORDER BY c.name
+`;
+
+/**
+ * Cambiar el tipo de IVA de una categoría
+ * @constant
+ * @type {string}
+ * @param {number|null} vatRate - Tipo de IVA (21, 10 o 4), o `NULL` para usar el general
+ * @param {number} categoryId - ID de la categoría
+ * @returns {Promise<Object>} Resultado del UPDATE (`affectedRows` = 0 si no existe)
+ * @example
+ * await db.query(UPDATE_CATEGORY_VAT_RATE, [4, categoryId]);
+ */
+export const UPDATE_CATEGORY_VAT_RATE = `
+    UPDATE categories
+    SET vat_rate = ?
+    WHERE id = ?
+`;
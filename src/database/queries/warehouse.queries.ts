@@ -0,0 +1,14 @@
+/**
+ * Pedidos pagados pendientes de preparar (estado `completed`, no archivados), del más antiguo al más reciente
+ * @constant
+ * @type {string}
+ * @returns {Promise<Array<{id:number}>>} IDs de los pedidos a preparar
+ * @example
+ * const [rows] = await db.query(GET_ORDERS_TO_PICK);
+ */
+export const GET_ORDERS_TO_PICK = `
+    SELECT id
+    FROM orders
+    WHERE status = 'completed' AND archived_at IS NULL
+    ORDER BY created_at ASC, id ASC
+`;
@@ -0,0 +1,98 @@
+/**
+ * Guardar un evento recibido de Stripe (si ya existe no inserta nada: Stripe reintenta con el mismo ID)
+ * @constant
+ * @type {string}
+ * @param {string} id - ID del evento en Stripe (`evt_...`)
+ * @param {string} type - Tipo del evento (`checkout.session.completed`...)
+ * @param {string} payload - Evento completo en JSON
+ * @returns {Promise<Object>} Resultado con `affectedRows` (1 si es nuevo, 0 si ya estaba guardado)
+ * @example
+ * await db.query(INSERT_WEBHOOK_EVENT, [event.id, event.type, JSON.stringify(event)]);
+ */
+export const INSERT_WEBHOOK_EVENT = `
+    INSERT IGNORE INTO webhook_events (id, type, payload, status)
+    VALUES (?, ?, ?, 'received')
+`;
+
+/**
+ * Reservar un evento para procesarlo: solo si está en uno de los estados indicados
+ * o lleva más de `staleMinutes` minutos en `processing` (el proceso anterior se interrumpió)
+ * @constant
+ * @type {string}
+ * @param {string} id - ID del evento
+ * @param {string[]} statuses - Estados desde los que se puede procesar (se expanden en `IN (?)`)
+ * @param {number} staleMinutes - Minutos tras los que un `processing` se da por abandonado
+ * @returns {Promise<Object>} Resultado con `affectedRows` (1 si se ha reservado)
+ * @example
+ * const [res] = await db.query(CLAIM_WEBHOOK_EVENT, [event.id, ['received', 'failed'], 10]);
+ */
+export const CLAIM_WEBHOOK_EVENT = `
+    UPDATE webhook_events
+    SET status = 'processing', attempts = attempts + 1, last_attempt_at = NOW()
+    WHERE id = ?
+      AND (status IN (?) OR (status = 'processing' AND last_attempt_at < DATE_SUB(NOW(), INTERVAL ? MINUTE)))
+`;
+
+/**
+ * Marcar un evento como procesado
+ * @constant
+ * @type {string}
+ * @param {string} id - ID del evento
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(MARK_WEBHOOK_EVENT_PROCESSED, [event.id]);
+ */
+export const MARK_WEBHOOK_EVENT_PROCESSED = `
+    UPDATE webhook_events
+    SET status = 'processed', processed_at = NOW(), error = NULL
+    WHERE id = ?
+`;
+
+/**
+ * Marcar un evento como fallido con el error del último intento
+ * @constant
+ * @type {string}
+ * @param {string} error - Mensaje del error
+ * @param {string} id - ID del evento
+ * @returns {Promise<void>}
+ * @example
+ * await db.query(MARK_WEBHOOK_EVENT_FAILED, [err.message, event.id]);
+ */
+export const MARK_WEBHOOK_EVENT_FAILED = `
+    UPDATE webhook_events
+    SET status = 'failed', error = ?
+    WHERE id = ?
+`;
+
+/**
+ * Obtener un evento guardado con su payload
+ * @constant
+ * @type {string}
+ * @param {string} id - ID del evento
+ * @returns {Promise<Array<Object>>} Evento
+ * @example
+ * const [rows] = await db.query(GET_WEBHOOK_EVENT, ['evt_123']);
+ */
+export const GET_WEBHOOK_EVENT = `
+    SELECT id, type, payload, status, attempts, error, received_at, last_attempt_at, processed_at
+    FROM webhook_events
+    WHERE id = ?
+`;
+
+/**
+ * Listar eventos por estado (p.ej. `failed` para volver a procesarlos), sin el payload
+ * @constant
+ * @type {string}
+ * @param {string} status - Estado del evento
+ * @param {number} limit - Máximo de resultados
+ * @returns {Promise<Array<Object>>} Eventos, del más reciente al más antiguo
+ * @example
+ * const [rows] = await db.query(GET_WEBHOOK_EVENTS_BY_STATUS, ['failed', 50]);
+ */
+export const GET_WEBHOOK_EVENTS_BY_STATUS = `
+    SELECT id, type, status, attempts, error, received_at, last_attempt_at, processed_at
+    FROM webhook_events
+    WHERE status = ?
+    ORDER BY received_at DESC
+    LIMIT ?
+`;
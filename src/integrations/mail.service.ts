@@ -2,6 +2,7 @@ import nodemailer from 'nodemailer';
 import fs from 'fs';
 import path from 'path';
 import ejs from 'ejs';
+import { formatMoney } from '../modules/currencies/currencies.rules';
 
 interface EmailAttachment {
     filename: string;
@@ -53,10 +54,11 @@ class MailService {
             throw new Error(`Plantilla no encontrada: ${templatePath}`);
         }
         const templateContent = fs.readFileSync(templatePath, 'utf-8');
-        // Añadimos BASE_URL automáticamente al contexto
+        // Añadimos BASE_URL y el formato de importes (`formatMoney(importe, divisa)`) automáticamente al contexto
         const finalContext = {
             ...context,
             BASE_URL: process.env.BASE_URL || '',
+            formatMoney,
         };
         return ejs.render(templateContent, finalContext);
     }
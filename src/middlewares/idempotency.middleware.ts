@@ -0,0 +1,164 @@
+import { Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import { db, IDEMPOTENCY_KEY_TTL_HOURS } from '../config/config';
+import { AuthenticatedRequest } from './auth.middleware';
+import {
+    INSERT_IDEMPOTENCY_KEY,
+    GET_IDEMPOTENCY_KEY,
+    COMPLETE_IDEMPOTENCY_KEY,
+    DELETE_IDEMPOTENCY_KEY,
+    DELETE_EXPIRED_IDEMPOTENCY_KEY
+} from '../database/queries/idempotency.queries';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serializa un valor JSON con las claves de los objetos ordenadas, para que el hash no dependa del orden.
+ * @param {unknown} value Valor a serializar
+ * @returns {string} JSON canónico
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as object)
+            .sort()
+            .map(k => `${JSON.stringify(k)}:${canonicalJson((value as any)[k])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+/**
+ * Devuelve el objetivo de una petición sin JWT (p.ej. `order:123`), o `null` si la petición no lo indica.
+ * Separa las claves de clientes anónimos distintos que usen la misma `Idempotency-Key`.
+ */
+export type AnonymousTarget = (req: AuthenticatedRequest) => string | null;
+
+/**
+ * Calcula el ámbito de la clave.
+ * - Con JWT: `user:{id}`.
+ * - Sin JWT: `anonymous:{hash}` del objetivo de la petición (`anonymousTarget`) o, si no lo hay,
+ *   de la huella del cliente (IP y User-Agent). Así dos clientes anónimos no comparten claves.
+ * @param {AuthenticatedRequest} req Request
+ * @param {AnonymousTarget} [anonymousTarget] Objetivo de las peticiones anónimas
+ * @returns {string} Ámbito de la clave en `idempotency_keys`
+ */
+function resolveScope(req: AuthenticatedRequest, anonymousTarget?: AnonymousTarget) {
+    if (req.user) return `user:${req.user.id}`;
+    const target = anonymousTarget?.(req) ?? `client:${req.ip ?? ''}|${req.get('User-Agent') ?? ''}`;
+    return `anonymous:${crypto.createHash('sha256').update(target).digest('hex').slice(0, 32)}`;
+}
+
+/**
+ * @middleware idempotency
+ * @summary Deduplica peticiones que crean pedidos o sesiones de pago mediante la cabecera `Idempotency-Key`
+ * @description
+ * Si la petición no trae `Idempotency-Key`, continúa sin más. Si la trae:
+ * - La clave se reserva en `idempotency_keys` por ámbito (usuario autenticado o, sin JWT, el objetivo de la petición
+ *   o la huella del cliente; ver `idempotencyByTarget`) junto con el hash del método, la ruta y el body.
+ * - Primera petición: se ejecuta el controlador y se guarda su respuesta (código y JSON). Si termina con un error
+ *   de servidor (5xx), o el cliente corta la conexión antes de que haya respuesta, la clave se libera para poder reintentar.
+ * - Reintento con el mismo body: se devuelve la respuesta guardada con la cabecera `Idempotent-Replayed: true`.
+ * - Reintento mientras la original sigue en curso: **409** `idempotency_request_in_progress`.
+ * - Misma clave con otro body u otra ruta: **422** `idempotency_key_reused`.
+ * Las claves caducan a las `IDEMPOTENCY_KEY_TTL_HOURS` horas (24 por defecto). Debe ir después de `authenticate`.
+ *
+ * @param {AuthenticatedRequest} req - Request (con `user` si la ruta está autenticada)
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Siguiente middleware
+ * @returns {Promise<void>}
+ *
+ * @example
+ * router.post('/', authenticate, idempotency, createOrder);
+ * // Cabecera: Idempotency-Key: 6f1c2a1e-2d4b-4c1f-9a57-0c8e1d1b2f30
+ */
+export const idempotency = (req: AuthenticatedRequest, res: Response, next: NextFunction) => handleIdempotency(req, res, next);
+
+/**
+ * @middleware idempotencyByTarget
+ * @summary `idempotency` para rutas públicas: sin JWT, la clave se guarda por el objetivo de la petición
+ * (el pedido a pagar, el email del invitado...) en vez de por la huella del cliente.
+ *
+ * @param {AnonymousTarget} anonymousTarget Objetivo de las peticiones sin JWT
+ * @returns {Function} Middleware de Express
+ *
+ * @example
+ * router.post('/checkout-session', idempotencyByTarget(req => req.body?.orderId ? `order:${req.body.orderId}` : null), createCheckout);
+ */
+export const idempotencyByTarget = (anonymousTarget: AnonymousTarget) =>
+    (req: AuthenticatedRequest, res: Response, next: NextFunction) => handleIdempotency(req, res, next, anonymousTarget);
+
+/**
+ * Lógica común de `idempotency` e `idempotencyByTarget`.
+ * @param {AuthenticatedRequest} req - Request (con `user` si la ruta está autenticada)
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Siguiente middleware
+ * @param {AnonymousTarget} [anonymousTarget] - Objetivo de las peticiones sin JWT
+ * @returns {Promise<void>}
+ */
+async function handleIdempotency(req: AuthenticatedRequest, res: Response, next: NextFunction, anonymousTarget?: AnonymousTarget) {
+    const key = req.get('Idempotency-Key')?.trim();
+    if (!key) return next();
+    if (key.length > MAX_KEY_LENGTH) {
+        return res.status(400).json({ message: `Idempotency-Key no puede superar ${MAX_KEY_LENGTH} caracteres` });
+    }
+
+    const scope = resolveScope(req, anonymousTarget);
+    const path = `${req.baseUrl}${req.path}`;
+    const requestHash = crypto.createHash('sha256').update(`${req.method} ${path}\n${canonicalJson(req.body)}`).digest('hex');
+
+    try {
+        await db.query(DELETE_EXPIRED_IDEMPOTENCY_KEY, [scope, key, IDEMPOTENCY_KEY_TTL_HOURS]);
+        const [inserted]: any = await db.query(INSERT_IDEMPOTENCY_KEY, [scope, key, req.method, path, requestHash]);
+
+        if (!inserted.affectedRows) {
+            // 🔁 Clave ya usada: repetir la respuesta original o rechazar
+            const [rows]: any = await db.query(GET_IDEMPOTENCY_KEY, [scope, key]);
+            const stored = rows[0];
+            if (!stored) return res.status(409).json({ code: 'idempotency_request_in_progress', message: 'La petición original se está procesando, reinténtalo en unos segundos' });
+            if (stored.request_hash !== requestHash) {
+                return res.status(422).json({
+                    code: 'idempotency_key_reused',
+                    message: 'Esta Idempotency-Key ya se usó con otra petición; genera una clave nueva',
+                });
+            }
+            if (stored.status !== 'completed') {
+                return res.status(409).json({ code: 'idempotency_request_in_progress', message: 'La petición original se está procesando, reinténtalo en unos segundos' });
+            }
+            const body = typeof stored.response_body === 'string' ? JSON.parse(stored.response_body) : stored.response_body;
+            res.set('Idempotent-Replayed', 'true');
+            return res.status(stored.response_status).json(body);
+        }
+
+        // 🆕 Primera petición con esta clave: capturar la respuesta para guardarla al terminar
+        const keyId = inserted.insertId;
+        let captured: { status: number; body: unknown } | null = null;
+        const originalJson = res.json.bind(res);
+        res.json = (body: any) => {
+            captured = { status: res.statusCode, body };
+            return originalJson(body);
+        };
+
+        // Guardar la respuesta (o liberar la clave si no la hay o es un 5xx) una sola vez: al terminar de enviarla
+        // o, si el cliente corta la conexión antes, al cerrarse (si no, la clave quedaría "en curso" hasta caducar)
+        let settled = false;
+        const settle = () => {
+            if (settled) return;
+            settled = true;
+            const result: { status: number; body: unknown } | null = captured;
+            const save = result && result.status < 500
+                ? db.query(COMPLETE_IDEMPOTENCY_KEY, [result.status, JSON.stringify(result.body ?? null), keyId])
+                : db.query(DELETE_IDEMPOTENCY_KEY, [keyId]);
+            save.catch(err => console.error(`❌ Error guardando la Idempotency-Key ${key}:`, err));
+        };
+        res.on('finish', settle);
+        res.on('close', () => {
+            if (!res.writableFinished) settle();
+        });
+
+        next();
+    } catch (err: any) {
+        console.error('❌ Error comprobando Idempotency-Key:', err);
+        res.status(500).json({ message: 'No se pudo comprobar la Idempotency-Key' });
+    }
+}
@@ -16,7 +16,8 @@ import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
  * @param {'user'|'admin'} req.body.role - Rol del usuario.
  * @param {string} req.body.phone - Número de teléfono del usuario.
  * @param {Response} res - Objeto Response de Express.
- * @returns {Promise<void>} Responde con JSON que contiene un mensaje de éxito.
+ * @returns {Promise<void>} Responde con JSON que contiene un mensaje de éxito, `claimedOrders` (pedidos de invitado vinculados)
+ * y `claimPending` (el email tiene compras como invitado y hay que confirmar el registro desde el correo).
  * @throws {400} Si ya existe un usuario con el mismo email o ocurre otro error de validación.
  * 
  * @example
@@ -34,6 +35,33 @@ export const register = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * Controlador para confirmar el registro con el email de un comprador invitado.
+ * Ruta: POST /api/auth/claim-guest
+ * 
+ * @async
+ * @param {Request} req - Objeto Request de Express.
+ * @param {Object} req.body - Datos de la confirmación.
+ * @param {string} req.body.token - Token recibido por email tras el registro.
+ * @param {Response} res - Objeto Response de Express.
+ * @returns {Promise<void>} Responde con JSON que contiene un mensaje de éxito y `claimedOrders` (pedidos de invitado vinculados).
+ * @throws {400} Si el token es inválido o ha expirado.
+ * 
+ * @example
+ * // POST /api/auth/claim-guest
+ * // Body: { token: 'abcd1234efgh5678' }
+ * await confirmGuestClaim(req, res);
+ */
+export const confirmGuestClaim = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+        const result = await AuthService.confirmGuestClaim(token);
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
 /**
  * Controlador para login de usuario/admin.
  * Ruta: POST /api/auth/login
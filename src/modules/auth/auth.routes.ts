@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { login, register, changePassword, requestPasswordReset, resetPassword } from './auth.controller';
+import { login, register, confirmGuestClaim, changePassword, requestPasswordReset, resetPassword } from './auth.controller';
 import { authenticate } from '../../middlewares/auth.middleware';
 
 const router = Router();
@@ -28,6 +28,26 @@ const router = Router();
  */
 router.post('/register', register);
 
+/**
+ * Confirmar el registro con el email de un comprador invitado.
+ * Ruta: POST /api/auth/claim-guest
+ * 
+ * @route POST /api/auth/claim-guest
+ * @access Public
+ * @async
+ * @param {Request} req - Objeto Request de Express.
+ * @param {Object} req.body - Datos de la confirmación.
+ * @param {string} req.body.token - Token recibido por email al registrarse con el email de un invitado.
+ * @param {Response} res - Objeto Response de Express.
+ * @returns {Promise<void>} Responde con JSON que contiene un mensaje de éxito y `claimedOrders`.
+ * @throws {400} Si el token es inválido o ha expirado.
+ * @example
+ * // POST /api/auth/claim-guest
+ * // Body: { token: 'abcd1234efgh5678' }
+ * // Response: { message: 'Usuario registrado correctamente', claimedOrders: 2 }
+ */
+router.post('/claim-guest', confirmGuestClaim);
+
 /**
  * Iniciar sesión de usuario o administrador.
  * Ruta: POST /api/auth/login
@@ -1,15 +1,26 @@
 import { db } from '../../config/config';
+import { withTransaction } from '../../database/db';
 import * as crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import { signJwt } from '../../utils/jwt.util';
-import { CREATE_USER, GET_USER_BY_EMAIL, UPDATE_PASSWORD, SET_RESET_TOKEN, GET_USER_BY_RESET_TOKEN, CLEAR_RESET_TOKEN } from '../../database/queries/auth.queries';
+import {
+    CREATE_USER, GET_USER_BY_EMAIL, UPDATE_PASSWORD, SET_RESET_TOKEN, GET_USER_BY_RESET_TOKEN, CLEAR_RESET_TOKEN,
+    CLAIM_GUEST_USER, COUNT_ORDERS_BY_USER, CREATE_GUEST_CLAIM, LOCK_GUEST_CLAIM_BY_TOKEN, DELETE_GUEST_CLAIMS_BY_USER
+} from '../../database/queries/auth.queries';
 import { sendPasswordResetEmail } from './notifications/send-password-reset';
+import { sendGuestClaimEmail } from './notifications/send-guest-claim';
+
+/** Horas de validez del enlace para confirmar el registro con el email de un invitado */
+const GUEST_CLAIM_TTL_HOURS = 24;
 
 
 export const AuthService = {
     /**
      * Registra un nuevo usuario en la base de datos.
      * - Verifica que no exista un usuario con el mismo email.
+     * - Si el email es de un comprador invitado (rol `guest`), no lo convierte todavía: guarda la solicitud
+     *   y envía al email un enlace para confirmarla (`confirmGuestClaim`). Así solo el dueño del email
+     *   se queda con los pedidos y direcciones del invitado (`claimPending: true`).
      * - Hashea la contraseña usando bcrypt antes de guardar.
      * 
      * @async
@@ -19,24 +30,83 @@ export const AuthService = {
      * @param {string} password - Contraseña en texto plano. Será hasheada antes de guardar.
      * @param {'admin'|'user'} role - Rol del usuario. Por ejemplo, 'admin' o 'user'.
      * @param {string} phone - Número de teléfono del usuario.
-     * @returns {Promise<{ message: string }>} Objeto con mensaje de éxito si el registro fue correcto.
-     * @throws {Error} Si ya existe un usuario con el mismo email.
+     * @returns {Promise<{ message: string, claimedOrders: number, claimPending: boolean }>} Mensaje de éxito, pedidos de invitado
+     * vinculados a la cuenta (0 hasta confirmar) y si falta confirmar el registro desde el email.
+     * @throws {Error} Si ya existe un usuario registrado con el mismo email.
      * @example
      * await AuthService.register('Juan', 'Pérez', 'juan@example.com', 'password123', 'user', '555-1234');
      */
     async register(first_name: string, last_name: string, email: string, password: string, role: string, phone: string) {
+        if (role === 'guest') throw new Error('Rol no válido');
+
         // 1️⃣ Verificar si ya existe un usuario con el mismo email
         const [existing]: any = await db.query(GET_USER_BY_EMAIL, [email]);
-        if (existing.length > 0) throw new Error('Ya existe un usuario registrado con este email');
+        const guest = existing.find((u: any) => u.role === 'guest');
+        if (existing.length > 0 && !guest) throw new Error('Ya existe un usuario registrado con este email');
 
         // 2️⃣ Hashear la contraseña usando bcrypt con 10 salt rounds
         const hashed = await bcrypt.hash(password, 10);
 
-        // 3️⃣ Insertar el nuevo usuario en la base de datos
+        // 3️⃣ Compró como invitado → el dueño del email tiene que confirmar el registro desde el correo
+        if (guest) {
+            const token = crypto.randomBytes(32).toString('hex');
+            const expires = new Date(Date.now() + 1000 * 60 * 60 * GUEST_CLAIM_TTL_HOURS);
+            await db.query(CREATE_GUEST_CLAIM, [token, guest.id, first_name, last_name, hashed, role, phone, expires]);
+
+            const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+            await sendGuestClaimEmail(email, first_name, `${baseUrl}/auth/claim-account?token=${token}`);
+
+            return {
+                message: 'Este email tiene compras como invitado: te hemos enviado un correo para confirmar la cuenta',
+                claimedOrders: 0,
+                claimPending: true,
+            };
+        }
+
+        // 4️⃣ Insertar el nuevo usuario en la base de datos
         await db.query(CREATE_USER, [first_name, last_name, email, hashed, role, phone]);
 
-        // 4️⃣ Devolver mensaje de éxito
-        return { message: 'Usuario registrado correctamente' };
+        // 5️⃣ Devolver mensaje de éxito
+        return { message: 'Usuario registrado correctamente', claimedOrders: 0, claimPending: false };
+    },
+
+    /**
+     * Confirmar el registro con el email de un comprador invitado usando el token enviado por correo.
+     *
+     * Flujo:
+     * 1. En una transacción, bloquea la solicitud del token (si no ha expirado).
+     * 2. Convierte el usuario invitado en la cuenta con los datos del registro (mismo `id`):
+     *    sus pedidos y direcciones pasan a la cuenta.
+     * 3. Elimina las solicitudes pendientes de ese invitado (las demás dejan de valer).
+     *
+     * @async
+     * @param {string} token - Token recibido por email.
+     * @returns {Promise<{ message: string, claimedOrders: number }>} Mensaje de éxito y pedidos de invitado vinculados a la cuenta.
+     * @throws {Error} Si el token es inválido o ha expirado, o el email ya tiene una cuenta registrada.
+     *
+     * @example
+     * ```ts
+     * await AuthService.confirmGuestClaim('abcd1234efgh5678');
+     * ```
+     */
+    async confirmGuestClaim(token: string) {
+        if (!token || typeof token !== 'string') throw new Error('Token inválido o expirado');
+
+        return withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(LOCK_GUEST_CLAIM_BY_TOKEN, [token]);
+            if (!rows.length) throw new Error('Token inválido o expirado');
+            const claim = rows[0];
+
+            const [claimed]: any = await conn.query(CLAIM_GUEST_USER, [
+                claim.first_name, claim.last_name, claim.password_hash, claim.role, claim.phone, claim.user_id,
+            ]);
+            if (!claimed.affectedRows) throw new Error('Ya existe una cuenta registrada con este email');
+
+            await conn.query(DELETE_GUEST_CLAIMS_BY_USER, [claim.user_id]);
+
+            const [orders]: any = await conn.query(COUNT_ORDERS_BY_USER, [claim.user_id]);
+            return { message: 'Usuario registrado correctamente', claimedOrders: Number(orders[0]?.count ?? 0) };
+        });
     },
 
     /**
@@ -65,6 +135,8 @@ export const AuthService = {
         if (!rows.length) throw new Error('Usuario no encontrado');
 
         const user = rows[0];
+        // Los compradores invitados no tienen contraseña hasta que se registran con su email
+        if (user.role === 'guest') throw new Error('Este email solo tiene compras como invitado: regístrate con él para acceder a tus pedidos');
 
         // 2️⃣ Verificar que la contraseña proporcionada coincide con la hash guardada
         const valid = await bcrypt.compare(password, user.password_hash);
@@ -137,7 +209,7 @@ export const AuthService = {
     async requestPasswordReset(email: string) {
         // 1️⃣ Buscar el usuario por email
         const [rows]: any = await db.query(GET_USER_BY_EMAIL, [email]);
-        if (!rows.length) {
+        if (!rows.length || rows[0].role === 'guest') {
             throw new Error('No existe una cuenta registrada con este correo');
         }
 
@@ -0,0 +1,35 @@
+import { mailService } from '../../../integrations/mail.service';
+
+/**
+ * Envía al email de un comprador invitado el enlace para confirmar el registro de la cuenta.
+ *
+ * Flujo:
+ * 1. Recibe el email, el nombre indicado en el registro y el enlace generado por AuthService.
+ * 2. Usa la plantilla `guest-claim.ejs`.
+ * 3. Envía el correo a través de `mailService`.
+ *
+ * @param {string} email - Dirección de correo del comprador invitado.
+ * @param {string} firstName - Nombre indicado en el registro.
+ * @param {string} claimLink - Enlace único de confirmación (con token incluido).
+ * @returns {Promise<void>} No retorna valor, solo envía el correo.
+ * @throws {Error} Lanza error si el envío falla.
+ *
+ * @example
+ * ```ts
+ * await sendGuestClaimEmail('ana@example.com', 'Ana', 'https://shopbrands.com/auth/claim-account?token=abc123');
+ * ```
+ */
+export const sendGuestClaimEmail = async (email: string, firstName: string, claimLink: string) => {
+    try {
+        await mailService.sendMail({
+            to: email,
+            subject: 'Confirma tu cuenta - ShopBrands',
+            template: 'guest-claim',
+            context: { firstName, claimLink },
+        });
+        console.log(`✅ Email de confirmación de cuenta enviado a ${email}`);
+    } catch (err) {
+        console.error('❌ Error enviando email de confirmación de cuenta:', err);
+        throw err;
+    }
+};
@@ -1,20 +1,25 @@
 import { Request, Response } from 'express';
 import { CartService } from './cart.service';
 import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { InsufficientStockError, PriceMismatchError } from '../orders/orders.errors';
+import { parseGiftOptions } from '../orders/orders.gift';
+import { parseCurrency } from '../currencies/currencies.rules';
+import { parseShippingMethod } from '../shipping/shipping.rules';
 
 /**
  * GET /api/cart
  * Obtiene el carrito completo del usuario autenticado.
  * @async
- * @param {AuthenticatedRequest} req - Request autenticado con `user.id`.
- * @param {Response} res - Respuesta con objeto { cart_id, items[], total }.
+ * @param {AuthenticatedRequest} req - Request autenticado con `user.id` y `?currency` opcional (EUR, GBP, CHF).
+ * @param {Response} res - Respuesta con objeto { cart_id, items[], total, currency }.
  * @throws {400} Si ocurre un error al obtener el carrito.
  * @example
  * await getCart(req, res);
  */
 export const getCart = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const data = await CartService.getCart(req.user!.id);
+        const currency = parseCurrency(req.query.currency) ?? undefined;
+        const data = await CartService.getCart(req.user!.id, currency);
         res.json(data);
     } catch (err: any) {
         res.status(400).json({ message: err.message });
@@ -110,6 +115,49 @@ export const emptyCart = async (req: AuthenticatedRequest, res: Response) => {
     }
 };
 
+/**
+ * GET /api/cart/shipping-options
+ * Métodos de envío disponibles para el carrito y la dirección elegida, con su coste.
+ * @async
+ * @param {AuthenticatedRequest} req - Request autenticado con `?address_id` y `?currency` opcional.
+ * @param {Response} res - Respuesta con { address_id, zone, zone_label, currency, items_total, options[] }.
+ * @throws {400} Si falta la dirección, no es del usuario o el carrito está vacío.
+ * @example
+ * await getShippingOptions(req, res);
+ */
+export const getShippingOptions = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const data = await CartService.getShippingOptions(req.user!.id, Number(req.query.address_id), parseCurrency(req.query.currency));
+        res.json(data);
+    } catch (err: any) {
+        res.status(400).json({ message: err.message });
+    }
+};
+
+/**
+ * POST /api/cart/guest-shipping-options
+ * Métodos de envío disponibles para un invitado, a partir de la dirección y los productos de su carrito.
+ * @async
+ * @param {Request} req - Request sin autenticar.
+ * @param {Object} req.body
+ * @param {Object} req.body.address - Dirección { country, postal_code?, province? }.
+ * @param {Array} req.body.items - Productos [{ product_id, quantity }].
+ * @param {string} [req.body.currency] - Divisa de los costes (por defecto la del país).
+ * @param {Response} res - Respuesta con { zone, zone_label, currency, options[] }.
+ * @throws {400} Si faltan datos.
+ * @example
+ * await guestShippingOptions(req, res);
+ */
+export const guestShippingOptions = async (req: Request, res: Response) => {
+    try {
+        const { address, items, currency } = req.body ?? {};
+        const data = await CartService.getGuestShippingOptions({ address, items, currency: parseCurrency(currency) });
+        res.json(data);
+    } catch (err: any) {
+        res.status(400).json({ message: err.message });
+    }
+};
+
 /**
  * POST /api/cart/checkout
  * Realiza el checkout del carrito y genera sesión de pago (Stripe).
@@ -118,17 +166,65 @@ export const emptyCart = async (req: AuthenticatedRequest, res: Response) => {
  * @param {Object} req.body
  * @param {number} req.body.address_id - ID de la dirección de envío.
  * @param {string} req.body.frontendUrl - URL del frontend para redirección tras pago.
+ * @param {Object} [req.body.gift] - Opciones de regalo { message?, wrap?, hide_prices? }.
+ * @param {string} [req.body.currency] - Divisa del pedido (por defecto la del país de envío).
+ * @param {string} [req.body.shipping_method] - Método de envío: standard, express o pickup (por defecto standard).
  * @param {Response} res - Respuesta con objeto { orderId, url } de Stripe Checkout.
- * @throws {400} Si carrito vacío, stock insuficiente o parámetros inválidos.
+ * @throws {409} Si algún producto no tiene stock suficiente o su precio cambió durante el checkout (incluye el detalle).
+ * @throws {400} Si carrito vacío o parámetros inválidos.
  * @example
  * await checkout(req, res);
  */
 export const checkout = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { address_id, frontendUrl } = req.body;
-        const result = await CartService.checkout(req.user!.id, Number(address_id), frontendUrl);
+        const { address_id, frontendUrl, gift, currency, shipping_method } = req.body;
+        const result = await CartService.checkout(
+            req.user!.id, Number(address_id), frontendUrl, parseGiftOptions(gift), parseCurrency(currency), parseShippingMethod(shipping_method)
+        );
+        res.json(result);
+    } catch (err: any) {
+        if (err instanceof InsufficientStockError || err instanceof PriceMismatchError) {
+            return res.status(err.status).json(err.toResponse());
+        }
+        res.status(400).json({ message: err.message });
+    }
+};
+
+/**
+ * POST /api/cart/guest-checkout
+ * Checkout como invitado (sin cuenta): crea el pedido con el email y la dirección indicados y genera la sesión de pago (Stripe).
+ * @async
+ * @param {Request} req - Request sin autenticar.
+ * @param {Object} req.body
+ * @param {string} req.body.email - Email del comprador (recibirá la confirmación y la factura).
+ * @param {string} req.body.first_name - Nombre del comprador.
+ * @param {string} req.body.last_name - Apellidos del comprador.
+ * @param {string} [req.body.phone] - Teléfono de contacto.
+ * @param {Object} req.body.address - Dirección de envío { street, city, province?, postal_code, country, phone? }.
+ * @param {Array} req.body.items - Productos [{ product_id, quantity, price? }].
+ * @param {number} [req.body.total] - Total esperado por el cliente (con envoltorio y envío).
+ * @param {string} req.body.frontendUrl - URL del frontend para redirección tras pago.
+ * @param {Object} [req.body.gift] - Opciones de regalo { message?, wrap?, hide_prices? }.
+ * @param {string} [req.body.currency] - Divisa del pedido (por defecto la del país de envío).
+ * @param {string} [req.body.shipping_method] - Método de envío: standard, express o pickup (por defecto standard).
+ * @param {Response} res - Respuesta con objeto { orderId, url } de Stripe Checkout.
+ * @throws {409} Si algún producto no tiene stock suficiente o su precio cambió (incluye el detalle).
+ * @throws {400} Si faltan datos, el email no es válido o ya es de una cuenta registrada.
+ * @example
+ * await guestCheckout(req, res);
+ */
+export const guestCheckout = async (req: Request, res: Response) => {
+    try {
+        const { email, first_name, last_name, phone, address, items, total, frontendUrl, gift, currency, shipping_method } = req.body ?? {};
+        const result = await CartService.guestCheckout({
+            email, first_name, last_name, phone, address, items, total, frontendUrl, gift: parseGiftOptions(gift), currency: parseCurrency(currency),
+            shipping_method: parseShippingMethod(shipping_method),
+        });
         res.json(result);
     } catch (err: any) {
+        if (err instanceof InsufficientStockError || err instanceof PriceMismatchError) {
+            return res.status(err.status).json(err.toResponse());
+        }
         res.status(400).json({ message: err.message });
     }
 };
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { authenticate } from '../../middlewares/auth.middleware';
-import { getCart, addItem, updateItem, removeItem, emptyCart, checkout } from './cart.controller';
+import { idempotency, idempotencyByTarget } from '../../middlewares/idempotency.middleware';
+import {
+    getCart, addItem, updateItem, removeItem, emptyCart, getShippingOptions, guestShippingOptions, checkout, guestCheckout
+} from './cart.controller';
 
 const router = Router();
 
@@ -86,6 +89,24 @@ router.delete('/items/:id', authenticate, removeItem);
  */
 router.delete('/', authenticate, emptyCart);
 
+/**
+ * Métodos de envío del carrito.
+ * Ruta: GET /api/cart/shipping-options
+ * @route GET /api/cart/shipping-options
+ * @desc Devuelve los métodos de envío disponibles (estándar, exprés, recogida) para la dirección elegida,
+ * con su coste según la zona y el peso o el importe del carrito.
+ * @access Private (requiere token)
+ * @async
+ * @param {number} req.query.address_id - ID de la dirección de envío.
+ * @param {string} [req.query.currency] - Divisa de los costes (por defecto la del país de envío).
+ * @returns {Promise<void>} JSON con { address_id, zone, zone_label, currency, items_total, options }.
+ * @throws {400} Si falta la dirección, no es del usuario o el carrito está vacío.
+ * @example
+ * // GET /api/cart/shipping-options?address_id=3
+ * await getShippingOptions(req, res);
+ */
+router.get('/shipping-options', authenticate, getShippingOptions);
+
 /**
  * Realizar checkout del carrito.
  * Ruta: POST /api/cart/checkout
@@ -96,12 +117,54 @@ router.delete('/', authenticate, emptyCart);
  * @param {Object} req.body - Datos necesarios para el checkout.
  * @param {number} req.body.addressId - ID de la dirección de envío.
  * @param {string} req.body.frontendUrl - URL del frontend para redirección tras pago.
+ * @param {string} [req.body.shipping_method] - Método de envío (por defecto `standard`).
+ * @header {string} [Idempotency-Key] - Si se repite, devuelve la respuesta original en vez de crear otro pedido.
  * @returns {Promise<void>} JSON con { orderId, url }.
  * @throws {400} Si carrito vacío, stock insuficiente o parámetros inválidos.
  * @example
  * // POST /api/cart/checkout
  * await checkout(req, res);
  */
-router.post('/checkout', authenticate, checkout);
+router.post('/checkout', authenticate, idempotency, checkout);
+
+/**
+ * Métodos de envío para un invitado.
+ * Ruta: POST /api/cart/guest-shipping-options
+ * @route POST /api/cart/guest-shipping-options
+ * @desc Devuelve los métodos de envío disponibles y su coste a partir de la dirección y los productos del carrito del frontend.
+ * @access Public
+ * @async
+ * @param {Object} req.body - { address: { country, postal_code?, province? }, items, currency? }.
+ * @returns {Promise<void>} JSON con { zone, zone_label, currency, options }.
+ * @throws {400} Si faltan datos.
+ * @example
+ * // POST /api/cart/guest-shipping-options
+ * await guestShippingOptions(req, res);
+ */
+router.post('/guest-shipping-options', guestShippingOptions);
+
+/**
+ * Checkout como invitado (sin cuenta).
+ * Ruta: POST /api/cart/guest-checkout
+ * @route POST /api/cart/guest-checkout
+ * @desc Crea el pedido con el email y la dirección del comprador, genera la sesión Stripe y devuelve la URL de pago.
+ * Al registrarse después con el mismo email, el comprador conserva estos pedidos.
+ * @access Public
+ * @async
+ * @param {Object} req.body - { email, first_name, last_name, phone?, address, items, total?, frontendUrl, gift?, currency?, shipping_method? }.
+ * @header {string} [Idempotency-Key] - Si se repite, devuelve la respuesta original en vez de crear otro pedido.
+ * La clave se guarda por el email del comprador (la ruta es pública).
+ * @returns {Promise<void>} JSON con { orderId, url }.
+ * @throws {400} Si faltan datos o el email ya es de una cuenta registrada.
+ * @throws {409} Si falta stock o han cambiado los precios.
+ * @example
+ * // POST /api/cart/guest-checkout
+ * await guestCheckout(req, res);
+ */
+router.post(
+    '/guest-checkout',
+    idempotencyByTarget(req => typeof req.body?.email === 'string' ? `guest:${req.body.email.trim().toLowerCase()}` : null),
+    guestCheckout
+);
 
 export default router;
@@ -1,13 +1,65 @@
 import { db } from '../../config/config';
+import { withTransaction } from '../../database/db';
 import * as Queries from '../../database/queries/cart.queries';
+import { GET_USER_BY_EMAIL, CREATE_GUEST_USER } from '../../database/queries/auth.queries';
+import { CREATE_ADDRESS } from '../../database/queries/addresses.queries';
 import { OrdersService } from '../orders/orders.service';
 import { PaymentsService } from '../payments/payments.service';
+import { GiftOptions, giftWrapFee } from '../orders/orders.gift';
+import { roundMoney } from '../../utils/money.utils';
+import { CurrencyService } from '../currencies/currencies.service';
+import { BASE_CURRENCY, CurrencyCode, currencyForCountry } from '../currencies/currencies.rules';
+import { ShippingService } from '../shipping/shipping.service';
+import { ShippingMethodCode, SHIPPING_ZONE_LABELS, pickShippingOption } from '../shipping/shipping.rules';
+import { notifyAdminNewOrder } from '../../utils/notifications.util';
+
+/**
+ * Datos de una compra como invitado (sin cuenta): contacto, dirección de envío y productos
+ * (el invitado no tiene carrito en servidor, las líneas llegan desde el carrito del frontend).
+ */
+export interface GuestCheckoutInput {
+    email: string;
+    first_name: string;
+    last_name: string;
+    phone?: string | null;
+    address: {
+        street: string;
+        city: string;
+        province?: string | null;
+        postal_code: string;
+        country: string;
+        phone?: string | null;
+    };
+    items: Array<{ product_id: number; quantity: number; price?: number }>;
+    /** Total que espera pagar el cliente, con envoltorio y envío (409 si no coincide con el recalculado) */
+    total?: number | null;
+    frontendUrl: string;
+    /** Opciones de regalo (ver `parseGiftOptions`) */
+    gift?: GiftOptions | null;
+    /** Divisa del pedido (por defecto la del país de envío) */
+    currency?: CurrencyCode | null;
+    /** Método de envío (por defecto `standard`, si está disponible para la dirección) */
+    shipping_method?: ShippingMethodCode | null;
+}
+
+/**
+ * Datos para calcular los métodos de envío de un invitado: dirección (país, código postal, provincia) y productos.
+ */
+export interface GuestShippingInput {
+    address: { country: string; postal_code?: string | null; province?: string | null };
+    items: Array<{ product_id: number; quantity: number }>;
+    currency?: CurrencyCode | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 /**
  * Servicio para manejo del carrito de la compra
  * - persiste en tablas `cart` y `cart_items`
  * - suma cantidades si ya existe el mismo producto en el carrito
  * - checkout: crea order (status pending) y genera sesión Stripe (flow A)
+ * - getShippingOptions: métodos de envío disponibles para el carrito y la dirección elegida
+ * - guestCheckout: lo mismo sin cuenta, a partir del email y la dirección del comprador
  */
 export const CartService = {
     /**
@@ -30,28 +82,39 @@ export const CartService = {
      * Obtener el carrito completo con items enriquecidos y totales.
      * @async
      * @param {number} userId - ID del usuario.
-     * @returns {Promise<{cart_id: number, items: Array<Object>, total: number}>} Carrito con items y total.
+     * @param {CurrencyCode} [currency] - Divisa de los precios (por defecto EUR).
+     * @returns {Promise<{cart_id: number, items: Array<Object>, total: number, currency: string}>} Carrito con items, total y divisa.
      * @example
-     * const cart = await CartService.getCart(1);
+     * const cart = await CartService.getCart(1, 'GBP');
      */
-    async getCart(userId: number) {
+    async getCart(userId: number, currency: CurrencyCode = BASE_CURRENCY) {
         const cartId = await this.getOrCreateCartId(userId);
         const [rows]: any = await db.query(Queries.GET_CART_ITEMS_BY_CART, [cartId]);
 
-        const items = rows.map((r: any) => ({
-            id: r.id,
-            product_id: r.product_id,
-            product_name: r.product_name,
-            price: Number(r.product_price || 0),
-            quantity: Number(r.quantity || 0),
-            stock: typeof r.product_stock !== 'undefined' && r.product_stock !== null ? Number(r.product_stock) : null,
-            image_url: r.product_image ? `${process.env.BASE_URL || ''}/uploads/${r.product_image}` : null,
-            subtotal: Number(((Number(r.product_price || 0) * Number(r.quantity || 0))).toFixed(2)),
-        }));
+        // Precios en la divisa pedida (explícitos o convertidos desde euros)
+        const prices = await CurrencyService.priceProducts(
+            db,
+            rows.map((r: any) => ({ id: Number(r.product_id), price: Number(r.product_price || 0) })),
+            await CurrencyService.getRate(db, currency)
+        );
+
+        const items = rows.map((r: any) => {
+            const price = prices.get(Number(r.product_id)) ?? 0;
+            return {
+                id: r.id,
+                product_id: r.product_id,
+                product_name: r.product_name,
+                price,
+                quantity: Number(r.quantity || 0),
+                stock: typeof r.product_stock !== 'undefined' && r.product_stock !== null ? Number(r.product_stock) : null,
+                image_url: r.product_image ? `${process.env.BASE_URL || ''}/uploads/${r.product_image}` : null,
+                subtotal: Number(((price * Number(r.quantity || 0))).toFixed(2)),
+            };
+        });
 
         const total = items.reduce((acc: number, it: any) => acc + it.subtotal, 0);
 
-        return { cart_id: cartId, items, total: Number(total.toFixed(2)) };
+        return { cart_id: cartId, items, total: Number(total.toFixed(2)), currency };
     },
 
     /**
@@ -168,54 +231,106 @@ export const CartService = {
         }
     },
 
+    /**
+     * Métodos de envío disponibles para el carrito y una dirección del usuario, con su coste.
+     * - La zona sale de la dirección (península, Baleares, Canarias, UE, resto) y el tramo del peso o el importe del carrito.
+     * - Los costes están en la divisa indicada o, si no se indica, en la del país de envío.
+     * @async
+     * @param {number} userId - ID del usuario.
+     * @param {number} addressId - ID de la dirección de envío (del usuario).
+     * @param {CurrencyCode | null} [currency] - Divisa de los costes.
+     * @returns {Promise<Object>} `{ address_id, zone, zone_label, currency, items_total, options: [{ method, name, description, cost, free, ... }] }`
+     * @throws {Error} Si falta la dirección, no es del usuario o el carrito está vacío.
+     * @example
+     * const { options } = await CartService.getShippingOptions(1, 3);
+     */
+    async getShippingOptions(userId: number, addressId: number, currency: CurrencyCode | null = null) {
+        if (!addressId) throw new Error('address_id es requerido');
+        const orderCurrency = await CurrencyService.resolveCurrency(db, currency, addressId);
+        const cart = await this.getCart(userId, orderCurrency);
+        if (!cart.items.length) throw new Error('El carrito está vacío');
+
+        const parcel = await ShippingService.getParcel(db, cart.items);
+        const { zone, options } = await ShippingService.getAddressOptions(db, addressId, parcel, await CurrencyService.getRate(db, orderCurrency), userId);
+        return { address_id: addressId, zone, zone_label: SHIPPING_ZONE_LABELS[zone], currency: orderCurrency, items_total: cart.total, options };
+    },
+
+    /**
+     * Métodos de envío disponibles para un invitado (sin cuenta ni carrito en servidor), con su coste.
+     * @async
+     * @param {GuestShippingInput} input - Dirección (country, postal_code, province), productos y divisa (por defecto la del país).
+     * @returns {Promise<Object>} `{ zone, zone_label, currency, options }`
+     * @throws {Error} Si falta el país o no hay productos.
+     */
+    async getGuestShippingOptions(input: GuestShippingInput) {
+        if (!input.address || !input.address.country?.trim()) throw new Error('address.country es requerido');
+        if (!Array.isArray(input.items) || !input.items.length) throw new Error('items es requerido');
+        const items = input.items.map(it => ({ product_id: Number(it.product_id), quantity: Number(it.quantity) }));
+        if (items.some(it => !it.product_id || !Number.isInteger(it.quantity) || it.quantity <= 0)) {
+            throw new Error('Cada item debe tener product_id y quantity válidos');
+        }
+
+        const orderCurrency = input.currency ?? currencyForCountry(input.address.country);
+        const parcel = await ShippingService.getParcel(db, items);
+        const { zone, options } = await ShippingService.getOptions(db, input.address, parcel, await CurrencyService.getRate(db, orderCurrency));
+        return { zone, zone_label: SHIPPING_ZONE_LABELS[zone], currency: orderCurrency, options };
+    },
+
     /**
      * Realizar checkout del carrito.
-     * - Valida items y stock.
-     * - Crea order (status 'pending') usando OrdersService.createOrder.
+     * - Valida items.
+     * - Crea order (status 'pending') usando OrdersService.createOrder, que bloquea y descuenta el stock en una transacción.
      * - Crea Stripe Checkout session usando PaymentsService.createCheckoutSession.
-     * - Vacía el carrito.
+     * - No vacía el carrito: se vacía al confirmarse el pago (`confirmCheckoutSession` en el webhook de Stripe),
+     *   así el cliente lo conserva si abandona el pago o el pedido caduca.
      * @async
      * @param {number} userId - ID del usuario.
      * @param {number} addressId - ID de la dirección de envío.
      * @param {string} frontendUrl - URL del frontend para redirección de Stripe.
+     * @param {GiftOptions | null} [gift] - Opciones de regalo (el envoltorio suma `GIFT_WRAP_FEE` al total).
+     * @param {CurrencyCode | null} [currency] - Divisa del pedido; si no se indica, la del país de envío.
+     * @param {ShippingMethodCode | null} [shippingMethod] - Método de envío; si no se indica, `standard` (si no está disponible, hay que indicarlo).
      * @returns {Promise<{orderId: number, url: string}>} Objeto con ID de order y URL de pago.
-     * @throws {Error} Si carrito vacío, stock insuficiente o parámetros inválidos.
+     * @throws {InsufficientStockError} Si algún producto no tiene stock suficiente.
+     * @throws {PriceMismatchError} Si algún precio cambió entre la lectura del carrito y la creación del pedido.
+     * @throws {Error} Si carrito vacío, parámetros inválidos o el método de envío no está disponible para la dirección.
      * @example
      * const result = await CartService.checkout(1, 3, 'https://myfrontend.com/checkout-success');
      */
-    async checkout(userId: number, addressId: number, frontendUrl: string) {
+    async checkout(
+        userId: number,
+        addressId: number,
+        frontendUrl: string,
+        gift: GiftOptions | null = null,
+        currency: CurrencyCode | null = null,
+        shippingMethod: ShippingMethodCode | null = null
+    ) {
         if (!addressId) throw new Error('addressId es requerido para el checkout');
         if (!frontendUrl || typeof frontendUrl !== 'string') throw new Error('frontendUrl es requerido');
 
-        const cart = await this.getCart(userId);
+        const orderCurrency = await CurrencyService.resolveCurrency(db, currency, addressId);
+        const cart = await this.getCart(userId, orderCurrency);
         if (!cart.items.length) throw new Error('El carrito está vacío');
 
-        // validar stock y construir items para order
-        const itemsForOrder: any[] = [];
-        let total = 0;
-        for (const it of cart.items) {
-            // volver a obtener precio/stock real por si hubo cambios
-            const [prodRows]: any = await db.query('SELECT price, stock FROM products WHERE id = ?', [it.product_id]);
-            if (!prodRows.length) throw new Error(`Producto ${it.product_id} no encontrado`);
-            const price = Number(prodRows[0].price);
-            const stock = prodRows[0].stock !== null && typeof prodRows[0].stock !== 'undefined' ? Number(prodRows[0].stock) : null;
-
-            if (stock !== null && it.quantity > stock) {
-                throw new Error(`Stock insuficiente para producto ${it.product_name}`);
-            }
+        // construir items para order
+        // (OrdersService.createOrder recalcula los precios desde `products` y valida/descuenta el stock
+        //  de forma atómica; el total del carrito, más el envoltorio de regalo si se pide y el envío,
+        //  se envía como total esperado para detectar cambios)
+        const itemsForOrder = cart.items.map((it: any) => ({
+            product_id: it.product_id,
+            quantity: it.quantity,
+            price: it.price,
+        }));
 
-            itemsForOrder.push({
-                product_id: it.product_id,
-                quantity: it.quantity,
-                price: price,
-            });
-
-            total += price * it.quantity;
-        }
-        total = Number(total.toFixed(2));
+        // Método de envío (el elegido o el de por defecto) con su coste para esta dirección
+        const parcel = await ShippingService.getParcel(db, cart.items);
+        const { options } = await ShippingService.getAddressOptions(db, addressId, parcel, await CurrencyService.getRate(db, orderCurrency), userId);
+        const shipping = pickShippingOption(options, shippingMethod);
 
         // Crear order (OrdersService.createOrder inserta order + order_items y notifica admin)
-        const createResult: any = await OrdersService.createOrder(userId, addressId, itemsForOrder, total);
+        const wrapFee = await CurrencyService.convert(db, giftWrapFee(gift), orderCurrency);
+        const expectedTotal = roundMoney(Number(cart.total) + wrapFee + shipping.cost);
+        const createResult = await OrdersService.createOrder(userId, addressId, itemsForOrder, expectedTotal, gift, orderCurrency, shipping.method);
         const orderId = createResult.orderId;
 
         // Crear sesión Stripe
@@ -223,4 +338,81 @@ export const CartService = {
 
         return { orderId, url: session.url };
     },
+
+    /**
+     * Realizar checkout como invitado (sin cuenta).
+     * - Reutiliza el usuario invitado (rol `guest`, sin contraseña) del email o lo crea; si el email ya es de una
+     *   cuenta registrada, hay que iniciar sesión.
+     * - Los datos de contacto de un invitado que ya existía no se sobrescriben: los de esta compra van en la dirección.
+     * - Guarda la dirección de envío en ese usuario y crea el pedido como el checkout normal, todo en una transacción
+     *   (`OrdersService.insertOrder`): si el pedido falla no quedan el usuario ni la dirección. Después crea la sesión de Stripe.
+     * - Tras el pago, el webhook envía la confirmación con la factura (`sendOrderConfirmationEmail`) al email indicado.
+     * - Al registrarse con el mismo email y confirmarlo desde el correo, el invitado pasa a ser la cuenta y conserva sus pedidos
+     *   (`AuthService.register` y `AuthService.confirmGuestClaim`).
+     * @async
+     * @param {GuestCheckoutInput} input - Contacto, dirección, productos, total esperado y URL del frontend.
+     * @returns {Promise<{ orderId: number, url: string | null }>} ID del pedido y URL de Stripe Checkout.
+     * @throws {Error} Si faltan datos, el email no es válido o pertenece a una cuenta registrada.
+     * @throws {InsufficientStockError | PriceMismatchError} Si falta stock o han cambiado los precios (409).
+     * @example
+     * const result = await CartService.guestCheckout({
+     *   email: 'ana@example.com', first_name: 'Ana', last_name: 'García',
+     *   address: { street: 'Calle Mayor 1', city: 'Madrid', province: 'Madrid', postal_code: '28013', country: 'España' },
+     *   items: [{ product_id: 10, quantity: 2 }], frontendUrl: 'https://myfrontend.com'
+     * });
+     */
+    async guestCheckout(input: GuestCheckoutInput) {
+        const email = typeof input.email === 'string' ? input.email.trim() : '';
+        if (!EMAIL_PATTERN.test(email)) throw new Error('Indica un email válido');
+        const firstName = input.first_name?.trim();
+        const lastName = input.last_name?.trim();
+        if (!firstName || !lastName) throw new Error('Nombre y apellidos son obligatorios');
+        const address = input.address;
+        if (!address || !address.street?.trim() || !address.city?.trim() || !address.postal_code?.trim() || !address.country?.trim()) {
+            throw new Error('La dirección de envío debe incluir street, city, postal_code y country');
+        }
+        if (!input.frontendUrl || typeof input.frontendUrl !== 'string') throw new Error('frontendUrl es requerido');
+        const phone = input.phone?.trim() || address.phone?.trim() || null;
+
+        // Usuario invitado, dirección y pedido en una sola transacción: si el pedido no se crea
+        // (sin stock, precio cambiado...), no quedan un usuario ni una dirección sueltos
+        const expectedTotal = input.total !== undefined && input.total !== null ? Number(input.total) : null;
+        const { orderId, userId } = await withTransaction(async (conn) => {
+            // Usuario invitado del email (se crea la primera vez).
+            // Si ya existe no se modifica: cualquiera puede comprar con ese email, así que el nombre
+            // y el teléfono de esta compra solo se guardan en su dirección de envío.
+            const [users]: any = await conn.query(GET_USER_BY_EMAIL, [email]);
+            let guestId: number;
+            if (users.length) {
+                if (users[0].role !== 'guest') throw new Error('Ya existe una cuenta con este email: inicia sesión para finalizar la compra');
+                guestId = users[0].id;
+            } else {
+                const [created]: any = await conn.query(CREATE_GUEST_USER, [firstName, lastName, email, phone]);
+                guestId = created.insertId;
+            }
+
+            const [addressResult]: any = await conn.query(CREATE_ADDRESS, [
+                guestId,
+                firstName,
+                lastName,
+                address.street.trim(),
+                address.city.trim(),
+                address.province?.trim() || null,
+                address.postal_code.trim(),
+                address.country.trim(),
+                phone,
+                'shipping',
+            ]);
+
+            const order = await OrdersService.insertOrder(
+                conn, guestId, addressResult.insertId, input.items, expectedTotal, input.gift ?? null, input.currency ?? null, input.shipping_method ?? null
+            );
+            return { orderId: order.orderId, userId: guestId };
+        });
+        notifyAdminNewOrder(orderId, userId);
+
+        const session = await PaymentsService.createCheckoutSession(orderId, input.frontendUrl);
+
+        return { orderId, url: session.url };
+    },
 };
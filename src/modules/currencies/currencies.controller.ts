@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { CurrencyService } from './currencies.service';
+
+export const CurrenciesController = {
+    /**
+     * Listar las divisas soportadas con su tipo de cambio.
+     * @route GET /currencies
+     * @access Public
+     * @param {Request} req - Sin parámetros.
+     * @param {Response} res - `{ base_currency, rounding_rules, currencies }`.
+     */
+    async list(req: Request, res: Response) {
+        try {
+            const data = await CurrencyService.listCurrencies();
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Configurar el tipo de cambio y el redondeo de una divisa.
+     * @route PUT /currencies/:code
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Param `code`; body `{ rate, rounding? }`.
+     * @param {Response} res - Tipo de cambio guardado.
+     * @example
+     * PUT /currencies/GBP
+     * body: { rate: 0.85, rounding: "ninety_nine" }
+     */
+    async update(req: AuthenticatedRequest, res: Response) {
+        try {
+            const { rate, rounding } = req.body ?? {};
+            if (rate === undefined || rate === null) {
+                return res.status(400).json({ message: 'rate es requerido' });
+            }
+            const data = await CurrencyService.updateRate(req.params.code, rate, rounding, req.user!.id);
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+};
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { CurrenciesController } from './currencies.controller';
+import { authenticate, authorize } from '../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route GET /currencies
+ * @desc Listar las divisas soportadas (EUR, GBP, CHF) con su tipo de cambio y regla de redondeo
+ * @access Public
+ * @returns {Object} { base_currency, rounding_rules, currencies: [{ code, symbol, rate, rounding, configured, updated_at }] }
+ */
+router.get('/', CurrenciesController.list);
+
+/**
+ * @route PUT /currencies/:code
+ * @desc Configurar el tipo de cambio (unidades por euro) y el redondeo de una divisa.
+ * - Solo afecta a los precios y pedidos nuevos.
+ * @access Admin
+ * @param {string} code Divisa (GBP, CHF)
+ * @body {number} rate Unidades de la divisa por euro
+ * @body {string} [rounding] cent, five_cents, whole o ninety_nine (por defecto cent)
+ * @returns {Object} { code, rate, rounding }
+ */
+router.put('/:code', authenticate, authorize('admin'), CurrenciesController.update);
+
+export default router;
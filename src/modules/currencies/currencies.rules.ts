@@ -0,0 +1,188 @@
+import { roundMoney } from '../../utils/money.utils';
+
+/** Divisa base del catálogo: `products.price`, el IVA y los informes están en euros */
+export const BASE_CURRENCY = 'EUR';
+
+/** Divisas en las que se puede comprar */
+export const SUPPORTED_CURRENCIES = ['EUR', 'GBP', 'CHF'] as const;
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+/**
+ * Reglas de redondeo de los precios convertidos desde euros.
+ * - `cent`: al céntimo.
+ * - `five_cents`: a 0,05 (como el efectivo en francos suizos).
+ * - `whole`: a la unidad.
+ * - `ninety_nine`: a x,99 de la misma unidad (12,10 → 12,99).
+ */
+export const ROUNDING_RULES = ['cent', 'five_cents', 'whole', 'ninety_nine'] as const;
+export type RoundingRule = typeof ROUNDING_RULES[number];
+
+/** Símbolo de cada divisa en facturas y emails */
+export const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+    EUR: '€',
+    GBP: '£',
+    CHF: 'CHF',
+};
+
+/** Países (normalizados) que pagan por defecto en una divisa distinta del euro */
+const COUNTRY_CURRENCIES: Record<string, CurrencyCode> = {
+    'gb': 'GBP', 'uk': 'GBP', 'reino unido': 'GBP', 'united kingdom': 'GBP', 'gran bretana': 'GBP', 'great britain': 'GBP',
+    'inglaterra': 'GBP', 'england': 'GBP', 'escocia': 'GBP', 'scotland': 'GBP', 'gales': 'GBP', 'wales': 'GBP',
+    'irlanda del norte': 'GBP', 'northern ireland': 'GBP',
+    'ch': 'CHF', 'suiza': 'CHF', 'switzerland': 'CHF', 'schweiz': 'CHF', 'suisse': 'CHF', 'svizzera': 'CHF',
+    'li': 'CHF', 'liechtenstein': 'CHF',
+};
+
+/**
+ * Tipo de cambio de una divisa: unidades por euro y regla de redondeo de los precios convertidos.
+ */
+export interface CurrencyRate {
+    code: CurrencyCode;
+    rate: number;
+    rounding: RoundingRule;
+}
+
+/**
+ * @function parseCurrency
+ * @summary Valida la divisa recibida en la petición (`currency`).
+ *
+ * @param {unknown} input - Código ISO 4217 (`EUR`, `GBP`, `CHF`), sin distinguir mayúsculas
+ * @returns {CurrencyCode | null} Divisa normalizada, o `null` si no se indica
+ * @throws Error si la divisa no está soportada
+ *
+ * @example
+ * ```ts
+ * parseCurrency('gbp');     // 'GBP'
+ * parseCurrency(undefined); // null
+ * ```
+ */
+export function parseCurrency(input: unknown): CurrencyCode | null {
+    if (input === undefined || input === null || input === '') return null;
+    const code = String(input).trim().toUpperCase();
+    if (!(SUPPORTED_CURRENCIES as readonly string[]).includes(code)) {
+        throw new Error(`Divisa no soportada. Valores permitidos: ${SUPPORTED_CURRENCIES.join(', ')}`);
+    }
+    return code as CurrencyCode;
+}
+
+/**
+ * @function currencyForCountry
+ * @summary Divisa por defecto según el país de envío.
+ *
+ * @param {string | null | undefined} country - País tal y como se guarda en `addresses.country`
+ * @returns {CurrencyCode} `GBP` en Reino Unido, `CHF` en Suiza y Liechtenstein, `EUR` en el resto
+ *
+ * @example
+ * ```ts
+ * currencyForCountry('Reino Unido'); // 'GBP'
+ * ```
+ */
+export function currencyForCountry(country: string | null | undefined): CurrencyCode {
+    const normalized = (country ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+    return COUNTRY_CURRENCIES[normalized] ?? BASE_CURRENCY;
+}
+
+/**
+ * @function applyRounding
+ * @summary Redondea un precio convertido según la regla de su divisa.
+ *
+ * @param {number} amount - Importe convertido
+ * @param {RoundingRule} rule - Regla de redondeo
+ * @returns {number} Importe redondeado
+ *
+ * @example
+ * ```ts
+ * applyRounding(12.1, 'ninety_nine'); // 12.99
+ * applyRounding(12.12, 'five_cents'); // 12.1
+ * ```
+ */
+export function applyRounding(amount: number, rule: RoundingRule): number {
+    switch (rule) {
+        case 'five_cents': return roundMoney(Math.round(amount * 20) / 20);
+        case 'whole': return Math.round(amount);
+        case 'ninety_nine': return roundMoney(Math.floor(amount) + 0.99);
+        default: return roundMoney(amount);
+    }
+}
+
+/**
+ * @function convertFromEur
+ * @summary Convierte un precio en euros a otra divisa aplicando su regla de redondeo.
+ * Un importe 0 (envío gratis, pedido sin envoltorio) sigue siendo 0 con cualquier regla.
+ *
+ * @param {number} amountEur - Importe en euros
+ * @param {CurrencyRate} currency - Tipo de cambio y redondeo de la divisa
+ * @returns {number} Importe en la divisa
+ *
+ * @example
+ * ```ts
+ * convertFromEur(20, { code: 'GBP', rate: 0.85, rounding: 'ninety_nine' }); // 17.99
+ * ```
+ */
+export function convertFromEur(amountEur: number, currency: CurrencyRate): number {
+    if (currency.code === BASE_CURRENCY || !amountEur) return roundMoney(amountEur);
+    return applyRounding(amountEur * currency.rate, currency.rounding);
+}
+
+/**
+ * @function toEur
+ * @summary Equivalente en euros de un importe en otra divisa (para informes y contabilidad).
+ *
+ * @param {number} amount - Importe en la divisa
+ * @param {number} rate - Unidades de la divisa por euro (1 en euros)
+ * @returns {number} Importe en euros redondeado al céntimo
+ *
+ * @example
+ * ```ts
+ * toEur(17, 0.85); // 20
+ * ```
+ */
+export function toEur(amount: number, rate: number): number {
+    return roundMoney(rate ? amount / rate : amount);
+}
+
+/**
+ * @function formatMoney
+ * @summary Formatea un importe con el símbolo de su divisa (facturas y emails).
+ *
+ * @param {number} amount - Importe
+ * @param {string | null} [currency] - Divisa (`EUR` si no se indica)
+ * @returns {string} `12.50€`, `£12.50` o `CHF 12.50`
+ *
+ * @example
+ * ```ts
+ * formatMoney(-5, 'GBP'); // '-£5.00'
+ * ```
+ */
+export function formatMoney(amount: number, currency: string | null = BASE_CURRENCY): string {
+    const value = Number(amount);
+    const sign = value < 0 ? '-' : '';
+    const digits = Math.abs(value).toFixed(2);
+    switch (currency) {
+        case 'GBP': return `${sign}£${digits}`;
+        case 'CHF': return `${sign}CHF ${digits}`;
+        default: return `${sign}${digits}€`;
+    }
+}
+
+/**
+ * @function mapOrderCurrency
+ * @summary Divisa de un pedido a partir de su fila en `orders`.
+ *
+ * @param {any} row Fila con `currency`, `exchange_rate` y `total_eur`
+ * @returns {{ currency: string, exchange_rate: number, total_eur: number }} Divisa, tipo de cambio y total en euros
+ *   (los pedidos anteriores a las divisas están en euros)
+ *
+ * @example
+ * ```ts
+ * const { currency, total_eur } = mapOrderCurrency(rows[0]);
+ * ```
+ */
+export function mapOrderCurrency(row: any): { currency: string; exchange_rate: number; total_eur: number } {
+    const rate = row?.exchange_rate !== null && row?.exchange_rate !== undefined ? Number(row.exchange_rate) : 1;
+    return {
+        currency: row?.currency ?? BASE_CURRENCY,
+        exchange_rate: rate,
+        total_eur: row?.total_eur !== null && row?.total_eur !== undefined ? Number(row.total_eur) : toEur(Number(row?.total ?? 0), rate),
+    };
+}
@@ -0,0 +1,223 @@
+import { PoolConnection } from 'mysql2/promise';
+import { db } from '../../config/config';
+import {
+    GET_CURRENCY_RATES,
+    GET_CURRENCY_RATE,
+    UPSERT_CURRENCY_RATE,
+    GET_PRODUCT_PRICES_FOR_CURRENCY,
+    GET_PRODUCT_PRICES,
+    UPSERT_PRODUCT_PRICE,
+    DELETE_PRODUCT_PRICE,
+    GET_ADDRESS_COUNTRY
+} from '../../database/queries/currencies.queries';
+import {
+    BASE_CURRENCY,
+    SUPPORTED_CURRENCIES,
+    ROUNDING_RULES,
+    CURRENCY_SYMBOLS,
+    CurrencyCode,
+    CurrencyRate,
+    RoundingRule,
+    parseCurrency,
+    currencyForCountry,
+    convertFromEur
+} from './currencies.rules';
+
+/**
+ * Servicio de divisas: tipos de cambio, precios por divisa y elección de la divisa de un pedido.
+ * - El catálogo está en euros (`products.price`); el resto de divisas usan el precio explícito del producto
+ *   (`product_prices`) o, si no lo tiene, la conversión con el tipo de cambio y su regla de redondeo.
+ */
+export const CurrencyService = {
+    /**
+     * Tipo de cambio de una divisa (el euro siempre es 1).
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {CurrencyCode} code Divisa
+     * @returns {Promise<CurrencyRate>} Tipo de cambio y regla de redondeo
+     * @throws Error si la divisa no tiene tipo de cambio configurado
+     */
+    async getRate(executor: PoolConnection | typeof db, code: CurrencyCode): Promise<CurrencyRate> {
+        if (code === BASE_CURRENCY) return { code, rate: 1, rounding: 'cent' };
+        const [rows]: any = await executor.query(GET_CURRENCY_RATE, [code]);
+        if (!rows.length) throw new Error(`La divisa ${code} no tiene tipo de cambio configurado`);
+        return { code, rate: Number(rows[0].rate), rounding: rows[0].rounding as RoundingRule };
+    },
+
+    /**
+     * Divisa de un pedido: la indicada en la petición o, si no se indica, la del país de envío.
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {CurrencyCode | null} requested Divisa indicada en la petición (`currency`)
+     * @param {number | null} addressId Dirección de envío
+     * @returns {Promise<CurrencyCode>} Divisa del pedido
+     * @example
+     * const currency = await CurrencyService.resolveCurrency(conn, null, addressId); // 'GBP' si el envío es a Reino Unido
+     */
+    async resolveCurrency(executor: PoolConnection | typeof db, requested: CurrencyCode | null, addressId: number | null): Promise<CurrencyCode> {
+        if (requested) return requested;
+        if (!addressId) return BASE_CURRENCY;
+        const [rows]: any = await executor.query(GET_ADDRESS_COUNTRY, [addressId]);
+        return currencyForCountry(rows[0]?.country);
+    },
+
+    /**
+     * Precios de varios productos en una divisa: el explícito si lo tiene, si no el convertido desde euros.
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {Array<{id: number, price: number}>} products Productos con su precio en euros
+     * @param {CurrencyRate} currency Divisa y tipo de cambio
+     * @returns {Promise<Map<number, number>>} Precio por producto en la divisa
+     * @example
+     * const prices = await CurrencyService.priceProducts(conn, productRows, await CurrencyService.getRate(conn, 'GBP'));
+     */
+    async priceProducts(executor: PoolConnection | typeof db, products: Array<{ id: number; price: number }>, currency: CurrencyRate) {
+        const prices = new Map<number, number>();
+        if (!products.length) return prices;
+
+        const explicit = new Map<number, number>();
+        if (currency.code !== BASE_CURRENCY) {
+            const [rows]: any = await executor.query(GET_PRODUCT_PRICES_FOR_CURRENCY, [currency.code, products.map(p => Number(p.id))]);
+            rows.forEach((r: any) => explicit.set(Number(r.product_id), Number(r.price)));
+        }
+        for (const product of products) {
+            const id = Number(product.id);
+            prices.set(id, explicit.get(id) ?? convertFromEur(Number(product.price ?? 0), currency));
+        }
+        return prices;
+    },
+
+    /**
+     * Convierte un importe fijo en euros (p.ej. el recargo de envoltorio) a una divisa.
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {number} amountEur Importe en euros
+     * @param {CurrencyCode} code Divisa
+     * @returns {Promise<number>} Importe en la divisa
+     */
+    async convert(executor: PoolConnection | typeof db, amountEur: number, code: CurrencyCode) {
+        if (!amountEur) return 0;
+        return convertFromEur(amountEur, await this.getRate(executor, code));
+    },
+
+    /**
+     * Expresa en una divisa el precio de una lista de productos del catálogo.
+     * Añade `currency` y `base_price` (precio en euros); `price` pasa a estar en la divisa.
+     * @param {any[]} products Filas de productos (con `id` y `price`)
+     * @param {CurrencyCode} code Divisa
+     * @returns {Promise<any[]>} Los mismos productos con el precio en la divisa
+     */
+    async localizeProducts(products: any[], code: CurrencyCode) {
+        const currency = await this.getRate(db, code);
+        const prices = await this.priceProducts(db, products, currency);
+        return products.map(p => ({
+            ...p,
+            base_price: p.price !== null && p.price !== undefined ? Number(p.price) : null,
+            price: p.price !== null && p.price !== undefined ? prices.get(Number(p.id)) : null,
+            currency: code,
+        }));
+    },
+
+    /**
+     * Listar las divisas soportadas con su tipo de cambio.
+     * @returns {Promise<Object>} `{ base_currency, rounding_rules, currencies: [{ code, symbol, rate, rounding, configured, updated_at }] }`
+     */
+    async listCurrencies() {
+        const [rows]: any = await db.query(GET_CURRENCY_RATES);
+        const byCode = new Map<string, any>(rows.map((r: any) => [r.code, r]));
+        return {
+            base_currency: BASE_CURRENCY,
+            rounding_rules: [...ROUNDING_RULES],
+            currencies: SUPPORTED_CURRENCIES.map(code => {
+                const row = byCode.get(code);
+                const isBase = code === BASE_CURRENCY;
+                return {
+                    code,
+                    symbol: CURRENCY_SYMBOLS[code],
+                    rate: isBase ? 1 : row ? Number(row.rate) : null,
+                    rounding: isBase ? 'cent' : row?.rounding ?? null,
+                    configured: isBase || Boolean(row),
+                    updated_at: row?.updated_at ?? null,
+                };
+            }),
+        };
+    },
+
+    /**
+     * Configurar el tipo de cambio y el redondeo de una divisa (admin).
+     * Solo afecta a los precios y pedidos nuevos: cada pedido guarda el tipo con el que se creó.
+     * @param {unknown} code Divisa (no puede ser la base)
+     * @param {unknown} rate Unidades de la divisa por euro (> 0)
+     * @param {unknown} rounding Regla de redondeo (por defecto `cent`)
+     * @param {number} updatedBy ID del administrador
+     * @returns {Promise<CurrencyRate>} Tipo de cambio guardado
+     * @throws Error si la divisa, el tipo o el redondeo no son válidos
+     */
+    async updateRate(code: unknown, rate: unknown, rounding: unknown, updatedBy: number): Promise<CurrencyRate> {
+        const currency = parseCurrency(code);
+        if (!currency) throw new Error('Divisa requerida');
+        if (currency === BASE_CURRENCY) throw new Error(`${BASE_CURRENCY} es la divisa base: su tipo de cambio siempre es 1`);
+        const value = Number(rate);
+        if (!Number.isFinite(value) || value <= 0) throw new Error('rate debe ser un número mayor que 0');
+        const rule = (rounding ?? 'cent') as RoundingRule;
+        if (!ROUNDING_RULES.includes(rule)) throw new Error(`rounding no válido. Valores permitidos: ${ROUNDING_RULES.join(', ')}`);
+
+        await db.query(UPSERT_CURRENCY_RATE, [currency, value, rule, updatedBy]);
+        return { code: currency, rate: value, rounding: rule };
+    },
+
+    /**
+     * Precios de un producto en cada divisa: el explícito (si lo tiene) y el que se cobra.
+     * @param {number} productId ID del producto
+     * @returns {Promise<Array<{currency: string, price: number | null, explicit: boolean}>>} Precio por divisa
+     * @throws Error si el producto no existe
+     */
+    async getProductPrices(productId: number) {
+        const [productRows]: any = await db.query('SELECT id, price FROM products WHERE id = ?', [productId]);
+        if (!productRows.length) throw new Error('Producto no encontrado');
+        const [rows]: any = await db.query(GET_PRODUCT_PRICES, [productId]);
+        const explicit = new Map<string, number>(rows.map((r: any) => [r.currency, Number(r.price)]));
+
+        const result: Array<{ currency: CurrencyCode; price: number | null; explicit: boolean }> = [];
+        for (const code of SUPPORTED_CURRENCIES) {
+            if (explicit.has(code) || code === BASE_CURRENCY) {
+                result.push({ currency: code, price: explicit.get(code) ?? Number(productRows[0].price), explicit: code !== BASE_CURRENCY });
+                continue;
+            }
+            try {
+                const prices = await this.priceProducts(db, productRows, await this.getRate(db, code));
+                result.push({ currency: code, price: prices.get(productId) ?? null, explicit: false });
+            } catch {
+                result.push({ currency: code, price: null, explicit: false });
+            }
+        }
+        return result;
+    },
+
+    /**
+     * Fijar (o quitar, con `null`) el precio explícito de un producto en otras divisas (admin).
+     * @param {number} productId ID del producto
+     * @param {Record<string, unknown>} prices Precio por divisa, p.ej. `{ GBP: 19.99, CHF: null }`
+     * @returns {Promise<Array<Object>>} Precios del producto tras el cambio (ver `getProductPrices`)
+     * @throws Error si una divisa o un precio no son válidos
+     */
+    async setProductPrices(productId: number, prices: Record<string, unknown>) {
+        if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+            throw new Error('prices debe ser un objeto { GBP?: number | null, CHF?: number | null }');
+        }
+        const [productRows]: any = await db.query('SELECT id FROM products WHERE id = ?', [productId]);
+        if (!productRows.length) throw new Error('Producto no encontrado');
+
+        // Validar todo antes de guardar nada
+        const changes = Object.entries(prices).map(([rawCode, rawPrice]) => {
+            const code = parseCurrency(rawCode)!;
+            if (code === BASE_CURRENCY) throw new Error(`El precio en ${BASE_CURRENCY} se cambia en el producto (price)`);
+            if (rawPrice === null) return { code, price: null };
+            const price = Number(rawPrice);
+            if (!Number.isFinite(price) || price < 0) throw new Error(`Precio no válido para ${code}`);
+            return { code, price };
+        });
+
+        for (const change of changes) {
+            if (change.price === null) await db.query(DELETE_PRODUCT_PRICE, [productId, change.code]);
+            else await db.query(UPSERT_PRODUCT_PRICE, [productId, change.code, change.price]);
+        }
+        return this.getProductPrices(productId);
+    },
+};
@@ -28,19 +28,27 @@ export const DashboardService = {
    * - Total de pedidos
    * - Ticket promedio
    * - Total de usuarios
+   * - Ventas por divisa (importes del resumen en euros)
    * @async
-   * @returns {Promise<{total_sales:number, total_orders:number, avg_order_value:number, total_users:number}>}
+   * @returns {Promise<{total_sales:number, total_orders:number, avg_order_value:number, total_users:number, sales_by_currency:Array<{currency:string, orders_count:number, total_sales:number, total_sales_eur:number}>}>}
    * @example
    * const overview = await DashboardService.getOverview();
    */
   async getOverview() {
     const [rows]: any = await db.query<RowDataPacket[]>(DashboardQueries.OVERVIEW);
     const r = rows[0] || {};
+    const [byCurrency]: any = await db.query<RowDataPacket[]>(DashboardQueries.SALES_BY_CURRENCY);
     return {
       total_sales: Number(r.total_sales || 0),
       total_orders: Number(r.total_orders || 0),
       avg_order_value: Number(r.avg_order_value || 0),
       total_users: Number(r.total_users || 0),
+      sales_by_currency: byCurrency.map((c: any) => ({
+        currency: c.currency,
+        orders_count: Number(c.orders_count || 0),
+        total_sales: Number(c.total_sales || 0),
+        total_sales_eur: Number(c.total_sales_eur || 0),
+      })),
     };
   },
 
@@ -158,7 +166,7 @@ export const DashboardService = {
    * const filteredOrders = await DashboardService.getOrdersFiltered({ status: 'pending', userId: 2 });
    */
   async getOrdersFiltered(filters: any) {
-    const conditions: string[] = [];
+    const conditions: string[] = ['o.archived_at IS NULL'];
     const values: any[] = [];
 
     if (filters.status) {
@@ -174,7 +182,7 @@ export const DashboardService = {
       values.push(filters.start, filters.end);
     }
 
-    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const where = `WHERE ${conditions.join(' AND ')}`;
     const sql = DashboardQueries.FILTERED_ORDERS(where);
     const [rows]: any = await db.query<RowDataPacket[]>(sql, values);
 
@@ -219,18 +227,19 @@ export const DashboardService = {
   },
 
   /**
-   * Obtiene un resumen de devoluciones por estado y total aprobado.
+   * Obtiene un resumen de devoluciones por estado y total aprobado (en las recibidas, el importe tras la inspección).
    * @async
-   * @returns {Promise<{pending:number, approved:number, rejected:number, total_amount_returned:number}>}
+   * @returns {Promise<{pending:number, approved:number, received:number, rejected:number, total_amount_returned:number}>}
    * @example
    * const returnsSummary = await DashboardService.getReturnsSummary();
    */
   async getReturnsSummary() {
-    type ReturnStatus = 'pending' | 'approved' | 'rejected';
+    type ReturnStatus = 'pending' | 'approved' | 'received' | 'rejected';
 
     const summary: Record<ReturnStatus | 'total_amount_returned', number> = {
       pending: 0,
       approved: 0,
+      received: 0,
       rejected: 0,
       total_amount_returned: 0,
     };
@@ -240,7 +249,7 @@ export const DashboardService = {
     rows.forEach((r: any) => {
       const status = r.status as ReturnStatus;
       summary[status] = Number(r.count);
-      if (status === 'approved') summary.total_amount_returned += Number(r.total_amount || 0);
+      if (status === 'approved' || status === 'received') summary.total_amount_returned += Number(r.total_amount || 0);
     });
 
     return summary;
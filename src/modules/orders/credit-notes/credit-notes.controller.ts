@@ -0,0 +1,55 @@
+import { Response } from 'express';
+import { CreditNotesService } from './credit-notes.service';
+import { AuthenticatedRequest } from '../../../middlewares/auth.middleware';
+
+/**
+ * @function getOrderCreditNotes
+ * @summary Lista las facturas rectificativas de un pedido (una por cada reembolso)
+ * @param {AuthenticatedRequest} req - Request autenticado, con `req.params.id`
+ * @param {Response} res - Lista de facturas rectificativas con su `download_url`
+ * @returns {Promise<void>}
+ * @throws 400 - Pedido no encontrado o no pertenece al usuario
+ * @security JWT (propietario del pedido o admin)
+ * @example
+ * GET /api/orders/123/credit-notes
+ */
+export const getOrderCreditNotes = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = Number(req.params.id);
+        if (!Number.isInteger(orderId) || orderId < 1) return res.status(400).json({ message: 'ID de pedido no válido' });
+
+        const creditNotes = await CreditNotesService.listByOrder(orderId, req.user!);
+        res.json(creditNotes);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * @function downloadCreditNote
+ * @summary Genera el PDF de una factura rectificativa
+ * @param {AuthenticatedRequest} req - Request autenticado, con `req.params.creditNoteId`
+ * @param {Response} res - PDF de la factura rectificativa o error en formato JSON
+ * @returns {Promise<void>}
+ * @throws 400 - ID no válido, no pertenece al usuario o error generando el PDF
+ * @throws 404 - Si la factura rectificativa no existe
+ * @security JWT (propietario del pedido o admin)
+ * @example
+ * GET /api/orders/credit-notes/7
+ */
+export const downloadCreditNote = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const creditNoteId = Number(req.params.creditNoteId);
+        if (!Number.isInteger(creditNoteId) || creditNoteId < 1) return res.status(400).json({ message: 'ID de factura rectificativa no válido' });
+
+        const { creditNote, pdf } = await CreditNotesService.generatePDF(creditNoteId, req.user!);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename=rectificativa_${creditNote.number}.pdf`);
+        res.send(pdf);
+    } catch (error: any) {
+        if (error.message === 'Factura rectificativa no encontrada') return res.status(404).json({ message: error.message });
+        console.error('Error generando factura rectificativa:', error);
+        res.status(400).json({ message: error.message });
+    }
+};
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { getOrderCreditNotes, downloadCreditNote } from './credit-notes.controller';
+import { authenticate } from '../../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route GET /api/orders/credit-notes/:creditNoteId
+ * @group CreditNotes - Facturas rectificativas
+ * @summary PDF de una factura rectificativa: número, factura original, líneas e importes en negativo y desglose de IVA
+ * @param {string} creditNoteId.path.required - ID de la factura rectificativa
+ * @returns {file} 200 - PDF de la factura rectificativa
+ * @returns {object} 404 - Factura rectificativa no encontrada
+ * @security JWT (propietario del pedido o admin)
+ */
+router.get('/credit-notes/:creditNoteId', authenticate, downloadCreditNote);
+
+/**
+ * @route GET /api/orders/:id/credit-notes
+ * @group CreditNotes - Facturas rectificativas
+ * @summary Facturas rectificativas emitidas por los reembolsos de un pedido
+ * @param {string} id.path.required - ID del pedido
+ * @returns {Array} 200 - Facturas rectificativas con su `download_url`
+ * @returns {object} 400 - Pedido no encontrado o no pertenece al usuario
+ * @security JWT (propietario del pedido o admin)
+ */
+router.get('/:id/credit-notes', authenticate, getOrderCreditNotes);
+
+export default router;
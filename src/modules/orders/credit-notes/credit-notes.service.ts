@@ -0,0 +1,210 @@
+import path from 'path';
+import fs from 'fs';
+import ejs from 'ejs';
+import { PoolConnection } from 'mysql2/promise';
+import { db } from '../../../config/config';
+import { nextDocumentNumber } from '../../../database/db';
+import {
+    GET_ORDER_ITEMS_FOR_CREDIT_NOTE,
+    INSERT_CREDIT_NOTE,
+    GET_CREDIT_NOTE_BY_ID,
+    GET_CREDIT_NOTES_BY_ORDER
+} from '../../../database/queries/credit-notes.queries';
+import { GET_INVOICE_BY_ORDER } from '../../../database/queries/invoice.queries';
+import { roundMoney, splitAmount } from '../../../utils/money.utils';
+import { InvoiceService, renderHTMLToPDF } from '../invoice/invoice.service';
+import { TaxService } from '../../taxes/taxes.service';
+import { buildTaxBreakdown } from '../../taxes/taxes.rules';
+import { BASE_CURRENCY, formatMoney } from '../../currencies/currencies.rules';
+
+/** Serie de numeración de las facturas rectificativas (`{año}-R-{000001}`) */
+export const CREDIT_NOTE_SERIES = 'R';
+
+/**
+ * Línea de una factura rectificativa. Los importes son negativos (IVA incluido).
+ */
+export interface CreditNoteLine {
+    description: string;
+    sku: string | null;
+    quantity: number;
+    amount: number;
+    vat_rate: number;
+}
+
+/**
+ * Datos para emitir una factura rectificativa a partir de un reembolso.
+ * - `lines`: líneas reembolsadas con su importe; sin ellas se rectifica el pedido completo
+ *   (`full_refund`) o se emite una única línea con el motivo.
+ */
+export interface IssueCreditNoteInput {
+    orderId: number;
+    refundId: number;
+    returnId: number | null;
+    reason: string;
+    amount: number;
+    lines: Array<{ order_item_id: number; quantity: number; amount: number }>;
+    fullRefund: boolean;
+}
+
+/**
+ * Formatea una fila de `credit_notes` para la API
+ * @param {any} row Fila de `credit_notes`
+ * @returns {Object} Factura rectificativa normalizada (sin los datos del PDF)
+ */
+function formatCreditNote(row: any) {
+    return {
+        id: row.id,
+        number: row.number,
+        order_id: row.order_id,
+        refund_id: row.refund_id,
+        return_id: row.return_id ?? null,
+        invoice_number: row.invoice_number,
+        reason: row.reason,
+        subtotal: Number(row.subtotal),
+        tax_amount: Number(row.tax_amount),
+        total: Number(row.total),
+        issued_at: row.issued_at,
+        download_url: `/api/orders/credit-notes/${row.id}`,
+    };
+}
+
+/**
+ * Comprueba que el usuario puede ver los documentos de un pedido (propietario o admin)
+ * @param {number} userId Cliente del pedido
+ * @param {{ id: number, role: string }} requester Usuario que realiza la consulta
+ * @throws Error si no es el propietario ni admin
+ */
+function assertCanView(userId: number, requester: { id: number; role: string }) {
+    if (requester.role !== 'admin' && userId !== requester.id) {
+        throw new Error('No tienes permiso para ver este pedido');
+    }
+}
+
+/**
+ * Servicio de facturas rectificativas: se emite una por cada reembolso (total o parcial) que anula
+ * la factura original del pedido en la parte reembolsada, con numeración propia y sin huecos.
+ */
+export const CreditNotesService = {
+    /**
+     * Emitir la factura rectificativa de un reembolso completado, dentro de la transacción que lo bloquea
+     * (si la transacción se deshace, el número no se consume).
+     * - Las líneas se reparten para que sumen exactamente el importe reembolsado (que ya incluye el descuento).
+     * - Todos los importes se guardan en negativo; cada línea lleva el tipo de IVA con el que se facturó
+     *   (un reembolso sin líneas se reparte entre los tipos del pedido en proporción a su importe).
+     * - Los datos del cliente, la dirección, la divisa y las líneas se congelan en `data` para poder regenerar el PDF.
+     * - Solo si el pedido tiene la factura emitida (`invoices`): la rectificativa cita su número, nunca el provisional.
+     * @param {PoolConnection} conn Conexión de la transacción del reembolso
+     * @param {IssueCreditNoteInput} input Pedido, reembolso, importe y líneas
+     * @returns {Promise<{id: number, number: string, total: number}>} Factura rectificativa emitida
+     * @throws Error si el pedido aún no tiene la factura emitida
+     * @example
+     * const creditNote = await CreditNotesService.issue(conn, { orderId, refundId, returnId: null, reason, amount: 50, lines: [], fullRefund: true });
+     */
+    async issue(conn: PoolConnection, input: IssueCreditNoteInput) {
+        const [invoices]: any = await conn.query(GET_INVOICE_BY_ORDER, [input.orderId]);
+        if (!invoices.length) throw new Error(`El pedido ${input.orderId} no tiene factura emitida: no se puede rectificar`);
+        const invoiceNumber: string = invoices[0].number;
+
+        const order = await InvoiceService.getOrderData(input.orderId);
+        const [orderItems]: any = await conn.query(GET_ORDER_ITEMS_FOR_CREDIT_NOTE, [input.orderId]);
+        const { lines: taxLines, discount } = await TaxService.getOrderTaxLines(conn, input.orderId);
+        const itemRates = new Map<number, number>(taxLines.filter(l => l.order_item_id !== null).map(l => [l.order_item_id!, l.vat_rate]));
+        const wrapRate = taxLines.find(l => l.kind === 'gift_wrap')?.vat_rate ?? 0;
+        const shippingRate = taxLines.find(l => l.kind === 'shipping')?.vat_rate ?? 0;
+        const describe = (it: any) => [it.product_name ?? `Línea ${it.id}`, it.size, it.color].filter(Boolean).join(' · ');
+
+        // 🔹 Conceptos rectificados (importes positivos, se reparten y se niegan después)
+        let concepts: Array<{ description: string; sku: string | null; quantity: number; weight: number; vat_rate: number }>;
+        if (input.lines.length) {
+            concepts = input.lines.map(line => {
+                const item = orderItems.find((it: any) => Number(it.id) === line.order_item_id);
+                return {
+                    description: item ? describe(item) : `Línea ${line.order_item_id}`, sku: item?.sku ?? null, quantity: line.quantity,
+                    weight: line.amount, vat_rate: itemRates.get(line.order_item_id) ?? 0,
+                };
+            });
+        } else if (input.fullRefund) {
+            concepts = orderItems.map((it: any) => ({
+                description: describe(it), sku: it.sku ?? null, quantity: Number(it.quantity),
+                weight: Number(it.price) * Number(it.quantity), vat_rate: itemRates.get(Number(it.id)) ?? 0,
+            }));
+            if (order.gift?.wrap_fee) concepts.push({ description: 'Envoltorio de regalo', sku: null, quantity: 1, weight: order.gift.wrap_fee, vat_rate: wrapRate });
+            if (order.shipping?.cost) concepts.push({ description: `Envío: ${order.shipping.name}`, sku: null, quantity: 1, weight: order.shipping.cost, vat_rate: shippingRate });
+        } else {
+            const byRate = buildTaxBreakdown(taxLines, discount);
+            concepts = byRate.map(b => ({
+                description: byRate.length > 1 ? `Reembolso parcial: ${input.reason} (IVA ${b.rate}%)` : `Reembolso parcial: ${input.reason}`,
+                sku: null, quantity: 1, weight: b.total, vat_rate: b.rate,
+            }));
+        }
+
+        const amounts = splitAmount(input.amount, concepts.map(c => c.weight));
+        const lines: CreditNoteLine[] = concepts.map((c, i) => ({
+            description: c.description, sku: c.sku, quantity: c.quantity, amount: -amounts[i]!, vat_rate: c.vat_rate,
+        }));
+
+        // 🔹 Desglose de IVA por tipo (IVA incluido en los precios)
+        const total = -roundMoney(input.amount);
+        const taxBreakdown = buildTaxBreakdown(lines.map(l => ({ amount: l.amount, vat_rate: l.vat_rate })));
+        const subtotal = roundMoney(taxBreakdown.reduce((acc, b) => acc + b.base, 0));
+        const taxAmount = roundMoney(total - subtotal);
+
+        const issuedAt = new Date();
+        const { sequence, number } = await nextDocumentNumber(conn, CREDIT_NOTE_SERIES, issuedAt.getFullYear());
+        const data = {
+            customer: { name: order.user.name, email: order.user.email },
+            address: order.address,
+            order_created_at: order.created_at,
+            currency: order.currency ?? BASE_CURRENCY,
+            lines,
+            tax_breakdown: taxBreakdown,
+        };
+
+        const [res]: any = await conn.query(INSERT_CREDIT_NOTE, [
+            number, CREDIT_NOTE_SERIES, issuedAt.getFullYear(), sequence, input.orderId, input.refundId, input.returnId,
+            invoiceNumber, input.reason, subtotal, taxAmount, total, JSON.stringify(data),
+        ]);
+
+        console.log(`🧾 Factura rectificativa ${number} emitida para el pedido ${input.orderId} (${formatMoney(total, order.currency)})`);
+        return { id: res.insertId as number, number, total };
+    },
+
+    /**
+     * Listar las facturas rectificativas de un pedido.
+     * @param {number} orderId ID del pedido
+     * @param {{ id: number, role: string }} requester Usuario que realiza la consulta (propietario o admin)
+     * @returns {Promise<Object[]>} Facturas rectificativas con su URL de descarga
+     * @throws Error si el pedido no existe o no pertenece al usuario
+     */
+    async listByOrder(orderId: number, requester: { id: number; role: string }) {
+        const [orderRows]: any = await db.query('SELECT id, user_id FROM orders WHERE id = ?', [orderId]);
+        if (!orderRows.length) throw new Error('Pedido no encontrado');
+        assertCanView(orderRows[0].user_id, requester);
+
+        const [rows]: any = await db.query(GET_CREDIT_NOTES_BY_ORDER, [orderId]);
+        return rows.map(formatCreditNote);
+    },
+
+    /**
+     * Generar el PDF de una factura rectificativa a partir de los datos congelados al emitirla.
+     * @param {number} creditNoteId ID de la factura rectificativa
+     * @param {{ id: number, role: string } | null} [requester] Usuario que la descarga (`null` para usos internos, p.ej. emails)
+     * @returns {Promise<{ creditNote: Object, pdf: Buffer }>} Factura rectificativa y su PDF
+     * @throws Error si no existe o no pertenece al usuario
+     * @example
+     * const { creditNote, pdf } = await CreditNotesService.generatePDF(7, req.user!);
+     */
+    async generatePDF(creditNoteId: number, requester: { id: number; role: string } | null = null) {
+        const [rows]: any = await db.query(GET_CREDIT_NOTE_BY_ID, [creditNoteId]);
+        if (!rows.length) throw new Error('Factura rectificativa no encontrada');
+        if (requester) assertCanView(rows[0].user_id, requester);
+
+        const row = rows[0];
+        const data = typeof row.data === 'string' ? JSON.parse(row.data) : row.data;
+        const creditNote = { ...formatCreditNote(row), ...data };
+
+        const template = fs.readFileSync(path.join(__dirname, 'templates', 'credit-note.html'), 'utf-8');
+        const pdf = await renderHTMLToPDF(ejs.render(template, { creditNote, formatMoney }));
+        return { creditNote, pdf };
+    },
+};
@@ -4,13 +4,13 @@ import { AuthenticatedRequest } from '../../../middlewares/auth.middleware';
 
 /**
  * @function generateInvoice
- * @summary Genera el PDF de la factura para un pedido específico
+ * @summary Devuelve el PDF guardado de la factura de un pedido (emitida al confirmarse el pago)
  * @param {AuthenticatedRequest} req - Request autenticado, con `req.user` disponible
  * @param {Response} res - Response de Express
  * @returns {Promise<void>} Envía el PDF de la factura o un error en formato JSON
- * @throws 400 - Error general en la generación de la factura
+ * @throws 400 - Pedido sin pagar, usuario no autorizado o error generando la factura
  * @throws 404 - Si el pedido no se encuentra
- * @security JWT
+ * @security JWT (propietario del pedido o admin)
  * @example
  * GET /api/orders/invoice/123
 */
@@ -18,18 +18,15 @@ export const generateInvoice = async (req: AuthenticatedRequest, res: Response)
     try {
         const orderId = parseInt(req.params.id!);
 
-        // 1️⃣ Obtener los datos completos del pedido, incluyendo items y dirección
-        const order = await InvoiceService.getOrderData(orderId);
-        if (!order) return res.status(404).json({ message: 'Pedido no encontrado' });
+        // 1️⃣ Obtener la factura emitida (se emite ahora si el pedido está pagado y no se llegó a emitir)
+        const invoice = await InvoiceService.getInvoice(orderId, req.user!);
 
-        // 2️⃣ Generar PDF de la factura
-        const pdfBuffer = await InvoiceService.generatePDFBuffer(order);
-
-        // 3️⃣ Enviar PDF al cliente
+        // 2️⃣ Enviar el PDF guardado al cliente
         res.setHeader('Content-Type', 'application/pdf');
-        res.setHeader('Content-Disposition', `inline; filename=factura_${order.id}.pdf`);
-        res.send(pdfBuffer);
+        res.setHeader('Content-Disposition', `inline; filename=factura_${invoice.number}.pdf`);
+        res.send(invoice.pdf);
     } catch (error: any) {
+        if (error.message === 'Pedido no encontrado') return res.status(404).json({ message: error.message });
         console.error('Error generando factura:', error);
         res.status(400).json({ message: error.message });
     }
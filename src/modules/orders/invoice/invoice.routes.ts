@@ -7,10 +7,11 @@ const router = Router();
 /**
  * @route GET /api/orders/invoice/:id
  * @group Invoice - Facturas de pedidos
- * @summary Genera y devuelve el PDF de la factura de un pedido específico
+ * @summary Devuelve el PDF guardado de la factura de un pedido (emitida al confirmarse el pago, con número correlativo)
  * @param {string} id.path.required - ID del pedido
  * @returns {file} 200 - PDF de la factura
- * @returns {object} 400 - Error en caso de pedido no encontrado o usuario no autorizado
+ * @returns {object} 400 - Pedido sin pagar o usuario no autorizado
+ * @returns {object} 404 - Pedido no encontrado
  * @security JWT
  */
 router.get('/:id', authenticate, generateInvoice);
@@ -4,13 +4,33 @@ import fs from 'fs';
 import ejs from 'ejs';
 import { db } from '../../../config/config';
 import { RowDataPacket } from 'mysql2';
-import { GET_ORDER_WITH_ADDRESS, GET_ORDER_ITEMS_WITH_PRODUCT, GET_PAYMENTS_BY_ORDER } from '../../../database/queries/invoice.queries';
+import { withTransaction, nextDocumentNumber } from '../../../database/db';
+import {
+    GET_ORDER_WITH_ADDRESS,
+    GET_ORDER_ITEMS_WITH_PRODUCT,
+    GET_PAYMENTS_BY_ORDER,
+    LOCK_ORDER_FOR_INVOICE,
+    COUNT_PAID_PAYMENTS,
+    GET_INVOICE_BY_ORDER,
+    GET_INVOICE_PDF,
+    INSERT_INVOICE,
+    UPDATE_INVOICE_PDF
+} from '../../../database/queries/invoice.queries';
 import { mapOrderStatus, mapPaymentMethod, mapPaymentStatus } from '../../../utils/mappers.utils';
+import { ShipmentsService, Shipment } from '../shipments/shipments.service';
+import { mapOrderGift, OrderGift } from '../orders.gift';
+import { mapOrderShipping, OrderShipping } from '../../shipping/shipping.rules';
+import { mapOrderTax, OrderTax } from '../../taxes/taxes.rules';
+import { mapOrderCurrency, formatMoney } from '../../currencies/currencies.rules';
 
 export interface OrderItem {
     name: string;
     quantity: number;
     price: number;
+    /** Tipo de IVA aplicado a la línea (`null` en pedidos anteriores al cálculo de IVA) */
+    vat_rate?: number | null;
+    /** Cuota de IVA de la línea */
+    tax_amount?: number | null;
     image_url?: string;
     size?: string;
     color?: string;
@@ -20,7 +40,11 @@ export interface OrderItem {
 
 export interface OrderData {
     id: number;
-    user: { first_name: string; last_name: string; email: string; name: string };
+    /** Número de la factura emitida (`2026-A-000123`); si aún no se ha emitido, el provisional de `formatInvoiceNumber` */
+    invoice_number: string;
+    /** Fecha de emisión de la factura (`null` si aún no se ha emitido) */
+    invoice_date?: string | null;
+    user: { first_name: string; last_name: string; email: string; name: string; is_guest?: boolean };
     items: OrderItem[];
     total: number;
     total_paid: number | null;
@@ -40,6 +64,92 @@ export interface OrderData {
     status_label?: string;
     payments?: Array<any>;
     payment_meta?: any;
+    shipments?: Shipment[];
+    /** Si es un pedido de cambio: ID del pedido original */
+    replacement_for_order_id?: number | null;
+    /** Opciones de regalo (mensaje, envoltorio, ocultar precios); `null` si no es un regalo */
+    gift?: OrderGift | null;
+    /** Método y gastos de envío; `null` si el pedido no tiene método (anteriores a los envíos y pedidos de reposición) */
+    shipping?: OrderShipping | null;
+    /** IVA del pedido (zona fiscal y desglose por tipo); `null` si es anterior al cálculo de IVA */
+    tax?: OrderTax | null;
+    /** Divisa de los importes (`EUR`, `GBP`, `CHF`) */
+    currency?: string;
+    /** Unidades de la divisa por euro con las que se creó el pedido */
+    exchange_rate?: number;
+    /** Equivalente en euros del total */
+    total_eur?: number;
+}
+
+/** Serie de numeración de las facturas (`{año}-A-{000001}`) */
+export const INVOICE_SERIES = 'A';
+
+/**
+ * Factura emitida de un pedido, con su PDF guardado.
+ */
+export interface StoredInvoice {
+    id: number;
+    number: string;
+    order_id: number;
+    issued_at: string | Date;
+    pdf: Buffer;
+}
+
+/**
+ * Número provisional de la factura de un pedido que aún no tiene factura emitida: `{año}-{mes}/SB{id}` según la fecha del pedido.
+ * Es el formato de las facturas anteriores a la numeración correlativa (`INVOICE_SERIES`).
+ * @param {number} orderId - ID del pedido
+ * @param {string | Date} createdAt - Fecha de creación del pedido
+ * @returns {string} Número de factura
+ * @example
+ * formatInvoiceNumber(123, '2026-03-14T10:00:00Z'); // '2026-03/SB123'
+ */
+export function formatInvoiceNumber(orderId: number, createdAt: string | Date): string {
+    const date = new Date(createdAt);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}/SB${orderId}`;
+}
+
+/**
+ * Convierte un HTML en PDF con Puppeteer (headless): ancho A4 y altura ajustada al body para evitar saltos de página.
+ * Lo usan la factura y los documentos de almacén (albarán y lista de picking).
+ * @param {string} htmlContent - HTML completo del documento
+ * @returns {Promise<Buffer>} - Buffer del PDF generado
+ * @example
+ * const pdf = await renderHTMLToPDF(await InvoiceService.generateInvoiceHTML(order));
+ */
+export async function renderHTMLToPDF(htmlContent: string): Promise<Buffer> {
+    const browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+    const page = await browser.newPage();
+    await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+
+    await page.evaluateHandle('document.fonts.ready');
+
+    const bodyHeight = await page.evaluate(() => {
+        // @ts-ignore (directiva para ignorar cualquier error de tipo)
+        const body = document.body;
+        // @ts-ignore
+        const html = document.documentElement;
+        return Math.max(
+            body.scrollHeight,
+            body.offsetHeight,
+            html.clientHeight,
+            html.scrollHeight,
+            html.offsetHeight
+        );
+    });
+
+    const pdfBuffer = await page.pdf({
+        width: '210mm',
+        height: `${bodyHeight}px`,
+        printBackground: true,
+        margin: { top: '0mm', bottom: '0mm', left: '0mm', right: '0mm' },
+    });
+
+    await browser.close();
+    return Buffer.from(pdfBuffer);
 }
 
 /**
@@ -48,7 +158,7 @@ export interface OrderData {
 export const InvoiceService = {
 
     /**
-     * Obtiene la información completa de un pedido por ID, incluyendo items y pagos.
+     * Obtiene la información completa de un pedido por ID, incluyendo items, pagos y envíos.
      * Reconstruye el total original si fuera necesario.
      * @param {number} orderId - ID del pedido
      * @returns {Promise<OrderData>} - Datos completos del pedido
@@ -64,6 +174,8 @@ export const InvoiceService = {
             name: item.name || item.product_name,
             quantity: item.quantity,
             price: Number(item.price),
+            vat_rate: item.vat_rate !== null ? Number(item.vat_rate) : null,
+            tax_amount: item.tax_amount !== null ? Number(item.tax_amount) : null,
             image_url: item.image_url,
             size: item.size,
             color: item.color,
@@ -78,6 +190,8 @@ export const InvoiceService = {
             status_label: mapPaymentStatus(p.status),
         }));
 
+        const shipments = await ShipmentsService.getOrderShipments(orderId);
+
         const dbTotal = Number(order.total);
         const dbTotalPaid = order.total_paid !== null && typeof order.total_paid !== 'undefined' ? Number(order.total_paid) : null;
         const dbDiscount = order.discount_amount !== null && typeof order.discount_amount !== 'undefined' ? Number(order.discount_amount) : null;
@@ -89,11 +203,14 @@ export const InvoiceService = {
 
         return {
             id: order.id,
+            invoice_number: order.invoice_number ?? formatInvoiceNumber(order.id, order.created_at),
+            invoice_date: order.invoice_date ?? null,
             user: {
                 first_name: order.first_name,
                 last_name: order.last_name,
                 email: order.email,
                 name: `${order.first_name} ${order.last_name}`,
+                is_guest: order.user_role === 'guest',
             },
             items,
             total: Number(originalTotal),
@@ -113,6 +230,11 @@ export const InvoiceService = {
             status: order.status,
             status_label: mapOrderStatus(order.status),
             payments,
+            shipments,
+            gift: mapOrderGift(order),
+            shipping: mapOrderShipping(order),
+            tax: mapOrderTax(order),
+            ...mapOrderCurrency(order),
         };
     },
 
@@ -125,7 +247,7 @@ export const InvoiceService = {
         const templatePath = path.join(__dirname, 'templates', 'index.html');
         const template = fs.readFileSync(templatePath, 'utf-8');
         const BASE_URL = process.env.BASE_URL || '';
-        return ejs.render(template, { order, BASE_URL });
+        return ejs.render(template, { order, BASE_URL, formatMoney });
     },
 
     /**
@@ -136,38 +258,87 @@ export const InvoiceService = {
     */
     generatePDFBuffer: async (order: OrderData): Promise<Buffer> => {
         const htmlContent = await InvoiceService.generateInvoiceHTML(order);
+        return renderHTMLToPDF(htmlContent);
+    },
 
-        const browser = await puppeteer.launch({
-            headless: true,
-            args: ['--no-sandbox', '--disable-setuid-sandbox'],
-        });
-        const page = await browser.newPage();
-        await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
-
-        await page.evaluateHandle('document.fonts.ready');
-
-        const bodyHeight = await page.evaluate(() => {
-            // @ts-ignore (directiva para ignorar cualquier error de tipo)
-            const body = document.body;
-            // @ts-ignore
-            const html = document.documentElement;
-            return Math.max(
-                body.scrollHeight,
-                body.offsetHeight,
-                html.clientHeight,
-                html.scrollHeight,
-                html.offsetHeight
-            );
-        });
+    /**
+     * Emite la factura de un pedido (al confirmarse el pago). Si ya está emitida, devuelve la existente.
+     * 1. En una transacción, con el pedido bloqueado: reserva el siguiente número de la serie `A` del año
+     *    (`nextDocumentNumber`, sin huecos) y guarda en `invoices.data` una copia de los datos del pedido.
+     * 2. Genera el PDF a partir de esa copia y lo guarda en `invoices.pdf`.
+     * @param {number} orderId - ID del pedido
+     * @returns {Promise<StoredInvoice>} - Factura emitida con su PDF
+     * @throws Error si el pedido no existe
+     * @example
+     * const { number, pdf } = await InvoiceService.issueInvoice(123); // '2026-A-000123'
+     */
+    issueInvoice: async (orderId: number): Promise<StoredInvoice> => {
+        const invoice = await withTransaction(async (conn) => {
+            const [orderRows]: any = await conn.query(LOCK_ORDER_FOR_INVOICE, [orderId]);
+            if (!orderRows.length) throw new Error('Pedido no encontrado');
+
+            const [existing]: any = await conn.query(GET_INVOICE_BY_ORDER, [orderId]);
+            if (existing.length) return existing[0];
+
+            const issuedAt = new Date();
+            const { sequence, number } = await nextDocumentNumber(conn, INVOICE_SERIES, issuedAt.getFullYear());
+            const order = await InvoiceService.getOrderData(orderId);
+            const data: OrderData = { ...order, invoice_number: number, invoice_date: issuedAt.toISOString() };
 
-        const pdfBuffer = await page.pdf({
-            width: '210mm',
-            height: `${bodyHeight}px`,
-            printBackground: true,
-            margin: { top: '0mm', bottom: '0mm', left: '0mm', right: '0mm' },
+            const [res]: any = await conn.query(INSERT_INVOICE, [
+                number, INVOICE_SERIES, issuedAt.getFullYear(), sequence, orderId, JSON.stringify(data), issuedAt,
+            ]);
+            console.log(`🧾 Factura ${number} emitida para el pedido ${orderId}`);
+            return { id: res.insertId, number, order_id: orderId, data, issued_at: issuedAt, has_pdf: 0 };
         });
 
-        await browser.close();
-        return Buffer.from(pdfBuffer);
+        return InvoiceService.loadInvoicePDF(invoice);
+    },
+
+    /**
+     * Devuelve el PDF guardado de una factura; si aún no está guardado (p.ej. falló Puppeteer al emitirla),
+     * lo genera a partir de los datos congelados y lo guarda.
+     * @param {any} invoice - Fila de `invoices` (`GET_INVOICE_BY_ORDER`)
+     * @returns {Promise<StoredInvoice>} - Factura con su PDF
+     */
+    loadInvoicePDF: async (invoice: any): Promise<StoredInvoice> => {
+        let pdf: Buffer | null = null;
+        if (Number(invoice.has_pdf)) {
+            const [rows]: any = await db.query(GET_INVOICE_PDF, [invoice.id]);
+            pdf = rows[0]?.pdf ?? null;
+        }
+        if (!pdf) {
+            const data: OrderData = typeof invoice.data === 'string' ? JSON.parse(invoice.data) : invoice.data;
+            pdf = await InvoiceService.generatePDFBuffer(data);
+            await db.query(UPDATE_INVOICE_PDF, [pdf, invoice.id]);
+        }
+        return { id: invoice.id, number: invoice.number, order_id: invoice.order_id, issued_at: invoice.issued_at, pdf };
+    },
+
+    /**
+     * Obtiene la factura emitida de un pedido para descargarla (propietario del pedido o admin).
+     * Si el pedido está pagado pero la factura no se llegó a emitir, la emite en ese momento.
+     * @param {number} orderId - ID del pedido
+     * @param {{ id: number, role: string }} requester - Usuario que la descarga
+     * @returns {Promise<StoredInvoice>} - Factura con su PDF
+     * @throws Error si el pedido no existe, no pertenece al usuario o aún no está pagado
+     */
+    getInvoice: async (orderId: number, requester: { id: number; role: string }): Promise<StoredInvoice> => {
+        const [rows]: any = await db.query(GET_INVOICE_BY_ORDER, [orderId]);
+        let ownerId = rows[0]?.user_id;
+        if (!rows.length) {
+            const [orderRows]: any = await db.query('SELECT id, user_id FROM orders WHERE id = ?', [orderId]);
+            if (!orderRows.length) throw new Error('Pedido no encontrado');
+            ownerId = orderRows[0].user_id;
+        }
+        if (requester.role !== 'admin' && ownerId !== requester.id) {
+            throw new Error('No tienes permiso para ver este pedido');
+        }
+
+        if (rows.length) return InvoiceService.loadInvoicePDF(rows[0]);
+
+        const [paidRows]: any = await db.query(COUNT_PAID_PAYMENTS, [orderId]);
+        if (!Number(paidRows[0]?.count)) throw new Error('La factura se emite cuando se confirma el pago del pedido');
+        return InvoiceService.issueInvoice(orderId);
     },
 };
@@ -0,0 +1,140 @@
+import { db, UNPAID_ORDER_TTL_MINUTES, UNPAID_ORDER_SWEEP_INTERVAL_MINUTES } from '../../../config/config';
+import { GET_UNPAID_ORDERS_BEFORE } from '../../../database/queries/orders.queries';
+import { OrdersService } from '../orders.service';
+import { PaymentsService } from '../../payments/payments.service';
+import { sendOrderExpiredEmail } from '../notifications/send-order-expired';
+
+/**
+ * Opciones de ejecución del job de pedidos sin pagar.
+ * Todas son opcionales; `now` permite inyectar un reloj falso en pruebas.
+ */
+export interface ExpireUnpaidOrdersOptions {
+    /** Reloj usado para calcular la fecha límite (por defecto `new Date()`) */
+    now?: () => Date;
+    /** Minutos que un pedido puede seguir en `pending` (por defecto `UNPAID_ORDER_TTL_MINUTES`) */
+    ttlMinutes?: number;
+    /** Pedidos leídos por consulta (la ejecución recorre todas las páginas) */
+    batchSize?: number;
+}
+
+/**
+ * Resultado de una ejecución del job.
+ */
+export interface ExpireUnpaidOrdersResult {
+    /** Fecha límite usada: se caducan los pedidos creados antes */
+    cutoff: Date;
+    /** Pedidos caducados */
+    expired: number[];
+    /** Pedidos que se dejan para la siguiente ejecución (sesión pagada, error con Stripe, etc.) */
+    skipped: number[];
+}
+
+/**
+ * Busca pedidos en `pending` más antiguos que el TTL y los caduca:
+ * 1. Caduca su sesión de Stripe Checkout (si la sesión ya está pagada, el pedido se deja al webhook).
+ * 2. Pasa el pedido a `expired` y repone el stock reservado (`OrdersService.expireUnpaidOrder`).
+ * 3. Envía un email al cliente ofreciéndole recuperar su carrito.
+ *
+ * Los pedidos se recorren por páginas de ID, así los omitidos (sesión pagada, error con Stripe...) no impiden
+ * llegar a los siguientes. Los que tienen un pago en curso (p.ej. un adeudo SEPA) no se leen: los resuelve el webhook.
+ *
+ * @param {ExpireUnpaidOrdersOptions} [options] Reloj, TTL y tamaño de lote
+ * @returns {Promise<ExpireUnpaidOrdersResult>} Pedidos caducados y omitidos
+ *
+ * @example
+ * ```ts
+ * // Ejecución manual con un reloj fijo
+ * const result = await expireUnpaidOrders({ now: () => new Date('2026-01-10T12:00:00Z'), ttlMinutes: 30 });
+ * console.log(result.expired); // [184, 185]
+ * ```
+ */
+export async function expireUnpaidOrders(options: ExpireUnpaidOrdersOptions = {}): Promise<ExpireUnpaidOrdersResult> {
+    const now = options.now ?? (() => new Date());
+    const ttlMinutes = options.ttlMinutes ?? UNPAID_ORDER_TTL_MINUTES;
+    const batchSize = options.batchSize ?? 100;
+
+    const cutoff = new Date(now().getTime() - ttlMinutes * 60_000);
+    const result: ExpireUnpaidOrdersResult = { cutoff, expired: [], skipped: [] };
+
+    let afterId = 0;
+    let orders: any[];
+    do {
+        [orders] = await db.query(GET_UNPAID_ORDERS_BEFORE, [cutoff, afterId, batchSize]) as any;
+        for (const order of orders) {
+            afterId = order.id;
+            try {
+                if (order.stripe_session_id) {
+                    const canExpire = await PaymentsService.expireCheckoutSession(order.stripe_session_id);
+                    if (!canExpire) {
+                        result.skipped.push(order.id);
+                        continue;
+                    }
+                }
+
+                const expired = await OrdersService.expireUnpaidOrder(order.id, `Caducado por falta de pago tras ${ttlMinutes} minutos`);
+                if (!expired) {
+                    result.skipped.push(order.id);
+                    continue;
+                }
+                result.expired.push(order.id);
+
+                const [userRows]: any = await db.query('SELECT email, first_name FROM users WHERE id = ?', [order.user_id]);
+                if (userRows.length) {
+                    // El frontend recupera el carrito con `POST /orders/{id}/restore-cart`
+                    const restoreCartUrl = `${process.env.FRONTEND_URL || ''}/cart?restoreOrder=${order.id}`;
+                    await sendOrderExpiredEmail(userRows[0], { id: order.id }, restoreCartUrl);
+                }
+            } catch (err) {
+                console.error(`⚠️ Error caducando el pedido ${order.id}:`, err);
+                result.skipped.push(order.id);
+            }
+        }
+    } while (orders.length === batchSize);
+
+    if (result.expired.length) {
+        console.log(`⌛ Pedidos sin pagar caducados: ${result.expired.join(', ')}`);
+    }
+    return result;
+}
+
+/**
+ * Inicia el job periódico de caducidad de pedidos sin pagar dentro del proceso del servidor.
+ * - Evita ejecuciones solapadas si una pasada tarda más que el intervalo.
+ * - Con un intervalo `<= 0` el job no se inicia.
+ *
+ * @param {number} [intervalMinutes] Frecuencia en minutos (por defecto `UNPAID_ORDER_SWEEP_INTERVAL_MINUTES`)
+ * @param {ExpireUnpaidOrdersOptions} [options] Opciones pasadas a cada ejecución
+ * @returns {() => void} Función para detener el job
+ *
+ * @example
+ * ```ts
+ * const stop = startUnpaidOrdersExpiryJob();
+ * // ...
+ * stop();
+ * ```
+ */
+export function startUnpaidOrdersExpiryJob(
+    intervalMinutes: number = UNPAID_ORDER_SWEEP_INTERVAL_MINUTES,
+    options: ExpireUnpaidOrdersOptions = {}
+): () => void {
+    if (!intervalMinutes || intervalMinutes <= 0) return () => {};
+
+    let running = false;
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await expireUnpaidOrders(options);
+        } catch (err) {
+            console.error('❌ Error en el job de pedidos sin pagar:', err);
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(tick, intervalMinutes * 60_000);
+    timer.unref();
+    void tick();
+
+    return () => clearInterval(timer);
+}
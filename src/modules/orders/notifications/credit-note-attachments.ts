@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { CreditNotesService } from '../credit-notes/credit-notes.service';
+
+/**
+ * Genera los PDF de unas facturas rectificativas en ficheros temporales para adjuntarlos a un email.
+ * Si un PDF no se puede generar se omite (el cliente puede descargarlo desde el pedido).
+ *
+ * @param {number[]} creditNoteIds - IDs de las facturas rectificativas
+ * @returns {Promise<{ numbers: string[], attachments: Array<{ filename: string, path: string }> }>} Números y adjuntos generados
+ *
+ * @example
+ * ```ts
+ * const { attachments } = await writeCreditNoteAttachments([7]);
+ * try { await mailService.sendMail({ ..., attachments }); } finally { removeAttachments(attachments); }
+ * ```
+ */
+export const writeCreditNoteAttachments = async (creditNoteIds: number[]) => {
+    const numbers: string[] = [];
+    const attachments: Array<{ filename: string; path: string }> = [];
+    for (const id of creditNoteIds) {
+        try {
+            const { creditNote, pdf } = await CreditNotesService.generatePDF(id);
+            const filename = `Factura-Rectificativa-${creditNote.number}.pdf`;
+            const tempPath = path.join(__dirname, filename);
+            fs.writeFileSync(tempPath, pdf);
+            numbers.push(creditNote.number);
+            attachments.push({ filename, path: tempPath });
+        } catch (err) {
+            console.error(`❌ Error generando la factura rectificativa ${id} para adjuntar:`, err);
+        }
+    }
+    return { numbers, attachments };
+};
+
+/**
+ * Elimina los ficheros temporales de los adjuntos.
+ * @param {Array<{ path: string }>} attachments - Adjuntos generados con `writeCreditNoteAttachments`
+ */
+export const removeAttachments = (attachments: Array<{ path: string }>) => {
+    for (const attachment of attachments) {
+        if (fs.existsSync(attachment.path)) fs.unlinkSync(attachment.path);
+    }
+};
@@ -1,4 +1,5 @@
 import { mailService } from '../../../integrations/mail.service';
+import { writeCreditNoteAttachments, removeAttachments } from './credit-note-attachments';
 
 /**
  * Envía un correo al cliente notificando que su pedido ha sido **cancelado** y, si corresponde, **reembolsado**.
@@ -7,13 +8,17 @@ import { mailService } from '../../../integrations/mail.service';
  * 1. Utiliza `mailService.sendMail` para enviar el correo.
  * 2. Usa la plantilla `order-cancelled`.
  * 3. Incluye en el contexto la información del pedido, usuario y monto reembolsado.
+ * 4. Adjunta en PDF las facturas rectificativas de los reembolsos (y elimina después los ficheros temporales).
  *
  * @param {Object} user - Información del usuario que recibirá el correo.
  * @param {string} user.email - Correo electrónico del usuario.
  * @param {string} [user.first_name] - Nombre del usuario (opcional).
  * @param {Object} order - Información del pedido cancelado.
  * @param {number} order.id - ID del pedido.
+ * @param {string} [order.currency] - Divisa del pedido (importe del reembolso).
  * @param {number} [refundedAmount=0] - Monto reembolsado al cliente (por defecto 0).
+ * @param {string} [reason] - Motivo de la cancelación cuando la realiza la tienda (si no se indica, la cancelación la ha pedido el cliente).
+ * @param {number[]} [creditNoteIds=[]] - Facturas rectificativas emitidas por el reembolso, que se adjuntan al correo.
  * @returns {Promise<void>} No retorna valor, solo envía el correo.
  * @throws {Error} Puede lanzar error si falla el envío del correo.
  *
@@ -26,16 +31,26 @@ import { mailService } from '../../../integrations/mail.service';
  * );
  * ```
  */
-export const sendOrderCancelledEmail = async (user: { email: string, first_name?: string }, order: { id: number }, refundedAmount: number = 0) => {
+export const sendOrderCancelledEmail = async (
+    user: { email: string, first_name?: string },
+    order: { id: number; currency?: string | null },
+    refundedAmount: number = 0,
+    reason?: string,
+    creditNoteIds: number[] = []
+) => {
+    const { numbers, attachments } = await writeCreditNoteAttachments(creditNoteIds);
     try {
         await mailService.sendMail({
             to: user.email,
             subject: `Tu pedido #${order.id} ha sido cancelado`,
             template: 'order-cancelled',
-            context: { order, user, refundedAmount },
+            context: { order, user, refundedAmount, reason: reason ?? null, creditNotes: numbers },
+            attachments,
         });
         console.log(`✅ Email cancelación enviado a ${user.email}`);
     } catch (err) {
         console.error('❌ Error enviando email cancelación:', err);
+    } finally {
+        removeAttachments(attachments);
     }
 };
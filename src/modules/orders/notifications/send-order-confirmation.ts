@@ -7,10 +7,10 @@ import path from 'path';
  * Envía un correo de confirmación de pedido al usuario con la factura adjunta en PDF.
  * 
  * Flujo:
- * 1. Genera el PDF de la factura usando `InvoiceService.generatePDFBuffer`.
+ * 1. Obtiene el PDF guardado de la factura con `InvoiceService.issueInvoice` (la emite si aún no está emitida).
  * 2. Crea un archivo temporal con el PDF.
  * 3. Envía un correo usando `mailService.sendMail` con la plantilla `order-confirmation`.
- * 4. Adjunta el PDF generado.
+ * 4. Adjunta el PDF generado. Si la compra es de un invitado, incluye el enlace para registrarse con su email y reclamar el pedido.
  * 5. Elimina el archivo temporal después de enviar el correo.
  *
  * @param {OrderData} order - Datos completos del pedido, incluyendo información del usuario y correo electrónico.
@@ -34,25 +34,34 @@ import path from 'path';
  * await sendOrderConfirmationEmail(order);
  * ```
  */
+/**
+ * Enlace de registro para un comprador invitado, con el email ya rellenado.
+ * @param {string} email - Email usado en la compra
+ * @returns {string} URL del formulario de registro del frontend
+ */
+const buildGuestRegisterUrl = (email: string) =>
+    `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/register?email=${encodeURIComponent(email)}`;
+
 export const sendOrderConfirmationEmail = async (order: OrderData) => {
     const tempPath = path.join(__dirname, `Factura-Pedido-${order.id}.pdf`);
     try {
-        // Generar el PDF (InvoiceService usa los valores actualizados desde DB)
-        const pdfBuffer = await InvoiceService.generatePDFBuffer(order);
-        fs.writeFileSync(tempPath, pdfBuffer);
+        // PDF de la factura emitida (el mismo que se descarga desde el pedido)
+        const invoice = await InvoiceService.issueInvoice(order.id);
+        fs.writeFileSync(tempPath, invoice.pdf);
 
         // Llamada al servicio de mail con plantilla e attachment
         await mailService.sendMail({
             to: order.user.email,
             subject: `Tu pedido #${order.id} ha sido confirmado`,
             template: 'order-confirmation',  // coincide con order-confirmation.ejs
-            context: { order },              // la plantilla recibirá order.discount_amount y order.total_paid
-            attachments: [{ filename: `Factura-Pedido-${order.id}.pdf`, path: tempPath }],
+            context: { order, registerUrl: order.user.is_guest ? buildGuestRegisterUrl(order.user.email) : null }, // la plantilla recibirá order.discount_amount y order.total_paid
+            attachments: [{ filename: `Factura-${invoice.number}.pdf`, path: tempPath }],
         });
 
         console.log(`✅ Email de confirmación enviado a ${order.user.email}`);
     } catch (err) {
         console.error('❌ Error enviando email:', err);
+        throw err;
     } finally {
         if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
     }
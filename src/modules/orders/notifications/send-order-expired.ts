@@ -0,0 +1,37 @@
+import { mailService } from '../../../integrations/mail.service';
+
+/**
+ * Envía un correo al cliente notificando que su pedido ha **caducado** por no completarse el pago,
+ * con un enlace para recuperar su carrito y terminar la compra.
+ *
+ * Flujo:
+ * 1. Utiliza `mailService.sendMail` para enviar el correo.
+ * 2. Usa la plantilla `order-expired`.
+ * 3. Incluye en el contexto la información del pedido, del usuario y la URL para recuperar el carrito.
+ *
+ * @param {Object} user - Información del usuario que recibirá el correo.
+ * @param {string} user.email - Correo electrónico del usuario.
+ * @param {string} [user.first_name] - Nombre del usuario (opcional).
+ * @param {Object} order - Información del pedido caducado.
+ * @param {number} order.id - ID del pedido.
+ * @param {string} restoreCartUrl - URL del frontend para recuperar el carrito.
+ * @returns {Promise<void>} No retorna valor, solo envía el correo.
+ *
+ * @example
+ * ```ts
+ * await sendOrderExpiredEmail({ email: 'user@mail.com', first_name: 'Lucía' }, { id: 789 }, 'https://shopbrands.com/cart');
+ * ```
+ */
+export const sendOrderExpiredEmail = async (user: { email: string, first_name?: string }, order: { id: number }, restoreCartUrl: string) => {
+    try {
+        await mailService.sendMail({
+            to: user.email,
+            subject: `Tu pedido #${order.id} no se completó`,
+            template: 'order-expired',
+            context: { order, user, restoreCartUrl },
+        });
+        console.log(`✅ Email de pedido caducado enviado a ${user.email}`);
+    } catch (err) {
+        console.error('❌ Error enviando email de pedido caducado:', err);
+    }
+};
@@ -1,5 +1,6 @@
 import { mailService } from '../../../integrations/mail.service';
 import { OrderData } from '../invoice/invoice.service';
+import { Shipment } from '../shipments/shipments.service';
 
 /**
  * Envía un correo al cliente notificando que su pedido ha sido **enviado**.
@@ -7,25 +8,29 @@ import { OrderData } from '../invoice/invoice.service';
  * Flujo:
  * 1. Utiliza `mailService.sendMail` para enviar el correo.
  * 2. Usa la plantilla `order-shipped`.
- * 3. Incluye en el contexto la información del pedido y, si existe, el número de seguimiento.
+ * 3. Incluye en el contexto la información del pedido, el bulto que se acaba de enviar (transportista,
+ *    número y enlace de seguimiento, artículos) y el resto de envíos del pedido (`order.shipments`).
  *
- * @param {OrderData} order - Información completa del pedido enviado (incluye datos del usuario).
- * @param {string} [trackingNumber] - Número de seguimiento del envío (opcional).
+ * @param {OrderData} order - Información completa del pedido enviado (incluye datos del usuario y sus envíos).
+ * @param {Shipment} [shipment] - Envío que se notifica (por defecto, el último registrado del pedido).
  * @returns {Promise<void>} No retorna valor, solo envía el correo.
  * @throws {Error} Puede lanzar error si falla el envío del correo.
  *
  * @example
  * ```ts
- * await sendOrderShippedEmail(order, 'BRN123456789ES');
+ * await sendOrderShippedEmail(order, shipment);
  * ```
  */
-export const sendOrderShippedEmail = async (order: OrderData, trackingNumber?: string) => {
+export const sendOrderShippedEmail = async (order: OrderData, shipment?: Shipment) => {
     try {
+        const shipments = order.shipments ?? [];
+        const current = shipment ?? shipments[shipments.length - 1] ?? null;
+        const trackingNumber = current?.tracking_number ?? null;
         await mailService.sendMail({
             to: order.user.email,
             subject: `Tu pedido #${order.id} ha sido enviado`,
             template: 'order-shipped',
-            context: { order, trackingNumber },
+            context: { order, shipment: current, shipments, trackingNumber },
         });
         console.log(`✅ Email de envío enviado a ${order.user.email}`);
     } catch (err) {
@@ -0,0 +1,46 @@
+import { mailService } from '../../../integrations/mail.service';
+
+/**
+ * Envía un correo al cliente notificando que **no se ha podido cobrar** el pago de su pedido
+ * (tarjeta rechazada, adeudo SEPA devuelto, pago aplazado denegado...).
+ *
+ * Flujo:
+ * 1. Utiliza `mailService.sendMail` para enviar el correo.
+ * 2. Usa la plantilla `payment-failed`.
+ * 3. Incluye en el contexto el pedido, el usuario, el motivo del rechazo y el enlace para volver a intentarlo.
+ *
+ * @param {Object} user - Información del usuario que recibirá el correo.
+ * @param {string} user.email - Correo electrónico del usuario.
+ * @param {string} [user.first_name] - Nombre del usuario (opcional).
+ * @param {Object} order - Información del pedido.
+ * @param {number} order.id - ID del pedido.
+ * @param {number} order.total - Importe que no se ha podido cobrar.
+ * @param {string} [order.currency] - Divisa del pedido.
+ * @param {boolean} order.released - `true` si el pedido se ha liberado (el enlace recupera el carrito en lugar de reintentar el pago).
+ * @param {string | null} reason - Motivo del rechazo devuelto por Stripe (si lo hay).
+ * @param {string} retryUrl - URL del frontend para reintentar el pago o recuperar el carrito.
+ * @returns {Promise<void>} No retorna valor, solo envía el correo.
+ *
+ * @example
+ * ```ts
+ * await sendPaymentFailedEmail({ email: 'user@mail.com', first_name: 'Ana' }, { id: 789, total: 49.9, currency: 'EUR', released: false }, 'Tu tarjeta no tiene fondos suficientes.', 'https://shopbrands.com/orders/789');
+ * ```
+ */
+export const sendPaymentFailedEmail = async (
+    user: { email: string, first_name?: string },
+    order: { id: number; total: number; currency?: string | null; released: boolean },
+    reason: string | null,
+    retryUrl: string
+) => {
+    try {
+        await mailService.sendMail({
+            to: user.email,
+            subject: `No hemos podido cobrar tu pedido #${order.id}`,
+            template: 'payment-failed',
+            context: { order, user, reason, retryUrl },
+        });
+        console.log(`✅ Email de pago fallido enviado a ${user.email}`);
+    } catch (err) {
+        console.error('❌ Error enviando email de pago fallido:', err);
+    }
+};
@@ -1,4 +1,5 @@
 import { mailService } from '../../../integrations/mail.service';
+import { writeCreditNoteAttachments, removeAttachments } from './credit-note-attachments';
 
 /**
  * Envía un correo al cliente notificando que su solicitud de devolución ha sido **aprobada**.
@@ -6,7 +7,8 @@ import { mailService } from '../../../integrations/mail.service';
  * Flujo:
  * 1. Utiliza `mailService.sendMail` para enviar el correo.
  * 2. Usa la plantilla `return-approved`.
- * 3. Incluye en el contexto la información del pedido y del usuario.
+ * 3. Incluye en el contexto la información del pedido, del usuario y el RMA con las líneas a devolver
+ *    (la plantilla muestra las instrucciones de envío).
  *
  * @param {Object} user - Información del usuario que recibirá el correo.
  * @param {string} user.email - Correo electrónico del usuario.
@@ -14,21 +16,26 @@ import { mailService } from '../../../integrations/mail.service';
  * @param {string} [user.last_name] - Apellido del usuario (opcional).
  * @param {Object} order - Información del pedido relacionado con la devolución.
  * @param {number} order.id - ID del pedido.
+ * @param {Object} [rma] - Número de RMA y líneas que el cliente debe enviar.
  * @returns {Promise<void>} No retorna valor, solo envía el correo.
  * @throws {Error} Puede lanzar error si falla el envío del correo.
  * 
  * @example
  * ```ts
- * await sendReturnApprovedEmail({ email: 'user@mail.com', first_name: 'Juan' }, { id: 123 });
+ * await sendReturnApprovedEmail({ email: 'user@mail.com', first_name: 'Juan' }, { id: 123 }, { rmaNumber: 'RMA-2026-000042', items: [] });
  * ```
  */
-export const sendReturnApprovedEmail = async (user: { email: string, first_name?: string, last_name?: string }, order: { id: number }) => {
+export const sendReturnApprovedEmail = async (
+    user: { email: string, first_name?: string, last_name?: string },
+    order: { id: number },
+    rma?: { rmaNumber: string; items: Array<{ product_name: string | null; quantity: number }> }
+) => {
     try {
         await mailService.sendMail({
             to: user.email,
-            subject: `Respuesta solicitud de devolución pedido #${order.id}`,
+            subject: rma ? `Devolución aprobada ${rma.rmaNumber} — pedido #${order.id}` : `Respuesta solicitud de devolución pedido #${order.id}`,
             template: 'return-approved',
-            context: { order, user },
+            context: { order, user, rmaNumber: rma?.rmaNumber ?? null, items: rma?.items ?? [] },
         });
         console.log(`✅ Email de devolución aprobada enviado a ${user.email}`);
     } catch (error) {
@@ -73,7 +80,8 @@ export const sendReturnRejectedEmail = async (user: { email: string, first_name?
  * Flujo:
  * 1. Utiliza `mailService.sendMail` para enviar el correo.
  * 2. Usa la plantilla `return-completed`.
- * 3. Incluye en el contexto la información del pedido y del usuario.
+ * 3. Incluye en el contexto la información del pedido, del usuario y, si la devolución se ha inspeccionado,
+ *    el RMA, el importe reembolsado y el resultado de cada línea.
  *
  * @param {Object} user - Información del usuario que recibirá el correo.
  * @param {string} user.email - Correo electrónico del usuario.
@@ -81,19 +89,36 @@ export const sendReturnRejectedEmail = async (user: { email: string, first_name?
  * @param {string} [user.last_name] - Apellido del usuario (opcional).
  * @param {Object} order - Información del pedido relacionado con la devolución.
  * @param {number} order.id - ID del pedido.
+ * @param {string} [order.currency] - Divisa del pedido (importes del correo).
+ * @param {Object} [inspection] - RMA, importe reembolsado, líneas inspeccionadas y pedido de cambio (con el enlace para pagar la diferencia).
+ * @param {number[]} [creditNoteIds=[]] - Facturas rectificativas emitidas por el reembolso, que se adjuntan al correo en PDF.
  * @returns {Promise<void>} No retorna valor, solo envía el correo.
  * @throws {Error} Puede lanzar error si falla el envío del correo.
  */
-export const sendReturnCompletedEmail = async (user: { email: string, first_name?: string, last_name?: string }, order: { id: number }) => {
+export const sendReturnCompletedEmail = async (
+    user: { email: string, first_name?: string, last_name?: string },
+    order: { id: number; currency?: string | null },
+    inspection?: {
+        rmaNumber: string | null;
+        refundAmount: number;
+        items: Array<{ product_name: string | null; quantity: number; inspection_result: string | null; inspection_note: string | null; approved_refund_amount: number | null }>;
+        replacementOrder?: { id: number; total: number; paymentUrl?: string | null } | null;
+    },
+    creditNoteIds: number[] = []
+) => {
+    const { numbers, attachments } = await writeCreditNoteAttachments(creditNoteIds);
     try {
         await mailService.sendMail({
             to: user.email,
             subject: `Respuesta solicitud de devolución pedido #${order.id}`,
             template: 'return-completed',
-            context: { order, user },
+            context: { order, user, inspection: inspection ?? null, creditNotes: numbers },
+            attachments,
         });
         console.log(`✅ Email de devolución completada enviado a ${user.email}`);
     } catch (error) {
         console.error('❌ Error enviando email de devolución completada:', error);
+    } finally {
+        removeAttachments(attachments);
     }
 };
\ No newline at end of file
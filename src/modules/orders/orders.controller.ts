@@ -1,20 +1,36 @@
 import { Response } from 'express';
 import { OrdersService } from './orders.service';
 import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { InsufficientStockError, PriceMismatchError } from './orders.errors';
+import { parseGiftOptions } from './orders.gift';
+import { parseCurrency } from '../currencies/currencies.rules';
+import { parseShippingMethod } from '../shipping/shipping.rules';
 
 /**
  * Crear un nuevo pedido para el usuario autenticado.
+ * - Los precios de las líneas y el total se recalculan en servidor a partir de `products`.
+ * - `total` (opcional) es el total que espera pagar el cliente; si no coincide se devuelve 409 con el detalle.
+ * - `gift` (opcional) marca el pedido como regalo: `{ message?, wrap?, hide_prices? }`.
+ * - `currency` (opcional) es la divisa del pedido (`EUR`, `GBP`, `CHF`); por defecto, la del país de envío.
+ * - `shipping_method` (opcional) es el método de envío (`standard`, `express`, `pickup`); por defecto, `standard` (si no está disponible para la dirección, es obligatorio).
+ *   Sus gastos se suman al total (también al esperado).
  * @route POST /orders
  * @access Private (usuario autenticado)
- * @param {AuthenticatedRequest} req - Request con `user` y body con datos del pedido (`address_id`, `items`, `total`).
- * @param {Response} res - Response con resultado de la creación.
+ * @param {AuthenticatedRequest} req - Request con `user` y body con datos del pedido (`address_id`, `items`, `total`, `gift`, `currency`, `shipping_method`).
+ * @param {Response} res - Response con resultado de la creación (409 si falta stock o han cambiado los precios).
  */
 export const createOrder = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { address_id, items, total } = req.body;
-        const result = await OrdersService.createOrder(req.user!.id, address_id, items, total);
+        const { address_id, items, total, gift, currency, shipping_method } = req.body;
+        const expectedTotal = total !== undefined && total !== null ? Number(total) : null;
+        const result = await OrdersService.createOrder(
+            req.user!.id, address_id, items, expectedTotal, parseGiftOptions(gift), parseCurrency(currency), parseShippingMethod(shipping_method)
+        );
         res.json(result);
     } catch (error: any) {
+        if (error instanceof InsufficientStockError || error instanceof PriceMismatchError) {
+            return res.status(error.status).json(error.toResponse());
+        }
         res.status(400).json({ message: error.message });
     }
 };
@@ -52,16 +68,33 @@ export const getOrderById = async (req: AuthenticatedRequest, res: Response) =>
     }
 };
 
+/**
+ * Obtener el historial de cambios de estado de un pedido.
+ * @route GET /orders/:id/history
+ * @access Private (propietario del pedido o admin)
+ * @param {AuthenticatedRequest} req - Request con `params.id` del pedido y `user` extraído del JWT.
+ * @param {Response} res - Response con la lista de transiciones `{ from_status, to_status, changed_by, note, created_at }`.
+ */
+export const getOrderHistory = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const history = await OrdersService.getStatusHistory(orderId, req.user!);
+        res.json(history);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
 /**
  * Obtener todos los pedidos (solo admin).
  * @route GET /orders/all
  * @access Admin
- * @param {AuthenticatedRequest} req - Request del administrador.
- * @param {Response} res - Response con lista de todos los pedidos.
+ * @param {AuthenticatedRequest} req - Request del administrador con `query.archived` opcional (`true` para ver los archivados).
+ * @param {Response} res - Response con lista de pedidos activos (o archivados).
  */
 export const getAllOrders = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const orders = await OrdersService.getAllOrders();
+        const orders = await OrdersService.getAllOrders(req.query.archived === 'true');
         res.json(orders);
     } catch (error: any) {
         res.status(400).json({ message: error.message });
@@ -72,15 +105,15 @@ export const getAllOrders = async (req: AuthenticatedRequest, res: Response) =>
  * Actualizar el estado de un pedido por su ID (solo admin).
  * @route PUT /orders/:id/status
  * @access Admin
- * @param {AuthenticatedRequest} req - Request con `params.id` y body `{ status: string, trackingNumber?: string }`.
+ * @param {AuthenticatedRequest} req - Request con `params.id` y body `{ status: string, trackingNumber?: string, carrier?: string, note?: string }`.
  * @param {Response} res - Response con mensaje de actualización.
  */
 export const updateOrderStatus = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const orderId = parseInt(req.params.id!);
-        const { status, trackingNumber } = req.body; // trackingNumber opcional
-        // pasamos meta con trackingNumber si existe
-        await OrdersService.updateOrderStatus(orderId, status, { trackingNumber });
+        const { status, trackingNumber, carrier, note } = req.body; // trackingNumber, carrier y note opcionales
+        // pasamos meta con seguimiento, transportista y nota si existen
+        await OrdersService.updateOrderStatus(orderId, status, { trackingNumber, carrier, note }, req.user!.id);
         res.json({ message: 'Estado actualizado' });
     } catch (error: any) {
         res.status(400).json({ message: error.message });
@@ -88,7 +121,7 @@ export const updateOrderStatus = async (req: AuthenticatedRequest, res: Response
 };
 
 /**
- * Eliminar un pedido por su ID (solo admin).
+ * Eliminar definitivamente un pedido por su ID (solo admin, solo si nunca ha tenido pagos).
  * @route DELETE /orders/:id
  * @access Admin
  * @param {AuthenticatedRequest} req - Request con `params.id`.
@@ -104,20 +137,60 @@ export const deleteOrder = async (req: AuthenticatedRequest, res: Response) => {
     }
 };
 
+/**
+ * Archivar un pedido (solo admin).
+ * @route POST /orders/:id/archive
+ * @access Admin
+ * @param {AuthenticatedRequest} req - Request con `params.id` y body `{ reason: string }`.
+ * @param {Response} res - Response con mensaje de confirmación.
+ */
+export const archiveOrder = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const result = await OrdersService.archiveOrder(orderId, req.user!.id, req.body?.reason);
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * Restaurar un pedido archivado (solo admin).
+ * @route POST /orders/:id/restore
+ * @access Admin
+ * @param {AuthenticatedRequest} req - Request con `params.id`.
+ * @param {Response} res - Response con mensaje de confirmación.
+ */
+export const restoreOrder = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const result = await OrdersService.restoreOrder(orderId);
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
 /**
  * Solicitar devolución de un pedido (usuario).
  * @route POST /orders/:id/return
  * @access Private (usuario autenticado)
- * @param {AuthenticatedRequest} req - Request con `params.id` del pedido y body `{ reason: string }`.
- * @param {Response} res - Response con mensaje de devolución creada y `returnId`.
+ * @param {AuthenticatedRequest} req - Request con `params.id` del pedido y body `{ reason?: string, items?: Array<{ order_item_id, quantity, reason?, exchange_product_id? }> }`.
+ * @param {Response} res - Response con mensaje de devolución creada, `returnId`, `totalAmount` y `exchangeLines` (409 si la variante de cambio no tiene stock).
  */
 export const requestReturn = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const orderId = parseInt(req.params.id!);
-        const { reason, totalAmount } = req.body;
-        const result = await OrdersService.requestReturn(orderId, req.user!.id, reason);
+        const { reason, items } = req.body;
+        if (items !== undefined && !Array.isArray(items)) {
+            return res.status(400).json({ message: 'items debe ser una lista de { order_item_id, quantity, reason }' });
+        }
+        const result = await OrdersService.requestReturn(orderId, req.user!.id, reason, items);
         res.json(result);
     } catch (error: any) {
+        if (error instanceof InsufficientStockError) {
+            return res.status(error.status).json(error.toResponse());
+        }
         res.status(400).json({ message: error.message });
     }
 };
@@ -127,7 +200,7 @@ export const requestReturn = async (req: AuthenticatedRequest, res: Response) =>
  * @route GET /orders/returns
  * @access Private (usuario autenticado)
  * @param {AuthenticatedRequest} req - Request con `user`.
- * @param {Response} res - Response con lista de devoluciones del usuario.
+ * @param {Response} res - Response con lista de devoluciones del usuario (cada una con sus líneas y estado por línea).
  */
 export const getUserReturns = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -143,15 +216,18 @@ export const getUserReturns = async (req: AuthenticatedRequest, res: Response) =
  * @route PUT /orders/returns/:id/status
  * @access Admin
  * @param {AuthenticatedRequest} req - Request con `params.id` de la devolución y body `{ status: 'approved' | 'rejected' }`.
- * @param {Response} res - Response con mensaje de actualización de estado.
+ * @param {Response} res - Response con mensaje de actualización de estado (409 si no se puede reservar la variante de un cambio).
  */
 export const updateReturnStatus = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const returnId = parseInt(req.params.id!);
         const { status } = req.body;
-        const result = await OrdersService.updateReturnStatus(returnId, status);
+        const result = await OrdersService.updateReturnStatus(returnId, status, req.user!.id);
         res.json(result);
     } catch (error: any) {
+        if (error instanceof InsufficientStockError) {
+            return res.status(error.status).json(error.toResponse());
+        }
         res.status(400).json({ message: error.message });
     }
 };
@@ -172,3 +248,58 @@ export const cancelOrder = async (req: AuthenticatedRequest, res: Response) => {
         res.status(400).json({ message: error.message });
     }
 };
+
+/**
+ * Cancelar cualquier pedido en nombre del cliente (solo admin).
+ * @route POST /orders/:id/admin-cancel
+ * @access Admin
+ * @param {AuthenticatedRequest} req - Request con `params.id` del pedido y body `{ reason: string, restock?: boolean, notifyCustomer?: boolean }`.
+ * @param {Response} res - Response con mensaje, importe reembolsado/fallido y si se repuso el stock y se avisó al cliente.
+ */
+export const adminCancelOrder = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const { reason, restock, notifyCustomer } = req.body;
+        if ((restock !== undefined && typeof restock !== 'boolean') || (notifyCustomer !== undefined && typeof notifyCustomer !== 'boolean')) {
+            return res.status(400).json({ message: 'restock y notifyCustomer deben ser booleanos' });
+        }
+        const result = await OrdersService.adminCancelOrder(orderId, req.user!.id, { reason, restock, notifyCustomer });
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * Repetir un pedido anterior añadiendo sus productos al carrito (usuario).
+ * @route POST /orders/:id/reorder
+ * @access Private (usuario autenticado)
+ * @param {AuthenticatedRequest} req - Request con `params.id` del pedido y `user` extraído del JWT.
+ * @param {Response} res - Response con `{ cart, issues }`: carrito actualizado y líneas no añadidas o añadidas con cambios.
+ */
+export const reorderOrder = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const result = await OrdersService.reorder(orderId, req.user!.id);
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * Recuperar el carrito de un pedido caducado sin pagar (usuario).
+ * @route POST /orders/:id/restore-cart
+ * @access Private (usuario autenticado)
+ * @param {AuthenticatedRequest} req - Request con `params.id` del pedido caducado y `user` extraído del JWT.
+ * @param {Response} res - Response con `{ cart, issues }`: carrito actualizado y líneas no añadidas o añadidas con cambios.
+ */
+export const restoreOrderCart = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const result = await OrdersService.restoreCart(orderId, req.user!.id);
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
@@ -0,0 +1,46 @@
+import { mapDisputeStatus } from '../../utils/mappers.utils';
+
+/** Estados de una disputa de Stripe que ya no admiten respuesta */
+export const CLOSED_DISPUTE_STATUSES = ['won', 'lost', 'warning_closed'];
+
+/**
+ * Disputa (contracargo) abierta por el cliente en su banco sobre el pago de un pedido.
+ * - `status`: estado de la disputa en Stripe (`needs_response`, `under_review`, `won`, `lost`...).
+ * - `amount`: importe disputado en la divisa del pedido.
+ */
+export interface OrderDispute {
+    id: string;
+    status: string;
+    status_label: string;
+    reason: string | null;
+    amount: number;
+    open: boolean;
+    opened_at: string | null;
+    closed_at: string | null;
+}
+
+/**
+ * @function mapOrderDispute
+ * @summary Construye la disputa de un pedido a partir de su fila en `orders`.
+ *
+ * @param {any} row - Fila con `stripe_dispute_id`, `dispute_status`, `dispute_reason`, `dispute_amount`, `disputed_at` y `dispute_closed_at`
+ * @returns {OrderDispute | null} Disputa del pedido, o `null` si no tiene
+ *
+ * @example
+ * ```ts
+ * const dispute = mapOrderDispute(rows[0]);
+ * ```
+ */
+export function mapOrderDispute(row: any): OrderDispute | null {
+    if (!row?.stripe_dispute_id) return null;
+    return {
+        id: row.stripe_dispute_id,
+        status: row.dispute_status,
+        status_label: mapDisputeStatus(row.dispute_status),
+        reason: row.dispute_reason ?? null,
+        amount: Number(row.dispute_amount ?? 0),
+        open: !CLOSED_DISPUTE_STATUSES.includes(row.dispute_status),
+        opened_at: row.disputed_at ?? null,
+        closed_at: row.dispute_closed_at ?? null,
+    };
+}
@@ -0,0 +1,81 @@
+/**
+ * Producto sin stock suficiente para una línea de pedido.
+ */
+export interface InsufficientStockItem {
+    product_id: number;
+    name: string | null;
+    requested: number;
+    available: number;
+}
+
+/**
+ * Error lanzado al crear un pedido cuando uno o varios productos no tienen stock suficiente
+ * (o ya no existen). Se devuelve con código **409 Conflict** e incluye la lista de productos afectados.
+ *
+ * @example
+ * ```ts
+ * try {
+ *     await OrdersService.createOrder(userId, addressId, items, total);
+ * } catch (err) {
+ *     if (err instanceof InsufficientStockError) {
+ *         return res.status(err.status).json(err.toResponse());
+ *     }
+ * }
+ * ```
+ */
+export class InsufficientStockError extends Error {
+    /** Código HTTP recomendado para la respuesta */
+    public readonly status = 409;
+
+    constructor(public readonly products: InsufficientStockItem[]) {
+        super(`Stock insuficiente para: ${products.map(p => p.name ?? `producto ${p.product_id}`).join(', ')}`);
+        this.name = 'InsufficientStockError';
+    }
+
+    /** Cuerpo JSON de la respuesta HTTP */
+    toResponse() {
+        return { code: 'insufficient_stock', message: this.message, products: this.products };
+    }
+}
+
+/**
+ * Línea de la comparación entre el precio enviado por el cliente y el precio actual del catálogo.
+ */
+export interface PriceDiffItem {
+    product_id: number;
+    name: string;
+    quantity: number;
+    expected_price: number | null;
+    current_price: number;
+    changed: boolean;
+}
+
+/**
+ * Diferencia entre el total esperado por el cliente y el total recalculado en servidor.
+ */
+export interface PriceDiff {
+    expected_total: number;
+    current_total: number;
+    items: PriceDiffItem[];
+}
+
+/**
+ * Error lanzado al crear un pedido cuando el total que espera el cliente no coincide con el
+ * total recalculado a partir de los precios actuales de `products`.
+ * Se devuelve con código **409 Conflict** para que el frontend muestre "los precios han cambiado"
+ * y el cliente confirme el nuevo importe.
+ */
+export class PriceMismatchError extends Error {
+    /** Código HTTP recomendado para la respuesta */
+    public readonly status = 409;
+
+    constructor(public readonly diff: PriceDiff) {
+        super('Los precios de algunos productos han cambiado, revisa el nuevo total del pedido');
+        this.name = 'PriceMismatchError';
+    }
+
+    /** Cuerpo JSON de la respuesta HTTP */
+    toResponse() {
+        return { code: 'price_changed', message: this.message, ...this.diff };
+    }
+}
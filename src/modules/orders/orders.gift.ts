@@ -0,0 +1,92 @@
+import { GIFT_WRAP_FEE } from '../../config/config';
+
+/** Longitud máxima del mensaje de regalo */
+export const GIFT_MESSAGE_MAX_LENGTH = 500;
+
+/**
+ * Opciones de regalo de un pedido.
+ * - `message`: mensaje para el destinatario (se imprime en el albarán y aparece en el email de envío).
+ * - `wrap`: envoltorio de regalo; suma `GIFT_WRAP_FEE` al total del pedido.
+ * - `hide_prices`: el paquete no lleva factura ni etiquetas con precio (se indica al almacén en el albarán).
+ *   La factura no cambia y solo se envía al comprador.
+ */
+export interface GiftOptions {
+    message: string | null;
+    wrap: boolean;
+    hide_prices: boolean;
+}
+
+/**
+ * Opciones de regalo tal y como se devuelven en los pedidos (incluye el recargo aplicado).
+ */
+export interface OrderGift extends GiftOptions {
+    wrap_fee: number;
+}
+
+/**
+ * @function parseGiftOptions
+ * @summary Valida las opciones de regalo recibidas en el body (`gift`).
+ *
+ * @param {unknown} input - Valor de `req.body.gift` (`{ message?, wrap?, hide_prices? }`)
+ * @returns {GiftOptions | null} Opciones normalizadas, o `null` si el pedido no es un regalo
+ * @throws Error si `gift` no es un objeto o el mensaje supera `GIFT_MESSAGE_MAX_LENGTH` caracteres
+ *
+ * @example
+ * ```ts
+ * parseGiftOptions({ message: '¡Feliz cumpleaños!', wrap: true }); // { message: '¡Feliz cumpleaños!', wrap: true, hide_prices: false }
+ * parseGiftOptions(undefined); // null
+ * ```
+ */
+export function parseGiftOptions(input: unknown): GiftOptions | null {
+    if (input === undefined || input === null || input === false) return null;
+    if (typeof input !== 'object' || Array.isArray(input)) throw new Error('gift debe ser un objeto { message?, wrap?, hide_prices? }');
+
+    const { message, wrap, hide_prices } = input as Record<string, unknown>;
+    if (message !== undefined && message !== null && typeof message !== 'string') throw new Error('gift.message debe ser un texto');
+    const text = typeof message === 'string' ? message.trim() : '';
+    if (text.length > GIFT_MESSAGE_MAX_LENGTH) throw new Error(`El mensaje de regalo no puede superar ${GIFT_MESSAGE_MAX_LENGTH} caracteres`);
+
+    return {
+        message: text || null,
+        wrap: wrap === true || wrap === 'true',
+        hide_prices: hide_prices === true || hide_prices === 'true',
+    };
+}
+
+/**
+ * @function giftWrapFee
+ * @summary Recargo por envoltorio de regalo de un pedido.
+ *
+ * @param {GiftOptions | null} gift - Opciones de regalo (o `null`)
+ * @returns {number} `GIFT_WRAP_FEE` si se pide envoltorio, 0 si no
+ *
+ * @example
+ * ```ts
+ * const total = roundMoney(itemsTotal + giftWrapFee(gift));
+ * ```
+ */
+export function giftWrapFee(gift: GiftOptions | null): number {
+    return gift?.wrap ? GIFT_WRAP_FEE : 0;
+}
+
+/**
+ * @function mapOrderGift
+ * @summary Construye las opciones de regalo de un pedido a partir de su fila en `orders`.
+ *
+ * @param {any} row - Fila con `is_gift`, `gift_message`, `gift_wrap`, `gift_wrap_fee` y `gift_hide_prices`
+ * @returns {OrderGift | null} Opciones de regalo, o `null` si el pedido no es un regalo
+ *
+ * @example
+ * ```ts
+ * const gift = mapOrderGift(rows[0]);
+ * ```
+ */
+export function mapOrderGift(row: any): OrderGift | null {
+    if (!row?.is_gift) return null;
+    return {
+        message: row.gift_message ?? null,
+        wrap: Boolean(row.gift_wrap),
+        wrap_fee: Number(row.gift_wrap_fee ?? 0),
+        hide_prices: Boolean(row.gift_hide_prices),
+    };
+}
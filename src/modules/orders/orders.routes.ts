@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authenticate, authorize } from '../../middlewares/auth.middleware';
+import { idempotency } from '../../middlewares/idempotency.middleware';
 import {
     createOrder,
     getUserOrders,
@@ -7,18 +8,44 @@ import {
     getAllOrders,
     updateOrderStatus,
     deleteOrder,
+    archiveOrder,
+    restoreOrder,
     requestReturn,
     getUserReturns,
     updateReturnStatus,
-    cancelOrder
+    cancelOrder,
+    adminCancelOrder,
+    getOrderHistory,
+    reorderOrder,
+    restoreOrderCart
 } from './orders.controller';
 import invoiceRoutes from './invoice/invoice.routes';
+import shipmentsRoutes from './shipments/shipments.routes';
+import returnsRoutes from './returns/returns.routes';
+import searchRoutes from './search/search.routes';
+import warehouseRoutes from './warehouse/warehouse.routes';
+import creditNotesRoutes from './credit-notes/credit-notes.routes';
 
 const router = Router();
 
 // Subrutas de facturas/invoice
 router.use('/invoice', invoiceRoutes);
 
+// Subrutas de envíos (/:id/shipments y /shipments/:shipmentId)
+router.use('/', shipmentsRoutes);
+
+// Subrutas de devoluciones/RMA (/returns/:returnId y /returns/:returnId/receive)
+router.use('/', returnsRoutes);
+
+// Búsqueda de pedidos para administración (/search), antes de /:id
+router.use('/', searchRoutes);
+
+// Documentos de almacén para administración (/picking-list y /:id/packing-slip), antes de /:id
+router.use('/', warehouseRoutes);
+
+// Facturas rectificativas (/credit-notes/:creditNoteId y /:id/credit-notes), antes de /:id
+router.use('/', creditNotesRoutes);
+
 /**
  * @route POST /orders
  * @desc Crear un nuevo pedido para el usuario autenticado.
@@ -27,9 +54,10 @@ router.use('/invoice', invoiceRoutes);
  * @param {number} req.body.address_id ID de la dirección de envío
  * @param {Array} req.body.items Lista de items del pedido ({ product_id, quantity, price })
  * @param {number} req.body.total Total del pedido
+ * @header {string} [Idempotency-Key] Clave para que un reintento no cree un segundo pedido
  * @returns {object} { message: string, orderId: number }
  */
-router.post('/', authenticate, createOrder);
+router.post('/', authenticate, idempotency, createOrder);
 
 /**
  * @route GET /orders/me
@@ -48,14 +76,24 @@ router.get('/me', authenticate, getUserOrders);
  */
 router.get('/:id', authenticate, getOrderById);
 
+/**
+ * @route GET /orders/:id/history
+ * @desc Obtener el historial de cambios de estado de un pedido (quién, cuándo, desde, hasta, nota).
+ * @access Private (propietario del pedido o admin)
+ * @param {number} req.params.id ID del pedido
+ * @returns {Array} Lista de transiciones ordenadas cronológicamente
+ */
+router.get('/:id/history', authenticate, getOrderHistory);
+
 /**
  * @route POST /orders/:id/return
  * @desc Solicitar devolución de un pedido.
  * @access Private (Usuario autenticado)
  * @param {number} req.params.id ID del pedido
  * @param {object} req.body
- * @param {string} req.body.reason Motivo de la devolución
- * @returns {object} { message: string, returnId: number }
+ * @param {string} [req.body.reason] Motivo general de la devolución (obligatorio si alguna línea no indica el suyo)
+ * @param {Array} [req.body.items] Líneas a devolver ({ order_item_id, quantity, reason? }); sin ellas se devuelve todo lo pendiente
+ * @returns {object} { message: string, returnId: number, totalAmount: number }
  */
 router.post('/:id/return', authenticate, requestReturn);
 
@@ -63,15 +101,17 @@ router.post('/:id/return', authenticate, requestReturn);
  * @route GET /orders/me/returns
  * @desc Obtener todas las devoluciones realizadas por el usuario autenticado.
  * @access Private (Usuario autenticado)
- * @returns {Array} Lista de devoluciones del usuario
+ * @returns {Array} Lista de devoluciones del usuario con sus líneas (`items`) y el estado de cada una
  */
 router.get('/me/returns', authenticate, getUserReturns);
 
 /**
  * @route GET /orders
- * @desc Listar todos los pedidos (solo admin).
+ * @desc Listar todos los pedidos no archivados (solo admin). Con `?archived=true` lista solo los archivados.
+ * Para listados paginados, con búsqueda y filtros, usar `GET /orders/search`.
  * @access Admin
- * @returns {Array} Lista completa de pedidos
+ * @param {string} [req.query.archived] `true` para listar los pedidos archivados
+ * @returns {Array} Lista de pedidos
  */
 router.get('/', authenticate, authorize('admin'), getAllOrders);
 
@@ -81,20 +121,43 @@ router.get('/', authenticate, authorize('admin'), getAllOrders);
  * @access Admin
  * @param {number} req.params.id ID del pedido
  * @param {object} req.body
- * @param {string} req.body.status Nuevo estado del pedido
+ * @param {string} req.body.status Nuevo estado del pedido (debe ser una transición permitida por `ORDER_STATUS_TRANSITIONS`)
+ * @param {string} [req.body.trackingNumber] Número de seguimiento (al pasar a `shipped`)
+ * @param {string} [req.body.carrier] Transportista (al pasar a `shipped`; si no hay envíos registrados se crea uno con todas las unidades)
+ * @param {string} [req.body.note] Nota que se guarda en el historial de estados
  * @returns {object} { message: string }
  */
 router.put('/:id/status', authenticate, authorize('admin'), updateOrderStatus);
 
 /**
  * @route DELETE /orders/:id
- * @desc Eliminar un pedido (solo admin).
+ * @desc Eliminar definitivamente un pedido (solo admin). Solo se permite si el pedido nunca ha tenido un pago; si no, hay que archivarlo.
  * @access Admin
  * @param {number} req.params.id ID del pedido
  * @returns {object} { message: string }
  */
 router.delete('/:id', authenticate, authorize('admin'), deleteOrder);
 
+/**
+ * @route POST /orders/:id/archive
+ * @desc Archivar un pedido (borrado lógico, solo admin). Deja de aparecer en los listados y en el dashboard; conserva pagos y facturas.
+ * @access Admin
+ * @param {number} req.params.id ID del pedido
+ * @param {object} req.body
+ * @param {string} req.body.reason Motivo del archivado
+ * @returns {object} { message: string }
+ */
+router.post('/:id/archive', authenticate, authorize('admin'), archiveOrder);
+
+/**
+ * @route POST /orders/:id/restore
+ * @desc Restaurar un pedido archivado (solo admin).
+ * @access Admin
+ * @param {number} req.params.id ID del pedido
+ * @returns {object} { message: string }
+ */
+router.post('/:id/restore', authenticate, authorize('admin'), restoreOrder);
+
 /**
  * @route PUT /orders/returns/:id/status
  * @desc Actualizar el estado de una devolución (aprobar o rechazar) (solo admin).
@@ -116,4 +179,36 @@ router.put('/returns/:id/status', authenticate, authorize('admin'), updateReturn
  */
 router.post('/:id/cancel', authenticate, cancelOrder);
 
+/**
+ * @route POST /orders/:id/admin-cancel
+ * @desc Cancelar cualquier pedido en nombre del cliente (atención al cliente). Reembolsa lo cobrado y registra quién y por qué.
+ * @access Admin
+ * @param {number} req.params.id ID del pedido
+ * @param {object} req.body
+ * @param {string} req.body.reason Motivo de la cancelación (se guarda en el pedido, en el historial y se muestra al cliente)
+ * @param {boolean} [req.body.restock=true] Reponer el stock de las líneas del pedido
+ * @param {boolean} [req.body.notifyCustomer=true] Enviar el email de cancelación al cliente
+ * @returns {object} { message, refundedAmount, failedAmount, restocked, customerNotified }
+ */
+router.post('/:id/admin-cancel', authenticate, authorize('admin'), adminCancelOrder);
+
+/**
+ * @route POST /orders/:id/reorder
+ * @desc Repetir un pedido: añade al carrito los productos que siguen disponibles, a precio actual y limitados al stock.
+ * @access Private (usuario autenticado, propietario del pedido)
+ * @param {number} req.params.id ID del pedido a repetir
+ * @returns {object} { cart, issues: Array<{ product_id, product_name, requested_quantity, added_quantity, reason, message }> }
+ */
+router.post('/:id/reorder', authenticate, reorderOrder);
+
+/**
+ * @route POST /orders/:id/restore-cart
+ * @desc Recuperar el carrito de un pedido caducado sin pagar (enlace `FRONTEND_URL/cart?restoreOrder={id}` del email):
+ * añade las unidades del pedido que no estén ya en el carrito, a precio actual y limitadas al stock.
+ * @access Private (usuario autenticado, propietario del pedido)
+ * @param {number} req.params.id ID del pedido caducado
+ * @returns {object} { cart, issues: Array<{ product_id, product_name, requested_quantity, added_quantity, reason, message }> }
+ */
+router.post('/:id/restore-cart', authenticate, restoreOrderCart);
+
 export default router;
@@ -1,3 +1,4 @@
+import { PoolConnection } from 'mysql2/promise';
 import { db } from '../../config/config';
 import {
     CREATE_ORDER,
@@ -5,20 +6,56 @@ import {
     GET_ORDERS_BY_USER,
     GET_ORDER_BY_ID,
     GET_ALL_ORDERS,
-    UPDATE_ORDER_STATUS,
     DELETE_ORDER,
     CREATE_RETURN_REQUEST,
     UPDATE_RETURN_STATUS,
     GET_RETURNS_BY_USER,
-    GET_RETURN_BY_ID
+    GET_RETURN_BY_ID,
+    UPDATE_ORDER_STATUS_IF_CURRENT,
+    INSERT_ORDER_STATUS_HISTORY,
+    GET_ORDER_STATUS_HISTORY,
+    LOCK_PRODUCTS_FOR_UPDATE,
+    DECREMENT_PRODUCT_STOCK,
+    INCREMENT_PRODUCT_STOCK,
+    GET_ORDER_ITEM_QUANTITIES,
+    LOCK_ORDER_FOR_UPDATE,
+    LOCK_USER_ORDER_FOR_RETURN,
+    GET_ORDER_ITEMS_FOR_RETURN,
+    GET_RETURNED_QUANTITIES_BY_ORDER,
+    CREATE_RETURN_ITEM,
+    GET_RETURN_ITEMS_BY_RETURN_IDS,
+    UPDATE_RETURN_ITEMS_STATUS,
+    GET_PRODUCTS_FOR_REORDER,
+    SET_ORDER_CANCELLATION,
+    GET_ARCHIVED_ORDERS,
+    ARCHIVE_ORDER,
+    RESTORE_ORDER,
+    COUNT_ORDER_PAYMENTS
 } from '../../database/queries/orders.queries';
+import { withTransaction } from '../../database/db';
+import { InsufficientStockError, InsufficientStockItem, PriceMismatchError } from './orders.errors';
 import { mapOrderStatus } from '../../utils/mappers.utils';
+import { assertTransition, OrderStatus } from './orders.status';
+import { GiftOptions, giftWrapFee, mapOrderGift } from './orders.gift';
+import { mapOrderDispute } from './orders.dispute';
+import { TaxService } from '../taxes/taxes.service';
+import { effectiveVatRate, computeLineTax, mapOrderTax } from '../taxes/taxes.rules';
+import { CurrencyService } from '../currencies/currencies.service';
+import { BASE_CURRENCY, CurrencyCode, convertFromEur, toEur, formatMoney, mapOrderCurrency } from '../currencies/currencies.rules';
+import { ShippingService } from '../shipping/shipping.service';
+import { ShippingMethodCode, buildParcel, pickShippingOption, mapOrderShipping } from '../shipping/shipping.rules';
 import { notifyAdminNewOrder } from '../../utils/notifications.util';
 import { sendReturnApprovedEmail, sendReturnRejectedEmail, sendReturnCompletedEmail } from './notifications/send-return-updates';
-import { stripe } from '../../integrations/stripe.service';
 import { sendOrderShippedEmail } from './notifications/send-order-shipped';
 import { sendOrderCancelledEmail } from './notifications/send-order-cancelled';
 import { sendOrderDeliveredEmail } from './notifications/send-order-delivered';
+import { roundMoney, computeRefundShare } from '../../utils/money.utils';
+import { RefundsService } from '../refunds/refunds.service';
+import { ShipmentsService } from './shipments/shipments.service';
+import { CartService } from '../cart/cart.service';
+import { ReturnsService } from './returns/returns.service';
+import { COUNT_RETURNS_AWAITING_RECEIPT, GET_EXCHANGE_VARIANTS, LOCK_RETURN_FOR_INSPECTION } from '../../database/queries/returns.queries';
+import { GET_PAID_AMOUNT_BY_ORDER, GET_REFUNDABLE_PAYMENTS } from '../../database/queries/refunds.queries';
 
 /**
  * Reconstruye el total original de un pedido teniendo en cuenta pagos parciales y descuentos
@@ -36,33 +73,227 @@ function reconstructOriginalTotal(dbTotal: number, dbTotalPaid: number | null, d
     return dbTotal;
 }
 
+/**
+ * Cancela un pedido en una transacción: cambia el estado (validando la transición y registrando el historial),
+ * guarda quién lo cancela y por qué y, si se pide, repone el stock de sus líneas.
+ * @param {number} orderId ID del pedido
+ * @param {{ cancelledBy: number | null, reason: string, restock: boolean }} options Usuario que cancela (null = sistema), motivo y si se repone el stock
+ * @returns {Promise<void>}
+ * @throws Error si la transición a `cancelled` no está permitida
+ */
+async function applyCancellation(orderId: number, options: { cancelledBy: number | null; reason: string; restock: boolean }) {
+    await withTransaction(async (conn) => {
+        await OrdersService.changeStatus(orderId, 'cancelled', { changedBy: options.cancelledBy, note: options.reason, conn });
+        await conn.query(SET_ORDER_CANCELLATION, [options.cancelledBy, options.reason, options.restock, orderId]);
+
+        if (options.restock) {
+            const [items]: any = await conn.query(GET_ORDER_ITEM_QUANTITIES, [orderId]);
+            for (const it of items) {
+                await conn.query(INCREMENT_PRODUCT_STOCK, [it.quantity, it.product_id]);
+            }
+        }
+    });
+}
+
+/**
+ * Línea de un pedido repetido que no se ha podido añadir al carrito (o se ha añadido con cambios).
+ */
+export interface ReorderIssue {
+    product_id: number | null;
+    product_name: string | null;
+    requested_quantity: number;
+    added_quantity: number;
+    reason: 'product_deleted' | 'out_of_stock' | 'insufficient_stock' | 'price_changed';
+    message: string;
+    /** Precio pagado y actual en `currency` (la divisa del pedido) */
+    previous_price?: number;
+    current_price?: number;
+    currency?: CurrencyCode;
+}
+
 export const OrdersService = {
     /**
-     * Crear un nuevo pedido con items asociados
+     * Crear un nuevo pedido con items asociados.
+     * - Todo se ejecuta en una única transacción MySQL.
+     * - Bloquea las filas de `products` (`FOR UPDATE`) y valida el stock de todas las líneas.
+     * - Los precios de las líneas y el total se recalculan siempre a partir de `products`;
+     *   los precios enviados por el cliente solo se usan para detectar cambios.
+     * - Si se indica `expectedTotal` y no coincide con el total recalculado, no se crea el pedido.
+     * - Si es un regalo con envoltorio, el total incluye el recargo `GIFT_WRAP_FEE` (también en `expectedTotal`).
+     * - El total incluye los gastos de envío del método elegido (o del método por defecto, `standard`) según la zona
+     *   de la dirección y el peso o el importe del pedido; se guardan el método y el coste.
+     * - Los precios están en la divisa del pedido (la indicada o la del país de envío); se guardan el tipo de cambio
+     *   y el equivalente en euros del total.
+     * - Descuenta el stock de forma atómica; si algo falla se hace rollback completo.
      * @param {number} userId ID del usuario que realiza el pedido
      * @param {number} addressId ID de la dirección de envío
-     * @param {Array<{product_id:number, quantity:number, price:number}>} items Lista de items del pedido
-     * @param {number} total Total del pedido
-     * @returns {Promise<{message:string, orderId:number}>} Mensaje y ID del pedido creado
+     * @param {Array<{product_id:number, quantity:number, price?:number}>} items Lista de items del pedido (`price` = precio que vio el cliente, opcional)
+     * @param {number | null} [expectedTotal] Total que espera pagar el cliente (opcional)
+     * @param {GiftOptions | null} [gift] Opciones de regalo (mensaje, envoltorio, ocultar precios), ver `parseGiftOptions`
+     * @param {CurrencyCode | null} [currency] Divisa del pedido; si no se indica, la del país de envío
+     * @param {ShippingMethodCode | null} [shippingMethod] Método de envío; si no se indica, `standard` (si no está disponible, hay que indicarlo)
+     * @returns {Promise<{message:string, orderId:number, total:number, currency:string, shipping:{method:string, name:string, cost:number}}>} Mensaje, ID del pedido creado, total recalculado, divisa y envío
+     * @throws {InsufficientStockError} Si algún producto no existe o no tiene stock suficiente
+     * @throws {PriceMismatchError} Si el total esperado no coincide con el recalculado
+     * @throws Error si no hay métodos de envío para la dirección o el elegido no está disponible
      */
-    async createOrder(userId: number, addressId: number, items: any[], total: number) {
-        const [result]: any = await db.query(CREATE_ORDER, [userId, addressId, 'pending', total]);
-        const orderId = result.insertId;
+    async createOrder(
+        userId: number,
+        addressId: number,
+        items: any[],
+        expectedTotal: number | null = null,
+        gift: GiftOptions | null = null,
+        currency: CurrencyCode | null = null,
+        shippingMethod: ShippingMethodCode | null = null
+    ) {
+        const created = await withTransaction(conn => this.insertOrder(conn, userId, addressId, items, expectedTotal, gift, currency, shippingMethod));
+
+        notifyAdminNewOrder(created.orderId, userId);
 
+        return { message: 'Pedido creado correctamente', ...created };
+    },
+
+    /**
+     * Crear un pedido dentro de una transacción en curso (ver `createOrder`, que la abre y avisa al administrador).
+     * - Permite crear en la misma transacción lo que el pedido necesita (p.ej. el usuario invitado y su dirección
+     *   en `CartService.guestCheckout`): si el pedido no se crea, no queda nada a medias.
+     * @param {PoolConnection} conn Conexión de la transacción (ver `withTransaction`)
+     * @param {number} userId ID del usuario que realiza el pedido
+     * @param {number} addressId ID de la dirección de envío
+     * @param {Array<{product_id:number, quantity:number, price?:number}>} items Lista de items del pedido
+     * @param {number | null} [expectedTotal] Total que espera pagar el cliente (opcional)
+     * @param {GiftOptions | null} [gift] Opciones de regalo
+     * @param {CurrencyCode | null} [currency] Divisa del pedido; si no se indica, la del país de envío
+     * @param {ShippingMethodCode | null} [shippingMethod] Método de envío; si no se indica, `standard`
+     * @returns {Promise<{orderId:number, total:number, currency:string, shipping:{method:string, name:string, cost:number}}>} Pedido creado
+     * @throws Los mismos errores que `createOrder`
+     */
+    async insertOrder(
+        conn: PoolConnection,
+        userId: number,
+        addressId: number,
+        items: any[],
+        expectedTotal: number | null = null,
+        gift: GiftOptions | null = null,
+        currency: CurrencyCode | null = null,
+        shippingMethod: ShippingMethodCode | null = null
+    ) {
+        if (!Array.isArray(items) || !items.length) throw new Error('El pedido debe contener al menos un producto');
+
+        // Normalizar líneas y calcular la cantidad total solicitada por producto (un producto puede venir en varias líneas)
+        const lines: Array<{ product_id: number; quantity: number; expected_price: number | null }> = [];
+        const requested = new Map<number, number>();
         for (const item of items) {
-            const { product_id, quantity, price } = item;
-            await db.query(CREATE_ORDER_ITEM, [orderId, product_id, quantity, price]);
+            const productId = Number(item.product_id);
+            const quantity = Number(item.quantity);
+            if (!productId || !Number.isInteger(quantity) || quantity <= 0) {
+                throw new Error('Cada item debe tener product_id y quantity válidos');
+            }
+            const expectedPrice = item.price !== undefined && item.price !== null && Number.isFinite(Number(item.price)) ? Number(item.price) : null;
+            lines.push({ product_id: productId, quantity, expected_price: expectedPrice });
+            requested.set(productId, (requested.get(productId) ?? 0) + quantity);
+        }
+
+        // 🔒 Bloquear productos y validar stock
+        const [productRows]: any = await conn.query(LOCK_PRODUCTS_FOR_UPDATE, [[...requested.keys()]]);
+        const productsById = new Map<number, any>(productRows.map((p: any) => [Number(p.id), p]));
+
+        const insufficient: InsufficientStockItem[] = [];
+        for (const [productId, quantity] of requested) {
+            const product = productsById.get(productId);
+            const stock = product && product.stock !== null && typeof product.stock !== 'undefined' ? Number(product.stock) : null;
+            if (!product) {
+                insufficient.push({ product_id: productId, name: null, requested: quantity, available: 0 });
+            } else if (stock !== null && quantity > stock) {
+                insufficient.push({ product_id: productId, name: product.name, requested: quantity, available: stock });
+            }
         }
+        if (insufficient.length) throw new InsufficientStockError(insufficient);
 
-        notifyAdminNewOrder(orderId, userId);
+        // 💶 Recalcular precios y total desde el catálogo, en la divisa del pedido
+        const rate = await CurrencyService.getRate(conn, await CurrencyService.resolveCurrency(conn, currency, addressId));
+        const prices = await CurrencyService.priceProducts(conn, productRows, rate);
+        const priced = lines.map(line => {
+            const product = productsById.get(line.product_id);
+            const currentPrice = prices.get(line.product_id)!;
+            return {
+                ...line,
+                name: product.name,
+                price: currentPrice,
+                changed: line.expected_price !== null && Math.abs(line.expected_price - currentPrice) >= 0.005,
+            };
+        });
+        const wrapFee = convertFromEur(giftWrapFee(gift), rate);
 
-        return { message: 'Pedido creado correctamente', orderId };
+        // 🚚 Gastos de envío según la zona del destino y el peso e importe (en euros) de los productos
+        const parcel = buildParcel(lines.map(line => ({
+            quantity: line.quantity,
+            weight: productsById.get(line.product_id).weight,
+            price: productsById.get(line.product_id).price,
+        })));
+        const { options } = await ShippingService.getAddressOptions(conn, addressId, parcel, rate);
+        const shippingOption = pickShippingOption(options, shippingMethod);
+
+        const currentTotal = roundMoney(priced.reduce((acc, l) => acc + l.price * l.quantity, 0) + wrapFee + shippingOption.cost);
+
+        if (expectedTotal !== null && Math.abs(Number(expectedTotal) - currentTotal) >= 0.005) {
+            throw new PriceMismatchError({
+                expected_total: roundMoney(Number(expectedTotal)),
+                current_total: currentTotal,
+                items: priced.map(l => ({
+                    product_id: l.product_id,
+                    name: l.name,
+                    quantity: l.quantity,
+                    expected_price: l.expected_price,
+                    current_price: l.price,
+                    changed: l.changed,
+                })),
+            });
+        }
+
+        // 📉 Descontar stock
+        for (const [productId, quantity] of requested) {
+            const [res]: any = await conn.query(DECREMENT_PRODUCT_STOCK, [quantity, productId, quantity]);
+            if (!res.affectedRows) {
+                const product = productsById.get(productId);
+                throw new InsufficientStockError([{ product_id: productId, name: product?.name ?? null, requested: quantity, available: Number(product?.stock ?? 0) }]);
+            }
+        }
+
+        // 🧾 Crear pedido e items con los precios del servidor
+        const [result]: any = await conn.query(CREATE_ORDER, [
+            userId, addressId, 'pending', currentTotal,
+            gift !== null, gift?.message ?? null, gift?.wrap ?? false, wrapFee, gift?.hide_prices ?? false,
+            rate.code, rate.rate, toEur(currentTotal, rate.rate),
+            shippingOption.method, shippingOption.name, shippingOption.zone, shippingOption.cost,
+        ]);
+        const newOrderId = result.insertId;
+
+        // 🧮 IVA por línea según la categoría del producto y la zona fiscal del destino
+        const taxZone = await TaxService.getAddressTaxZone(conn, addressId);
+        const vatRates = await TaxService.getProductVatRates(conn, [...requested.keys()]);
+        for (const line of priced) {
+            const vatRate = effectiveVatRate(vatRates.get(line.product_id) ?? null, taxZone);
+            const { tax } = computeLineTax(roundMoney(line.price * line.quantity), vatRate);
+            await conn.query(CREATE_ORDER_ITEM, [newOrderId, line.product_id, line.quantity, line.price, vatRate, tax]);
+        }
+        await TaxService.updateOrderTaxes(conn, newOrderId);
+
+        // Primera entrada del historial de estados (creación del pedido)
+        await conn.query(INSERT_ORDER_STATUS_HISTORY, [newOrderId, null, 'pending', userId, null]);
+
+        return {
+            orderId: newOrderId as number,
+            total: currentTotal,
+            currency: rate.code,
+            shipping: { method: shippingOption.method, name: shippingOption.name, cost: shippingOption.cost },
+        };
     },
 
     /**
-     * Obtener todos los pedidos de un usuario con sus items y dirección
+     * Obtener todos los pedidos de un usuario con sus items, dirección y envíos
      * @param {number} userId ID del usuario
-     * @returns {Promise<any[]>} Lista de pedidos con detalle de items y dirección
+     * @returns {Promise<any[]>} Lista de pedidos con detalle de items, dirección y envíos (seguimiento)
      */
     async getUserOrders(userId: number) {
         const [rows]: any = await db.query(GET_ORDERS_BY_USER, [userId]);
@@ -81,8 +312,12 @@ export const OrdersService = {
                     status_label: mapOrderStatus(r.status),
                     total: Number(originalTotal),
                     total_paid: dbTotalPaid,
+                    ...mapOrderCurrency(r),
                     discount_amount: dbDiscount,
                     promotion_code: r.promotion_code || null,
+                    gift: mapOrderGift(r),
+                    shipping: mapOrderShipping(r),
+                    tax: mapOrderTax(r),
                     address: {
                         id: r.address_id,
                         full_name: `${r.first_name} ${r.last_name}`,
@@ -94,6 +329,7 @@ export const OrdersService = {
                         phone: r.phone,
                     },
                     items: [],
+                    shipments: [],
                     created_at: r.created_at,
                     updated_at: r.updated_at,
                 };
@@ -106,6 +342,8 @@ export const OrdersService = {
                     product_name: r.product_name,
                     quantity: r.quantity,
                     price: Number(r.price),
+                    vat_rate: r.vat_rate !== null ? Number(r.vat_rate) : null,
+                    tax_amount: r.item_tax_amount !== null ? Number(r.item_tax_amount) : null,
                     image_url: r.image_url,
                     size: r.size,
                     color: r.color,
@@ -114,13 +352,19 @@ export const OrdersService = {
             }
         });
 
+        // 🚚 Envíos de todos los pedidos en una sola consulta
+        const shipmentsByOrder = await ShipmentsService.getShipmentsByOrderIds(Object.keys(ordersMap).map(Number));
+        for (const [orderId, shipments] of shipmentsByOrder) {
+            if (ordersMap[orderId]) ordersMap[orderId].shipments = shipments;
+        }
+
         return Object.values(ordersMap);
     },
 
     /**
      * Obtener un pedido por su ID
      * @param {number} orderId ID del pedido
-     * @returns {Promise<any>} Pedido con items y dirección
+     * @returns {Promise<any>} Pedido con items, dirección y envíos
      * @throws Error si el pedido no existe
      */
     async getOrderById(orderId: number) {
@@ -132,6 +376,7 @@ export const OrdersService = {
         const dbTotalPaid = r.total_paid !== null && typeof r.total_paid !== 'undefined' ? Number(r.total_paid) : null;
         const dbDiscount = r.discount_amount !== null && typeof r.discount_amount !== 'undefined' ? Number(r.discount_amount) : null;
         const originalTotal = reconstructOriginalTotal(dbTotal, dbTotalPaid, dbDiscount);
+        const shipments = await ShipmentsService.getOrderShipments(orderId);
 
         return {
             id: r.id,
@@ -140,8 +385,13 @@ export const OrdersService = {
             status_label: mapOrderStatus(r.status),
             total: Number(originalTotal),
             total_paid: dbTotalPaid,
+            ...mapOrderCurrency(r),
             discount_amount: dbDiscount,
             promotion_code: r.promotion_code || null,
+            gift: mapOrderGift(r),
+            shipping: mapOrderShipping(r),
+            tax: mapOrderTax(r),
+            dispute: mapOrderDispute(r),
             address: {
                 id: r.address_id,
                 full_name: `${r.first_name} ${r.last_name}`,
@@ -158,11 +408,23 @@ export const OrdersService = {
                 product_name: item.product_name,
                 quantity: item.quantity,
                 price: Number(item.price),
+                vat_rate: item.vat_rate !== null ? Number(item.vat_rate) : null,
+                tax_amount: item.item_tax_amount !== null ? Number(item.item_tax_amount) : null,
                 image_url: item.image_url,
                 size: item.size,
                 color: item.color,
                 sku: item.sku,
             })),
+            shipments,
+            cancelled_by: r.cancelled_by ?? null,
+            cancellation_reason: r.cancellation_reason ?? null,
+            cancel_restocked: r.cancel_restocked === null || r.cancel_restocked === undefined ? null : Boolean(r.cancel_restocked),
+            cancelled_at: r.cancelled_at ?? null,
+            archived_at: r.archived_at ?? null,
+            archived_by: r.archived_by ?? null,
+            archive_reason: r.archive_reason ?? null,
+            replacement_for_order_id: r.replacement_for_order_id ?? null,
+            replacement_return_id: r.replacement_return_id ?? null,
             created_at: r.created_at,
             updated_at: r.updated_at,
         };
@@ -195,6 +457,8 @@ export const OrdersService = {
                 name: item.product_name,
                 quantity: item.quantity,
                 price: Number(item.price),
+                vat_rate: item.vat_rate,
+                tax_amount: item.tax_amount,
                 image_url: item.image_url,
                 size: item.size,
                 color: item.color,
@@ -204,19 +468,190 @@ export const OrdersService = {
             total_paid: order.total_paid !== undefined ? Number(order.total_paid) : undefined,
             discount_amount: order.discount_amount !== undefined ? Number(order.discount_amount) : 0,
             promotion_code: order.promotion_code || null,
+            currency: order.currency,
+            exchange_rate: order.exchange_rate,
+            total_eur: order.total_eur,
             created_at: order.created_at,
             address: order.address,
             status: order.status,
             status_label: order.status_label,
+            shipments: order.shipments,
+            replacement_for_order_id: order.replacement_for_order_id,
+            gift: order.gift,
+            shipping: order.shipping,
+            tax: order.tax,
         };
     },
 
+    /**
+     * Repetir un pedido anterior: añade al carrito del usuario los productos que siguen disponibles.
+     * - Usa los precios actuales del catálogo (el carrito siempre calcula con `products.price`).
+     * - Para detectar cambios de precio compara lo pagado con el precio actual en la divisa del pedido
+     *   (el explícito de `product_prices` o el convertido al tipo de cambio actual, como en un pedido nuevo).
+     * - Limita cada cantidad al stock disponible descontando lo que ya hay en el carrito.
+     * - Devuelve el carrito actualizado y las líneas que no se han podido añadir (o se han añadido
+     *   con cambios) con su motivo: `product_deleted`, `out_of_stock`, `insufficient_stock` o `price_changed`.
+     * - Con `onlyMissing` solo añade las unidades que faltan en el carrito (recuperar el carrito de un pedido caducado,
+     *   cuyos productos pueden seguir en el carrito porque este solo se vacía al pagar).
+     * @param {number} orderId ID del pedido a repetir
+     * @param {number} userId ID del usuario autenticado
+     * @param {{ onlyMissing?: boolean }} [options] Añadir solo lo que falta en el carrito
+     * @returns {Promise<{cart: any, issues: ReorderIssue[]}>} Carrito actualizado y líneas con incidencias
+     * @throws Error si el pedido no existe o no pertenece al usuario
+     */
+    async reorder(orderId: number, userId: number, options: { onlyMissing?: boolean } = {}) {
+        const order = await this.getOrderById(orderId);
+        if (order.user_id !== userId) throw new Error('No tienes permiso para ver este pedido');
+
+        // Agrupar por producto (un mismo producto puede aparecer en varias líneas)
+        const lines = new Map<number, { product_id: number; product_name: string | null; quantity: number; price: number }>();
+        const issues: ReorderIssue[] = [];
+        for (const item of order.items) {
+            if (!item.id) continue;
+            if (!item.product_id) {
+                issues.push({ product_id: null, product_name: item.product_name ?? null, requested_quantity: item.quantity, added_quantity: 0, reason: 'product_deleted', message: 'El producto ya no está disponible' });
+                continue;
+            }
+            const line = lines.get(item.product_id);
+            if (line) line.quantity += Number(item.quantity);
+            else lines.set(item.product_id, { product_id: item.product_id, product_name: item.product_name ?? null, quantity: Number(item.quantity), price: Number(item.price) });
+        }
+        if (!lines.size && !issues.length) throw new Error('El pedido no tiene productos');
+
+        const [productRows]: any = lines.size ? await db.query(GET_PRODUCTS_FOR_REORDER, [[...lines.keys()]]) : [[]];
+        const products = new Map<number, any>(productRows.map((p: any) => [Number(p.id), p]));
+        // Precios actuales en la divisa del pedido (`line.price` está en esa divisa, `products.price` en euros)
+        const orderCurrency = (order.currency ?? BASE_CURRENCY) as CurrencyCode;
+        const currentPrices = await CurrencyService.priceProducts(db, productRows, await CurrencyService.getRate(db, orderCurrency));
+
+        // Unidades que ya están en el carrito (cuentan para el límite de stock)
+        const currentCart = await CartService.getCart(userId);
+        const inCart = new Map<number, number>(currentCart.items.map((it: any) => [Number(it.product_id), Number(it.quantity)]));
+
+        for (const line of lines.values()) {
+            const product = products.get(line.product_id);
+            if (!product) {
+                issues.push({ product_id: line.product_id, product_name: line.product_name, requested_quantity: line.quantity, added_quantity: 0, reason: 'product_deleted', message: 'El producto ya no está disponible' });
+                continue;
+            }
+
+            const alreadyInCart = inCart.get(line.product_id) ?? 0;
+            const wanted = options.onlyMissing ? line.quantity - alreadyInCart : line.quantity;
+            if (wanted <= 0) continue;
+
+            const stock = product.stock !== null && typeof product.stock !== 'undefined' ? Number(product.stock) : null;
+            const available = stock === null ? wanted : Math.max(stock - alreadyInCart, 0);
+            const quantity = Math.min(wanted, available);
+            if (quantity <= 0) {
+                issues.push({ product_id: line.product_id, product_name: product.name, requested_quantity: line.quantity, added_quantity: 0, reason: 'out_of_stock', message: 'Producto sin stock' });
+                continue;
+            }
+
+            try {
+                await CartService.addItem(userId, line.product_id, quantity);
+            } catch (err: any) {
+                issues.push({ product_id: line.product_id, product_name: product.name, requested_quantity: line.quantity, added_quantity: 0, reason: 'out_of_stock', message: err.message });
+                continue;
+            }
+
+            if (quantity < wanted) {
+                issues.push({ product_id: line.product_id, product_name: product.name, requested_quantity: line.quantity, added_quantity: quantity, reason: 'insufficient_stock', message: `Solo quedan ${quantity} unidad(es) disponibles` });
+            }
+            const currentPrice = currentPrices.get(line.product_id) ?? Number(product.price);
+            if (Math.abs(currentPrice - line.price) >= 0.005) {
+                issues.push({ product_id: line.product_id, product_name: product.name, requested_quantity: line.quantity, added_quantity: quantity, reason: 'price_changed', message: `El precio ha cambiado de ${formatMoney(line.price, orderCurrency)} a ${formatMoney(currentPrice, orderCurrency)}`, previous_price: line.price, current_price: currentPrice, currency: orderCurrency });
+            }
+        }
+
+        const cart = await CartService.getCart(userId);
+        return { cart, issues };
+    },
+
+    /**
+     * Recuperar el carrito de un pedido caducado sin pagar (enlace del email `order-expired`).
+     * Añade al carrito las unidades del pedido que no estén ya en él, con las mismas reglas que `reorder`.
+     * @param {number} orderId ID del pedido caducado
+     * @param {number} userId ID del usuario autenticado
+     * @returns {Promise<{cart: any, issues: ReorderIssue[]}>} Carrito actualizado y líneas con incidencias
+     * @throws Error si el pedido no existe, no pertenece al usuario o no está caducado
+     */
+    async restoreCart(orderId: number, userId: number) {
+        const [rows]: any = await db.query('SELECT user_id, status FROM orders WHERE id = ?', [orderId]);
+        if (!rows.length) throw new Error('Pedido no encontrado');
+        if (Number(rows[0].user_id) !== userId) throw new Error('No tienes permiso para ver este pedido');
+        if (rows[0].status !== 'expired') throw new Error('Solo se puede recuperar el carrito de un pedido caducado');
+        return this.reorder(orderId, userId, { onlyMissing: true });
+    },
+
+    /**
+     * Cambiar el estado de un pedido respetando la máquina de estados (`ORDER_STATUS_TRANSITIONS`)
+     * y registrando la transición en `order_status_history`.
+     * - Si el pedido ya está en el estado solicitado no hace nada (idempotente).
+     * - La actualización se condiciona al estado leído para evitar carreras entre peticiones simultáneas.
+     * @param {number} orderId ID del pedido
+     * @param {string} status Estado destino
+     * @param {{ changedBy?: number | null, note?: string | null, conn?: PoolConnection }} [options] Quién realiza el cambio (null = sistema), nota opcional
+     * y conexión de una transacción en curso (si el cambio forma parte de una operación mayor)
+     * @returns {Promise<{from: OrderStatus, to: OrderStatus, changed: boolean}>} Estado anterior, nuevo y si hubo cambio
+     * @throws Error si el pedido no existe o la transición no está permitida
+     */
+    async changeStatus(orderId: number, status: string, options: { changedBy?: number | null; note?: string | null; conn?: PoolConnection } = {}) {
+        const executor = options.conn ?? db;
+        const [rows]: any = await executor.query('SELECT status FROM orders WHERE id = ?', [orderId]);
+        if (!rows.length) throw new Error('Pedido no encontrado');
+
+        const from = rows[0].status as OrderStatus;
+        if (from === status) return { from, to: from, changed: false };
+
+        assertTransition(from, status);
+
+        const [result]: any = await executor.query(UPDATE_ORDER_STATUS_IF_CURRENT, [status, orderId, from]);
+        if (!result.affectedRows) {
+            throw new Error('El estado del pedido ha cambiado mientras se procesaba la solicitud, inténtalo de nuevo');
+        }
+
+        await executor.query(INSERT_ORDER_STATUS_HISTORY, [orderId, from, status, options.changedBy ?? null, options.note ?? null]);
+
+        return { from, to: status, changed: true };
+    },
+
+    /**
+     * Obtener el historial de cambios de estado de un pedido.
+     * - El propietario del pedido y los administradores pueden consultarlo.
+     * @param {number} orderId ID del pedido
+     * @param {{ id: number, role: string }} requester Usuario que realiza la consulta
+     * @returns {Promise<any[]>} Transiciones (quién, cuándo, desde, hasta, nota)
+     * @throws Error si el pedido no existe o no pertenece al usuario
+     */
+    async getStatusHistory(orderId: number, requester: { id: number; role: string }) {
+        const [orderRows]: any = await db.query('SELECT id, user_id FROM orders WHERE id = ?', [orderId]);
+        if (!orderRows.length) throw new Error('Pedido no encontrado');
+        if (requester.role !== 'admin' && orderRows[0].user_id !== requester.id) {
+            throw new Error('No tienes permiso para ver este pedido');
+        }
+
+        const [rows]: any = await db.query(GET_ORDER_STATUS_HISTORY, [orderId]);
+        return rows.map((r: any) => ({
+            id: r.id,
+            from_status: r.from_status,
+            from_status_label: mapOrderStatus(r.from_status),
+            to_status: r.to_status,
+            to_status_label: mapOrderStatus(r.to_status),
+            changed_by: r.changed_by
+                ? { id: r.changed_by, name: `${r.first_name} ${r.last_name}`, role: r.role }
+                : null,
+            note: r.note,
+            created_at: r.created_at,
+        }));
+    },
+
     /**
      * Obtener todos los pedidos (solo para admin)
-     * @returns {Promise<any[]>} Lista de todos los pedidos
+     * @param {boolean} [archived=false] `true` para listar solo los pedidos archivados
+     * @returns {Promise<any[]>} Lista de pedidos activos (o archivados)
      */
-    async getAllOrders() {
-        const [rows]: any = await db.query(GET_ALL_ORDERS);
+    async getAllOrders(archived: boolean = false) {
+        const [rows]: any = await db.query(archived ? GET_ARCHIVED_ORDERS : GET_ALL_ORDERS);
         return rows;
     },
 
@@ -226,29 +661,51 @@ export const OrdersService = {
      * @access Admin
      * @param {number} orderId - ID del pedido.
      * @param {string} status - Nuevo estado del pedido.
-     * @param {{ trackingNumber?: string }} [meta] - Información adicional (número de seguimiento opcional).
+     * @param {{ trackingNumber?: string, carrier?: string, note?: string }} [meta] - Información adicional: número de seguimiento y transportista
+     * (al pasar a `shipped` sin envíos registrados se crea uno con todas las unidades) y nota opcional.
+     * @param {number | null} [changedBy] - ID del administrador que realiza el cambio.
      * @returns {Promise<{message: string}>} Mensaje de confirmación de actualización.
+     * @throws {Error} Si la transición de estado no está permitida.
      */
-    async updateOrderStatus(orderId: number, status: string, meta?: { trackingNumber?: string }) {
-        // 🔹 Actualizar el estado del pedido
-        await db.query(UPDATE_ORDER_STATUS, [status, orderId]);
+    async updateOrderStatus(orderId: number, status: string, meta?: { trackingNumber?: string; carrier?: string; note?: string }, changedBy: number | null = null) {
+        // Las devoluciones aprobadas se cierran al recibirlas e inspeccionarlas, no marcando el pedido a mano
+        if (status === 'returned') {
+            const [awaiting]: any = await db.query(COUNT_RETURNS_AWAITING_RECEIPT, [orderId]);
+            if (Number(awaiting[0]?.count)) {
+                throw new Error('El pedido tiene devoluciones aprobadas pendientes de recibir; regístralas en POST /orders/returns/:id/receive');
+            }
+        }
+
+        // 🔹 Actualizar el estado del pedido (valida la transición y registra el historial)
+        const { changed } = await this.changeStatus(orderId, status, { changedBy, note: meta?.note ?? null });
+        if (!changed) return { message: 'El pedido ya estaba en ese estado' };
 
-        // Si el estado pasa a "shipped" → enviar email al cliente
+        // Si el estado pasa a "shipped" → registrar el envío (si no se ha creado ya) y enviar email al cliente
         if (status === 'shipped') {
             const [orderRows]: any = await db.query('SELECT user_id FROM orders WHERE id = ?', [orderId]);
             if (orderRows.length) {
                 const userId = orderRows[0].user_id;
+
+                // Sin envíos registrados → un único bulto con todas las unidades y el seguimiento indicado
+                const existing = await ShipmentsService.getOrderShipments(orderId);
+                if (!existing.length) {
+                    await ShipmentsService.recordShipment(orderId, {
+                        carrier: meta?.carrier ?? null,
+                        tracking_number: meta?.trackingNumber ?? null,
+                    }, changedBy);
+                }
+
                 const order = await this.getOrderWithItems(orderId, userId).catch(() => null);
                 if (order) {
-                    // trackingNumber opcional
-                    const trackingNumber = meta?.trackingNumber;
-                    await sendOrderShippedEmail(order as any, trackingNumber);
+                    await sendOrderShippedEmail(order as any);
                 }
             }
         }
 
-        // Si el estado pasa a "delivered" → enviar email de entrega
+        // Si el estado pasa a "delivered" → cerrar los envíos pendientes y enviar email de entrega
         if (status === 'delivered') {
+            await ShipmentsService.markOrderDelivered(orderId);
+
             const [orderRows]: any = await db.query('SELECT user_id FROM orders WHERE id = ?', [orderId]);
             if (orderRows.length) {
                 const userId = orderRows[0].user_id;
@@ -275,35 +732,18 @@ export const OrdersService = {
                     last_name: userRows[0].last_name,
                 };
 
-                // 🔹 Obtener pagos completados de este pedido
-                const [paymentsRows]: any = await db.query(
-                    'SELECT id, transaction_id, amount, status FROM payments WHERE order_id = ? AND status = "completed"',
-                    [orderId]
-                );
-
-                for (const payment of paymentsRows) {
-                    try {
-                        if (payment.transaction_id) {
-                            // 💳 Procesar reembolso en Stripe
-                            await stripe.refunds.create({
-                                payment_intent: payment.transaction_id,
-                            });
-
-                            // 🧾 Actualizar estado del pago en DB
-                            await db.query('UPDATE payments SET status = "refunded" WHERE id = ?', [payment.id]);
-                            console.log(`💸 Pago ${payment.id} reembolsado correctamente`);
-                        }
-                    } catch (err) {
-                        console.error(`⚠️ Error reembolsando pago ${payment.id}:`, err);
-                    }
+                // 💳 Reembolsar en Stripe las devoluciones aprobadas (o todo lo pendiente si no hay devoluciones)
+                const refund = await RefundsService.refundApprovedReturns(orderId, changedBy);
+                if (refund.failedAmount > 0) {
+                    console.error(`⚠️ Reembolso fallido de ${refund.failedAmount} € en el pedido ${orderId}, pendiente de reintento`);
                 }
 
                 // 🔹 Obtener datos del pedido (para la plantilla)
                 const [orderDetails]: any = await db.query('SELECT * FROM orders WHERE id = ?', [orderId]);
                 const orderForEmail = orderDetails[0] || { id: orderId };
 
-                // 📧 Enviar correo al cliente confirmando devolución completada
-                await sendReturnCompletedEmail(user, orderForEmail);
+                // 📧 Enviar correo al cliente confirmando devolución completada (con las facturas rectificativas)
+                await sendReturnCompletedEmail(user, orderForEmail, undefined, refund.creditNotes.map(cn => cn.id));
             }
         }
 
@@ -332,30 +772,12 @@ export const OrdersService = {
             throw new Error('No es posible cancelar este pedido en su estado actual');
         }
 
-        // Actualizar estado a 'cancelled'
-        await db.query('UPDATE orders SET status = ? WHERE id = ?', ['cancelled', orderId]);
-
-        // Reponer stock (opcional): sumar quantity del order_items a products.stock
-        const [items]: any = await db.query('SELECT product_id, quantity FROM order_items WHERE order_id = ?', [orderId]);
-        for (const it of items) {
-            await db.query('UPDATE products SET stock = stock + ? WHERE id = ?', [it.quantity, it.product_id]);
-        }
+        // Cancelar (estado + historial + quién/por qué) y reponer stock
+        await applyCancellation(orderId, { cancelledBy: userId, reason: 'Cancelado por el cliente', restock: true });
 
-        // Procesar reembolsos para pagos completados
-        const [paymentsRows]: any = await db.query('SELECT id, transaction_id, amount, status FROM payments WHERE order_id = ? AND status = "completed"', [orderId]);
-
-        let refundedTotal = 0;
-        for (const payment of paymentsRows) {
-            try {
-                if (payment.transaction_id) {
-                    await stripe.refunds.create({ payment_intent: payment.transaction_id });
-                    await db.query('UPDATE payments SET status = "refunded" WHERE id = ?', [payment.id]);
-                    refundedTotal += Number(payment.amount || 0);
-                }
-            } catch (err) {
-                console.error(`Error reembolsando pago ${payment.id}:`, err);
-            }
-        }
+        // Procesar reembolso de lo cobrado (los fallos quedan registrados en `refunds` para reintentarlos)
+        const refund = await RefundsService.refundOrderBalance(orderId, 'Pedido cancelado por el cliente', userId);
+        const refundedTotal = refund.refundedAmount;
 
         // Obtener usuario para el email
         const [userRows]: any = await db.query('SELECT email, first_name, last_name FROM users WHERE id = ?', [userId]);
@@ -363,7 +785,7 @@ export const OrdersService = {
 
         // Enviar email de cancelación y reembolso
         try {
-            await sendOrderCancelledEmail(user, { id: orderId }, refundedTotal);
+            await sendOrderCancelledEmail(user, { id: orderId, currency: order.currency }, refundedTotal, undefined, refund.creditNotes.map(cn => cn.id));
         } catch (err) {
             console.error('Error enviando email cancelación:', err);
         }
@@ -372,69 +794,342 @@ export const OrdersService = {
     },
 
     /**
-     * Eliminar un pedido
+     * Cancelar cualquier pedido en nombre del cliente (administrador / atención al cliente).
+     * - Solo se pueden cancelar pedidos cuyo estado lo permita (`pending` o `completed`).
+     * - Registra el motivo y el administrador en el pedido y en el historial de estados.
+     * - Reembolsa lo cobrado con `RefundsService.refundOrderBalance` (a nombre del administrador).
      * @param {number} orderId ID del pedido
+     * @param {number} adminId ID del administrador que cancela
+     * @param {{ reason: string, restock?: boolean, notifyCustomer?: boolean }} options Motivo, si se repone el stock (por defecto sí)
+     * y si se envía el email de cancelación al cliente (por defecto sí)
+     * @returns {Promise<{message: string, refundedAmount: number, failedAmount: number, restocked: boolean, customerNotified: boolean}>}
+     * Resultado de la cancelación y del reembolso
+     * @throws Error si el pedido no existe, falta el motivo o el estado no permite cancelarlo
+     */
+    async adminCancelOrder(orderId: number, adminId: number, options: { reason: string; restock?: boolean; notifyCustomer?: boolean }) {
+        const reason = options.reason?.trim();
+        if (!reason) throw new Error('Debes indicar el motivo de la cancelación');
+        const restock = options.restock ?? true;
+        const notifyCustomer = options.notifyCustomer ?? true;
+
+        const [orderRows]: any = await db.query('SELECT id, user_id, status, currency FROM orders WHERE id = ?', [orderId]);
+        if (!orderRows.length) throw new Error('Pedido no encontrado');
+        const order = orderRows[0];
+
+        // 🔹 Cancelar (valida la transición) y reponer stock si se ha pedido
+        await applyCancellation(orderId, { cancelledBy: adminId, reason, restock });
+
+        // 💳 Reembolsar lo cobrado (los fallos quedan en `refunds` para reintentarlos)
+        const refund = await RefundsService.refundOrderBalance(orderId, `Pedido cancelado por la tienda: ${reason}`, adminId);
+        if (refund.failedAmount > 0) {
+            console.error(`⚠️ Reembolso fallido de ${refund.failedAmount} € en el pedido ${orderId}, pendiente de reintento`);
+        }
+
+        // 📧 Avisar al cliente (salvo que el administrador indique lo contrario)
+        let customerNotified = false;
+        if (notifyCustomer) {
+            const [userRows]: any = await db.query('SELECT email, first_name, last_name FROM users WHERE id = ?', [order.user_id]);
+            if (userRows.length) {
+                await sendOrderCancelledEmail(userRows[0], { id: orderId, currency: order.currency }, refund.refundedAmount, reason, refund.creditNotes.map(cn => cn.id));
+                customerNotified = true;
+            }
+        }
+
+        return {
+            message: 'Pedido cancelado correctamente',
+            refundedAmount: refund.refundedAmount,
+            failedAmount: refund.failedAmount,
+            restocked: restock,
+            customerNotified,
+        };
+    },
+
+    /**
+     * Caducar un pedido que sigue sin pagar (usado por el job de pedidos sin pagar).
+     * - En una transacción: bloquea el pedido, comprueba que sigue en `pending`,
+     *   lo pasa a `expired` (registrando el historial) y repone el stock reservado.
+     * - Los pedidos de cambio no caducan: la devolución ya está cerrada y el cliente puede
+     *   pagar la diferencia con una nueva sesión de pago en cualquier momento.
+     * @param {number} orderId ID del pedido
+     * @param {string} [note] Nota para el historial de estados
+     * @returns {Promise<boolean>} `true` si se caducó, `false` si el pedido ya no estaba pendiente o es un pedido de cambio
+     */
+    async expireUnpaidOrder(orderId: number, note: string = 'Caducado por falta de pago') {
+        return withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(LOCK_ORDER_FOR_UPDATE, [orderId]);
+            if (!rows.length || rows[0].status !== 'pending') return false;
+            if (rows[0].replacement_for_order_id) return false;
+
+            await this.changeStatus(orderId, 'expired', { note, conn });
+
+            const [items]: any = await conn.query(GET_ORDER_ITEM_QUANTITIES, [orderId]);
+            for (const it of items) {
+                await conn.query(INCREMENT_PRODUCT_STOCK, [it.quantity, it.product_id]);
+            }
+            return true;
+        });
+    },
+
+    /**
+     * Cancelar un pedido pagado que se ha reembolsado por completo desde el panel de Stripe (webhook `charge.refunded`).
+     * - Solo pedidos en `completed` (pagados y sin enviar); los ya enviados siguen su curso (devolución o compensación).
+     * - Cancela como `adminCancelOrder` pero sin administrador: motivo en el pedido y el historial, repone el stock
+     *   y avisa al cliente. No reembolsa nada: el dinero ya se devolvió en Stripe.
+     * - Es idempotente: si el pedido ya no está en `completed` o le queda algún pago por reembolsar, no hace nada.
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<boolean>} `true` si se canceló
+     */
+    async cancelRefundedOrder(orderId: number) {
+        const [orderRows]: any = await db.query('SELECT id, user_id, status, currency FROM orders WHERE id = ?', [orderId]);
+        const order = orderRows[0];
+        if (!order || order.status !== 'completed') return false;
+
+        // Reembolsado por completo: tiene pagos cobrados y a ninguno le queda nada por reembolsar
+        const [paidRows]: any = await db.query(GET_PAID_AMOUNT_BY_ORDER, [orderId]);
+        const paid = Number(paidRows[0]?.paid_amount ?? 0);
+        const [refundable]: any = await db.query(GET_REFUNDABLE_PAYMENTS, [orderId]);
+        if (paid <= 0 || refundable.length) return false;
+
+        const reason = 'Pedido reembolsado por completo desde el panel de Stripe';
+        await applyCancellation(orderId, { cancelledBy: null, reason, restock: true });
+
+        const [userRows]: any = await db.query('SELECT email, first_name, last_name FROM users WHERE id = ?', [order.user_id]);
+        if (userRows.length) {
+            try {
+                await sendOrderCancelledEmail(userRows[0], { id: orderId, currency: order.currency }, paid, 'Pedido reembolsado por completo');
+            } catch (err) {
+                console.error('Error enviando email cancelación:', err);
+            }
+        }
+        return true;
+    },
+
+    /**
+     * Archivar un pedido (borrado lógico): deja de aparecer en los listados y en el dashboard,
+     * pero conserva pagos, reembolsos y facturas.
+     * @param {number} orderId ID del pedido
+     * @param {number} adminId ID del administrador que lo archiva
+     * @param {string} reason Motivo del archivado
      * @returns {Promise<{message:string}>} Mensaje de confirmación
+     * @throws Error si falta el motivo, el pedido no existe o ya estaba archivado
+     */
+    async archiveOrder(orderId: number, adminId: number, reason: string) {
+        const trimmed = reason?.trim();
+        if (!trimmed) throw new Error('Debes indicar el motivo del archivado');
+
+        const [result]: any = await db.query(ARCHIVE_ORDER, [adminId, trimmed, orderId]);
+        if (!result.affectedRows) {
+            const [rows]: any = await db.query('SELECT id FROM orders WHERE id = ?', [orderId]);
+            throw new Error(rows.length ? 'El pedido ya está archivado' : 'Pedido no encontrado');
+        }
+        return { message: 'Pedido archivado correctamente' };
+    },
+
+    /**
+     * Restaurar un pedido archivado
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<{message:string}>} Mensaje de confirmación
+     * @throws Error si el pedido no existe o no estaba archivado
+     */
+    async restoreOrder(orderId: number) {
+        const [result]: any = await db.query(RESTORE_ORDER, [orderId]);
+        if (!result.affectedRows) {
+            const [rows]: any = await db.query('SELECT id FROM orders WHERE id = ?', [orderId]);
+            throw new Error(rows.length ? 'El pedido no está archivado' : 'Pedido no encontrado');
+        }
+        return { message: 'Pedido restaurado correctamente' };
+    },
+
+    /**
+     * Eliminar definitivamente un pedido.
+     * - Solo se permite si el pedido nunca ha tenido un pago (en ese caso hay que archivarlo)
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<{message:string}>} Mensaje de confirmación
+     * @throws Error si el pedido no existe o tiene pagos registrados
      */
     async deleteOrder(orderId: number) {
-        await db.query(DELETE_ORDER, [orderId]);
-        return { message: 'Pedido eliminado correctamente' };
+        return withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(LOCK_ORDER_FOR_UPDATE, [orderId]);
+            if (!rows.length) throw new Error('Pedido no encontrado');
+
+            const [payments]: any = await conn.query(COUNT_ORDER_PAYMENTS, [orderId]);
+            if (Number(payments[0]?.count ?? 0) > 0) {
+                throw new Error('El pedido tiene pagos registrados y no se puede eliminar; archívalo en su lugar');
+            }
+
+            await conn.query(DELETE_ORDER, [orderId]);
+            return { message: 'Pedido eliminado correctamente' };
+        });
     },
 
     /**
-     * Solicitar una devolución de un pedido (por usuario)
+     * Solicitar una devolución de un pedido (por usuario).
+     * - Permite devolver líneas concretas (`items`) con su cantidad y motivo; si no se indican,
+     *   se devuelven todas las unidades que queden por devolver del pedido.
+     * - Impide devolver más unidades de las compradas sumando las devoluciones anteriores no rechazadas.
+     * - El importe reembolsable de cada línea es proporcional e incluye su parte del `discount_amount`.
      * @param {number} orderId ID del pedido
      * @param {number} userId ID del usuario
-     * @param {string} reason Motivo de la devolución
-     * @returns {Promise<{message:string, returnId:number}>} Mensaje y ID de la devolución creada
+     * @param {string} reason Motivo general de la devolución (se usa en las líneas que no indiquen el suyo)
+     * @param {Array<{order_item_id:number, quantity:number, reason?:string}>} [items] Líneas a devolver
+     * @returns {Promise<{message:string, returnId:number, totalAmount:number}>} Mensaje, ID de la devolución creada e importe reembolsable
+     * @throws Error si el pedido no admite devoluciones o las líneas/cantidades no son válidas
      */
-    async requestReturn(orderId: number, userId: number, reason: string) {
-        // Traer pedido
-        const [orderRows]: any = await db.query(
-            'SELECT id, user_id, status, total, total_paid FROM orders WHERE id = ? AND user_id = ?',
-            [orderId, userId]
-        );
-        if (!orderRows.length) throw new Error('Pedido no encontrado o no pertenece al usuario');
+    async requestReturn(orderId: number, userId: number, reason: string, items?: Array<{ order_item_id: number; quantity: number; reason?: string; exchange_product_id?: number | null }>) {
+        return withTransaction(async (conn) => {
+            // Traer pedido (bloqueado para evitar dos devoluciones simultáneas de las mismas unidades)
+            const [orderRows]: any = await conn.query(LOCK_USER_ORDER_FOR_RETURN, [orderId, userId]);
+            if (!orderRows.length) throw new Error('Pedido no encontrado o no pertenece al usuario');
 
-        const order = orderRows[0];
-        if (!['shipped','completed'].includes(order.status)) throw new Error('No se puede devolver este pedido');
+            const order = orderRows[0];
+            if (!['shipped', 'completed', 'delivered', 'awaiting_return'].includes(order.status)) throw new Error('No se puede devolver este pedido');
+
+            const [orderItems]: any = await conn.query(GET_ORDER_ITEMS_FOR_RETURN, [orderId]);
+            const [returnedRows]: any = await conn.query(GET_RETURNED_QUANTITIES_BY_ORDER, [orderId]);
+            const alreadyReturned = new Map<number, number>(returnedRows.map((r: any) => [Number(r.order_item_id), Number(r.returned_quantity)]));
+
+            const itemsSubtotal = orderItems.reduce((acc: number, it: any) => acc + Number(it.price) * Number(it.quantity), 0);
+            const discount = Number(order.discount_amount || 0);
+
+            // Sin líneas → todas las unidades pendientes de devolver
+            const requestedLines = items && items.length
+                ? items
+                : orderItems
+                    .map((it: any) => ({ order_item_id: it.id, quantity: Number(it.quantity) - (alreadyReturned.get(Number(it.id)) ?? 0) }))
+                    .filter((l: any) => l.quantity > 0);
+            if (!requestedLines.length) throw new Error('No quedan productos por devolver en este pedido');
+
+            // Variantes pedidas a cambio (misma prenda, otra talla/color)
+            const exchangeIds = [...new Set(requestedLines
+                .map((l: any) => l.exchange_product_id)
+                .filter((id: any) => id !== undefined && id !== null)
+                .map(Number))];
+            const [variants]: any = exchangeIds.length ? await conn.query(GET_EXCHANGE_VARIANTS, [exchangeIds]) : [[]];
 
-        // Usar total_paid directamente
-        const totalAmount = order.total_paid;
+            const lines: Array<{ order_item_id: number; quantity: number; reason: string; refund_amount: number; exchange_product_id: number | null }> = [];
+            const requestedByItem = new Map<number, number>();
+            for (const line of requestedLines) {
+                const orderItemId = Number(line.order_item_id);
+                const quantity = Number(line.quantity);
+                const orderItem = orderItems.find((it: any) => Number(it.id) === orderItemId);
+                if (!orderItem) throw new Error(`La línea ${line.order_item_id} no pertenece a este pedido`);
+                if (!Number.isInteger(quantity) || quantity <= 0) throw new Error(`Cantidad no válida para la línea ${orderItemId}`);
 
-        // Crear la devolución
-        const [result]: any = await db.query(
-            CREATE_RETURN_REQUEST,
-            [orderId, userId, reason, totalAmount]
-        );
+                const lineReason = (('reason' in line && line.reason) || reason || '').trim();
+                if (!lineReason) throw new Error(`Indica el motivo de la devolución de ${orderItem.product_name ?? `la línea ${orderItemId}`}`);
 
-        return { message: 'Devolución solicitada correctamente, pendiente de aprobación', returnId: result.insertId };
+                const totalRequested = (requestedByItem.get(orderItemId) ?? 0) + quantity;
+                const available = Number(orderItem.quantity) - (alreadyReturned.get(orderItemId) ?? 0);
+                if (totalRequested > available) {
+                    throw new Error(`Solo puedes devolver ${Math.max(available, 0)} unidad(es) de ${orderItem.product_name ?? `la línea ${orderItemId}`}`);
+                }
+                requestedByItem.set(orderItemId, totalRequested);
+
+                let exchangeProductId: number | null = null;
+                if ('exchange_product_id' in line && line.exchange_product_id !== undefined && line.exchange_product_id !== null) {
+                    const variant = variants.find((v: any) => v.id === Number(line.exchange_product_id));
+                    if (!variant) throw new Error(`La variante ${line.exchange_product_id} no existe`);
+                    if (variant.id === Number(orderItem.product_id) || variant.name !== orderItem.product_name) {
+                        throw new Error(`La variante ${variant.id} no es otra talla/color de ${orderItem.product_name ?? `la línea ${orderItemId}`}`);
+                    }
+                    if (variant.stock !== null && Number(variant.stock) < quantity) {
+                        throw new InsufficientStockError([{ product_id: variant.id, name: variant.name, requested: quantity, available: Number(variant.stock) }]);
+                    }
+                    exchangeProductId = variant.id;
+                }
+
+                lines.push({
+                    order_item_id: orderItemId,
+                    quantity,
+                    reason: lineReason,
+                    refund_amount: computeRefundShare(Number(orderItem.price) * quantity, itemsSubtotal, discount),
+                    exchange_product_id: exchangeProductId,
+                });
+            }
+
+            // Importe a reembolsar: los cambios no se reembolsan (la diferencia se calcula al recibirlos)
+            const totalAmount = roundMoney(lines.reduce((acc, l) => acc + (l.exchange_product_id ? 0 : l.refund_amount), 0));
+            const returnReason = reason?.trim() || [...new Set(lines.map(l => l.reason))].join('; ');
+
+            // Crear la devolución y sus líneas
+            const [result]: any = await conn.query(CREATE_RETURN_REQUEST, [orderId, userId, returnReason, totalAmount]);
+            const returnId = result.insertId;
+            for (const line of lines) {
+                await conn.query(CREATE_RETURN_ITEM, [returnId, line.order_item_id, line.quantity, line.reason, line.refund_amount, line.exchange_product_id]);
+            }
+
+            const exchangeLines = lines.filter(l => l.exchange_product_id).length;
+            return { message: 'Devolución solicitada correctamente, pendiente de aprobación', returnId, totalAmount, exchangeLines };
+        });
     },
 
     /**
-     * Obtener todas las devoluciones de un usuario
+     * Obtener todas las devoluciones de un usuario, con el detalle y estado de cada línea
      * @param {number} userId ID del usuario
-     * @returns {Promise<any[]>} Lista de devoluciones
+     * @returns {Promise<any[]>} Lista de devoluciones con `items`
      */
     async getUserReturns(userId: number) {
         const [rows]: any = await db.query(GET_RETURNS_BY_USER, [userId]);
-        return rows;
+        if (!rows.length) return rows;
+
+        const [itemRows]: any = await db.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [rows.map((r: any) => r.id)]);
+
+        return rows.map((r: any) => ({
+            ...r,
+            total_amount: r.total_amount !== null ? Number(r.total_amount) : null,
+            refund_amount: r.refund_amount !== null && r.refund_amount !== undefined ? Number(r.refund_amount) : null,
+            items: itemRows
+                .filter((it: any) => it.return_id === r.id)
+                .map((it: any) => ({
+                    id: it.id,
+                    order_item_id: it.order_item_id,
+                    product_id: it.product_id,
+                    product_name: it.product_name,
+                    image_url: it.image_url,
+                    size: it.size,
+                    color: it.color,
+                    sku: it.sku,
+                    quantity: it.quantity,
+                    unit_price: Number(it.price),
+                    refund_amount: Number(it.refund_amount),
+                    reason: it.reason,
+                    status: it.status,
+                    inspection_result: it.inspection_result ?? null,
+                    inspection_note: it.inspection_note ?? null,
+                    approved_refund_amount: it.approved_refund_amount !== null && it.approved_refund_amount !== undefined
+                        ? Number(it.approved_refund_amount)
+                        : null,
+                    exchange: it.exchange_product_id
+                        ? {
+                            product_id: it.exchange_product_id,
+                            product_name: it.exchange_product_name ?? null,
+                            size: it.exchange_size ?? null,
+                            color: it.exchange_color ?? null,
+                            sku: it.exchange_sku ?? null,
+                            reserved: Boolean(it.exchange_reserved),
+                        }
+                        : null,
+                })),
+        }));
     },
 
     /**
      * Actualizar el estado de una devolución (solo admin)
      * - status: 'approved' o 'rejected'
      * - Envía correos al usuario según la decisión
-     * - Si se aprueba, actualiza estado del pedido a 'awaiting_return'
+     * - Si se aprueba, asigna el número de RMA, actualiza estado del pedido a 'awaiting_return'
+     *   y envía las instrucciones de envío (la recepción se registra con `ReturnsService.receiveReturn`)
      * @param {number} returnId ID de la devolución
      * @param {'approved'|'rejected'} status Nuevo estado
+     * @param {number | null} [changedBy] ID del administrador que resuelve la devolución
      * @returns {Promise<{message:string}>} Mensaje de confirmación
      */
-    async updateReturnStatus(returnId: number, status: 'approved' | 'rejected') {
+    async updateReturnStatus(returnId: number, status: 'approved' | 'rejected', changedBy: number | null = null) {
         const [returnRows]: any = await db.query(GET_RETURN_BY_ID, [returnId]);
         if (!returnRows.length) throw new Error('Devolución no encontrada');
 
         const returnRequest = returnRows[0];
+        if (returnRequest.status === 'received') throw new Error('La devolución ya se ha recibido e inspeccionado');
         const orderId = returnRequest.order_id;
         const userId = returnRequest.user_id;
 
@@ -448,16 +1143,39 @@ export const OrdersService = {
             last_name: userRows[0].last_name,
         };
 
-        // Actualizar estado de la devolución
-        await db.query(UPDATE_RETURN_STATUS, [status, returnId]);
+        // Si se aprueba, validar antes que el pedido puede pasar a 'awaiting_return'
+        if (status === 'approved') {
+            const [orderRows]: any = await db.query('SELECT status FROM orders WHERE id = ?', [orderId]);
+            if (!orderRows.length) throw new Error('Pedido no encontrado');
+            if (orderRows[0].status !== 'awaiting_return') assertTransition(orderRows[0].status, 'awaiting_return');
+        }
+
+        // Actualizar estado de la devolución y de sus líneas, reservando (o liberando) las variantes de cambio
+        await withTransaction(async (conn) => {
+            const [locked]: any = await conn.query(LOCK_RETURN_FOR_INSPECTION, [returnId]);
+            const current = locked[0];
+            if (!current || current.status === 'received') throw new Error('La devolución ya se ha recibido e inspeccionado');
+
+            if (status === 'approved' && current.status !== 'approved') await ReturnsService.reserveExchanges(conn, returnId);
+            if (status === 'rejected' && current.status === 'approved') await ReturnsService.releaseExchanges(conn, returnId);
+
+            await conn.query(UPDATE_RETURN_STATUS, [status, returnId]);
+            await conn.query(UPDATE_RETURN_ITEMS_STATUS, [status, returnId]);
+        });
 
         // Normalizamos un objeto order para pasar a los emails
         const orderForEmail = { id: orderId };
 
-        // Si se aprueba la devolución → notificar al cliente y actualizar pedido
+        // Si se aprueba la devolución → asignar RMA, actualizar pedido y enviar instrucciones al cliente
         if (status === 'approved') {
-            await db.query(UPDATE_ORDER_STATUS, ['awaiting_return', orderId]);
-            await sendReturnApprovedEmail(user, orderForEmail);
+            const rmaNumber = await ReturnsService.issueRma(returnId, changedBy);
+            await this.changeStatus(orderId, 'awaiting_return', { changedBy, note: `Devolución #${returnId} aprobada (${rmaNumber})` });
+
+            const [items]: any = await db.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [[returnId]]);
+            await sendReturnApprovedEmail(user, orderForEmail, {
+                rmaNumber,
+                items: items.map((it: any) => ({ product_name: it.product_name, quantity: it.quantity })),
+            });
         }
 
         // Si se rechaza la devolución → notificar al cliente solo
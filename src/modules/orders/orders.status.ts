@@ -0,0 +1,86 @@
+import { mapOrderStatus } from '../../utils/mappers.utils';
+
+/**
+ * Estados posibles de un pedido (coinciden con las claves de `ORDER_STATUS_LABELS`).
+ */
+export type OrderStatus =
+    | 'pending'
+    | 'completed'
+    | 'shipped'
+    | 'delivered'
+    | 'cancelled'
+    | 'expired'
+    | 'awaiting_return'
+    | 'returned';
+
+/**
+ * @constant ORDER_STATUS_TRANSITIONS
+ * @description
+ * Máquina de estados de un pedido: para cada estado, lista de estados a los que puede pasar.
+ * - `pending` → pagado (`completed`), cancelado o caducado (`expired`, sin pagar tras el TTL).
+ * - `completed` (pagado) → enviado, cancelado o pendiente de devolución.
+ * - `shipped` → entregado o pendiente de devolución.
+ * - `delivered` → pendiente de devolución.
+ * - `awaiting_return` → devuelto.
+ * - `cancelled`, `expired` y `returned` son estados finales.
+ *
+ * @example
+ * ```ts
+ * ORDER_STATUS_TRANSITIONS['pending']; // ['completed', 'cancelled', 'expired']
+ * ```
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['completed', 'cancelled', 'expired'],
+    completed: ['shipped', 'cancelled', 'awaiting_return'],
+    shipped: ['delivered', 'awaiting_return'],
+    delivered: ['awaiting_return'],
+    awaiting_return: ['returned'],
+    cancelled: [],
+    expired: [],
+    returned: [],
+};
+
+/**
+ * Comprueba si un valor es un estado de pedido conocido.
+ * @param {unknown} value Valor a comprobar
+ * @returns {boolean} `true` si es un `OrderStatus` válido
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ORDER_STATUS_TRANSITIONS, value);
+}
+
+/**
+ * Indica si la transición `from → to` está permitida.
+ * @param {OrderStatus} from Estado actual
+ * @param {OrderStatus} to Estado destino
+ * @returns {boolean} `true` si la transición es válida
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Valida una transición de estado y lanza un error descriptivo si no está permitida.
+ * @param {string} from Estado actual del pedido
+ * @param {string} to Estado solicitado
+ * @throws {Error} Si alguno de los estados no existe o la transición no está permitida
+ *
+ * @example
+ * ```ts
+ * assertTransition('cancelled', 'shipped');
+ * // Error: No se puede pasar un pedido de "Cancelado" a "Enviado". Estados permitidos: ninguno (estado final)
+ * ```
+ */
+export function assertTransition(from: string, to: string): asserts to is OrderStatus {
+    if (!isOrderStatus(to)) {
+        throw new Error(`Estado de pedido no válido: "${to}". Valores permitidos: ${Object.keys(ORDER_STATUS_TRANSITIONS).join(', ')}`);
+    }
+    if (!isOrderStatus(from)) {
+        throw new Error(`El pedido tiene un estado desconocido: "${from}"`);
+    }
+    if (!canTransition(from, to)) {
+        const allowed = ORDER_STATUS_TRANSITIONS[from];
+        const allowedLabel = allowed.length ? allowed.map(mapOrderStatus).join(', ') : 'ninguno (estado final)';
+        throw new Error(`No se puede pasar un pedido de "${mapOrderStatus(from)}" a "${mapOrderStatus(to)}". Estados permitidos: ${allowedLabel}`);
+    }
+}
@@ -0,0 +1,54 @@
+import { Response } from 'express';
+import { ReturnsService } from './returns.service';
+import { AuthenticatedRequest } from '../../../middlewares/auth.middleware';
+import { InsufficientStockError } from '../orders.errors';
+
+/**
+ * @function getReturn
+ * @summary Obtiene una devolución con su RMA, sus líneas y el resultado de la inspección
+ * @param {AuthenticatedRequest} req - Request con `params.returnId` y `user` extraído del JWT
+ * @param {Response} res - Devolución con sus líneas
+ * @throws 400 - Si no existe o no pertenece al usuario (y no es admin)
+ * @security JWT
+ * @example
+ * GET /api/orders/returns/42
+ */
+export const getReturn = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const returnId = parseInt(req.params.returnId!);
+        const result = await ReturnsService.getReturn(returnId, req.user!);
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * @function receiveReturn
+ * @summary Registra la recepción de una devolución aprobada con la inspección de cada línea
+ * @description Repone el stock de las líneas `restockable`, reembolsa lo aceptado y, si no quedan devoluciones
+ * pendientes de recibir, pasa el pedido a `returned`. Los cambios aceptados generan el pedido de reposición.
+ * @param {AuthenticatedRequest} req - Request con `params.returnId` y body `{ items: [{ return_item_id, result, refund_amount?, note? }], note? }`
+ * @param {Response} res - Devolución inspeccionada, pedido de reposición, unidades repuestas y resultado del reembolso
+ * @throws 409 - Si una variante de cambio sin reservar ya no tiene stock
+ * @security JWT (admin)
+ * @example
+ * POST /api/orders/returns/42/receive
+ * body: { items: [{ return_item_id: 7, result: "restockable" }, { return_item_id: 8, result: "damaged", refund_amount: 5 }] }
+ */
+export const receiveReturn = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const returnId = parseInt(req.params.returnId!);
+        const { items, note } = req.body;
+        if (!Array.isArray(items)) {
+            return res.status(400).json({ message: 'items debe ser una lista de { return_item_id, result, refund_amount?, note? }' });
+        }
+        const result = await ReturnsService.receiveReturn(returnId, { items, note }, req.user!.id);
+        res.json(result);
+    } catch (error: any) {
+        if (error instanceof InsufficientStockError) {
+            return res.status(error.status).json(error.toResponse());
+        }
+        res.status(400).json({ message: error.message });
+    }
+};
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { getReturn, receiveReturn } from './returns.controller';
+import { authenticate, authorize } from '../../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route GET /api/orders/returns/:returnId
+ * @group Returns - Devoluciones (RMA)
+ * @summary Devolución con número de RMA, líneas e inspección
+ * @param {string} returnId.path.required - ID de la devolución
+ * @returns {object} 200 - Devolución
+ * @returns {object} 400 - Si no existe o no pertenece al usuario y no es admin
+ * @security JWT
+ */
+router.get('/returns/:returnId', authenticate, getReturn);
+
+/**
+ * @route POST /api/orders/returns/:returnId/receive
+ * @group Returns - Devoluciones (RMA)
+ * @summary Registra la recepción e inspección de una devolución aprobada (admin): repone stock y reembolsa lo aceptado
+ * @param {string} returnId.path.required - ID de la devolución
+ * @param {object} req.body - { items: [{ return_item_id, result: 'restockable'|'damaged'|'rejected', refund_amount?, note? }], note? }
+ * @returns {object} 200 - { message, return, restocked_units, refund, refund_error }
+ * @returns {object} 400 - Devolución no aprobada o inspección incompleta/no válida
+ * @security JWT (admin)
+ */
+router.post('/returns/:returnId/receive', authenticate, authorize('admin'), receiveReturn);
+
+export default router;
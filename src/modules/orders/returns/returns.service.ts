@@ -0,0 +1,457 @@
+import { PoolConnection } from 'mysql2/promise';
+import { db } from '../../../config/config';
+import { withTransaction } from '../../../database/db';
+import {
+    GET_RETURN_BY_ID,
+    GET_RETURN_ITEMS_BY_RETURN_IDS,
+    INCREMENT_PRODUCT_STOCK,
+    DECREMENT_PRODUCT_STOCK,
+    LOCK_PRODUCTS_FOR_UPDATE,
+    CREATE_ORDER_ITEM,
+    INSERT_ORDER_STATUS_HISTORY
+} from '../../../database/queries/orders.queries';
+import {
+    SET_RETURN_RMA,
+    LOCK_RETURN_FOR_INSPECTION,
+    UPDATE_RETURN_ITEM_INSPECTION,
+    MARK_RETURN_RECEIVED,
+    COUNT_RETURNS_AWAITING_RECEIPT,
+    SET_RETURN_ITEM_EXCHANGE_RESERVED,
+    CREATE_REPLACEMENT_ORDER,
+    SET_RETURN_REPLACEMENT_ORDER
+} from '../../../database/queries/returns.queries';
+import { roundMoney } from '../../../utils/money.utils';
+import { InsufficientStockError } from '../orders.errors';
+import { TaxService } from '../../taxes/taxes.service';
+import { effectiveVatRate, computeLineTax } from '../../taxes/taxes.rules';
+import { CurrencyService } from '../../currencies/currencies.service';
+import { CurrencyRate, BASE_CURRENCY, toEur, formatMoney } from '../../currencies/currencies.rules';
+import { OrdersService } from '../orders.service';
+import { RefundsService, RefundResult } from '../../refunds/refunds.service';
+import { sendReturnCompletedEmail } from '../notifications/send-return-updates';
+import { PaymentsService } from '../../payments/payments.service';
+
+/**
+ * Resultado de la inspección de una línea devuelta:
+ * - `restockable`: en buen estado, vuelve al stock y se reembolsa entera.
+ * - `damaged`: no se puede vender; se reembolsa entera salvo que se indique un importe menor.
+ * - `rejected`: no se acepta la devolución de la línea; no se reembolsa.
+ * En las líneas de cambio (`exchange_product_id`), `restockable` y `damaged` aceptan el cambio
+ * (solo se reembolsa la diferencia si la variante nueva es más barata) y `rejected` lo anula.
+ */
+export type InspectionResult = 'restockable' | 'damaged' | 'rejected';
+
+const INSPECTION_RESULTS: InspectionResult[] = ['restockable', 'damaged', 'rejected'];
+
+/**
+ * Inspección de una línea de la devolución.
+ */
+export interface InspectionLineInput {
+    return_item_id: number;
+    result: InspectionResult;
+    /** Solo para `damaged` sin cambio: importe a reembolsar (entre 0 y el importe de la línea) */
+    refund_amount?: number | null;
+    note?: string | null;
+}
+
+/**
+ * Datos de la recepción de una devolución: inspección de todas sus líneas y nota general opcional.
+ */
+export interface ReceiveReturnInput {
+    items: InspectionLineInput[];
+    note?: string | null;
+}
+
+/**
+ * Número de RMA de una devolución: año de aprobación + ID con 6 dígitos (p.ej. `RMA-2026-000042`).
+ * @param {number} returnId ID de la devolución
+ * @param {Date} [date] Fecha de aprobación
+ * @returns {string} Número de RMA
+ */
+export function buildRmaNumber(returnId: number, date: Date = new Date()): string {
+    return `RMA-${date.getFullYear()}-${String(returnId).padStart(6, '0')}`;
+}
+
+/**
+ * Formatea una devolución y sus líneas para la respuesta
+ * @param {any} row Fila de `returns`
+ * @param {any[]} items Filas de `return_items` de la devolución
+ * @returns {Object} Devolución con importes numéricos y líneas
+ */
+function formatReturn(row: any, items: any[]) {
+    return {
+        id: row.id,
+        order_id: row.order_id,
+        user_id: row.user_id,
+        rma_number: row.rma_number ?? null,
+        status: row.status,
+        order_status: row.order_status ?? null,
+        reason: row.reason,
+        total_amount: row.total_amount !== null ? Number(row.total_amount) : null,
+        refund_amount: row.refund_amount !== null && row.refund_amount !== undefined ? Number(row.refund_amount) : null,
+        inspection_note: row.inspection_note ?? null,
+        replacement_order_id: row.replacement_order_id ?? null,
+        approved_at: row.approved_at ?? null,
+        received_at: row.received_at ?? null,
+        received_by: row.received_by ?? null,
+        items: items.map((it: any) => ({
+            id: it.id,
+            order_item_id: it.order_item_id,
+            product_id: it.product_id,
+            product_name: it.product_name,
+            sku: it.sku,
+            size: it.size,
+            color: it.color,
+            quantity: it.quantity,
+            unit_price: Number(it.price),
+            refund_amount: Number(it.refund_amount),
+            reason: it.reason,
+            status: it.status,
+            inspection_result: it.inspection_result ?? null,
+            inspection_note: it.inspection_note ?? null,
+            approved_refund_amount: it.approved_refund_amount !== null && it.approved_refund_amount !== undefined
+                ? Number(it.approved_refund_amount)
+                : null,
+            exchange: it.exchange_product_id
+                ? {
+                    product_id: it.exchange_product_id,
+                    product_name: it.exchange_product_name ?? null,
+                    size: it.exchange_size ?? null,
+                    color: it.exchange_color ?? null,
+                    sku: it.exchange_sku ?? null,
+                    reserved: Boolean(it.exchange_reserved),
+                }
+                : null,
+        })),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+/**
+ * Crea el pedido de reposición de los cambios aceptados en una devolución.
+ * - Las líneas se guardan a precio actual en la divisa del pedido original; el importe de lo devuelto se aplica
+ *   como `discount_amount` y el cliente solo paga la diferencia (si la hay).
+ * - El stock ya está descontado (reservado al aprobar la devolución).
+ * - El IVA se calcula como en un pedido normal (el crédito reduce la base igual que un descuento).
+ * - Si no hay nada que pagar, el pedido pasa directamente a `completed` (listo para enviar).
+ * @param {PoolConnection} conn Conexión de la transacción en curso
+ * @param {any} ret Devolución bloqueada (con `order_address_id`)
+ * @param {Array<{product_id:number, quantity:number, price:number, credit:number}>} lines Variantes nuevas y crédito de cada línea
+ * @param {CurrencyRate} currency Divisa del pedido original y tipo de cambio actual
+ * @param {number} createdBy ID del administrador que registra la recepción
+ * @returns {Promise<number>} ID del pedido de reposición
+ */
+async function createReplacementOrder(
+    conn: PoolConnection,
+    ret: any,
+    lines: Array<{ product_id: number; quantity: number; price: number; credit: number }>,
+    currency: CurrencyRate,
+    createdBy: number
+) {
+    let total = 0;
+    let discount = 0;
+    for (const line of lines) {
+        const value = roundMoney(line.price * line.quantity);
+        const payable = roundMoney(Math.max(0, value - line.credit));
+        total = roundMoney(total + payable);
+        discount = roundMoney(discount + value - payable);
+    }
+
+    const [res]: any = await conn.query(CREATE_REPLACEMENT_ORDER, [
+        ret.user_id, ret.order_address_id, total, discount, ret.order_id, ret.id,
+        currency.code, currency.rate, toEur(total, currency.rate),
+    ]);
+    const replacementOrderId = res.insertId;
+    const taxZone = await TaxService.getAddressTaxZone(conn, ret.order_address_id);
+    const vatRates = await TaxService.getProductVatRates(conn, lines.map(l => l.product_id));
+    for (const line of lines) {
+        const vatRate = effectiveVatRate(vatRates.get(line.product_id) ?? null, taxZone);
+        const { tax } = computeLineTax(roundMoney(line.price * line.quantity), vatRate);
+        await conn.query(CREATE_ORDER_ITEM, [replacementOrderId, line.product_id, line.quantity, line.price, vatRate, tax]);
+    }
+    await TaxService.updateOrderTaxes(conn, replacementOrderId);
+
+    const label = ret.rma_number ?? `#${ret.id}`;
+    await conn.query(INSERT_ORDER_STATUS_HISTORY, [replacementOrderId, null, 'pending', createdBy, `Cambio de la devolución ${label} del pedido #${ret.order_id}`]);
+    if (total < 0.005) {
+        await OrdersService.changeStatus(replacementOrderId, 'completed', { changedBy: createdBy, note: 'Cambio sin coste', conn });
+    }
+
+    await conn.query(SET_RETURN_REPLACEMENT_ORDER, [replacementOrderId, ret.id]);
+    return replacementOrderId;
+}
+
+export const ReturnsService = {
+    /**
+     * Asignar el número de RMA a una devolución aprobada (si ya lo tenía, se conserva).
+     * @param {number} returnId ID de la devolución
+     * @param {number | null} approvedBy ID del administrador que la aprueba
+     * @returns {Promise<string>} Número de RMA
+     */
+    async issueRma(returnId: number, approvedBy: number | null) {
+        await db.query(SET_RETURN_RMA, [buildRmaNumber(returnId), approvedBy, returnId]);
+        const [rows]: any = await db.query('SELECT rma_number FROM returns WHERE id = ?', [returnId]);
+        return rows[0].rma_number as string;
+    },
+
+    /**
+     * Reservar el stock de las variantes pedidas a cambio (al aprobar la devolución).
+     * Las líneas ya reservadas no se vuelven a reservar.
+     * @param {PoolConnection} conn Conexión de la transacción en curso (con la devolución bloqueada)
+     * @param {number} returnId ID de la devolución
+     * @returns {Promise<number>} Unidades reservadas
+     * @throws {InsufficientStockError} Si alguna variante no tiene stock suficiente
+     */
+    async reserveExchanges(conn: PoolConnection, returnId: number) {
+        const [items]: any = await conn.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [[returnId]]);
+        const pending = items.filter((it: any) => it.exchange_product_id && !it.exchange_reserved);
+        if (!pending.length) return 0;
+
+        const [products]: any = await conn.query(LOCK_PRODUCTS_FOR_UPDATE, [[...new Set(pending.map((it: any) => it.exchange_product_id))]]);
+        let reserved = 0;
+        for (const it of pending) {
+            const [res]: any = await conn.query(DECREMENT_PRODUCT_STOCK, [it.quantity, it.exchange_product_id, it.quantity]);
+            if (!res.affectedRows) {
+                const product = products.find((p: any) => p.id === it.exchange_product_id);
+                throw new InsufficientStockError([{
+                    product_id: it.exchange_product_id,
+                    name: product?.name ?? it.exchange_product_name ?? null,
+                    requested: Number(it.quantity),
+                    available: Number(product?.stock ?? 0),
+                }]);
+            }
+            await conn.query(SET_RETURN_ITEM_EXCHANGE_RESERVED, [true, it.id]);
+            reserved += Number(it.quantity);
+        }
+        return reserved;
+    },
+
+    /**
+     * Liberar el stock reservado para los cambios de una devolución (al rechazarla).
+     * @param {PoolConnection} conn Conexión de la transacción en curso (con la devolución bloqueada)
+     * @param {number} returnId ID de la devolución
+     * @returns {Promise<void>}
+     */
+    async releaseExchanges(conn: PoolConnection, returnId: number) {
+        const [items]: any = await conn.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [[returnId]]);
+        for (const it of items) {
+            if (!it.exchange_product_id || !it.exchange_reserved) continue;
+            await conn.query(INCREMENT_PRODUCT_STOCK, [it.quantity, it.exchange_product_id]);
+            await conn.query(SET_RETURN_ITEM_EXCHANGE_RESERVED, [false, it.id]);
+        }
+    },
+
+    /**
+     * Obtener una devolución con sus líneas e inspección.
+     * @param {number} returnId ID de la devolución
+     * @param {{ id: number, role: string }} requester Usuario que consulta (propietario o admin)
+     * @returns {Promise<Object>} Devolución con RMA, líneas y resultado de la inspección
+     * @throws Error si no existe o no pertenece al usuario
+     */
+    async getReturn(returnId: number, requester: { id: number; role: string }) {
+        const [rows]: any = await db.query(GET_RETURN_BY_ID, [returnId]);
+        if (!rows.length) throw new Error('Devolución no encontrada');
+        if (requester.role !== 'admin' && rows[0].user_id !== requester.id) {
+            throw new Error('No tienes permiso para ver esta devolución');
+        }
+
+        const [items]: any = await db.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [[returnId]]);
+        return formatReturn(rows[0], items);
+    },
+
+    /**
+     * Registrar la recepción de una devolución aprobada e inspeccionar sus líneas.
+     * 1. En una transacción: bloquea la devolución, guarda el resultado de cada línea,
+     *    repone el stock de las líneas `restockable`, calcula el importe a reembolsar y registra su reembolso
+     *    (`RefundsService.registerRefund`, asociado a la devolución y sus líneas). Si el reembolso no se puede
+     *    registrar, la devolución no se da por recibida.
+     *    Los cambios aceptados generan un pedido de reposición enlazado al original (ver `createReplacementOrder`).
+     * 2. Envía el reembolso a Stripe (`RefundsService.submitRefunds`); si falla, queda en `refunds` para reintentarlo.
+     *    Si queda diferencia por pagar, se crea su sesión de Stripe Checkout y el enlace va en el email.
+     * 3. Si el pedido ya no tiene devoluciones pendientes de recibir, pasa de `awaiting_return` a `returned`.
+     * 4. Envía al cliente el email de devolución completada con el resultado.
+     *
+     * @param {number} returnId ID de la devolución
+     * @param {ReceiveReturnInput} input Inspección de cada línea y nota general
+     * @param {number} receivedBy ID del administrador que registra la recepción
+     * @returns {Promise<Object>} Devolución inspeccionada, pedido de reposición (con su enlace de pago si hay diferencia), unidades repuestas y resultado del reembolso
+     * @throws Error si la devolución no está aprobada, la inspección no es válida o el reembolso no se puede registrar
+     */
+    async receiveReturn(returnId: number, input: ReceiveReturnInput, receivedBy: number) {
+        if (!Array.isArray(input.items) || !input.items.length) {
+            throw new Error('Debes indicar el resultado de la inspección de cada línea');
+        }
+
+        const inspected = await withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(LOCK_RETURN_FOR_INSPECTION, [returnId]);
+            if (!rows.length) throw new Error('Devolución no encontrada');
+            const ret = rows[0];
+            if (ret.status !== 'approved') throw new Error('Solo se pueden recibir devoluciones aprobadas');
+
+            const [returnItems]: any = await conn.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [[returnId]]);
+            const pending = new Set<number>(returnItems.map((it: any) => Number(it.id)));
+
+            // 💱 Las variantes de cambio se valoran en la divisa del pedido original
+            const currency = await CurrencyService.getRate(conn, ret.order_currency ?? BASE_CURRENCY);
+            const exchangePrices = await CurrencyService.priceProducts(
+                conn,
+                returnItems
+                    .filter((it: any) => it.exchange_product_id)
+                    .map((it: any) => ({ id: Number(it.exchange_product_id), price: Number(it.exchange_price ?? 0) })),
+                currency
+            );
+
+            let refundAmount = 0;
+            let restockedUnits = 0;
+            const refundLines: Array<{ order_item_id: number; quantity: number }> = [];
+            const exchangeLines: Array<{ product_id: number; quantity: number; price: number; credit: number }> = [];
+
+            for (const line of input.items) {
+                const item = returnItems.find((it: any) => Number(it.id) === Number(line.return_item_id));
+                if (!item) throw new Error(`La línea ${line.return_item_id} no pertenece a esta devolución`);
+                if (!pending.delete(Number(item.id))) throw new Error(`La línea ${item.id} está repetida`);
+                if (!INSPECTION_RESULTS.includes(line.result)) {
+                    throw new Error(`Resultado no válido para la línea ${item.id} (restockable, damaged o rejected)`);
+                }
+
+                // 🔹 Importe a reembolsar según el resultado
+                const lineAmount = Number(item.refund_amount);
+                const isExchange = Boolean(item.exchange_product_id);
+                let approved = line.result === 'rejected' ? 0 : lineAmount;
+                if (isExchange && line.refund_amount !== undefined && line.refund_amount !== null) {
+                    throw new Error(`La línea ${item.id} es un cambio: no admite un importe de reembolso manual`);
+                }
+                if (isExchange && line.result !== 'rejected') {
+                    // 🔁 Cambio aceptado: la variante nueva se paga con el importe de la devuelta (solo se reembolsa la diferencia a favor)
+                    const price = exchangePrices.get(Number(item.exchange_product_id)) ?? 0;
+                    const value = roundMoney(price * Number(item.quantity));
+                    approved = roundMoney(Math.max(0, lineAmount - value));
+                    exchangeLines.push({ product_id: Number(item.exchange_product_id), quantity: Number(item.quantity), price, credit: lineAmount });
+
+                    // Sin reserva previa (p.ej. devolución aprobada antes de admitir cambios) → descontar ahora
+                    if (!item.exchange_reserved) {
+                        const [res]: any = await conn.query(DECREMENT_PRODUCT_STOCK, [item.quantity, item.exchange_product_id, item.quantity]);
+                        if (!res.affectedRows) {
+                            throw new InsufficientStockError([{ product_id: Number(item.exchange_product_id), name: item.exchange_product_name ?? null, requested: Number(item.quantity), available: 0 }]);
+                        }
+                    }
+                } else if (isExchange && item.exchange_reserved) {
+                    // Cambio rechazado → liberar la variante reservada
+                    await conn.query(INCREMENT_PRODUCT_STOCK, [item.quantity, item.exchange_product_id]);
+                }
+                if (line.result === 'damaged' && line.refund_amount !== undefined && line.refund_amount !== null) {
+                    const custom = Number(line.refund_amount);
+                    if (!Number.isFinite(custom) || custom < 0 || custom > lineAmount + 0.005) {
+                        throw new Error(`El importe a reembolsar de la línea ${item.id} debe estar entre 0 y ${formatMoney(lineAmount, currency.code)}`);
+                    }
+                    approved = roundMoney(custom);
+                }
+
+                const note = line.note?.trim() || null;
+                await conn.query(UPDATE_RETURN_ITEM_INSPECTION, [line.result, note, approved, item.id]);
+
+                // 📦 Solo vuelve al stock lo que se puede vender de nuevo
+                if (line.result === 'restockable' && item.product_id) {
+                    await conn.query(INCREMENT_PRODUCT_STOCK, [item.quantity, item.product_id]);
+                    restockedUnits += Number(item.quantity);
+                }
+
+                if (approved > 0) {
+                    refundAmount = roundMoney(refundAmount + approved);
+                    // En los cambios solo se reembolsa la diferencia: las unidades no cuentan como reembolsadas
+                    if (!isExchange) refundLines.push({ order_item_id: Number(item.order_item_id), quantity: Number(item.quantity) });
+                }
+            }
+
+            if (pending.size) {
+                throw new Error(`Faltan por inspeccionar las líneas: ${[...pending].join(', ')}`);
+            }
+
+            await conn.query(MARK_RETURN_RECEIVED, [receivedBy, refundAmount, input.note?.trim() || null, returnId]);
+
+            // 💳 El reembolso se registra con la inspección: si no se puede registrar, no se da por recibida
+            const registeredRefunds = refundAmount > 0
+                ? await RefundsService.registerRefund(conn, {
+                    orderId: Number(ret.order_id),
+                    returnId,
+                    items: refundLines,
+                    amount: refundAmount,
+                    reason: `Devolución ${ret.rma_number ?? `#${returnId}`}${ret.reason ? `: ${ret.reason}` : ''}`,
+                    requestedBy: receivedBy,
+                })
+                : [];
+
+            const replacementOrderId = exchangeLines.length
+                ? await createReplacementOrder(conn, ret, exchangeLines, currency, receivedBy)
+                : null;
+
+            return { ret, refundAmount, restockedUnits, registeredRefunds, replacementOrderId };
+        });
+
+        const { ret, refundAmount, restockedUnits, registeredRefunds, replacementOrderId } = inspected;
+        const orderId = Number(ret.order_id);
+
+        // 💳 Enviar a Stripe el reembolso registrado (si falla, queda en `refunds` para reintentarlo)
+        let refund: RefundResult | null = null;
+        let refundError: string | null = null;
+        if (registeredRefunds.length) {
+            try {
+                refund = await RefundsService.submitRefunds(registeredRefunds);
+                if (refund.failedAmount > 0) {
+                    console.error(`⚠️ Reembolso fallido de ${formatMoney(refund.failedAmount, ret.order_currency ?? BASE_CURRENCY)} en la devolución ${returnId}, pendiente de reintento`);
+                }
+            } catch (err: any) {
+                refundError = err.message;
+                console.error(`❌ No se pudo enviar a Stripe el reembolso de la devolución ${returnId}, pendiente de reintento:`, err.message);
+            }
+        }
+
+        // 🔹 Sin más devoluciones pendientes de recibir → el pedido pasa a `returned`
+        const [awaiting]: any = await db.query(COUNT_RETURNS_AWAITING_RECEIPT, [orderId]);
+        if (!Number(awaiting[0]?.count) && ret.order_status === 'awaiting_return') {
+            await OrdersService.changeStatus(orderId, 'returned', {
+                changedBy: receivedBy,
+                note: `Devolución ${ret.rma_number ?? `#${returnId}`} recibida e inspeccionada`,
+            });
+        }
+
+        const result = await this.getReturn(returnId, { id: receivedBy, role: 'admin' });
+        const replacementOrder = replacementOrderId ? await OrdersService.getOrderById(replacementOrderId) : null;
+
+        // 💳 El cambio cuesta más que lo devuelto → sesión de pago para la diferencia.
+        // Si no se puede crear, el enlace lleva al pedido para reintentar el pago desde allí.
+        let paymentUrl: string | null = null;
+        if (replacementOrder && replacementOrder.status === 'pending') {
+            const frontendUrl = process.env.FRONTEND_URL || '';
+            try {
+                const session = await PaymentsService.createCheckoutSession(replacementOrder.id, frontendUrl);
+                paymentUrl = session.url;
+            } catch (err: any) {
+                console.error(`❌ No se pudo crear la sesión de pago del pedido de cambio ${replacementOrder.id}:`, err.message);
+            }
+            paymentUrl ??= `${frontendUrl}/orders/${replacementOrder.id}?retryPayment=1`;
+        }
+
+        // 📧 Avisar al cliente con el resultado de la inspección
+        const [userRows]: any = await db.query('SELECT email, first_name, last_name FROM users WHERE id = ?', [ret.user_id]);
+        if (userRows.length) {
+            await sendReturnCompletedEmail(userRows[0], { id: orderId, currency: ret.order_currency }, {
+                rmaNumber: result.rma_number,
+                refundAmount,
+                items: result.items,
+                replacementOrder: replacementOrder ? { id: replacementOrder.id, total: replacementOrder.total, paymentUrl } : null,
+            }, refund?.creditNotes.map(cn => cn.id) ?? []);
+        }
+
+        return {
+            message: 'Devolución recibida e inspeccionada',
+            return: result,
+            replacement_order: replacementOrder,
+            replacement_payment_url: paymentUrl,
+            restocked_units: restockedUnits,
+            refund,
+            refund_error: refundError,
+        };
+    },
+};
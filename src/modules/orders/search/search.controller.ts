@@ -0,0 +1,24 @@
+import { Response } from 'express';
+import { OrderSearchService, parseOrderSearchQuery } from './search.service';
+import { AuthenticatedRequest } from '../../../middlewares/auth.middleware';
+
+/**
+ * @function searchOrders
+ * @summary Busca pedidos (admin) con texto libre, filtros, orden y paginación
+ * @param {AuthenticatedRequest} req - Query `q`, `status`, `payment_status`, `promotion_code`, `min_total`, `max_total`, `from`, `to`,
+ * `user_id`, `archived`, `sort`, `direction`, `page` y `page_size` (todos opcionales)
+ * @param {Response} res - `{ data, pagination, sort, filters }`
+ * @throws 400 - Si algún filtro, orden o paginación no es válido
+ * @security JWT (admin)
+ * @example
+ * GET /api/orders/search?q=PK123ES&status=shipped,delivered&sort=total&direction=asc&page=2&page_size=50
+ */
+export const searchOrders = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const params = parseOrderSearchQuery(req.query as Record<string, unknown>);
+        const result = await OrderSearchService.searchOrders(params);
+        res.json(result);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
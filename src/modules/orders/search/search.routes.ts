@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { searchOrders } from './search.controller';
+import { authenticate, authorize } from '../../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route GET /api/orders/search
+ * @group Orders - Búsqueda de pedidos
+ * @summary Busca pedidos (admin): texto libre (nº de pedido, cliente, email, SKU, seguimiento), filtros, orden y paginación
+ * @param {string} q.query - Texto libre
+ * @param {string} status.query - Estados del pedido separados por comas
+ * @param {string} payment_status.query - Estados de pago separados por comas (`unpaid`, `pending`, `completed`, ...)
+ * @param {string} sort.query - `created_at` (por defecto), `total` o `status`
+ * @param {number} page.query - Página (desde 1)
+ * @param {number} page_size.query - Pedidos por página (1-100, por defecto 20)
+ * @returns {object} 200 - { data, pagination: { page, page_size, total, total_pages, has_next }, sort, filters }
+ * @returns {object} 400 - Parámetros no válidos
+ * @security JWT (admin)
+ */
+router.get('/search', authenticate, authorize('admin'), searchOrders);
+
+export default router;
@@ -0,0 +1,247 @@
+import { db } from '../../../config/config';
+import { SEARCH_ORDERS, COUNT_SEARCH_ORDERS, ORDER_SEARCH_TEXT_CONDITION } from '../../../database/queries/order-search.queries';
+import { mapOrderStatus } from '../../../utils/mappers.utils';
+import { isOrderStatus, OrderStatus, ORDER_STATUS_TRANSITIONS } from '../orders.status';
+
+/** Columnas por las que se puede ordenar la búsqueda */
+export const ORDER_SEARCH_SORTS = ['created_at', 'total', 'status'] as const;
+export type OrderSearchSort = typeof ORDER_SEARCH_SORTS[number];
+
+/** Estado de pago de un pedido: el de su último pago, o `unpaid` si no tiene ninguno */
+export const ORDER_PAYMENT_STATUSES = ['unpaid', 'pending', 'completed', 'failed', 'partially_refunded', 'refunded'] as const;
+export type OrderPaymentStatus = typeof ORDER_PAYMENT_STATUSES[number];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parámetros de la búsqueda de pedidos (admin).
+ */
+export interface OrderSearchParams {
+    /** Texto libre: nº de pedido, nombre o email del cliente, SKU o nº de seguimiento */
+    q?: string;
+    status?: OrderStatus[];
+    payment_status?: OrderPaymentStatus[];
+    promotion_code?: string;
+    min_total?: number;
+    max_total?: number;
+    /** Fecha de creación desde/hasta (YYYY-MM-DD, ambos incluidos) */
+    from?: string;
+    to?: string;
+    user_id?: number;
+    /** `false` (por defecto) solo activos, `true` solo archivados, `all` ambos */
+    archived?: boolean | 'all';
+    sort: OrderSearchSort;
+    direction: 'asc' | 'desc';
+    page: number;
+    page_size: number;
+}
+
+/**
+ * Lee un parámetro de lista (`a,b` o `?x=a&x=b`).
+ * @param {unknown} value Valor de la query
+ * @returns {string[]} Valores no vacíos
+ */
+function parseList(value: unknown): string[] {
+    const raw = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+    return raw.flatMap(v => String(v).split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Lee un importe opcional de la query.
+ * @param {unknown} value Valor de la query
+ * @param {string} name Nombre del parámetro (para el mensaje de error)
+ * @returns {number | undefined} Importe o `undefined` si no se indica
+ * @throws Error si no es un número >= 0
+ */
+function parseAmount(value: unknown, name: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || amount < 0) throw new Error(`${name} debe ser un importe >= 0`);
+    return amount;
+}
+
+/**
+ * Lee una fecha opcional `YYYY-MM-DD` de la query.
+ * @param {unknown} value Valor de la query
+ * @param {string} name Nombre del parámetro (para el mensaje de error)
+ * @returns {string | undefined} Fecha o `undefined` si no se indica
+ * @throws Error si no tiene el formato `YYYY-MM-DD`
+ */
+function parseDate(value: unknown, name: string): string | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+        throw new Error(`${name} debe ser una fecha YYYY-MM-DD`);
+    }
+    return value;
+}
+
+/**
+ * Escapa los comodines de `LIKE` (`%`, `_` y `\`) del texto buscado.
+ * @param {string} text Texto introducido por el usuario
+ * @returns {string} Patrón `%texto%`
+ */
+function toLikePattern(text: string): string {
+    return `%${text.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+}
+
+/**
+ * Valida y normaliza la query de `GET /orders/search`.
+ * @param {Record<string, unknown>} query `req.query`
+ * @returns {OrderSearchParams} Parámetros con valores por defecto (`created_at desc`, página 1 de 20)
+ * @throws Error si algún filtro, orden o paginación no es válido
+ */
+export function parseOrderSearchQuery(query: Record<string, unknown>): OrderSearchParams {
+    const status = parseList(query.status);
+    const invalidStatus = status.filter(s => !isOrderStatus(s));
+    if (invalidStatus.length) throw new Error(`Estado no válido: ${invalidStatus.join(', ')}`);
+
+    const paymentStatus = parseList(query.payment_status);
+    const invalidPayment = paymentStatus.filter(s => !(ORDER_PAYMENT_STATUSES as readonly string[]).includes(s));
+    if (invalidPayment.length) {
+        throw new Error(`Estado de pago no válido: ${invalidPayment.join(', ')}. Valores permitidos: ${ORDER_PAYMENT_STATUSES.join(', ')}`);
+    }
+
+    const sort = (query.sort ?? 'created_at') as OrderSearchSort;
+    if (!ORDER_SEARCH_SORTS.includes(sort)) throw new Error(`sort no válido. Valores permitidos: ${ORDER_SEARCH_SORTS.join(', ')}`);
+    const direction = String(query.direction ?? 'desc').toLowerCase();
+    if (direction !== 'asc' && direction !== 'desc') throw new Error('direction debe ser asc o desc');
+
+    const page = query.page === undefined ? 1 : Number(query.page);
+    if (!Number.isInteger(page) || page < 1) throw new Error('page debe ser un entero >= 1');
+    const pageSize = query.page_size === undefined ? DEFAULT_PAGE_SIZE : Number(query.page_size);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        throw new Error(`page_size debe ser un entero entre 1 y ${MAX_PAGE_SIZE}`);
+    }
+
+    const minTotal = parseAmount(query.min_total, 'min_total');
+    const maxTotal = parseAmount(query.max_total, 'max_total');
+    if (minTotal !== undefined && maxTotal !== undefined && minTotal > maxTotal) throw new Error('min_total no puede ser mayor que max_total');
+
+    const userId = query.user_id === undefined || query.user_id === '' ? undefined : Number(query.user_id);
+    if (userId !== undefined && (!Number.isInteger(userId) || userId < 1)) throw new Error('user_id no válido');
+
+    const archived = query.archived === 'all' ? 'all' : query.archived === 'true';
+    const q = typeof query.q === 'string' ? query.q.trim() : '';
+    const promotionCode = typeof query.promotion_code === 'string' ? query.promotion_code.trim() : '';
+    const from = parseDate(query.from, 'from');
+    const to = parseDate(query.to, 'to');
+
+    return {
+        ...(q ? { q } : {}),
+        ...(status.length ? { status: status as OrderStatus[] } : {}),
+        ...(paymentStatus.length ? { payment_status: paymentStatus as OrderPaymentStatus[] } : {}),
+        ...(promotionCode ? { promotion_code: promotionCode } : {}),
+        ...(minTotal !== undefined ? { min_total: minTotal } : {}),
+        ...(maxTotal !== undefined ? { max_total: maxTotal } : {}),
+        ...(from ? { from } : {}),
+        ...(to ? { to } : {}),
+        ...(userId !== undefined ? { user_id: userId } : {}),
+        archived,
+        sort,
+        direction,
+        page,
+        page_size: pageSize,
+    };
+}
+
+export const OrderSearchService = {
+    /**
+     * Buscar pedidos (admin) con texto libre, filtros, orden y paginación.
+     * - El orden siempre desempata por `o.id` en la misma dirección, para que las páginas sean estables.
+     * - `sort=status` ordena según el flujo del pedido (pending, completed, shipped, ...).
+     * @param {OrderSearchParams} params Parámetros ya validados (ver `parseOrderSearchQuery`)
+     * @returns {Promise<Object>} `{ data, pagination: { page, page_size, total, total_pages, has_next }, sort, filters }`
+     * @example
+     * const result = await OrderSearchService.searchOrders(parseOrderSearchQuery({ q: 'ana@', status: 'completed' }));
+     */
+    async searchOrders(params: OrderSearchParams) {
+        const conditions: string[] = [];
+        const values: any[] = [];
+
+        if (params.archived !== 'all') conditions.push(params.archived ? 'o.archived_at IS NOT NULL' : 'o.archived_at IS NULL');
+        if (params.q) {
+            const orderId = /^#?\d+$/.test(params.q) ? Number(params.q.replace('#', '')) : -1;
+            const like = toLikePattern(params.q);
+            conditions.push(ORDER_SEARCH_TEXT_CONDITION);
+            values.push(orderId, like, like, like, like);
+        }
+        if (params.status?.length) {
+            conditions.push('o.status IN (?)');
+            values.push(params.status);
+        }
+        if (params.payment_status?.length) {
+            conditions.push(`COALESCE(p.status, 'unpaid') IN (?)`);
+            values.push(params.payment_status);
+        }
+        if (params.promotion_code) {
+            conditions.push('o.promotion_code = ?');
+            values.push(params.promotion_code);
+        }
+        if (params.min_total !== undefined) {
+            conditions.push('o.total >= ?');
+            values.push(params.min_total);
+        }
+        if (params.max_total !== undefined) {
+            conditions.push('o.total <= ?');
+            values.push(params.max_total);
+        }
+        if (params.from) {
+            conditions.push('o.created_at >= ?');
+            values.push(params.from);
+        }
+        if (params.to) {
+            conditions.push('o.created_at < DATE_ADD(?, INTERVAL 1 DAY)');
+            values.push(params.to);
+        }
+        if (params.user_id) {
+            conditions.push('o.user_id = ?');
+            values.push(params.user_id);
+        }
+
+        const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+        const dir = params.direction === 'asc' ? 'ASC' : 'DESC';
+        const sortColumn = params.sort === 'status'
+            ? `FIELD(o.status, ${Object.keys(ORDER_STATUS_TRANSITIONS).map(s => db.escape(s)).join(', ')})`
+            : `o.${params.sort}`;
+        const orderBy = `ORDER BY ${sortColumn} ${dir}, o.id ${dir}`;
+
+        const [countRows]: any = await db.query(COUNT_SEARCH_ORDERS(where), values);
+        const total = Number(countRows[0]?.total ?? 0);
+        const offset = (params.page - 1) * params.page_size;
+        const [rows]: any = total > offset
+            ? await db.query(SEARCH_ORDERS(where, orderBy), [...values, params.page_size, offset])
+            : [[]];
+
+        const { sort, direction, page, page_size, ...filters } = params;
+        return {
+            data: rows.map((r: any) => ({
+                id: r.id,
+                user_id: r.user_id,
+                customer: { first_name: r.first_name, last_name: r.last_name, email: r.email },
+                status: r.status,
+                status_label: mapOrderStatus(r.status),
+                payment_status: r.payment_status,
+                total: Number(r.total),
+                total_paid: r.total_paid !== null ? Number(r.total_paid) : null,
+                discount_amount: r.discount_amount !== null ? Number(r.discount_amount) : null,
+                promotion_code: r.promotion_code || null,
+                items_count: Number(r.items_count),
+                tracking_number: r.tracking_number ?? null,
+                replacement_for_order_id: r.replacement_for_order_id ?? null,
+                archived_at: r.archived_at ?? null,
+                created_at: r.created_at,
+                updated_at: r.updated_at,
+            })),
+            pagination: {
+                page,
+                page_size,
+                total,
+                total_pages: Math.ceil(total / page_size),
+                has_next: offset + rows.length < total,
+            },
+            sort: { by: sort, direction },
+            filters,
+        };
+    },
+};
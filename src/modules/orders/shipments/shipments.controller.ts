@@ -0,0 +1,78 @@
+import { Response } from 'express';
+import { db } from '../../../config/config';
+import { ShipmentsService } from './shipments.service';
+import { AuthenticatedRequest } from '../../../middlewares/auth.middleware';
+
+/**
+ * @function getOrderShipments
+ * @summary Lista los envíos (bultos) de un pedido con su seguimiento
+ * @param {AuthenticatedRequest} req - Request con `params.id` del pedido y `user` extraído del JWT
+ * @param {Response} res - Lista de envíos con sus artículos
+ * @throws 403 - Si el pedido no pertenece al usuario y no es admin
+ * @security JWT
+ * @example
+ * GET /api/orders/123/shipments
+ */
+export const getOrderShipments = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const [rows]: any = await db.query('SELECT user_id FROM orders WHERE id = ?', [orderId]);
+        if (!rows.length) return res.status(404).json({ message: 'Pedido no encontrado' });
+        if (req.user!.role !== 'admin' && rows[0].user_id !== req.user!.id) {
+            return res.status(403).json({ message: 'No tienes permiso para ver este pedido' });
+        }
+
+        const shipments = await ShipmentsService.getOrderShipments(orderId);
+        res.json(shipments);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * @function createShipment
+ * @summary Registra un envío (bulto) de un pedido
+ * @description Si es el primer envío de un pedido pagado, el pedido pasa a `shipped` y se notifica al cliente.
+ * @param {AuthenticatedRequest} req - Request con `params.id` y body `{ carrier?, tracking_number?, tracking_url?, shipped_at?, items? }`
+ * @param {Response} res - Envío creado
+ * @security JWT (admin)
+ * @example
+ * POST /api/orders/123/shipments
+ * body: { carrier: "correos", tracking_number: "PK123456789ES", items: [{ order_item_id: 31, quantity: 1 }] }
+ */
+export const createShipment = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = parseInt(req.params.id!);
+        const { carrier, tracking_number, tracking_url, shipped_at, items } = req.body;
+        if (items !== undefined && !Array.isArray(items)) {
+            return res.status(400).json({ message: 'items debe ser una lista de { order_item_id, quantity }' });
+        }
+
+        const shipment = await ShipmentsService.createShipment(orderId, { carrier, tracking_number, tracking_url, shipped_at, items }, req.user!.id);
+        res.status(201).json(shipment);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * @function updateShipment
+ * @summary Actualiza un envío (transportista, seguimiento, fechas de envío/entrega)
+ * @description Al informar `delivered_at` en el último bulto pendiente, el pedido pasa a `delivered`.
+ * @param {AuthenticatedRequest} req - Request con `params.shipmentId` y body con los campos a modificar
+ * @param {Response} res - Envío actualizado
+ * @security JWT (admin)
+ * @example
+ * PUT /api/orders/shipments/7
+ * body: { delivered_at: "2026-03-02T10:15:00Z" }
+ */
+export const updateShipment = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const shipmentId = parseInt(req.params.shipmentId!);
+        const { carrier, tracking_number, tracking_url, shipped_at, delivered_at } = req.body;
+        const shipment = await ShipmentsService.updateShipment(shipmentId, { carrier, tracking_number, tracking_url, shipped_at, delivered_at }, req.user!.id);
+        res.json(shipment);
+    } catch (error: any) {
+        res.status(400).json({ message: error.message });
+    }
+};
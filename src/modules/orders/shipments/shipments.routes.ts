@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { getOrderShipments, createShipment, updateShipment } from './shipments.controller';
+import { authenticate, authorize } from '../../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route GET /api/orders/:id/shipments
+ * @group Shipments - Envíos de pedidos
+ * @summary Lista los envíos (bultos) de un pedido con transportista, seguimiento y artículos
+ * @param {string} id.path.required - ID del pedido
+ * @returns {Array} 200 - Envíos del pedido
+ * @returns {object} 403 - Si el pedido no pertenece al usuario y no es admin
+ * @security JWT
+ */
+router.get('/:id/shipments', authenticate, getOrderShipments);
+
+/**
+ * @route POST /api/orders/:id/shipments
+ * @group Shipments - Envíos de pedidos
+ * @summary Registra un envío (admin). Un pedido puede tener varios bultos.
+ * @param {string} id.path.required - ID del pedido
+ * @param {object} req.body - { carrier?, tracking_number?, tracking_url?, shipped_at?, items?: [{ order_item_id, quantity }] }
+ * @returns {object} 201 - Envío creado
+ * @returns {object} 400 - Pedido no pagado o unidades ya enviadas
+ * @security JWT (admin)
+ */
+router.post('/:id/shipments', authenticate, authorize('admin'), createShipment);
+
+/**
+ * @route PUT /api/orders/shipments/:shipmentId
+ * @group Shipments - Envíos de pedidos
+ * @summary Actualiza un envío (admin): transportista, seguimiento, fecha de envío o de entrega
+ * @param {string} shipmentId.path.required - ID del envío
+ * @returns {object} 200 - Envío actualizado
+ * @security JWT (admin)
+ */
+router.put('/shipments/:shipmentId', authenticate, authorize('admin'), updateShipment);
+
+export default router;
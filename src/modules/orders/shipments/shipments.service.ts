@@ -0,0 +1,340 @@
+import { db } from '../../../config/config';
+import { withTransaction } from '../../../database/db';
+import { GET_ORDER_ITEMS_FOR_RETURN } from '../../../database/queries/orders.queries';
+import {
+    LOCK_ORDER_FOR_SHIPMENT,
+    GET_SHIPPED_QUANTITIES_BY_ORDER,
+    INSERT_SHIPMENT,
+    INSERT_SHIPMENT_ITEM,
+    GET_SHIPMENT_BY_ID,
+    UPDATE_SHIPMENT,
+    GET_SHIPMENTS_BY_ORDER_IDS,
+    GET_SHIPMENT_ITEMS_BY_SHIPMENT_IDS,
+    MARK_ORDER_SHIPMENTS_DELIVERED
+} from '../../../database/queries/shipments.queries';
+import { OrdersService } from '../orders.service';
+import { sendOrderShippedEmail } from '../notifications/send-order-shipped';
+
+/**
+ * Línea de pedido incluida en un envío.
+ */
+export interface ShipmentItem {
+    order_item_id: number;
+    product_id: number;
+    product_name: string | null;
+    sku: string | null;
+    size: string | null;
+    color: string | null;
+    quantity: number;
+}
+
+/**
+ * Envío (bulto) de un pedido. Un pedido puede tener varios.
+ */
+export interface Shipment {
+    id: number;
+    order_id: number;
+    carrier: string | null;
+    carrier_label: string | null;
+    tracking_number: string | null;
+    tracking_url: string | null;
+    shipped_at: string | Date | null;
+    delivered_at: string | Date | null;
+    items: ShipmentItem[];
+}
+
+/**
+ * Datos para registrar un envío.
+ * Si no se indican `items` el bulto incluye todas las unidades pendientes de enviar.
+ */
+export interface CreateShipmentInput {
+    carrier?: string | null;
+    tracking_number?: string | null;
+    tracking_url?: string | null;
+    shipped_at?: string | Date | null;
+    items?: Array<{ order_item_id: number; quantity: number }>;
+}
+
+/**
+ * Datos modificables de un envío (los que no se indiquen se mantienen).
+ */
+export interface UpdateShipmentInput {
+    carrier?: string | null;
+    tracking_number?: string | null;
+    tracking_url?: string | null;
+    shipped_at?: string | Date | null;
+    delivered_at?: string | Date | null;
+}
+
+/**
+ * Transportistas conocidos: nombre legible y URL de seguimiento (`{tracking}` se sustituye por el número).
+ * Se admite cualquier otro transportista, pero entonces la URL de seguimiento debe indicarse a mano.
+ */
+const CARRIERS: Record<string, { label: string; trackingUrl: string }> = {
+    correos: { label: 'Correos', trackingUrl: 'https://www.correos.es/es/es/herramientas/localizador/envios/detalle?tracking-number={tracking}' },
+    seur: { label: 'SEUR', trackingUrl: 'https://www.seur.com/livetracking/?segOnlineIdentificador={tracking}' },
+    mrw: { label: 'MRW', trackingUrl: 'https://www.mrw.es/seguimiento_envios/MRW_resultados_consultas.asp?modo=nacional&envio={tracking}' },
+    gls: { label: 'GLS', trackingUrl: 'https://gls-group.com/ES/es/seguimiento-envio?match={tracking}' },
+    dhl: { label: 'DHL', trackingUrl: 'https://www.dhl.com/es-es/home/tracking.html?tracking-id={tracking}' },
+    ups: { label: 'UPS', trackingUrl: 'https://www.ups.com/track?tracknum={tracking}' },
+};
+
+/**
+ * Normaliza un texto opcional (cadena vacía → null)
+ * @param {unknown} value Valor recibido
+ * @returns {string | null} Texto recortado o null
+ */
+function optionalText(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+    const text = String(value).trim();
+    return text.length ? text : null;
+}
+
+/**
+ * Convierte una fecha opcional en `Date` validando el formato
+ * @param {unknown} value Fecha (ISO 8601 o Date)
+ * @param {string} field Nombre del campo (para el mensaje de error)
+ * @returns {Date | null} Fecha o null
+ * @throws Error si la fecha no es válida
+ */
+function optionalDate(value: unknown, field: string): Date | null {
+    if (value === undefined || value === null || value === '') return null;
+    const date = value instanceof Date ? value : new Date(String(value));
+    if (Number.isNaN(date.getTime())) throw new Error(`Fecha no válida en ${field}`);
+    return date;
+}
+
+/**
+ * URL de seguimiento: la indicada o, si el transportista es conocido, la generada a partir del número
+ * @param {string | null} carrier Transportista
+ * @param {string | null} trackingNumber Número de seguimiento
+ * @param {string | null} trackingUrl URL indicada manualmente
+ * @returns {string | null} URL de seguimiento
+ */
+function resolveTrackingUrl(carrier: string | null, trackingNumber: string | null, trackingUrl: string | null) {
+    if (trackingUrl) return trackingUrl;
+    const known = carrier ? CARRIERS[carrier.toLowerCase()] : undefined;
+    if (!known || !trackingNumber) return null;
+    return known.trackingUrl.replace('{tracking}', encodeURIComponent(trackingNumber));
+}
+
+/**
+ * Servicio de envíos: bultos de un pedido con transportista, seguimiento y unidades enviadas.
+ */
+export const ShipmentsService = {
+    /**
+     * Registrar un envío sin efectos secundarios (no cambia el estado del pedido ni envía emails).
+     * - Solo pedidos pagados (`completed`) o ya enviados (`shipped`, para bultos adicionales).
+     * - No permite enviar más unidades de las compradas sumando los envíos anteriores.
+     * @param {number} orderId ID del pedido
+     * @param {CreateShipmentInput} input Transportista, seguimiento, fecha y líneas
+     * @param {number | null} [createdBy] ID del administrador que lo registra
+     * @returns {Promise<number>} ID del envío creado
+     * @throws Error si el pedido no admite envíos o las líneas no son válidas
+     */
+    async recordShipment(orderId: number, input: CreateShipmentInput, createdBy: number | null = null) {
+        const carrier = optionalText(input.carrier)?.toLowerCase() ?? null;
+        const trackingNumber = optionalText(input.tracking_number);
+        const trackingUrl = resolveTrackingUrl(carrier, trackingNumber, optionalText(input.tracking_url));
+        const shippedAt = optionalDate(input.shipped_at, 'shipped_at') ?? new Date();
+
+        return withTransaction(async (conn) => {
+            const [orderRows]: any = await conn.query(LOCK_ORDER_FOR_SHIPMENT, [orderId]);
+            if (!orderRows.length) throw new Error('Pedido no encontrado');
+            if (!['completed', 'shipped'].includes(orderRows[0].status)) {
+                throw new Error('Solo se pueden registrar envíos de pedidos pagados o ya enviados');
+            }
+
+            const [orderItems]: any = await conn.query(GET_ORDER_ITEMS_FOR_RETURN, [orderId]);
+            const [shippedRows]: any = await conn.query(GET_SHIPPED_QUANTITIES_BY_ORDER, [orderId]);
+            const shipped = new Map<number, number>(shippedRows.map((r: any) => [Number(r.order_item_id), Number(r.shipped_quantity)]));
+
+            // Sin líneas → todas las unidades pendientes de enviar
+            const requested = input.items && input.items.length
+                ? input.items
+                : orderItems
+                    .map((it: any) => ({ order_item_id: it.id, quantity: Number(it.quantity) - (shipped.get(Number(it.id)) ?? 0) }))
+                    .filter((l: any) => l.quantity > 0);
+            if (!requested.length) throw new Error('Todas las unidades del pedido ya tienen un envío registrado');
+
+            const lines = new Map<number, number>();
+            for (const line of requested) {
+                const orderItemId = Number(line.order_item_id);
+                const quantity = Number(line.quantity);
+                const orderItem = orderItems.find((it: any) => Number(it.id) === orderItemId);
+                if (!orderItem) throw new Error(`La línea ${line.order_item_id} no pertenece a este pedido`);
+                if (!Number.isInteger(quantity) || quantity <= 0) throw new Error(`Cantidad no válida para la línea ${orderItemId}`);
+
+                const total = (lines.get(orderItemId) ?? 0) + quantity;
+                const pending = Number(orderItem.quantity) - (shipped.get(orderItemId) ?? 0);
+                if (total > pending) {
+                    throw new Error(`Solo quedan ${Math.max(pending, 0)} unidad(es) por enviar de ${orderItem.product_name ?? `la línea ${orderItemId}`}`);
+                }
+                lines.set(orderItemId, total);
+            }
+
+            const [res]: any = await conn.query(INSERT_SHIPMENT, [orderId, carrier, trackingNumber, trackingUrl, shippedAt, createdBy]);
+            const shipmentId = res.insertId;
+            for (const [orderItemId, quantity] of lines) {
+                await conn.query(INSERT_SHIPMENT_ITEM, [shipmentId, orderItemId, quantity]);
+            }
+            return shipmentId as number;
+        });
+    },
+
+    /**
+     * Crear un envío (bulto) de un pedido (admin).
+     * - Si es el primer envío de un pedido pagado, el pedido pasa a `shipped` y se envía el email de envío.
+     * - Si el pedido ya estaba enviado (bulto adicional), se envía el email de envío solo con este bulto destacado.
+     * @param {number} orderId ID del pedido
+     * @param {CreateShipmentInput} input Transportista, seguimiento, fecha y líneas
+     * @param {number | null} [createdBy] ID del administrador
+     * @returns {Promise<Shipment>} Envío creado
+     */
+    async createShipment(orderId: number, input: CreateShipmentInput, createdBy: number | null = null) {
+        const shipmentId = await this.recordShipment(orderId, input, createdBy);
+        const shipment = await this.getShipment(shipmentId);
+
+        const [orderRows]: any = await db.query('SELECT user_id, status FROM orders WHERE id = ?', [orderId]);
+        const order = orderRows[0];
+        if (order?.status === 'completed') {
+            // El email de envío lo manda updateOrderStatus (con todos los bultos del pedido)
+            const tracking = [shipment.carrier_label, shipment.tracking_number].filter(Boolean).join(' ');
+            const note = tracking ? `Envío #${shipmentId} (${tracking})` : `Envío #${shipmentId}`;
+            await OrdersService.updateOrderStatus(orderId, 'shipped', { note }, createdBy);
+        } else if (order) {
+            const orderForEmail = await OrdersService.getOrderWithItems(orderId, order.user_id).catch(() => null);
+            if (orderForEmail) await sendOrderShippedEmail(orderForEmail as any, shipment);
+        }
+
+        return shipment;
+    },
+
+    /**
+     * Actualizar los datos de un envío (admin).
+     * - Al informar `delivered_at`: si todas las unidades están enviadas y todos los bultos entregados,
+     *   el pedido pasa a `delivered` (y se envía el email de entrega).
+     * @param {number} shipmentId ID del envío
+     * @param {UpdateShipmentInput} input Campos a modificar
+     * @param {number | null} [updatedBy] ID del administrador
+     * @returns {Promise<Shipment>} Envío actualizado
+     * @throws Error si el envío no existe o las fechas no son válidas
+     */
+    async updateShipment(shipmentId: number, input: UpdateShipmentInput, updatedBy: number | null = null) {
+        const [rows]: any = await db.query(GET_SHIPMENT_BY_ID, [shipmentId]);
+        if (!rows.length) throw new Error('Envío no encontrado');
+        const current = rows[0];
+
+        const carrier = input.carrier !== undefined ? optionalText(input.carrier)?.toLowerCase() ?? null : current.carrier;
+        const trackingNumber = input.tracking_number !== undefined ? optionalText(input.tracking_number) : current.tracking_number;
+        const manualUrl = input.tracking_url !== undefined ? optionalText(input.tracking_url) : null;
+        // Si cambia el transportista o el número sin URL manual, se regenera la URL de seguimiento
+        const trackingUrl = input.tracking_url !== undefined || input.carrier !== undefined || input.tracking_number !== undefined
+            ? resolveTrackingUrl(carrier, trackingNumber, manualUrl)
+            : current.tracking_url;
+        const shippedAt = input.shipped_at !== undefined ? optionalDate(input.shipped_at, 'shipped_at') ?? current.shipped_at : current.shipped_at;
+        const deliveredAt = input.delivered_at !== undefined ? optionalDate(input.delivered_at, 'delivered_at') : current.delivered_at;
+
+        await db.query(UPDATE_SHIPMENT, [carrier, trackingNumber, trackingUrl, shippedAt, deliveredAt, shipmentId]);
+
+        // 🔹 Si ya se han entregado todos los bultos, marcar el pedido como entregado
+        if (deliveredAt && !current.delivered_at) {
+            const [orderRows]: any = await db.query('SELECT status FROM orders WHERE id = ?', [current.order_id]);
+            if (orderRows[0]?.status === 'shipped' && await this.isFullyDelivered(current.order_id)) {
+                await OrdersService.updateOrderStatus(current.order_id, 'delivered', { note: 'Todos los envíos entregados' }, updatedBy);
+            }
+        }
+
+        return this.getShipment(shipmentId);
+    },
+
+    /**
+     * Indica si todas las unidades del pedido tienen envío y todos los envíos están entregados
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<boolean>} `true` si el pedido está completamente entregado
+     */
+    async isFullyDelivered(orderId: number) {
+        const [orderItems]: any = await db.query(GET_ORDER_ITEMS_FOR_RETURN, [orderId]);
+        const [shippedRows]: any = await db.query(GET_SHIPPED_QUANTITIES_BY_ORDER, [orderId]);
+        const shipped = new Map<number, number>(shippedRows.map((r: any) => [Number(r.order_item_id), Number(r.shipped_quantity)]));
+        const allShipped = orderItems.every((it: any) => (shipped.get(Number(it.id)) ?? 0) >= Number(it.quantity));
+
+        const shipments = (await this.getShipmentsByOrderIds([orderId])).get(orderId) ?? [];
+        return allShipped && shipments.length > 0 && shipments.every(s => s.delivered_at);
+    },
+
+    /**
+     * Marcar como entregados todos los envíos de un pedido que aún no tengan fecha de entrega
+     * (cuando el administrador marca el pedido como `delivered` directamente).
+     * @param {number} orderId ID del pedido
+     */
+    async markOrderDelivered(orderId: number) {
+        await db.query(MARK_ORDER_SHIPMENTS_DELIVERED, [orderId]);
+    },
+
+    /**
+     * Obtener un envío con sus líneas
+     * @param {number} shipmentId ID del envío
+     * @returns {Promise<Shipment>} Envío
+     * @throws Error si no existe
+     */
+    async getShipment(shipmentId: number): Promise<Shipment> {
+        const [rows]: any = await db.query(GET_SHIPMENT_BY_ID, [shipmentId]);
+        if (!rows.length) throw new Error('Envío no encontrado');
+        const shipments = (await this.getShipmentsByOrderIds([rows[0].order_id])).get(rows[0].order_id) ?? [];
+        const shipment = shipments.find(s => s.id === shipmentId);
+        if (!shipment) throw new Error('Envío no encontrado');
+        return shipment;
+    },
+
+    /**
+     * Obtener los envíos de varios pedidos, agrupados por pedido
+     * @param {number[]} orderIds IDs de los pedidos
+     * @returns {Promise<Map<number, Shipment[]>>} Envíos por ID de pedido
+     */
+    async getShipmentsByOrderIds(orderIds: number[]) {
+        const result = new Map<number, Shipment[]>();
+        if (!orderIds.length) return result;
+
+        const [rows]: any = await db.query(GET_SHIPMENTS_BY_ORDER_IDS, [orderIds]);
+        if (!rows.length) return result;
+        const [itemRows]: any = await db.query(GET_SHIPMENT_ITEMS_BY_SHIPMENT_IDS, [rows.map((r: any) => r.id)]);
+
+        for (const r of rows) {
+            const shipment: Shipment = {
+                id: r.id,
+                order_id: r.order_id,
+                carrier: r.carrier ?? null,
+                carrier_label: r.carrier ? CARRIERS[r.carrier]?.label ?? r.carrier : null,
+                tracking_number: r.tracking_number ?? null,
+                tracking_url: r.tracking_url ?? null,
+                shipped_at: r.shipped_at ?? null,
+                delivered_at: r.delivered_at ?? null,
+                items: itemRows
+                    .filter((it: any) => it.shipment_id === r.id)
+                    .map((it: any) => ({
+                        order_item_id: it.order_item_id,
+                        product_id: it.product_id,
+                        product_name: it.product_name ?? null,
+                        sku: it.sku ?? null,
+                        size: it.size ?? null,
+                        color: it.color ?? null,
+                        quantity: it.quantity,
+                    })),
+            };
+            const list = result.get(r.order_id) ?? [];
+            list.push(shipment);
+            result.set(r.order_id, list);
+        }
+        return result;
+    },
+
+    /**
+     * Obtener los envíos de un pedido
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<Shipment[]>} Envíos del pedido
+     */
+    async getOrderShipments(orderId: number) {
+        return (await this.getShipmentsByOrderIds([orderId])).get(orderId) ?? [];
+    },
+};
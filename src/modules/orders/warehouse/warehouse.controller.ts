@@ -0,0 +1,56 @@
+import { Response } from 'express';
+import { WarehouseService } from './warehouse.service';
+import { AuthenticatedRequest } from '../../../middlewares/auth.middleware';
+
+/**
+ * @function getPackingSlip
+ * @summary Genera el PDF del albarán de un pedido (sin precios, con el mensaje de regalo si lo hay)
+ * @param {AuthenticatedRequest} req - Request autenticado (admin), con `req.params.id`
+ * @param {Response} res - PDF del albarán o error en formato JSON
+ * @returns {Promise<void>}
+ * @throws 400 - ID no válido o error generando el PDF
+ * @throws 404 - Si el pedido no existe
+ * @security JWT (admin)
+ * @example
+ * GET /api/orders/123/packing-slip
+ */
+export const getPackingSlip = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const orderId = Number(req.params.id);
+        if (!Number.isInteger(orderId) || orderId < 1) return res.status(400).json({ message: 'ID de pedido no válido' });
+
+        const { order, pdf } = await WarehouseService.generatePackingSlip(orderId);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename=albaran_${order.id}.pdf`);
+        res.send(pdf);
+    } catch (error: any) {
+        if (error.message === 'Pedido no encontrado') return res.status(404).json({ message: error.message });
+        console.error('Error generando albarán:', error);
+        res.status(400).json({ message: error.message });
+    }
+};
+
+/**
+ * @function getPickingList
+ * @summary Genera el PDF de la lista de picking: SKUs agregados de todos los pedidos en estado `completed`
+ * @param {AuthenticatedRequest} req - Request autenticado (admin)
+ * @param {Response} res - PDF de la lista de picking o error en formato JSON
+ * @returns {Promise<void>}
+ * @throws 400 - Error generando el PDF
+ * @security JWT (admin)
+ * @example
+ * GET /api/orders/picking-list
+ */
+export const getPickingList = async (_req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { pdf } = await WarehouseService.generatePickingList();
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename=picking_${new Date().toISOString().slice(0, 10)}.pdf`);
+        res.send(pdf);
+    } catch (error: any) {
+        console.error('Error generando lista de picking:', error);
+        res.status(400).json({ message: error.message });
+    }
+};
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { getPackingSlip, getPickingList } from './warehouse.controller';
+import { authenticate, authorize } from '../../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route GET /api/orders/picking-list
+ * @group Warehouse - Documentos de almacén
+ * @summary Lista de picking en PDF: SKUs agregados de todos los pedidos en estado `completed` (pagados y sin enviar)
+ * @returns {file} 200 - PDF de la lista de picking
+ * @returns {object} 400 - Error generando el PDF
+ * @security JWT (admin)
+ */
+router.get('/picking-list', authenticate, authorize('admin'), getPickingList);
+
+/**
+ * @route GET /api/orders/:id/packing-slip
+ * @group Warehouse - Documentos de almacén
+ * @summary Albarán en PDF de un pedido: productos (SKU, talla, color, unidades), dirección de envío y mensaje de regalo, sin precios
+ * @param {string} id.path.required - ID del pedido
+ * @returns {file} 200 - PDF del albarán
+ * @returns {object} 404 - Pedido no encontrado
+ * @security JWT (admin)
+ */
+router.get('/:id/packing-slip', authenticate, authorize('admin'), getPackingSlip);
+
+export default router;
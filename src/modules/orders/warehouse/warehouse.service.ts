@@ -0,0 +1,115 @@
+import path from 'path';
+import fs from 'fs';
+import ejs from 'ejs';
+import { db } from '../../../config/config';
+import { GET_ORDERS_TO_PICK } from '../../../database/queries/warehouse.queries';
+import { InvoiceService, OrderData, renderHTMLToPDF } from '../invoice/invoice.service';
+
+/**
+ * Línea agregada de la lista de picking: una variante (SKU) y las unidades a preparar de cada pedido.
+ */
+export interface PickingListLine {
+    sku: string | null;
+    name: string;
+    size: string | null;
+    color: string | null;
+    total_quantity: number;
+    orders: Array<{ order_id: number; quantity: number }>;
+}
+
+/**
+ * Lista de picking: todas las variantes a preparar de los pedidos en estado `completed`.
+ */
+export interface PickingList {
+    generated_at: string;
+    order_ids: number[];
+    total_units: number;
+    lines: PickingListLine[];
+}
+
+/**
+ * Renderiza una plantilla EJS de `warehouse/templates`.
+ * @param {string} name - Nombre del fichero de la plantilla
+ * @param {object} data - Variables de la plantilla
+ * @returns {string} HTML renderizado
+ */
+function renderTemplate(name: string, data: object): string {
+    const template = fs.readFileSync(path.join(__dirname, 'templates', name), 'utf-8');
+    return ejs.render(template, data);
+}
+
+/**
+ * Servicio de documentos de almacén (albarán y lista de picking), generados a partir de los mismos
+ * datos de pedido que la factura (`InvoiceService.getOrderData`). Ninguno de los dos muestra precios.
+ */
+export const WarehouseService = {
+    /**
+     * Genera el PDF del albarán de un pedido: dirección de envío, productos (SKU, talla, color, unidades)
+     * y, si es un regalo, el mensaje y las indicaciones de envoltorio.
+     * @param {number} orderId - ID del pedido
+     * @returns {Promise<{ order: OrderData, pdf: Buffer }>} Datos del pedido y PDF del albarán
+     * @throws Error si el pedido no existe
+     * @example
+     * const { pdf } = await WarehouseService.generatePackingSlip(123);
+     */
+    async generatePackingSlip(orderId: number) {
+        const order = await InvoiceService.getOrderData(orderId);
+        const pdf = await renderHTMLToPDF(renderTemplate('packing-slip.html', { order }));
+        return { order, pdf };
+    },
+
+    /**
+     * Lista de picking: agrega por SKU las unidades de todos los pedidos en estado `completed`
+     * (pagados y sin enviar), indicando cuántas corresponden a cada pedido.
+     * - Las variantes sin SKU se agrupan por nombre, talla y color.
+     * - Las líneas se ordenan por SKU (las que no tienen SKU, al final).
+     * @returns {Promise<PickingList>} Pedidos incluidos, unidades totales y líneas agregadas
+     * @example
+     * const list = await WarehouseService.getPickingList();
+     */
+    async getPickingList(): Promise<PickingList> {
+        const [rows]: any = await db.query(GET_ORDERS_TO_PICK);
+        const orders: OrderData[] = await Promise.all(rows.map((r: any) => InvoiceService.getOrderData(r.id)));
+
+        const lines = new Map<string, PickingListLine>();
+        for (const order of orders) {
+            for (const item of order.items) {
+                const key = item.sku || `${item.name}|${item.size ?? ''}|${item.color ?? ''}`;
+                let line = lines.get(key);
+                if (!line) {
+                    line = { sku: item.sku || null, name: item.name, size: item.size ?? null, color: item.color ?? null, total_quantity: 0, orders: [] };
+                    lines.set(key, line);
+                }
+                const quantity = Number(item.quantity);
+                line.total_quantity += quantity;
+                const existing = line.orders.find(o => o.order_id === order.id);
+                if (existing) existing.quantity += quantity;
+                else line.orders.push({ order_id: order.id, quantity });
+            }
+        }
+
+        // Ordenar por SKU (las variantes sin SKU al final)
+        const sorted = [...lines.values()].sort((a, b) =>
+            Number(a.sku === null) - Number(b.sku === null) || (a.sku ?? '').localeCompare(b.sku ?? '') || a.name.localeCompare(b.name)
+        );
+
+        return {
+            generated_at: new Date().toISOString(),
+            order_ids: orders.map(o => o.id),
+            total_units: sorted.reduce((acc, l) => acc + l.total_quantity, 0),
+            lines: sorted,
+        };
+    },
+
+    /**
+     * Genera el PDF de la lista de picking (ver `getPickingList`).
+     * @returns {Promise<{ list: PickingList, pdf: Buffer }>} Lista de picking y su PDF
+     * @example
+     * const { pdf } = await WarehouseService.generatePickingList();
+     */
+    async generatePickingList() {
+        const list = await this.getPickingList();
+        const pdf = await renderHTMLToPDF(renderTemplate('picking-list.html', { list }));
+        return { list, pdf };
+    },
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { PaymentsService } from './payments.service';
+import { WebhookEventsService } from './webhook-events/webhook-events.service';
 import { stripe } from '../../integrations/stripe.service';
 import Stripe from 'stripe';
 
@@ -41,6 +42,7 @@ export const PaymentsController = {
     /**
      * Handler para recibir eventos de Stripe Webhook.
      * - Valida la firma usando `stripe-signature` del header.
+     * - Guarda el evento en `webhook_events` y lo procesa solo si no se ha procesado ya (Stripe reintenta los webhooks).
      * - Procesa eventos relacionados con pagos, como `checkout.session.completed`.
      * - Actualiza base de datos, genera factura y envía notificaciones.
      *
@@ -49,7 +51,8 @@ export const PaymentsController = {
      * @param {string} req.headers['stripe-signature'] - Firma enviada por Stripe para validar el webhook.
      * @param {Request['rawBody']} req.rawBody - Cuerpo crudo necesario para validar la firma de Stripe.
      * @param {Response} res - Objeto de response de Express.
-     * @returns {Promise<void>} - Responde con `{ received: true }` si se procesó correctamente, o con error HTTP 400/500.
+     * @returns {Promise<void>} - Responde con `{ received: true }` si se procesó (o ya estaba procesado, `duplicate: true`),
+     * 409 si otra entrega del mismo evento lo está procesando (Stripe lo reintentará), o con error HTTP 400/500.
      *
      * @example
      * ```ts
@@ -74,8 +77,11 @@ export const PaymentsController = {
         }
 
         try {
-            await PaymentsService.handleWebhook(event);
-            res.json({ received: true });
+            const outcome = await WebhookEventsService.receive(event);
+            if (outcome === 'in_progress') {
+                return res.status(409).json({ message: 'El evento se está procesando' });
+            }
+            res.json({ received: true, ...(outcome === 'duplicate' ? { duplicate: true } : {}) });
         } catch (err) {
             console.error('Error procesando webhook:', err);
             res.status(500).send('Error interno');
@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import express from 'express';
 import { PaymentsController } from './payments.controller';
+import { idempotencyByTarget } from '../../middlewares/idempotency.middleware';
+import webhookEventsRoutes from './webhook-events/webhook-events.routes';
 
 const router = Router();
 
+// Eventos de Stripe guardados: listado y reproceso (admin)
+router.use('/webhook-events', webhookEventsRoutes);
+
 /**
  * @route POST /payments/checkout-session
  * @desc Crear una sesión de Stripe Checkout para un pedido específico.
@@ -12,6 +17,8 @@ const router = Router();
  *
  * @body {number} orderId - ID del pedido a pagar.
  * @body {string} frontendUrl - URL del frontend para redirección después del pago.
+ * @header {string} [Idempotency-Key] - Si se repite, devuelve la misma sesión en vez de crear otra.
+ * La clave se guarda por pedido (la ruta es pública), así no se mezcla con la de otro cliente.
  * @returns {Promise<{url: string}>} - URL de la sesión de pago.
  *
  * @example
@@ -19,13 +26,18 @@ const router = Router();
  * body: { orderId: 123, frontendUrl: "https://mi-frontend.com" }
  * response: { url: "https://checkout.stripe.com/..." }
  */
-router.post('/checkout-session', PaymentsController.createCheckout);
+router.post(
+    '/checkout-session',
+    idempotencyByTarget(req => req.body?.orderId ? `order:${req.body.orderId}` : null),
+    PaymentsController.createCheckout
+);
 
 /**
  * @route POST /payments/webhook
  * @desc Endpoint para recibir eventos de Stripe Webhook.
  * - Stripe enviará eventos como `checkout.session.completed`.
  * - Requiere body crudo para validar la firma (`stripe-signature`).
+ * - Cada evento se guarda en `webhook_events`; un evento ya procesado no se vuelve a procesar.
  *
  * @header {string} stripe-signature - Firma enviada por Stripe para validar el webhook.
  * @note Se debe usar `express.raw({ type: 'application/json' })` en el middleware para que funcione correctamente.
@@ -1,18 +1,549 @@
 import { stripe } from '../../integrations/stripe.service';
-import { db } from '../../config/config';
+import { db, BASE_URL, STRIPE_PAYMENT_METHOD_TYPES } from '../../config/config';
+import { withTransaction } from '../../database/db';
 import { RowDataPacket } from 'mysql2';
-import { GET_ORDER_BY_ID, UPDATE_ORDER_STATUS, INSERT_PAYMENT_RECORD, UPDATE_ORDER_TOTALS } from '../../database/queries/payments.queries';
+import {
+    GET_ORDER_BY_ID,
+    INSERT_PAYMENT_RECORD,
+    UPDATE_ORDER_TOTALS,
+    SET_ORDER_CHECKOUT_SESSION,
+    GET_ORDER_ITEMS_FOR_CHECKOUT,
+    SETTLE_PAYMENT,
+    GET_PAYMENT_BY_TRANSACTION,
+    LOCK_PAYMENT_BY_TRANSACTION,
+    CLAIM_ORDER_CONFIRMATION,
+    RELEASE_ORDER_CONFIRMATION,
+    MARK_PAYMENT_UNAPPLIED,
+    MARK_PAYMENT_FAILED,
+    GET_ORDER_ID_BY_TRANSACTION,
+    UPDATE_ORDER_DISPUTE_OPENED,
+    UPDATE_ORDER_DISPUTE_CLOSED
+} from '../../database/queries/payments.queries';
 import { sendOrderConfirmationEmail } from '../orders/notifications/send-order-confirmation';
+import { sendOrderExpiredEmail } from '../orders/notifications/send-order-expired';
+import { sendPaymentFailedEmail } from '../orders/notifications/send-payment-failed';
 import { InvoiceService, OrderData } from '../orders/invoice/invoice.service';
 import Stripe from 'stripe';
-import { notifyAdminPaymentReceived } from '../../utils/notifications.util';
-import { CartService } from '../cart/cart.service';
+import { notifyAdminPaymentReceived, notifyAdminDisputeOpened, notifyAdminDisputeClosed } from '../../utils/notifications.util';
+import { mapDisputeStatus } from '../../utils/mappers.utils';
+import { DELETE_CART_BY_USER } from '../../database/queries/cart.queries';
+import { LOCK_ORDER_FOR_UPDATE } from '../../database/queries/orders.queries';
+import { OrdersService } from '../orders/orders.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { roundMoney, splitAmount } from '../../utils/money.utils';
+import { TaxService } from '../taxes/taxes.service';
+import { formatMoney } from '../currencies/currencies.rules';
 
 interface CheckoutItem {
-    id: number;
     name: string;
+    description: string | null;
+    image: string | null;
     price: number;
     quantity: number;
+    vat_rate: number;
+    metadata: Record<string, string>;
+}
+
+/** Stripe Checkout admite como máximo 100 líneas por sesión */
+const STRIPE_MAX_LINE_ITEMS = 100;
+
+/** IDs de los `TaxRate` de Stripe por tipo de IVA (se crean la primera vez que se necesitan) */
+const stripeTaxRateIds = new Map<number, string>();
+
+/**
+ * Obtiene (o crea) en Stripe el tipo impositivo inclusivo de un tipo de IVA, para que el checkout y el recibo
+ * muestren el IVA incluido en cada línea. Se identifican por `metadata.vat_rate`.
+ * @param {number} rate Tipo de IVA (%), 0 en destinos exentos
+ * @returns {Promise<string>} ID del `TaxRate` de Stripe
+ */
+async function getStripeTaxRateId(rate: number): Promise<string> {
+    const cached = stripeTaxRateIds.get(rate);
+    if (cached) return cached;
+
+    const existing = await stripe.taxRates.list({ active: true, inclusive: true, limit: 100 });
+    for (const taxRate of existing.data) {
+        if (taxRate.metadata?.vat_rate !== undefined) stripeTaxRateIds.set(Number(taxRate.metadata.vat_rate), taxRate.id);
+    }
+    if (stripeTaxRateIds.has(rate)) return stripeTaxRateIds.get(rate)!;
+
+    const created = await stripe.taxRates.create({
+        display_name: rate > 0 ? 'IVA' : 'IVA exento',
+        description: rate > 0 ? `IVA ${rate}%` : 'Operación exenta de IVA',
+        percentage: rate,
+        inclusive: true,
+        metadata: { vat_rate: String(rate) },
+    });
+    stripeTaxRateIds.set(rate, created.id);
+    return created.id;
+}
+
+/**
+ * Líneas de Stripe Checkout de un pedido, a partir de `order_items`: nombre, imagen, talla y color, precio unitario
+ * y unidades de cada producto, más el envoltorio de regalo y el envío. Cada línea lleva su tipo de IVA.
+ * - Los productos se cobran por `orders.total` menos el envoltorio y el envío; si es menor que la suma de las líneas
+ *   (crédito de un cambio), la diferencia se reparte entre ellas. Una línea cuyo importe no se divide en unidades
+ *   exactas va como una sola unidad (`Nombre (x3)`).
+ * - Si el pedido tiene más líneas de las que admite Stripe, los productos se agrupan en una línea por tipo de IVA.
+ * @param {RowDataPacket} order Pedido (fila de `GET_ORDER_BY_ID`)
+ * @returns {Promise<CheckoutItem[]>} Líneas; su suma coincide exactamente con `orders.total`
+ * @throws Error si las líneas no suman el total del pedido
+ */
+async function buildCheckoutItems(order: RowDataPacket): Promise<CheckoutItem[]> {
+    const wrapFee = Number(order.gift_wrap_fee ?? 0);
+    const shippingCost = Number(order.shipping_cost ?? 0);
+    const { lines: taxLines } = await TaxService.getOrderTaxLines(db, order.id);
+    const [rows]: any = await db.query(GET_ORDER_ITEMS_FOR_CHECKOUT, [order.id]);
+    const rateByItem = new Map(taxLines.filter(l => l.kind === 'item').map(l => [l.order_item_id, l.vat_rate]));
+
+    // 🧮 Importe de los productos: el total sin envoltorio ni envío, repartido entre las líneas
+    const itemsTotal = roundMoney(Number(order.total) - wrapFee - shippingCost);
+    let items: CheckoutItem[];
+    if (rows.length <= STRIPE_MAX_LINE_ITEMS - 2) {
+        const amounts = splitAmount(itemsTotal, rows.map((r: any) => Number(r.price) * Number(r.quantity)));
+        items = rows.map((row: any, i: number) => {
+            const quantity = Number(row.quantity);
+            const cents = Math.round(amounts[i]! * 100);
+            const exact = cents % quantity === 0;
+            const description = [row.size && `Talla ${row.size}`, row.color && `Color ${row.color}`].filter(Boolean).join(' · ');
+            return {
+                name: exact ? row.name : `${row.name} (x${quantity})`,
+                description: description || null,
+                image: row.image_url ? `${BASE_URL}/uploads/${row.image_url}` : null,
+                price: exact ? cents / quantity / 100 : amounts[i]!,
+                quantity: exact ? quantity : 1,
+                vat_rate: rateByItem.get(Number(row.id)) ?? 0,
+                metadata: { order_item_id: String(row.id), product_id: String(row.product_id), ...(row.sku ? { sku: String(row.sku) } : {}) },
+            };
+        });
+    } else {
+        const grossByRate = new Map<number, number>();
+        for (const line of taxLines.filter(l => l.kind === 'item')) {
+            grossByRate.set(line.vat_rate, roundMoney((grossByRate.get(line.vat_rate) ?? 0) + line.amount));
+        }
+        const rates = [...grossByRate.keys()].sort((a, b) => b - a);
+        const amounts = splitAmount(itemsTotal, rates.map(rate => grossByRate.get(rate)!));
+        items = rates.map((rate, i) => ({
+            name: rates.length > 1 ? `Pedido #${order.id} (IVA ${rate}%)` : `Pedido #${order.id}`,
+            description: null,
+            image: null,
+            price: amounts[i]!,
+            quantity: 1,
+            vat_rate: rate,
+            metadata: {},
+        }));
+    }
+
+    if (wrapFee > 0) {
+        const wrapLine = taxLines.find(l => l.kind === 'gift_wrap');
+        items.push({ name: 'Envoltorio de regalo', description: null, image: null, price: wrapFee, quantity: 1, vat_rate: wrapLine?.vat_rate ?? 0, metadata: { kind: 'gift_wrap' } });
+    }
+    if (shippingCost > 0) {
+        const shippingLine = taxLines.find(l => l.kind === 'shipping');
+        items.push({
+            name: `Envío: ${order.shipping_method_name ?? order.shipping_method}`,
+            description: null,
+            image: null,
+            price: shippingCost,
+            quantity: 1,
+            vat_rate: shippingLine?.vat_rate ?? 0,
+            metadata: { kind: 'shipping', shipping_method: String(order.shipping_method) },
+        });
+    }
+
+    // ✅ Stripe debe cobrar exactamente el total guardado
+    const chargedCents = items.reduce((acc, it) => acc + Math.round(it.price * 100) * it.quantity, 0);
+    if (chargedCents !== Math.round(Number(order.total) * 100)) throw new Error('Las líneas del pago no coinciden con el total del pedido');
+    return items;
+}
+
+/**
+ * ID del PaymentIntent de un objeto de Stripe (puede venir como ID o expandido).
+ * @param {string | { id: string } | null | undefined} value `payment_intent` de la sesión, el cargo o la disputa
+ * @returns {string | null} ID del PaymentIntent
+ */
+function getPaymentIntentId(value: string | { id: string } | null | undefined): string | null {
+    if (!value) return null;
+    return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * Método de pago usado en un PaymentIntent (`card`, `sepa_debit`, `klarna`...). Si no se puede consultar, `card`.
+ * @param {string | null} paymentIntentId ID del PaymentIntent
+ * @returns {Promise<string>} Tipo del método de pago
+ */
+async function getPaymentMethodType(paymentIntentId: string | null): Promise<string> {
+    if (!paymentIntentId) return 'card';
+    try {
+        const intent = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['payment_method'] });
+        const paymentMethod = intent.payment_method;
+        return (typeof paymentMethod === 'object' && paymentMethod?.type) || intent.payment_method_types[0] || 'card';
+    } catch (err) {
+        console.warn(`⚠️ No se pudo consultar el método de pago de ${paymentIntentId}:`, err);
+        return 'card';
+    }
+}
+
+/**
+ * Pedido de un PaymentIntent: `metadata.orderId` (las sesiones lo copian al PaymentIntent), el pago registrado
+ * con esa transacción o, en último caso, la sesión de Checkout que lo creó.
+ * @param {Stripe.PaymentIntent} intent PaymentIntent
+ * @returns {Promise<number | null>} ID del pedido, o `null` si no es de ningún pedido
+ */
+async function findOrderIdForPaymentIntent(intent: Stripe.PaymentIntent): Promise<number | null> {
+    if (intent.metadata?.orderId) return Number(intent.metadata.orderId);
+
+    const [rows]: any = await db.query(GET_ORDER_ID_BY_TRANSACTION, [intent.id]);
+    if (rows.length) return Number(rows[0].order_id);
+
+    const sessions = await stripe.checkout.sessions.list({ payment_intent: intent.id, limit: 1 });
+    const orderId = sessions.data[0]?.metadata?.orderId;
+    return orderId ? Number(orderId) : null;
+}
+
+/**
+ * Registra un intento de pago fallido: marca como `failed` el pago pendiente (o fallido) de la transacción
+ * o, si no hay, inserta uno nuevo. Así los reintentos de un mismo PaymentIntent dejan un único registro.
+ * Si la transacción ya está cobrada (el aviso del fallo llega tarde), no se toca.
+ * @param {number} orderId ID del pedido
+ * @param {string} paymentIntentId ID del PaymentIntent
+ * @param {number} amount Importe que no se ha podido cobrar
+ * @param {string} method Método de pago del intento
+ */
+async function recordFailedPayment(orderId: number, paymentIntentId: string, amount: number, method: string) {
+    const [rows]: any = await db.query(GET_PAYMENT_BY_TRANSACTION, [paymentIntentId]);
+    const payment = rows[0];
+    if (payment?.status === 'completed') return;
+    if (payment) await db.query(MARK_PAYMENT_FAILED, [method, payment.id]);
+    else await db.query(INSERT_PAYMENT_RECORD, [orderId, paymentIntentId, amount, 'failed', method, 0, null]);
+}
+
+/**
+ * Confirma el pago de una sesión de Stripe Checkout (`checkout.session.completed` o `checkout.session.async_payment_succeeded`).
+ * - Si el pago aún no está cobrado (métodos diferidos como SEPA, `payment_status: 'unpaid'`), lo registra en `pending`
+ *   y deja el pedido pendiente hasta `checkout.session.async_payment_succeeded` o `checkout.session.async_payment_failed`.
+ * - Si está cobrado, en una transacción: pasa el pedido a `completed`, registra el pago (o completa el pendiente),
+ *   actualiza totales e IVA y vacía el carrito. Después emite la factura, envía el email de confirmación y avisa al administrador.
+ * - Si el pedido ya no está pendiente (caducado o cancelado antes de que se cobrara un pago diferido, o pagado con
+ *   otra sesión), el cobro se registra como no aplicado (`payments.unapplied`) y se devuelve entero
+ *   (`RefundsService.refundUnappliedPayment`): el pedido no cambia, no se factura ni se envía la confirmación.
+ * - Se puede repetir sin duplicar nada (Stripe reintenta y los eventos fallidos se reprocesan): si el PaymentIntent
+ *   ya está cobrado no se vuelve a registrar ni a vaciar el carrito, la factura se emite una sola vez y el email
+ *   y el aviso se envían solo la primera vez (`orders.confirmation_sent_at`). Si el email falla, se libera
+ *   la marca y el evento falla para reintentarlo. Un reintento tras un fallo a mitad completa lo que faltaba.
+ * @param {Stripe.Checkout.Session} sessionFromEvent Sesión recibida en el evento
+ * @throws {Error} Si la sesión no lleva `metadata.orderId` o el pedido no existe
+ */
+async function confirmCheckoutSession(sessionFromEvent: Stripe.Checkout.Session) {
+    const orderIdStr = sessionFromEvent.metadata?.orderId;
+    if (!orderIdStr) throw new Error('OrderId no encontrado en metadata');
+    const orderId = parseInt(orderIdStr, 10);
+
+    // Recuperar sesión completa desde Stripe (opcional)
+    let session: Stripe.Checkout.Session = sessionFromEvent;
+    try {
+        if (sessionFromEvent.id) {
+            session = await stripe.checkout.sessions.retrieve(sessionFromEvent.id as string);
+        }
+    } catch (err) {
+        console.warn('⚠️ No se pudo hacer retrieve de la session, usamos la del evento:', err);
+    }
+
+    // Calcular total pagado (de centimos a euros)
+    const totalPaidCents = session.amount_total ?? 0;
+    const totalPaid = Number((totalPaidCents / 100).toFixed(2));
+
+    // Calcular descuento aplicado (si existe)
+    let discountAmount = 0;
+    try {
+        const totalDetails: any = session as any;
+        if (totalDetails.total_details?.amount_discount) {
+            discountAmount = Number((totalDetails.total_details.amount_discount / 100).toFixed(2));
+        } else {
+            const discounts = totalDetails.total_details?.breakdown?.discounts || totalDetails.discounts || [];
+            if (discounts.length > 0) {
+                const first = discounts[0];
+                if (first?.amount_off) discountAmount = Number((first.amount_off / 100).toFixed(2));
+                else if (first?.coupon?.amount_off) discountAmount = Number((first.coupon.amount_off / 100).toFixed(2));
+                else if (first?.discount?.coupon?.amount_off) discountAmount = Number((first.discount.coupon.amount_off / 100).toFixed(2));
+            }
+        }
+    } catch (e) {
+        console.warn('⚠️ No se pudo calcular discountAmount desde session:', e);
+    }
+
+    // Obtener código de promoción legible
+    let promotionCode: string | null = null;
+    try {
+        const discounts = (session as any)?.discounts || [];
+        if (discounts.length > 0) {
+            const first = discounts[0];
+            const promotionId = first?.promotion_code || null;
+
+            if (promotionId) {
+                const promoObj = await stripe.promotionCodes.retrieve(promotionId);
+                promotionCode = promoObj.code;
+            }
+        }
+
+        // fallback: si lo guardaste en metadata
+        if (!promotionCode && session.metadata?.promotion_code) {
+            promotionCode = session.metadata.promotion_code;
+        }
+    } catch (e) {
+        console.warn('⚠️ No se pudo extraer promotion code legible:', e);
+    }
+
+    const paymentIntentId = getPaymentIntentId(session.payment_intent);
+    const method = await getPaymentMethodType(paymentIntentId);
+
+    console.log('✅ Stripe webhook datos:', {
+        orderId,
+        totalPaid,
+        discountAmount,
+        promotionCode,
+        method,
+        paymentStatus: session.payment_status,
+        sessionId: session.id,
+    });
+
+    // ⏳ Pago diferido (SEPA...): se registra como pendiente y el pedido espera a `async_payment_succeeded`/`failed`
+    if (session.payment_status === 'unpaid') {
+        const [existing]: any = await db.query(GET_PAYMENT_BY_TRANSACTION, [paymentIntentId]);
+        if (!existing.length) {
+            await db.query(INSERT_PAYMENT_RECORD, [orderId, paymentIntentId, totalPaid, 'pending', method, discountAmount, promotionCode]);
+        }
+        console.log(`⏳ Pago del pedido ${orderId} pendiente de confirmar por Stripe (${method})`);
+        return;
+    }
+
+    // 💳 Registrar el cobro una sola vez por PaymentIntent (`payments.transaction_id` es único).
+    // Estado, pago, totales, IVA y carrito van en la misma transacción: o se aplican todos o ninguno.
+    const result = await withTransaction(async (conn) => {
+        const [existing]: any = await conn.query(LOCK_PAYMENT_BY_TRANSACTION, [paymentIntentId]);
+        const payment = existing[0];
+        // Ya cobrado (aunque después se haya reembolsado): no se vuelve a registrar
+        if (payment && payment.status !== 'pending' && payment.status !== 'failed') {
+            return { settled: false, unapplied: Boolean(Number(payment.unapplied)), paymentId: Number(payment.id) };
+        }
+
+        const [orderRows]: any = await conn.query(LOCK_ORDER_FOR_UPDATE, [orderId]);
+        if (!orderRows.length) throw new Error(`Pedido ${orderId} no encontrado`);
+        const unapplied = orderRows[0].status !== 'pending';
+
+        // Actualizar estado del pedido en la base de datos (valida la transición y registra el historial)
+        if (!unapplied) {
+            await OrdersService.changeStatus(orderId, 'completed', { note: `Pago confirmado por Stripe (${session.id})`, conn });
+        }
+
+        // Registrar el pago: completa el pendiente de un pago diferido (o el intento fallido) o inserta uno nuevo
+        let paymentId: number;
+        if (payment) {
+            await conn.query(SETTLE_PAYMENT, [totalPaid, method, discountAmount, promotionCode, payment.id]);
+            paymentId = Number(payment.id);
+        } else {
+            const [inserted]: any = await conn.query(INSERT_PAYMENT_RECORD, [
+                orderId,
+                paymentIntentId,
+                totalPaid,
+                'completed',
+                method,
+                discountAmount,
+                promotionCode,
+            ]);
+            paymentId = Number(inserted.insertId);
+        }
+
+        // ↩️ Cobro sobre un pedido que ya no estaba pendiente: no se aplica al pedido y se devuelve
+        if (unapplied) {
+            await conn.query(MARK_PAYMENT_UNAPPLIED, [paymentId]);
+            console.warn(`⚠️ Pago ${paymentIntentId} recibido con el pedido ${orderId} en estado "${orderRows[0].status}": se devuelve`);
+            return { settled: true, unapplied: true, paymentId };
+        }
+
+        // Actualizar totales en la tabla orders
+        await conn.query(UPDATE_ORDER_TOTALS, [
+            totalPaid,
+            discountAmount,
+            promotionCode,
+            orderId,
+        ]);
+
+        // 🧮 Recalcular el desglose de IVA con lo cobrado (el cupón de Stripe reduce la base)
+        await TaxService.updateOrderTaxes(conn, orderId);
+
+        // Eliminar carrito del usuario tras pago exitoso
+        // (no en los pedidos de cambio: se pagan desde el email de la devolución, no desde el carrito)
+        const [userRows]: any = await conn.query(
+            'SELECT user_id, replacement_for_order_id FROM orders WHERE id = ?',
+            [orderId]
+        );
+        const userId = userRows[0]?.replacement_for_order_id ? null : userRows[0]?.user_id;
+        if (userId) {
+            await conn.query(DELETE_CART_BY_USER, [userId]);
+            console.log(`🗑️ Carrito del usuario ${userId} eliminado tras pago completado`);
+        }
+        return { settled: true, unapplied: false, paymentId };
+    });
+    if (!result.settled) console.log(`Pago ${paymentIntentId} del pedido ${orderId} ya registrado: se completan los pasos pendientes`);
+
+    // Un reintento también reenvía la devolución si no llegó a hacerse
+    if (result.unapplied) {
+        const refund = await RefundsService.refundUnappliedPayment(result.paymentId, `Pago recibido con el pedido #${orderId} ya no pendiente de pago`);
+        if (refund.failedAmount > 0) {
+            console.error(`❌ No se pudo devolver ${formatMoney(refund.failedAmount, session.currency?.toUpperCase())} del pago ${paymentIntentId}: queda pendiente de reintento`);
+        }
+        return;
+    }
+
+    // 🧾 Emitir la factura (número correlativo, datos congelados y PDF guardado).
+    // Si falla, se vuelve a intentar al enviar el email o al descargarla.
+    try {
+        await InvoiceService.issueInvoice(orderId);
+    } catch (err) {
+        console.error(`❌ Error emitiendo la factura del pedido ${orderId}:`, err);
+    }
+
+    // Obtener información completa del pedido actualizada y enviar email con la factura
+    const orderData: OrderData = await InvoiceService.getOrderData(orderId);
+    (orderData as any).payment_meta = {
+        stripe_session_id: session.id,
+        stripe_payment_intent: session.payment_intent,
+        total_paid: totalPaid,
+        discount_amount: discountAmount,
+        promotion_code: promotionCode,
+    };
+
+    // Solo la primera vez: un evento repetido no vuelve a avisar ni a enviar el email
+    const [claimed]: any = await db.query(CLAIM_ORDER_CONFIRMATION, [orderId]);
+    if (!claimed.affectedRows) return;
+
+    // Enviar correo de confirmación y factura; si falla, se libera la marca y el evento falla para reintentarlo
+    try {
+        await sendOrderConfirmationEmail(orderData);
+    } catch (err) {
+        await db.query(RELEASE_ORDER_CONFIRMATION, [orderId]);
+        throw err;
+    }
+
+    // 🔔 Notificación en tiempo real al admin
+    notifyAdminPaymentReceived(orderId);
+}
+
+/**
+ * Libera el pedido de una sesión de Stripe Checkout que ha caducado sin pagarse (`checkout.session.expired`):
+ * lo pasa a `expired`, repone el stock y envía el email para recuperar el carrito.
+ * Si el pedido tiene otra sesión más reciente (el cliente volvió a intentar el pago), no se toca.
+ * @param {Stripe.Checkout.Session} session Sesión caducada
+ */
+async function releaseExpiredSession(session: Stripe.Checkout.Session) {
+    const orderId = Number(session.metadata?.orderId);
+    if (!orderId) return;
+
+    const [rows] = await db.query<RowDataPacket[]>(GET_ORDER_BY_ID, [orderId]);
+    const order = rows[0];
+    if (!order) return;
+    if (order.stripe_session_id && order.stripe_session_id !== session.id) {
+        console.log(`Sesión ${session.id} caducada, pero el pedido ${orderId} tiene otra sesión: no se libera`);
+        return;
+    }
+
+    const expired = await OrdersService.expireUnpaidOrder(orderId, `Sesión de pago caducada en Stripe (${session.id})`);
+    if (!expired) return;
+
+    const restoreCartUrl = `${process.env.FRONTEND_URL || ''}/cart?restoreOrder=${orderId}`;
+    await sendOrderExpiredEmail({ email: order.email, first_name: order.first_name }, { id: orderId }, restoreCartUrl);
+}
+
+/**
+ * Libera el pedido cuyo pago diferido ha sido rechazado (`checkout.session.async_payment_failed`):
+ * marca el pago como `failed` y pasa el pedido a `expired` reponiendo el stock.
+ * El email al cliente lo envía `payment_intent.payment_failed`.
+ * @param {Stripe.Checkout.Session} session Sesión con el pago rechazado
+ */
+async function releaseFailedSession(session: Stripe.Checkout.Session) {
+    const orderId = Number(session.metadata?.orderId);
+    if (!orderId) return;
+
+    const paymentIntentId = getPaymentIntentId(session.payment_intent);
+    if (paymentIntentId) {
+        await recordFailedPayment(orderId, paymentIntentId, roundMoney((session.amount_total ?? 0) / 100), await getPaymentMethodType(paymentIntentId));
+    }
+    const released = await OrdersService.expireUnpaidOrder(orderId, `Pago rechazado por Stripe (${session.id})`);
+    if (released) console.log(`❌ Pago del pedido ${orderId} rechazado: pedido liberado`);
+}
+
+/**
+ * Registra un pago fallido (`payment_intent.payment_failed`) y avisa al cliente por email, con un enlace para
+ * reintentar el pago si el pedido sigue pendiente o para recuperar el carrito si ya se liberó.
+ * @param {Stripe.PaymentIntent} intent PaymentIntent fallido
+ */
+async function handlePaymentFailed(intent: Stripe.PaymentIntent) {
+    const orderId = await findOrderIdForPaymentIntent(intent);
+    if (!orderId) {
+        console.log(`PaymentIntent ${intent.id} fallido sin pedido asociado, se ignora`);
+        return;
+    }
+
+    const method = intent.last_payment_error?.payment_method?.type ?? intent.payment_method_types[0] ?? 'card';
+    await recordFailedPayment(orderId, intent.id, roundMoney(intent.amount / 100), method);
+
+    const [rows] = await db.query<RowDataPacket[]>(GET_ORDER_BY_ID, [orderId]);
+    const order = rows[0];
+    if (!order || (order.status !== 'pending' && order.status !== 'expired')) return;
+
+    const released = order.status === 'expired';
+    const frontendUrl = process.env.FRONTEND_URL || '';
+    const retryUrl = released ? `${frontendUrl}/cart?restoreOrder=${orderId}` : `${frontendUrl}/orders/${orderId}?retryPayment=1`;
+    await sendPaymentFailedEmail(
+        { email: order.email, first_name: order.first_name },
+        { id: orderId, total: Number(order.total), currency: order.currency, released },
+        intent.last_payment_error?.message ?? null,
+        retryUrl
+    );
+}
+
+/**
+ * Registra los reembolsos de un cargo hechos desde el panel de Stripe (`charge.refunded`) y actualiza el pedido:
+ * si queda reembolsado por completo antes de enviarse, se cancela (`OrdersService.cancelRefundedOrder`).
+ * @param {Stripe.Charge} charge Cargo reembolsado
+ */
+async function syncChargeRefunded(charge: Stripe.Charge) {
+    await RefundsService.syncChargeRefunds(charge);
+
+    const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+    if (!paymentIntentId) return;
+    const [rows]: any = await db.query(GET_ORDER_ID_BY_TRANSACTION, [paymentIntentId]);
+    if (!rows.length) return;
+
+    const cancelled = await OrdersService.cancelRefundedOrder(Number(rows[0].order_id));
+    if (cancelled) console.log(`🚫 Pedido ${rows[0].order_id} cancelado: reembolsado por completo desde el panel de Stripe`);
+}
+
+/**
+ * Marca el pedido de una disputa (contracargo) y avisa a los administradores
+ * (`charge.dispute.created` y `charge.dispute.closed`).
+ * @param {Stripe.Dispute} dispute Disputa de Stripe
+ * @param {boolean} closed `true` si la disputa se ha cerrado (ganada, perdida o consulta cerrada)
+ */
+async function syncDispute(dispute: Stripe.Dispute, closed: boolean) {
+    const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+    const [rows]: any = paymentIntentId ? await db.query(GET_ORDER_ID_BY_TRANSACTION, [paymentIntentId]) : [[]];
+    if (!rows.length) {
+        console.log(`Disputa ${dispute.id} sin pedido asociado, se ignora`);
+        return;
+    }
+
+    const orderId = Number(rows[0].order_id);
+    const amount = roundMoney(dispute.amount / 100);
+    const params = [dispute.id, dispute.status, dispute.reason ?? null, amount, orderId];
+    if (closed) {
+        await db.query(UPDATE_ORDER_DISPUTE_CLOSED, params);
+        notifyAdminDisputeClosed(orderId, mapDisputeStatus(dispute.status));
+    } else {
+        await db.query(UPDATE_ORDER_DISPUTE_OPENED, params);
+        notifyAdminDisputeOpened(orderId, formatMoney(amount, dispute.currency.toUpperCase()), dispute.reason ?? null);
+    }
+    console.log(`⚖️ Disputa ${dispute.id} del pedido ${orderId}: ${dispute.status}`);
 }
 
 /**
@@ -21,14 +552,20 @@ interface CheckoutItem {
 export const PaymentsService = {
     /**
      * Crea una sesión de Stripe Checkout para un pedido específico.
-     * - Permite pagos con tarjeta.
+     * - Ofrece los métodos de pago de `STRIPE_PAYMENT_METHOD_TYPES` (por defecto, tarjeta).
      * - Configura URLs de éxito y cancelación para redirección.
      * - Añade metadata con `orderId` para referencia futura.
+     * - Si el pedido lleva envoltorio de regalo, el recargo va en una línea aparte (`Envoltorio de regalo`).
+     * - Cada producto del pedido va en su línea (nombre, imagen, talla y color, precio y unidades), más el envío;
+     *   cada línea lleva su tipo de IVA inclusivo de Stripe (0% en destinos exentos). Ver `buildCheckoutItems`.
+     * - Se cobra en la divisa del pedido (`orders.currency`).
+     * - Guarda el ID de la sesión en `orders.stripe_session_id` (para poder caducarla si no se paga) y caduca la sesión
+     *   anterior del pedido, para que no se pueda pagar dos veces. Si la anterior ya está pagada, no crea otra.
      *
      * @param {number} orderId - ID del pedido que se va a pagar.
      * @param {string} frontendUrl - URL base del frontend para redirección después del pago.
      * @returns {Promise<Stripe.Checkout.Session>} - Sesión de Stripe creada.
-     * @throws {Error} Si el pedido no existe en la base de datos.
+     * @throws {Error} Si el pedido no existe en la base de datos, ya no está pendiente de pago (p.ej. caducado), su sesión anterior ya está pagada o sus líneas no suman el total.
      *
      * @example
      * ```ts
@@ -40,21 +577,34 @@ export const PaymentsService = {
         const [rows] = await db.query<RowDataPacket[]>(GET_ORDER_BY_ID, [orderId]);
         const order = rows[0] as RowDataPacket;
         if (!order) throw new Error('Pedido no encontrado');
+        if (order.status !== 'pending') throw new Error('El pedido no está pendiente de pago');
+
+        // Si la sesión anterior ya se pagó, el webhook confirmará el pedido: no se abre otra
+        const previousSessionId: string | null = order.stripe_session_id ?? null;
+        if (previousSessionId) {
+            const previous = await stripe.checkout.sessions.retrieve(previousSessionId);
+            if (previous.status === 'complete') throw new Error('El pedido ya está pagado; la confirmación puede tardar unos minutos');
+        }
 
-        const items: CheckoutItem[] = [
-            { id: 1, name: `Pedido #${order.id}`, price: Number(order.total), quantity: 1 }
-        ];
+        const items = await buildCheckoutItems(order);
+        const taxRateIds = await Promise.all(items.map(item => getStripeTaxRateId(item.vat_rate)));
 
         // Crear sesión de checkout
         const session = await stripe.checkout.sessions.create({
-            payment_method_types: ['card'],
-            line_items: items.map(item => ({
+            payment_method_types: STRIPE_PAYMENT_METHOD_TYPES as Stripe.Checkout.SessionCreateParams.PaymentMethodType[],
+            line_items: items.map((item, i) => ({
                 price_data: {
-                    currency: 'eur',
-                    product_data: { name: item.name },
+                    currency: String(order.currency ?? 'EUR').toLowerCase(),
+                    product_data: {
+                        name: item.name,
+                        ...(item.description ? { description: item.description } : {}),
+                        ...(item.image ? { images: [item.image] } : {}),
+                        metadata: item.metadata,
+                    },
                     unit_amount: Math.round(item.price * 100),
                 },
                 quantity: item.quantity,
+                tax_rates: [taxRateIds[i]!],
             })),
             mode: 'payment',
             success_url: `${frontendUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
@@ -63,18 +613,50 @@ export const PaymentsService = {
             metadata: {
                 orderId: order.id,
             },
+            // El PaymentIntent lleva también el pedido (eventos `payment_intent.*`)
+            payment_intent_data: {
+                metadata: { orderId: String(order.id) },
+            },
         });
 
+        await db.query(SET_ORDER_CHECKOUT_SESSION, [session.id, order.id]);
+
+        // 🔒 Caducar la sesión anterior (después de guardar la nueva, para que su `checkout.session.expired` no libere el pedido).
+        // Si aun así se pagaran las dos, el segundo cobro se devuelve al confirmarlo.
+        if (previousSessionId) {
+            try {
+                await this.expireCheckoutSession(previousSessionId);
+            } catch (err) {
+                console.warn(`⚠️ No se pudo caducar la sesión anterior ${previousSessionId} del pedido ${order.id}:`, err);
+            }
+        }
+
         return session;
     },
 
+    /**
+     * Caduca una sesión de Stripe Checkout para que ya no se pueda pagar (si sigue abierta).
+     * @param {string} sessionId ID de la sesión de Stripe Checkout
+     * @returns {Promise<boolean>} `false` si la sesión ya está pagada
+     */
+    async expireCheckoutSession(sessionId: string) {
+        const session = await stripe.checkout.sessions.retrieve(sessionId);
+        if (session.status === 'complete') return false;
+        if (session.status === 'open') await stripe.checkout.sessions.expire(sessionId);
+        return true;
+    },
+
     /**
      * Procesa eventos recibidos desde Stripe Webhook.
-     * - Maneja el evento `checkout.session.completed`.
-     * - Actualiza el estado del pedido, inserta registro de pago y actualiza totales.
-     * - Elimina carrito del usuario tras pago exitoso.
-     * - Genera factura PDF y envía correo de confirmación.
-     * - Notifica al administrador de pago recibido.
+     * - `checkout.session.completed` y `checkout.session.async_payment_succeeded`: confirma el pago (`confirmCheckoutSession`).
+     *   Un pago diferido (SEPA) queda en `pending` hasta que llega `async_payment_succeeded` o `async_payment_failed`.
+     * - `checkout.session.expired`: libera el pedido pendiente (stock y email para recuperar el carrito).
+     * - `checkout.session.async_payment_failed`: marca el pago como fallido y libera el pedido.
+     * - `payment_intent.payment_failed`: registra el pago fallido y avisa al cliente por email.
+     * - `charge.refunded`: registra los reembolsos hechos desde el panel de Stripe y cancela el pedido si queda reembolsado
+     *   por completo sin haberse enviado (`syncChargeRefunded`).
+     * - `charge.dispute.created` y `charge.dispute.closed`: marca la disputa en el pedido y avisa a los administradores.
+     * - Maneja `refund.updated`, `refund.failed` y `charge.refund.updated` para seguir el estado de los reembolsos.
      *
      * @param {Stripe.Event} event - Evento recibido desde Stripe Webhook.
      * @returns {Promise<void>} - No retorna valor.
@@ -93,128 +675,30 @@ export const PaymentsService = {
      */
     async handleWebhook(event: Stripe.Event) {
         try {
-            if (event.type === 'checkout.session.completed') {
-                const sessionFromEvent = event.data.object as Stripe.Checkout.Session;
-                const orderIdStr = sessionFromEvent.metadata?.orderId;
-                if (!orderIdStr) throw new Error('OrderId no encontrado en metadata');
-                const orderId = parseInt(orderIdStr, 10);
-
-                // Recuperar sesión completa desde Stripe (opcional)
-                let session: Stripe.Checkout.Session = sessionFromEvent;
-                try {
-                    if (sessionFromEvent.id) {
-                        session = await stripe.checkout.sessions.retrieve(sessionFromEvent.id as string);
-                    }
-                } catch (err) {
-                    console.warn('⚠️ No se pudo hacer retrieve de la session, usamos la del evento:', err);
-                }
-
-                // Calcular total pagado (de centimos a euros)
-                const totalPaidCents = session.amount_total ?? 0;
-                const totalPaid = Number((totalPaidCents / 100).toFixed(2));
-
-                // Calcular descuento aplicado (si existe)
-                let discountAmount = 0;
-                try {
-                    const totalDetails: any = session as any;
-                    if (totalDetails.total_details?.amount_discount) {
-                        discountAmount = Number((totalDetails.total_details.amount_discount / 100).toFixed(2));
-                    } else {
-                        const discounts = totalDetails.total_details?.breakdown?.discounts || totalDetails.discounts || [];
-                        if (discounts.length > 0) {
-                            const first = discounts[0];
-                            if (first?.amount_off) discountAmount = Number((first.amount_off / 100).toFixed(2));
-                            else if (first?.coupon?.amount_off) discountAmount = Number((first.coupon.amount_off / 100).toFixed(2));
-                            else if (first?.discount?.coupon?.amount_off) discountAmount = Number((first.discount.coupon.amount_off / 100).toFixed(2));
-                        }
-                    }
-                } catch (e) {
-                    console.warn('⚠️ No se pudo calcular discountAmount desde session:', e);
-                }
-
-                // Obtener código de promoción legible
-                let promotionCode: string | null = null;
-                try {
-                    const discounts = (session as any)?.discounts || [];
-                    if (discounts.length > 0) {
-                        const first = discounts[0];
-                        const promotionId = first?.promotion_code || null;
-
-                        if (promotionId) {
-                            const promoObj = await stripe.promotionCodes.retrieve(promotionId);
-                            promotionCode = promoObj.code;
-                        }
-                    }
-
-                    // fallback: si lo guardaste en metadata
-                    if (!promotionCode && session.metadata?.promotion_code) {
-                        promotionCode = session.metadata.promotion_code;
-                    }
-                } catch (e) {
-                    console.warn('⚠️ No se pudo extraer promotion code legible:', e);
-                }
-
-                console.log('✅ Stripe webhook datos:', {
-                    orderId,
-                    totalPaid,
-                    discountAmount,
-                    promotionCode,
-                    sessionId: session.id,
-                });
-
-                // Actualizar estado del pedido en la base de datos
-                await db.query(UPDATE_ORDER_STATUS, ['completed', orderId]);
-
-                // Insertar registro de pago en la base de datos
-                await db.query(INSERT_PAYMENT_RECORD, [
-                    orderId,
-                    session.payment_intent ?? null,
-                    totalPaid,
-                    'completed',
-                    'card',
-                    discountAmount,
-                    promotionCode,
-                ]);
-
-                // Actualizar totales en la tabla orders
-                await db.query(UPDATE_ORDER_TOTALS, [
-                    totalPaid,
-                    discountAmount,
-                    promotionCode,
-                    orderId,
-                ]);
-
-                // Eliminar carrito del usuario tras pago exitoso
-                const [userRows] = await db.query<RowDataPacket[]>(
-                    'SELECT user_id FROM orders WHERE id = ?',
-                    [orderId]
-                );
-                const userId = userRows[0]?.user_id;
-
-                if (userId) {
-                    try {
-                        await CartService.deleteCart(userId);
-                        console.log(`🗑️ Carrito del usuario ${userId} eliminado tras pago completado`);
-                    } catch (err) {
-                        console.warn(`⚠️ No se pudo eliminar el carrito del usuario ${userId}:`, err);
-                    }
-                }
-
-                // Obtener información completa del pedido actualizada y generar factura + enviar email
-                const orderData: OrderData = await InvoiceService.getOrderData(orderId);
-                (orderData as any).payment_meta = {
-                    stripe_session_id: session.id,
-                    stripe_payment_intent: session.payment_intent,
-                    total_paid: totalPaid,
-                    discount_amount: discountAmount,
-                    promotion_code: promotionCode,
-                };
-
-                // 🔔 Notificación en tiempo real al admin
-                notifyAdminPaymentReceived(orderId);
-
-                // Enviar correo de confirmación y factura
-                await sendOrderConfirmationEmail(orderData);
+            if (event.type === 'checkout.session.completed' || event.type === 'checkout.session.async_payment_succeeded') {
+                await confirmCheckoutSession(event.data.object as Stripe.Checkout.Session);
+
+            } else if (event.type === 'checkout.session.expired') {
+                await releaseExpiredSession(event.data.object as Stripe.Checkout.Session);
+
+            } else if (event.type === 'checkout.session.async_payment_failed') {
+                await releaseFailedSession(event.data.object as Stripe.Checkout.Session);
+
+            } else if (event.type === 'payment_intent.payment_failed') {
+                await handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
+
+            } else if (event.type === 'charge.refunded') {
+                // Reembolsos hechos desde el panel de Stripe: se registran en `refunds`, actualizan el pago y el pedido
+                await syncChargeRefunded(event.data.object as Stripe.Charge);
+
+            } else if (event.type === 'charge.dispute.created' || event.type === 'charge.dispute.closed') {
+                await syncDispute(event.data.object as Stripe.Dispute, event.type === 'charge.dispute.closed');
+
+            } else if (event.type === 'refund.updated' || event.type === 'refund.failed' || event.type === 'charge.refund.updated') {
+                // Sincronizar el estado del reembolso (p.ej. `pending` → `succeeded` o `failed`)
+                const refund = event.data.object as Stripe.Refund;
+                const known = await RefundsService.syncFromStripe(refund);
+                if (!known) console.log(`Reembolso de Stripe ${refund.id} no registrado, se ignora`);
 
             } else {
                 console.log(`Evento Stripe ignorado: ${event.type}`);
@@ -0,0 +1,61 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../../../middlewares/auth.middleware';
+import { WebhookEventsService, WebhookEventStatus, WEBHOOK_EVENT_STATUSES } from './webhook-events.service';
+
+export const WebhookEventsController = {
+    /**
+     * Listar eventos de Stripe guardados por estado (por defecto los fallidos).
+     * @route GET /payments/webhook-events
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Query `status` (opcional, default `failed`) y `limit` (opcional, default 50).
+     * @param {Response} res - Lista de eventos (sin payload).
+     */
+    async list(req: AuthenticatedRequest, res: Response) {
+        try {
+            const status = (req.query.status as WebhookEventStatus | undefined) ?? 'failed';
+            if (!WEBHOOK_EVENT_STATUSES.includes(status)) {
+                return res.status(400).json({ message: `Estado no válido. Valores permitidos: ${WEBHOOK_EVENT_STATUSES.join(', ')}` });
+            }
+            const limit = parseInt(req.query.limit as string) || 50;
+            const data = await WebhookEventsService.listEvents(status, limit);
+            res.json(data);
+        } catch (err: any) {
+            res.status(500).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Obtener un evento guardado con el evento completo de Stripe.
+     * @route GET /payments/webhook-events/:id
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Params `id` del evento (`evt_...`).
+     * @param {Response} res - Evento con `payload`.
+     */
+    async get(req: AuthenticatedRequest, res: Response) {
+        try {
+            const data = await WebhookEventsService.getEvent(req.params.id!);
+            res.json(data);
+        } catch (err: any) {
+            res.status(404).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Volver a procesar un evento guardado.
+     * @route POST /payments/webhook-events/:id/reprocess
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Params `id` del evento; body `{ force? }` para repetir un evento ya procesado.
+     * @param {Response} res - Evento actualizado (`status` `processed` o `failed` con el nuevo `error`).
+     * @example
+     * POST /payments/webhook-events/evt_1Q2w3E/reprocess
+     */
+    async reprocess(req: AuthenticatedRequest, res: Response) {
+        try {
+            const force = req.body?.force === true || req.body?.force === 'true';
+            const data = await WebhookEventsService.reprocessEvent(req.params.id!, force);
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+};
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { WebhookEventsController } from './webhook-events.controller';
+import { authenticate, authorize } from '../../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * Todas las rutas de eventos de Stripe requieren:
+ *  - Usuario autenticado (authenticate)
+ *  - Rol de administrador (authorize('admin'))
+*/
+
+/**
+ * @route GET /payments/webhook-events
+ * @desc Listar eventos de Stripe guardados por estado (por defecto `failed`, para volver a procesarlos)
+ * @query {string} status Estado del evento: received, processing, processed, failed (opcional)
+ * @query {number} limit Número máximo de resultados (opcional, default 50)
+ * @access Admin
+ * @returns {Array<Object>} Eventos (sin payload)
+ */
+router.get('/', authenticate, authorize('admin'), WebhookEventsController.list);
+
+/**
+ * @route GET /payments/webhook-events/:id
+ * @desc Obtener un evento guardado con el evento completo de Stripe (`payload`)
+ * @access Admin
+ * @param {string} id ID del evento en Stripe (`evt_...`)
+ * @returns {Object} Evento
+ */
+router.get('/:id', authenticate, authorize('admin'), WebhookEventsController.get);
+
+/**
+ * @route POST /payments/webhook-events/:id/reprocess
+ * @desc Volver a procesar un evento guardado con su payload original
+ * - Solo eventos `failed` o `received`; uno `processed` solo con `force: true` (repite sus efectos).
+ * @access Admin
+ * @param {string} id ID del evento en Stripe (`evt_...`)
+ * @body {boolean} [force] Reprocesar también un evento ya procesado
+ * @returns {Object} Evento actualizado
+ */
+router.post('/:id/reprocess', authenticate, authorize('admin'), WebhookEventsController.reprocess);
+
+export default router;
@@ -0,0 +1,150 @@
+import Stripe from 'stripe';
+import { db } from '../../../config/config';
+import {
+    INSERT_WEBHOOK_EVENT,
+    CLAIM_WEBHOOK_EVENT,
+    MARK_WEBHOOK_EVENT_PROCESSED,
+    MARK_WEBHOOK_EVENT_FAILED,
+    GET_WEBHOOK_EVENT,
+    GET_WEBHOOK_EVENTS_BY_STATUS
+} from '../../../database/queries/webhook-events.queries';
+import { PaymentsService } from '../payments.service';
+
+/**
+ * Estados de un evento de Stripe guardado.
+ * - `received`: guardado, todavía sin procesar.
+ * - `processing`: se está procesando (reservado por una entrega o por un administrador).
+ * - `processed`: procesado sin errores; las entregas repetidas se ignoran.
+ * - `failed`: el último intento falló (`error`); se vuelve a procesar si Stripe lo reintenta o desde el panel.
+ */
+export const WEBHOOK_EVENT_STATUSES = ['received', 'processing', 'processed', 'failed'] as const;
+export type WebhookEventStatus = typeof WEBHOOK_EVENT_STATUSES[number];
+
+/**
+ * Resultado de recibir un evento.
+ * - `processed`: se ha procesado ahora.
+ * - `duplicate`: ya estaba procesado, no se repite.
+ * - `in_progress`: otra entrega del mismo evento lo está procesando.
+ */
+export type WebhookEventOutcome = 'processed' | 'duplicate' | 'in_progress';
+
+/** Minutos tras los que un evento en `processing` se da por abandonado (caída del servidor a mitad) y se puede reprocesar */
+const PROCESSING_TIMEOUT_MINUTES = 10;
+
+/**
+ * Convierte una fila de `webhook_events` en la respuesta de la API.
+ * @param {any} row Fila del evento
+ * @param {boolean} withPayload Si se incluye el evento completo de Stripe
+ * @returns {Object} Evento guardado
+ */
+function formatEvent(row: any, withPayload = false) {
+    return {
+        id: row.id,
+        type: row.type,
+        status: row.status as WebhookEventStatus,
+        attempts: Number(row.attempts),
+        error: row.error ?? null,
+        received_at: row.received_at,
+        last_attempt_at: row.last_attempt_at ?? null,
+        processed_at: row.processed_at ?? null,
+        ...(withPayload ? { payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload } : {}),
+    };
+}
+
+/**
+ * Procesa un evento ya reservado (`processing`) y guarda el resultado.
+ * @param {Stripe.Event} event Evento de Stripe
+ * @throws {Error} El error del procesamiento, después de marcar el evento como `failed`
+ */
+async function runEvent(event: Stripe.Event) {
+    try {
+        await PaymentsService.handleWebhook(event);
+    } catch (err: any) {
+        await db.query(MARK_WEBHOOK_EVENT_FAILED, [String(err?.message ?? err).slice(0, 2000), event.id]);
+        throw err;
+    }
+    await db.query(MARK_WEBHOOK_EVENT_PROCESSED, [event.id]);
+}
+
+/**
+ * Servicio de eventos de Stripe: guarda cada evento recibido y evita procesar dos veces el mismo.
+ * - Stripe reintenta los webhooks (y puede entregar dos veces el mismo evento); no todos los efectos de `handleWebhook`
+ *   son idempotentes (avisos, emails de fallo...).
+ * - Cada evento se guarda en `webhook_events` por su ID y se reserva antes de procesarlo, así solo una entrega lo procesa.
+ * - Los eventos fallidos se pueden listar y volver a procesar desde el panel de administración.
+ */
+export const WebhookEventsService = {
+    /**
+     * Recibir un evento del webhook: lo guarda y lo procesa si no está procesado ni en curso.
+     * @param {Stripe.Event} event Evento verificado (firma `stripe-signature`)
+     * @returns {Promise<WebhookEventOutcome>} `processed`, `duplicate` o `in_progress`
+     * @throws {Error} Si falla el procesamiento (el evento queda en `failed` y Stripe lo reintentará)
+     * @example
+     * const outcome = await WebhookEventsService.receive(event);
+     */
+    async receive(event: Stripe.Event): Promise<WebhookEventOutcome> {
+        await db.query(INSERT_WEBHOOK_EVENT, [event.id, event.type, JSON.stringify(event)]);
+
+        const [claimed]: any = await db.query(CLAIM_WEBHOOK_EVENT, [event.id, ['received', 'failed'], PROCESSING_TIMEOUT_MINUTES]);
+        if (!claimed.affectedRows) {
+            const [rows]: any = await db.query(GET_WEBHOOK_EVENT, [event.id]);
+            const outcome: WebhookEventOutcome = rows[0]?.status === 'processed' ? 'duplicate' : 'in_progress';
+            console.log(`Evento Stripe ${event.id} (${event.type}) ${outcome === 'duplicate' ? 'ya procesado' : 'en proceso'}, se ignora`);
+            return outcome;
+        }
+
+        await runEvent(event);
+        return 'processed';
+    },
+
+    /**
+     * Listar eventos guardados por estado (por defecto los fallidos), sin el payload.
+     * @param {WebhookEventStatus} [status='failed'] Estado de los eventos
+     * @param {number} [limit=50] Máximo de resultados
+     * @returns {Promise<Array<Object>>} Eventos, del más reciente al más antiguo
+     */
+    async listEvents(status: WebhookEventStatus = 'failed', limit: number = 50) {
+        const [rows]: any = await db.query(GET_WEBHOOK_EVENTS_BY_STATUS, [status, limit]);
+        return rows.map((r: any) => formatEvent(r));
+    },
+
+    /**
+     * Obtener un evento guardado con el evento completo de Stripe (`payload`).
+     * @param {string} eventId ID del evento (`evt_...`)
+     * @returns {Promise<Object>} Evento guardado
+     * @throws {Error} Si no existe
+     */
+    async getEvent(eventId: string) {
+        const [rows]: any = await db.query(GET_WEBHOOK_EVENT, [eventId]);
+        if (!rows.length) throw new Error('Evento no encontrado');
+        return formatEvent(rows[0], true);
+    },
+
+    /**
+     * Volver a procesar un evento guardado con su payload original (admin).
+     * - Por defecto solo los eventos `failed` o `received`; un evento `processed` solo con `force`
+     *   (repite sus efectos: avisos, emails de fallo...; un pago ya confirmado no se vuelve a registrar).
+     * - Si vuelve a fallar, el evento queda en `failed` con el nuevo error y se devuelve igualmente.
+     * @param {string} eventId ID del evento (`evt_...`)
+     * @param {boolean} [force=false] Reprocesar también un evento ya procesado
+     * @returns {Promise<Object>} Evento actualizado (`status`, `attempts`, `error`...)
+     * @throws {Error} Si no existe, ya está procesado (sin `force`) o se está procesando
+     */
+    async reprocessEvent(eventId: string, force: boolean = false) {
+        const [rows]: any = await db.query(GET_WEBHOOK_EVENT, [eventId]);
+        if (!rows.length) throw new Error('Evento no encontrado');
+        if (rows[0].status === 'processed' && !force) throw new Error('El evento ya está procesado (usa force para repetirlo)');
+
+        const statuses = force ? ['received', 'failed', 'processed'] : ['received', 'failed'];
+        const [claimed]: any = await db.query(CLAIM_WEBHOOK_EVENT, [eventId, statuses, PROCESSING_TIMEOUT_MINUTES]);
+        if (!claimed.affectedRows) throw new Error('El evento se está procesando, inténtalo en unos minutos');
+
+        const event: Stripe.Event = typeof rows[0].payload === 'string' ? JSON.parse(rows[0].payload) : rows[0].payload;
+        try {
+            await runEvent(event);
+        } catch (err) {
+            console.error(`Error reprocesando el evento Stripe ${eventId}:`, err);
+        }
+        return this.getEvent(eventId);
+    },
+};
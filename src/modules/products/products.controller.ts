@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ProductsService } from './products.service';
+import { CurrencyService } from '../currencies/currencies.service';
+import { parseCurrency } from '../currencies/currencies.rules';
 import path from 'path';
 import multer from 'multer';
 import fs from 'fs';
@@ -170,12 +172,15 @@ export const updateProduct = [
  * @query {string} [categories] - IDs de categorías separados por coma.
  * @query {number} [limit] - Límite de resultados.
  * @query {number} [offset] - Desplazamiento para paginación.
+ * @query {string} [currency] - Divisa de los precios (EUR, GBP, CHF; por defecto EUR).
  * @returns {Promise<Response>} Lista de productos.
  */
 export const getAllProducts = async (req: Request, res: Response) => {
     try {
-        const { categories, limit, offset } = req.query;
+        const { categories, limit, offset, currency } = req.query;
         const options: any = {};
+        const code = parseCurrency(currency);
+        if (code) options.currency = code;
         if (categories) {
             options.categoryIds = (categories as string).split(',').map(s => parseInt(s.trim(), 10)).filter(n => !Number.isNaN(n));
         }
@@ -196,11 +201,12 @@ export const getAllProducts = async (req: Request, res: Response) => {
  * @route GET /products/:id
  * @access Public
  * @param {number} id.path.required - ID del producto.
+ * @query {string} [currency] - Divisa del precio (EUR, GBP, CHF; por defecto EUR).
  * @returns {Promise<Response>} Producto encontrado.
  */
 export const getProduct = async (req: Request, res: Response) => {
     try {
-        const product = await ProductsService.getProduct(parseInt(req.params.id!, 10));
+        const product = await ProductsService.getProduct(parseInt(req.params.id!, 10), parseCurrency(req.query.currency) ?? undefined);
         return res.json(product);
     } catch (error: any) {
         console.error('getProduct error:', error);
@@ -226,3 +232,40 @@ export const deleteProduct = async (req: Request, res: Response) => {
         return res.status(400).json({ message: error.message || 'Error al eliminar producto' });
     }
 };
+
+/**
+ * Obtiene el precio de un producto en cada divisa (explícito o convertido).
+ *
+ * @route GET /products/:id/prices
+ * @access Private (Admin)
+ * @param {number} id.path.required - ID del producto.
+ * @returns {Promise<Response>} Lista `[{ currency, price, explicit }]`.
+ */
+export const getProductPrices = async (req: Request, res: Response) => {
+    try {
+        const prices = await CurrencyService.getProductPrices(parseInt(req.params.id!, 10));
+        return res.json(prices);
+    } catch (error: any) {
+        console.error('getProductPrices error:', error);
+        return res.status(400).json({ message: error.message || 'Error al obtener los precios del producto' });
+    }
+};
+
+/**
+ * Fija o quita los precios explícitos de un producto en otras divisas.
+ *
+ * @route PUT /products/:id/prices
+ * @access Private (Admin)
+ * @param {number} id.path.required - ID del producto.
+ * @body {Object} prices - Precio por divisa, p.ej. `{ GBP: 19.99, CHF: null }` (`null` vuelve a la conversión).
+ * @returns {Promise<Response>} Precios del producto tras el cambio.
+ */
+export const updateProductPrices = async (req: Request, res: Response) => {
+    try {
+        const prices = await CurrencyService.setProductPrices(parseInt(req.params.id!, 10), req.body?.prices);
+        return res.json(prices);
+    } catch (error: any) {
+        console.error('updateProductPrices error:', error);
+        return res.status(400).json({ message: error.message || 'Error al actualizar los precios del producto' });
+    }
+};
@@ -5,7 +5,9 @@ import {
     getProduct,
     updateProduct,
     deleteProduct,
-    uploadAndCreateProduct
+    uploadAndCreateProduct,
+    getProductPrices,
+    updateProductPrices
 } from './products.controller';
 
 const router = Router();
@@ -19,6 +21,7 @@ const router = Router();
  * @query {string} [categories] - IDs de categorías separados por coma.
  * @query {number} [limit] - Límite de resultados por página.
  * @query {number} [offset] - Offset de paginación.
+ * @query {string} [currency] - Divisa de los precios (EUR, GBP, CHF; por defecto EUR).
  * @returns {Promise<Response>} Lista de productos disponibles.
  */
 router.get('/', getAllProducts);
@@ -29,6 +32,7 @@ router.get('/', getAllProducts);
  * @route GET /products/:id
  * @access Public
  * @param {number} id.path.required - ID del producto a obtener.
+ * @query {string} [currency] - Divisa del precio (EUR, GBP, CHF; por defecto EUR).
  * @returns {Promise<Response>} Objeto del producto solicitado.
  */
 router.get('/:id', getProduct);
@@ -77,6 +81,30 @@ router.post('/', authenticate, authorize('admin'), ...uploadAndCreateProduct);
  */
 router.put('/:id', authenticate, authorize('admin'), ...updateProduct);
 
+/**
+ * Obtener el precio de un producto en cada divisa.
+ *
+ * @route GET /products/:id/prices
+ * @access Private (Admin)
+ * @middleware authenticate, authorize('admin')
+ * @param {number} id.path.required - ID del producto.
+ * @returns {Promise<Response>} Lista `[{ currency, price, explicit }]` (explícito o convertido con el tipo de cambio).
+ */
+router.get('/:id/prices', authenticate, authorize('admin'), getProductPrices);
+
+/**
+ * Fijar los precios explícitos de un producto en otras divisas.
+ * Tienen prioridad sobre la conversión; `null` quita el precio de esa divisa.
+ *
+ * @route PUT /products/:id/prices
+ * @access Private (Admin)
+ * @middleware authenticate, authorize('admin')
+ * @param {number} id.path.required - ID del producto.
+ * @body {Object} prices - Precio por divisa, p.ej. `{ GBP: 19.99, CHF: null }`.
+ * @returns {Promise<Response>} Precios del producto tras el cambio.
+ */
+router.put('/:id/prices', authenticate, authorize('admin'), updateProductPrices);
+
 /**
  * Eliminar un producto por su ID.
  * También elimina su imagen asociada del sistema de archivos.
@@ -6,6 +6,8 @@ import {
     ADD_PRODUCT_CATEGORIES, GET_PRODUCTS_BY_CATEGORIES_AND
 } from '../../database/queries/products.queries';
 import { notifyUsersNewProduct } from '../../utils/notifications.util';
+import { CurrencyService } from '../currencies/currencies.service';
+import { BASE_CURRENCY, CurrencyCode } from '../currencies/currencies.rules';
 
 /**
  * Opciones para obtener productos
@@ -14,6 +16,8 @@ export interface GetProductsOptions {
     categoryIds?: number[];
     limit?: number;
     offset?: number;
+    /** Divisa en la que se devuelven los precios (por defecto EUR) */
+    currency?: CurrencyCode;
 }
 
 const UPLOADS_FOLDER = path.join(process.cwd(), 'src/modules/products/uploads');
@@ -44,11 +48,12 @@ export const ProductsService = {
      * @param {string} [data.size] - Tamaño
      * @param {string} [data.color] - Color
      * @param {string} [data.sku] - SKU
+     * @param {number} [data.weight] - Peso en kg (tarifas de envío por peso)
      * @param {string | number[]} [data.categories] - Categorías a asociar
      * @returns {Promise<{ message: string, id: number }>} Confirmación de creación
      */
     async createProduct(data: any) {
-        const { name, description, image_url, price, stock, size, color, sku } = data;
+        const { name, description, image_url, price, stock, size, color, sku, weight } = data;
         const categories = parseCategories(data.categories);
 
         const filename = image_url ? String(image_url).split('/').pop() : null;
@@ -61,7 +66,8 @@ export const ProductsService = {
             stock ?? 0,
             size || null,
             color || null,
-            sku || null
+            sku || null,
+            weight ?? null
         ]);
         const productId = result.insertId;
 
@@ -80,10 +86,11 @@ export const ProductsService = {
     /**
      * Obtiene un producto por ID con categorías e imagen completa
      * @param {number} id - ID del producto
+     * @param {CurrencyCode} [currency] - Divisa del precio (en otra que no sea EUR se añaden `currency` y `base_price`)
      * @returns {Promise<any>} Producto completo
      * @throws {Error} Si el producto no existe
      */
-    async getProduct(id: number) {
+    async getProduct(id: number, currency: CurrencyCode = BASE_CURRENCY) {
         const [rows]: any = await db.query(GET_PRODUCT_BY_ID, [id]);
         if (!rows.length) throw new Error('Producto no encontrado');
 
@@ -94,6 +101,7 @@ export const ProductsService = {
 
         // Agregar URL completa de imagen
         if (product.image_url) product.image_url = `${BASE_URL}/uploads/${product.image_url}`;
+        if (currency !== BASE_CURRENCY) return (await CurrencyService.localizeProducts([product], currency))[0];
         return product;
     },
 
@@ -124,6 +132,7 @@ export const ProductsService = {
             return p;
         });
 
+        if (options?.currency && options.currency !== BASE_CURRENCY) return CurrencyService.localizeProducts(rows, options.currency);
         return rows;
     },
 
@@ -152,7 +161,7 @@ export const ProductsService = {
         }
 
         // Construcción dinámica de UPDATE
-        const updatableFields = ['name','description','image_url','price','stock','size','color','sku'];
+        const updatableFields = ['name','description','image_url','price','stock','size','color','sku','weight'];
         const setClauses: string[] = [];
         const params: any[] = [];
 
@@ -0,0 +1,110 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { RefundsService, RefundStatus } from './refunds.service';
+
+/** Estados válidos para filtrar el listado de reembolsos */
+const REFUND_STATUSES: RefundStatus[] = ['pending', 'requires_action', 'succeeded', 'failed', 'canceled'];
+
+export const RefundsController = {
+    /**
+     * Crear un reembolso de un pedido (importe libre o líneas concretas).
+     * @route POST /refunds
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Body `{ orderId, reason, amount?, items?: [{ order_item_id, quantity }] }`.
+     * @param {Response} res - Reembolsos creados con su estado en Stripe e importes aceptados/fallidos.
+     * @example
+     * POST /refunds
+     * body: { orderId: 45, amount: 10, reason: "Compensación por retraso" }
+     */
+    async create(req: AuthenticatedRequest, res: Response) {
+        try {
+            const { orderId, amount, items, reason } = req.body;
+            if (!orderId || !reason) {
+                return res.status(400).json({ message: 'orderId y reason son requeridos' });
+            }
+            if (items !== undefined && !Array.isArray(items)) {
+                return res.status(400).json({ message: 'items debe ser una lista de { order_item_id, quantity }' });
+            }
+
+            const result = await RefundsService.createRefund({
+                orderId: Number(orderId),
+                reason,
+                amount: amount !== undefined && amount !== null ? Number(amount) : null,
+                items,
+                requestedBy: req.user!.id,
+            });
+            res.status(201).json(result);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Listar reembolsos por estado (por defecto los fallidos).
+     * @route GET /refunds
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Query `status` (opcional, default `failed`) y `limit` (opcional, default 50).
+     * @param {Response} res - Lista de reembolsos.
+     */
+    async list(req: AuthenticatedRequest, res: Response) {
+        try {
+            const status = (req.query.status as RefundStatus | undefined) ?? 'failed';
+            if (!REFUND_STATUSES.includes(status)) {
+                return res.status(400).json({ message: `Estado no válido. Valores permitidos: ${REFUND_STATUSES.join(', ')}` });
+            }
+            const limit = parseInt(req.query.limit as string) || 50;
+            const data = await RefundsService.listRefunds(status, limit);
+            res.json(data);
+        } catch (err: any) {
+            res.status(500).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Listar los reembolsos de un pedido.
+     * @route GET /refunds/orders/:orderId
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Params `orderId`.
+     * @param {Response} res - Reembolsos del pedido con sus líneas.
+     */
+    async byOrder(req: AuthenticatedRequest, res: Response) {
+        try {
+            const data = await RefundsService.getOrderRefunds(parseInt(req.params.orderId!));
+            res.json(data);
+        } catch (err: any) {
+            res.status(500).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Reintentar un reembolso fallido o cancelado.
+     * @route POST /refunds/:id/retry
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Params `id` del reembolso.
+     * @param {Response} res - Reembolso actualizado.
+     */
+    async retry(req: AuthenticatedRequest, res: Response) {
+        try {
+            const data = await RefundsService.retryRefund(parseInt(req.params.id!));
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Consultar el estado de un reembolso en Stripe y sincronizarlo.
+     * @route POST /refunds/:id/sync
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Params `id` del reembolso.
+     * @param {Response} res - Reembolso actualizado.
+     */
+    async sync(req: AuthenticatedRequest, res: Response) {
+        try {
+            const data = await RefundsService.refreshRefund(parseInt(req.params.id!));
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+};
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { RefundsController } from './refunds.controller';
+import { authenticate, authorize } from '../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * Todas las rutas del módulo Refunds requieren:
+ *  - Usuario autenticado (authenticate)
+ *  - Rol de administrador (authorize('admin'))
+*/
+
+/**
+ * @route GET /refunds
+ * @desc Listar reembolsos por estado (por defecto `failed`, para reintentarlos)
+ * @query {string} status Estado del reembolso: pending, requires_action, succeeded, failed, canceled (opcional)
+ * @query {number} limit Número máximo de resultados (opcional, default 50)
+ * @access Admin
+ * @returns {Array<Object>} Reembolsos
+ */
+router.get('/', authenticate, authorize('admin'), RefundsController.list);
+
+/**
+ * @route POST /refunds
+ * @desc Reembolsar un importe o líneas concretas de un pedido con un motivo.
+ * - Sin `amount` ni `items` se reembolsa todo lo pendiente del pedido.
+ * - No permite reembolsar más de lo cobrado ni más unidades de las compradas.
+ * @access Admin
+ * @body {number} orderId ID del pedido
+ * @body {string} reason Motivo del reembolso
+ * @body {number} [amount] Importe a reembolsar
+ * @body {Array} [items] Líneas a reembolsar ({ order_item_id, quantity })
+ * @returns {Object} { refunds, refundedAmount, failedAmount }
+ */
+router.post('/', authenticate, authorize('admin'), RefundsController.create);
+
+/**
+ * @route GET /refunds/orders/:orderId
+ * @desc Listar los reembolsos de un pedido con sus líneas
+ * @access Admin
+ * @param {number} orderId ID del pedido
+ * @returns {Array<Object>} Reembolsos del pedido
+ */
+router.get('/orders/:orderId', authenticate, authorize('admin'), RefundsController.byOrder);
+
+/**
+ * @route POST /refunds/:id/retry
+ * @desc Reintentar en Stripe un reembolso fallido o cancelado
+ * @access Admin
+ * @param {number} id ID del reembolso
+ * @returns {Object} Reembolso actualizado
+ */
+router.post('/:id/retry', authenticate, authorize('admin'), RefundsController.retry);
+
+/**
+ * @route POST /refunds/:id/sync
+ * @desc Consultar en Stripe el estado actual de un reembolso y guardarlo
+ * @access Admin
+ * @param {number} id ID del reembolso
+ * @returns {Object} Reembolso actualizado
+ */
+router.post('/:id/sync', authenticate, authorize('admin'), RefundsController.sync);
+
+export default router;
@@ -0,0 +1,709 @@
+import Stripe from 'stripe';
+import { PoolConnection } from 'mysql2/promise';
+import { db } from '../../config/config';
+import { withTransaction } from '../../database/db';
+import { stripe } from '../../integrations/stripe.service';
+import { roundMoney, computeRefundShare } from '../../utils/money.utils';
+import { mapRefundStatus } from '../../utils/mappers.utils';
+import { CreditNotesService } from '../orders/credit-notes/credit-notes.service';
+import { InvoiceService } from '../orders/invoice/invoice.service';
+import { formatMoney } from '../currencies/currencies.rules';
+import { GET_CREDIT_NOTE_BY_REFUND } from '../../database/queries/credit-notes.queries';
+import { GET_ORDER_ITEMS_FOR_RETURN, GET_RETURN_ITEMS_BY_RETURN_IDS } from '../../database/queries/orders.queries';
+import {
+    LOCK_ORDER_FOR_REFUND,
+    LOCK_REFUNDABLE_PAYMENTS,
+    GET_REFUNDABLE_PAYMENTS,
+    LOCK_PAYMENT_FOR_REFUND,
+    GET_REFUNDED_AMOUNT_BY_PAYMENT_IDS,
+    GET_REFUNDED_QUANTITIES_BY_ORDER,
+    INSERT_REFUND,
+    INSERT_REFUND_ITEM,
+    UPDATE_REFUND_RESULT,
+    UPDATE_REFUND_STATUS,
+    GET_REFUND_BY_ID,
+    GET_REFUND_BY_STRIPE_ID,
+    GET_REFUNDS_BY_ORDER,
+    GET_REFUNDS_BY_STATUS,
+    GET_REFUND_ITEMS_BY_REFUND_IDS,
+    UPDATE_PAYMENT_STATUS,
+    GET_UNREFUNDED_APPROVED_RETURNS,
+    COUNT_APPROVED_RETURNS,
+    LOCK_PAYMENT_BY_TRANSACTION,
+    LOCK_REFUND_FOR_CREDIT_NOTE,
+    GET_PAID_AMOUNT_BY_ORDER,
+    GET_UNSENT_REFUNDS_BY_PAYMENT
+} from '../../database/queries/refunds.queries';
+
+/**
+ * Estados de un reembolso (coinciden con los de `Stripe.Refund.status`).
+ */
+export type RefundStatus = 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+
+/**
+ * Línea de pedido a reembolsar.
+ */
+export interface RefundLineInput {
+    order_item_id: number;
+    quantity: number;
+}
+
+/**
+ * Datos para crear un reembolso.
+ * - Con `items` el importe se calcula por línea (incluida su parte del descuento del pedido).
+ * - Con `amount` se reembolsa ese importe (si también hay `items`, prevalece `amount`).
+ * - Sin ninguno de los dos se reembolsa todo lo pendiente del pedido.
+ * - Con `paymentId` solo se reembolsa ese pago (p.ej. un pago no aplicado, que no entra en los reembolsos del pedido).
+ */
+export interface CreateRefundInput {
+    orderId: number;
+    reason: string;
+    amount?: number | null;
+    items?: RefundLineInput[];
+    returnId?: number | null;
+    requestedBy?: number | null;
+    paymentId?: number | null;
+}
+
+/**
+ * Resultado de crear (o reintentar) reembolsos.
+ */
+export interface RefundResult {
+    /** Reembolsos creados (uno por pago afectado) */
+    refunds: Array<{ id: number; payment_id: number; amount: number; status: RefundStatus; failure_reason: string | null }>;
+    /** Importe aceptado por Stripe (reembolsos `succeeded`, `pending` o `requires_action`) */
+    refundedAmount: number;
+    /** Importe cuyo reembolso ha fallado y queda pendiente de reintento */
+    failedAmount: number;
+    /** Facturas rectificativas emitidas (una por cada reembolso ya completado en Stripe, `succeeded`) */
+    creditNotes: Array<{ id: number; number: string; total: number }>;
+}
+
+/**
+ * Reembolso registrado en `pending` y pendiente de enviar a Stripe (`registerRefund` → `submitRefunds`).
+ */
+export interface RegisteredRefund {
+    id: number;
+    order_id: number;
+    payment_id: number;
+    amount: number;
+    transaction_id: string;
+    currency: string | null;
+}
+
+/** Estados que no reservan importe del pago (se pueden reintentar) */
+const INACTIVE_REFUND_STATUSES: RefundStatus[] = ['failed', 'canceled'];
+
+/**
+ * Importe ya reembolsado (o en curso) de cada pago
+ * @param {PoolConnection | typeof db} executor Conexión o pool
+ * @param {number[]} paymentIds IDs de los pagos
+ * @returns {Promise<Map<number, number>>} Importe reembolsado por pago
+ */
+async function getRefundedByPayment(executor: PoolConnection | typeof db, paymentIds: number[]) {
+    if (!paymentIds.length) return new Map<number, number>();
+    const [rows]: any = await executor.query(GET_REFUNDED_AMOUNT_BY_PAYMENT_IDS, [paymentIds]);
+    return new Map<number, number>(rows.map((r: any) => [Number(r.payment_id), Number(r.refunded_amount)]));
+}
+
+/**
+ * Recalcula el estado de un pago a partir de sus reembolsos:
+ * `refunded` si está reembolsado por completo, `partially_refunded` si en parte y `completed` si nada.
+ * @param {number} paymentId ID del pago
+ */
+async function syncPaymentStatus(paymentId: number) {
+    const [rows]: any = await db.query('SELECT id, amount, status FROM payments WHERE id = ?', [paymentId]);
+    if (!rows.length) return;
+
+    const refunded = (await getRefundedByPayment(db, [paymentId])).get(paymentId) ?? 0;
+    const amount = Number(rows[0].amount || 0);
+    const status = refunded <= 0 ? 'completed' : refunded >= amount - 0.005 ? 'refunded' : 'partially_refunded';
+
+    if (rows[0].status !== status) await db.query(UPDATE_PAYMENT_STATUS, [status, paymentId]);
+}
+
+/**
+ * Emite la factura rectificativa de un reembolso completado (`succeeded`).
+ * - Solo se rectifica el dinero devuelto de verdad: un reembolso pendiente la recibe cuando Stripe lo completa
+ *   (webhook o sincronización) y uno fallido o cancelado no la recibe nunca.
+ * - Es idempotente: si el reembolso ya tiene factura rectificativa, devuelve esa.
+ * - Antes emite la factura del pedido si aún no está emitida (la rectificativa debe citar su número).
+ * - Las líneas del reembolso (`refund_items`) pasan a la factura; sin líneas y por todo lo cobrado, rectifica el pedido completo.
+ * - Un pago no aplicado (`payments.unapplied`) nunca se facturó: su reembolso no lleva rectificativa.
+ * @param {number} refundId ID del reembolso
+ * @returns {Promise<{id: number, number: string, total: number} | null>} Factura rectificativa, o `null` si el reembolso no está completado o no se rectifica
+ */
+async function issueRefundCreditNote(refundId: number) {
+    // 🧾 La rectificativa cita la factura del pedido: emitirla antes si aún no lo está (p.ej. falló al confirmar el pago)
+    const [refundRows]: any = await db.query(GET_REFUND_BY_ID, [refundId]);
+    if (refundRows[0]?.status !== 'succeeded' || Number(refundRows[0].unapplied)) return null;
+    try {
+        await InvoiceService.issueInvoice(Number(refundRows[0].order_id));
+    } catch (err) {
+        // Si la factura se ha emitido pero falló su PDF, la rectificativa puede seguir; si no, `issue` la rechaza
+        console.error(`❌ Error emitiendo la factura del pedido ${refundRows[0].order_id}:`, err);
+    }
+
+    return withTransaction(async (conn) => {
+        const [rows]: any = await conn.query(LOCK_REFUND_FOR_CREDIT_NOTE, [refundId]);
+        const refund = rows[0];
+        if (!refund || refund.status !== 'succeeded') return null;
+
+        const [existing]: any = await conn.query(GET_CREDIT_NOTE_BY_REFUND, [refundId]);
+        if (existing.length) return { id: existing[0].id as number, number: existing[0].number as string, total: Number(existing[0].total) };
+
+        const [items]: any = await conn.query(GET_REFUND_ITEMS_BY_REFUND_IDS, [[refundId]]);
+        const [paidRows]: any = await conn.query(GET_PAID_AMOUNT_BY_ORDER, [refund.order_id]);
+        const amount = Number(refund.amount);
+        const lines = items.map((it: any) => ({ order_item_id: Number(it.order_item_id), quantity: Number(it.quantity), amount: Number(it.amount) }));
+
+        return CreditNotesService.issue(conn, {
+            orderId: refund.order_id,
+            refundId,
+            returnId: refund.return_id ?? null,
+            reason: refund.reason,
+            amount,
+            lines,
+            fullRefund: !lines.length && Math.abs(amount - Number(paidRows[0]?.paid_amount ?? 0)) < 0.005,
+        });
+    });
+}
+
+/**
+ * Emite la factura rectificativa de un reembolso sin interrumpir el flujo si falla
+ * (el reembolso ya está hecho en Stripe; se vuelve a intentar al sincronizarlo).
+ * @param {number} refundId ID del reembolso
+ * @returns {Promise<{id: number, number: string, total: number} | null>} Factura rectificativa, o `null`
+ */
+async function tryIssueRefundCreditNote(refundId: number) {
+    try {
+        return await issueRefundCreditNote(refundId);
+    } catch (err) {
+        console.error(`❌ Error emitiendo la factura rectificativa del reembolso ${refundId}:`, err);
+        return null;
+    }
+}
+
+/**
+ * Busca en Stripe el reembolso creado para un reembolso registrado (`metadata.refundId`), p.ej. si Stripe lo creó
+ * pero la respuesta no llegó. Si hay varios, prefiere uno activo y, si no, el más reciente.
+ * @param {string} paymentIntentId ID del PaymentIntent del pago
+ * @param {number} refundId ID del reembolso
+ * @returns {Promise<Stripe.Refund | null>} Reembolso de Stripe, o `null` si no existe
+ */
+async function findStripeRefund(paymentIntentId: string, refundId: number): Promise<Stripe.Refund | null> {
+    const stripeRefunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+    const matches = stripeRefunds.data.filter(r => r.metadata?.refundId === String(refundId));
+    return matches.find(r => !INACTIVE_REFUND_STATUSES.includes(r.status as RefundStatus)) ?? matches[0] ?? null;
+}
+
+/**
+ * Envía un reembolso ya registrado a Stripe y guarda el resultado.
+ * - La clave de idempotencia es fija por reembolso (`refund-{id}`): repetir el envío nunca duplica el reembolso en Stripe.
+ *   Solo si el reembolso de Stripe anterior falló o se canceló se usa una clave derivada de él (`refund-{id}-{re_...}`),
+ *   para poder crear otro.
+ * - Si Stripe rechaza la petición el reembolso queda en `failed` con el motivo, listo para reintentar.
+ * - Si Stripe lo completa (`succeeded`), emite su factura rectificativa.
+ * @param {{ id:number, order_id:number, payment_id:number, amount:number|string, transaction_id:string, currency?:string|null, stripe_refund_id?:string|null }} refund Reembolso
+ * @returns {Promise<{status: RefundStatus, failure_reason: string | null, creditNote: {id: number, number: string, total: number} | null}>} Estado final tras la llamada
+ */
+async function submitToStripe(refund: { id: number; order_id: number; payment_id: number; amount: number | string; transaction_id: string; currency?: string | null; stripe_refund_id?: string | null }) {
+    let status: RefundStatus;
+    let failureReason: string | null = null;
+    let stripeRefundId: string | null = null;
+
+    try {
+        const stripeRefund = await stripe.refunds.create(
+            {
+                payment_intent: refund.transaction_id,
+                amount: Math.round(Number(refund.amount) * 100),
+                metadata: { orderId: String(refund.order_id), refundId: String(refund.id) },
+            },
+            { idempotencyKey: refund.stripe_refund_id ? `refund-${refund.id}-${refund.stripe_refund_id}` : `refund-${refund.id}` }
+        );
+        stripeRefundId = stripeRefund.id;
+        status = (stripeRefund.status as RefundStatus) ?? 'pending';
+        failureReason = stripeRefund.failure_reason ?? null;
+        console.log(`💸 Reembolso ${refund.id} enviado a Stripe (${stripeRefund.id}): ${status}`);
+    } catch (err: any) {
+        status = 'failed';
+        failureReason = err?.message ?? 'Error desconocido de Stripe';
+        console.error(`⚠️ Error reembolsando ${formatMoney(Number(refund.amount), refund.currency)} del pago ${refund.payment_id} (reembolso ${refund.id}):`, err);
+    }
+
+    await db.query(UPDATE_REFUND_RESULT, [stripeRefundId, status, failureReason, refund.id]);
+    await syncPaymentStatus(refund.payment_id);
+
+    const creditNote = status === 'succeeded' ? await tryIssueRefundCreditNote(refund.id) : null;
+    return { status, failure_reason: failureReason, creditNote };
+}
+
+/**
+ * Formatea una fila de `refunds` para la API
+ * @param {any} row Fila de `refunds`
+ * @param {any[]} [items] Líneas del reembolso
+ * @returns {Object} Reembolso normalizado
+ */
+function formatRefund(row: any, items: any[] = []) {
+    return {
+        id: row.id,
+        order_id: row.order_id,
+        payment_id: row.payment_id,
+        return_id: row.return_id ?? null,
+        stripe_refund_id: row.stripe_refund_id ?? null,
+        amount: Number(row.amount),
+        reason: row.reason,
+        status: row.status as RefundStatus,
+        status_label: mapRefundStatus(row.status),
+        failure_reason: row.failure_reason ?? null,
+        attempts: Number(row.attempts ?? 0),
+        requested_by: row.requested_by ?? null,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        items: items
+            .filter((it: any) => it.refund_id === row.id)
+            .map((it: any) => ({
+                order_item_id: it.order_item_id,
+                product_id: it.product_id,
+                product_name: it.product_name,
+                quantity: it.quantity,
+                amount: Number(it.amount),
+            })),
+    };
+}
+
+/**
+ * Servicio de reembolsos: registra cada reembolso en `refunds` (ligado a `payments`),
+ * lo envía a Stripe con el importe exacto y sigue su estado hasta que se completa o falla.
+ */
+export const RefundsService = {
+    /**
+     * Crear un reembolso de un importe o de líneas concretas de un pedido.
+     * 1. En una transacción (`registerRefund`): bloquea el pedido y sus pagos, calcula el importe y comprueba que no
+     *    supera lo pendiente de reembolsar (ni las unidades ya reembolsadas por línea), y registra
+     *    un reembolso `pending` por cada pago afectado.
+     * 2. Fuera de la transacción (`submitRefunds`): envía cada reembolso a Stripe y guarda su estado. Los que Stripe completa
+     *    reciben su factura rectificativa; los pendientes, cuando se completen (webhook `refund.updated`).
+     *
+     * @param {CreateRefundInput} input Pedido, importe o líneas, motivo y autor
+     * @returns {Promise<RefundResult>} Reembolsos creados e importes aceptados/fallidos
+     * @throws {Error} Si el pedido no tiene pagos reembolsables o el importe/las líneas no son válidos
+     *
+     * @example
+     * ```ts
+     * // Reembolsar 10 € de un pedido
+     * await RefundsService.createRefund({ orderId: 45, amount: 10, reason: 'Compensación por retraso', requestedBy: adminId });
+     * // Reembolsar una unidad de una línea
+     * await RefundsService.createRefund({ orderId: 45, items: [{ order_item_id: 31, quantity: 1 }], reason: 'Producto defectuoso' });
+     * ```
+     */
+    async createRefund(input: CreateRefundInput): Promise<RefundResult> {
+        const created = await withTransaction((conn) => this.registerRefund(conn, input));
+        return this.submitRefunds(created);
+    },
+
+    /**
+     * Registrar un reembolso en `pending` dentro de una transacción ya abierta, sin enviarlo a Stripe
+     * (primer paso de `createRefund`). Sirve para que el reembolso quede guardado junto con lo que lo provoca
+     * (p.ej. la inspección de una devolución); después hay que enviarlo con `submitRefunds`.
+     * @param {PoolConnection} conn Conexión con la transacción abierta
+     * @param {CreateRefundInput} input Pedido, importe o líneas, motivo y autor
+     * @returns {Promise<RegisteredRefund[]>} Reembolsos registrados (uno por pago afectado)
+     * @throws {Error} Si el pedido no tiene pagos reembolsables o el importe/las líneas no son válidos
+     */
+    async registerRefund(conn: PoolConnection, input: CreateRefundInput): Promise<RegisteredRefund[]> {
+        const reason = input.reason?.trim();
+        if (!reason) throw new Error('El motivo del reembolso es obligatorio');
+
+        const [orderRows]: any = await conn.query(LOCK_ORDER_FOR_REFUND, [input.orderId]);
+        if (!orderRows.length) throw new Error('Pedido no encontrado');
+        const order = orderRows[0];
+
+        const [lockedPayments]: any = input.paymentId
+            ? await conn.query(LOCK_PAYMENT_FOR_REFUND, [input.paymentId])
+            : await conn.query(LOCK_REFUNDABLE_PAYMENTS, [input.orderId]);
+        const payments = lockedPayments.filter((p: any) =>
+            Number(p.order_id) === Number(input.orderId) && p.transaction_id && ['completed', 'partially_refunded'].includes(p.status)
+        );
+        if (!payments.length) throw new Error('El pedido no tiene pagos reembolsables');
+
+        const refundedByPayment = await getRefundedByPayment(conn, payments.map((p: any) => p.id));
+        const remainingTotal = roundMoney(payments.reduce(
+            (acc: number, p: any) => acc + Number(p.amount) - (refundedByPayment.get(p.id) ?? 0), 0
+        ));
+
+        // 🔹 Líneas a reembolsar (con su importe proporcional)
+        const lines: Array<{ order_item_id: number; quantity: number; amount: number }> = [];
+        if (input.items?.length) {
+            const [orderItems]: any = await conn.query(GET_ORDER_ITEMS_FOR_RETURN, [input.orderId]);
+            const [refundedRows]: any = await conn.query(GET_REFUNDED_QUANTITIES_BY_ORDER, [input.orderId]);
+            const refundedQty = new Map<number, number>(refundedRows.map((r: any) => [Number(r.order_item_id), Number(r.refunded_quantity)]));
+            const itemsSubtotal = orderItems.reduce((acc: number, it: any) => acc + Number(it.price) * Number(it.quantity), 0);
+
+            for (const line of input.items) {
+                const orderItemId = Number(line.order_item_id);
+                const quantity = Number(line.quantity);
+                const orderItem = orderItems.find((it: any) => Number(it.id) === orderItemId);
+                if (!orderItem) throw new Error(`La línea ${line.order_item_id} no pertenece a este pedido`);
+                if (!Number.isInteger(quantity) || quantity <= 0) throw new Error(`Cantidad no válida para la línea ${orderItemId}`);
+
+                const alreadyRefunded = (refundedQty.get(orderItemId) ?? 0) + lines
+                    .filter(l => l.order_item_id === orderItemId)
+                    .reduce((acc, l) => acc + l.quantity, 0);
+                const available = Number(orderItem.quantity) - alreadyRefunded;
+                if (quantity > available) {
+                    throw new Error(`Solo quedan ${Math.max(available, 0)} unidad(es) por reembolsar de ${orderItem.product_name ?? `la línea ${orderItemId}`}`);
+                }
+
+                lines.push({
+                    order_item_id: orderItemId,
+                    quantity,
+                    amount: computeRefundShare(Number(orderItem.price) * quantity, itemsSubtotal, Number(order.discount_amount || 0)),
+                });
+            }
+        }
+
+        // 🔹 Importe total del reembolso
+        const hasAmount = input.amount !== undefined && input.amount !== null;
+        const amount = roundMoney(hasAmount
+            ? Number(input.amount)
+            : lines.length ? lines.reduce((acc, l) => acc + l.amount, 0) : remainingTotal);
+
+        if (!Number.isFinite(amount) || amount <= 0) {
+            throw new Error(hasAmount ? 'El importe del reembolso debe ser mayor que 0' : 'No hay importe pendiente de reembolsar');
+        }
+        if (amount > remainingTotal + 0.005) {
+            throw new Error(`El importe (${formatMoney(amount, order.currency)}) supera lo pendiente de reembolsar (${formatMoney(remainingTotal, order.currency)})`);
+        }
+
+        // 🔹 Repartir el importe entre los pagos del pedido (normalmente solo hay uno)
+        const refunds: RegisteredRefund[] = [];
+        let pending = amount;
+        for (const payment of payments) {
+            if (pending <= 0) break;
+            const available = roundMoney(Number(payment.amount) - (refundedByPayment.get(payment.id) ?? 0));
+            if (available <= 0) continue;
+
+            const share = roundMoney(Math.min(available, pending));
+            const [res]: any = await conn.query(INSERT_REFUND, [
+                input.orderId, payment.id, input.returnId ?? null, share, reason, input.requestedBy ?? null,
+            ]);
+            refunds.push({ id: res.insertId, order_id: input.orderId, payment_id: payment.id, amount: share, transaction_id: payment.transaction_id, currency: order.currency ?? null });
+            pending = roundMoney(pending - share);
+        }
+
+        // Las líneas se asocian al primer reembolso creado
+        const firstRefund = refunds[0];
+        if (firstRefund) {
+            for (const line of lines) {
+                await conn.query(INSERT_REFUND_ITEM, [firstRefund.id, line.order_item_id, line.quantity, line.amount]);
+            }
+        }
+
+        return refunds;
+    },
+
+    /**
+     * Enviar a Stripe reembolsos ya registrados (`registerRefund`) y guardar su estado. Se llama fuera de la
+     * transacción para no bloquear el pedido durante la llamada. Los que fallan quedan en `failed` para reintentarlos.
+     * @param {RegisteredRefund[]} created Reembolsos registrados
+     * @returns {Promise<RefundResult>} Reembolsos enviados e importes aceptados/fallidos
+     */
+    async submitRefunds(created: RegisteredRefund[]): Promise<RefundResult> {
+        const result: RefundResult = { refunds: [], refundedAmount: 0, failedAmount: 0, creditNotes: [] };
+        for (const refund of created) {
+            const { status, failure_reason, creditNote } = await submitToStripe(refund);
+            result.refunds.push({ id: refund.id, payment_id: refund.payment_id, amount: refund.amount, status, failure_reason });
+            if (creditNote) result.creditNotes.push(creditNote);
+            if (INACTIVE_REFUND_STATUSES.includes(status)) result.failedAmount += refund.amount;
+            else result.refundedAmount += refund.amount;
+        }
+        result.refundedAmount = roundMoney(result.refundedAmount);
+        result.failedAmount = roundMoney(result.failedAmount);
+
+        return result;
+    },
+
+    /**
+     * Reembolsar todo lo pendiente de un pedido (p.ej. al cancelarlo).
+     * A diferencia de `createRefund`, no falla si el pedido no tiene nada que reembolsar.
+     * @param {number} orderId ID del pedido
+     * @param {string} reason Motivo del reembolso
+     * @param {number | null} [requestedBy] ID del usuario que lo provoca
+     * @returns {Promise<RefundResult>} Reembolsos creados (vacío si no había nada que reembolsar)
+     */
+    async refundOrderBalance(orderId: number, reason: string, requestedBy: number | null = null): Promise<RefundResult> {
+        const [payments]: any = await db.query(GET_REFUNDABLE_PAYMENTS, [orderId]);
+        const refunded = await getRefundedByPayment(db, payments.map((p: any) => p.id));
+        const remaining = payments.reduce((acc: number, p: any) => acc + Number(p.amount) - (refunded.get(p.id) ?? 0), 0);
+
+        if (remaining < 0.005) return { refunds: [], refundedAmount: 0, failedAmount: 0, creditNotes: [] };
+        return this.createRefund({ orderId, reason, requestedBy });
+    },
+
+    /**
+     * Devolver entero un pago no aplicado (`payments.unapplied`): cobrado cuando su pedido ya no estaba pendiente
+     * (caducado, cancelado o pagado con otra sesión).
+     * - Se puede repetir: primero reenvía a Stripe los reembolsos del pago que se registraron pero no llegaron a enviarse
+     *   (misma clave de idempotencia, Stripe no los duplica) y solo crea uno nuevo por lo que quede sin reembolsar.
+     * - No emite factura rectificativa: el pago nunca se facturó.
+     * @param {number} paymentId ID del pago
+     * @param {string} reason Motivo del reembolso
+     * @returns {Promise<RefundResult>} Reembolsos enviados (vacío si el pago ya estaba devuelto)
+     */
+    async refundUnappliedPayment(paymentId: number, reason: string): Promise<RefundResult> {
+        const result: RefundResult = { refunds: [], refundedAmount: 0, failedAmount: 0, creditNotes: [] };
+
+        const [unsent]: any = await db.query(GET_UNSENT_REFUNDS_BY_PAYMENT, [paymentId]);
+        for (const refund of unsent) {
+            const { status, failure_reason } = await submitToStripe(refund);
+            result.refunds.push({ id: refund.id, payment_id: refund.payment_id, amount: Number(refund.amount), status, failure_reason });
+            if (INACTIVE_REFUND_STATUSES.includes(status)) result.failedAmount += Number(refund.amount);
+            else result.refundedAmount += Number(refund.amount);
+        }
+
+        const [rows]: any = await db.query('SELECT id, order_id, amount FROM payments WHERE id = ?', [paymentId]);
+        if (!rows.length) throw new Error('Pago no encontrado');
+        const refunded = (await getRefundedByPayment(db, [paymentId])).get(paymentId) ?? 0;
+        if (Number(rows[0].amount) - refunded >= 0.005) {
+            const created = await this.createRefund({ orderId: Number(rows[0].order_id), paymentId, reason });
+            result.refunds.push(...created.refunds);
+            result.refundedAmount += created.refundedAmount;
+            result.failedAmount += created.failedAmount;
+        }
+
+        result.refundedAmount = roundMoney(result.refundedAmount);
+        result.failedAmount = roundMoney(result.failedAmount);
+        return result;
+    },
+
+    /**
+     * Reembolsar las devoluciones aprobadas de un pedido que aún no tienen reembolso
+     * (usado al marcar el pedido como `returned`).
+     * - Cada devolución se reembolsa por su `total_amount` y con sus líneas.
+     * - Si el pedido no tiene ninguna devolución aprobada ni recibida, se reembolsa todo lo pendiente
+     *   (las recibidas ya se reembolsaron al inspeccionarlas).
+     * @param {number} orderId ID del pedido
+     * @param {number | null} [requestedBy] ID del administrador que completa la devolución
+     * @returns {Promise<RefundResult>} Suma de los reembolsos creados
+     */
+    async refundApprovedReturns(orderId: number, requestedBy: number | null = null): Promise<RefundResult> {
+        const [countRows]: any = await db.query(COUNT_APPROVED_RETURNS, [orderId]);
+        if (!Number(countRows[0]?.count)) {
+            return this.refundOrderBalance(orderId, 'Devolución completada', requestedBy);
+        }
+
+        const [returns]: any = await db.query(GET_UNREFUNDED_APPROVED_RETURNS, [orderId]);
+        const result: RefundResult = { refunds: [], refundedAmount: 0, failedAmount: 0, creditNotes: [] };
+        if (!returns.length) return result;
+
+        const [returnItems]: any = await db.query(GET_RETURN_ITEMS_BY_RETURN_IDS, [returns.map((r: any) => r.id)]);
+
+        for (const ret of returns) {
+            const items = returnItems
+                .filter((it: any) => it.return_id === ret.id)
+                .map((it: any) => ({ order_item_id: it.order_item_id, quantity: it.quantity }));
+
+            const partial = await this.createRefund({
+                orderId,
+                returnId: ret.id,
+                items,
+                amount: ret.total_amount !== null ? Number(ret.total_amount) : null,
+                reason: `Devolución #${ret.id}${ret.reason ? `: ${ret.reason}` : ''}`,
+                requestedBy,
+            });
+            result.refunds.push(...partial.refunds);
+            result.creditNotes.push(...partial.creditNotes);
+            result.refundedAmount = roundMoney(result.refundedAmount + partial.refundedAmount);
+            result.failedAmount = roundMoney(result.failedAmount + partial.failedAmount);
+        }
+
+        return result;
+    },
+
+    /**
+     * Reintentar un reembolso fallido o cancelado, o uno registrado que no llegó a enviarse a Stripe
+     * (`pending` sin `stripe_refund_id`, p.ej. si el proceso se cortó tras registrarlo).
+     * - Antes busca en Stripe un reembolso ya creado para él (`metadata.refundId`): si está activo, solo se sincroniza.
+     * - Comprueba de nuevo (con el pago bloqueado) que el importe sigue cabiendo en lo pendiente del pago.
+     * - Envía el reembolso a Stripe (ver `submitToStripe`); si se completa, emite su factura rectificativa.
+     * @param {number} refundId ID del reembolso
+     * @returns {Promise<Object>} Reembolso actualizado
+     * @throws {Error} Si no existe, no está fallido o ya no hay importe disponible
+     */
+    async retryRefund(refundId: number) {
+        const [current]: any = await db.query(GET_REFUND_BY_ID, [refundId]);
+        if (!current.length) throw new Error('Reembolso no encontrado');
+
+        // 🔎 Stripe puede haberlo creado aunque la respuesta no llegara: no se crea otro
+        const existing = current[0].transaction_id ? await findStripeRefund(current[0].transaction_id, refundId) : null;
+        if (existing && !INACTIVE_REFUND_STATUSES.includes(existing.status as RefundStatus)) {
+            await this.syncFromStripe(existing);
+            return this.getRefund(refundId);
+        }
+        // El último de Stripe falló o se canceló: el nuevo envío usa una clave derivada de él
+        if (existing && existing.id !== current[0].stripe_refund_id) {
+            await db.query('UPDATE refunds SET stripe_refund_id = ? WHERE id = ?', [existing.id, refundId]);
+        }
+
+        const refund = await withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(GET_REFUND_BY_ID, [refundId]);
+            if (!rows.length) throw new Error('Reembolso no encontrado');
+            const row = rows[0];
+            const unsent = row.status === 'pending' && !row.stripe_refund_id;
+            if (!INACTIVE_REFUND_STATUSES.includes(row.status) && !unsent) {
+                throw new Error('Solo se pueden reintentar reembolsos fallidos, cancelados o sin enviar a Stripe');
+            }
+
+            const [paymentRows]: any = await conn.query(LOCK_PAYMENT_FOR_REFUND, [row.payment_id]);
+            if (!paymentRows.length) throw new Error('Pago no encontrado');
+
+            // Un reembolso sin enviar ya reserva su importe: no cuenta contra sí mismo
+            const refunded = ((await getRefundedByPayment(conn, [row.payment_id])).get(row.payment_id) ?? 0) - (unsent ? Number(row.amount) : 0);
+            const available = roundMoney(Number(paymentRows[0].amount) - refunded);
+            if (Number(row.amount) > available + 0.005) {
+                throw new Error(`El pago ya no tiene importe suficiente para este reembolso (disponible: ${formatMoney(available, row.currency)})`);
+            }
+
+            await conn.query(UPDATE_REFUND_STATUS, ['pending', null, refundId]);
+            return row;
+        });
+
+        await submitToStripe(refund);
+        return this.getRefund(refundId);
+    },
+
+    /**
+     * Sincronizar un reembolso con el objeto `Refund` recibido de Stripe (webhook `refund.updated`,
+     * `refund.failed` o `charge.refund.updated`) y recalcular el estado del pago.
+     * Si el reembolso está completado (`succeeded`) y aún no tiene factura rectificativa, la emite.
+     * @param {Stripe.Refund} stripeRefund Reembolso de Stripe
+     * @returns {Promise<boolean>} `false` si el reembolso no está registrado en `refunds`
+     */
+    async syncFromStripe(stripeRefund: Stripe.Refund) {
+        let [rows]: any = await db.query(GET_REFUND_BY_STRIPE_ID, [stripeRefund.id]);
+        if (!rows.length && stripeRefund.metadata?.refundId) {
+            [rows] = await db.query(GET_REFUND_BY_ID, [Number(stripeRefund.metadata.refundId)]);
+        }
+        if (!rows.length) return false;
+
+        const refund = rows[0];
+        const status = (stripeRefund.status as RefundStatus) ?? refund.status;
+        const failureReason = stripeRefund.failure_reason ?? null;
+
+        // Tras un reintento el reembolso apunta a otro de Stripe: los avisos del anterior (fallido) ya no cambian su estado
+        if (refund.stripe_refund_id && refund.stripe_refund_id !== stripeRefund.id && INACTIVE_REFUND_STATUSES.includes(status)) {
+            return true;
+        }
+        if (refund.stripe_refund_id !== stripeRefund.id) {
+            await db.query('UPDATE refunds SET stripe_refund_id = ? WHERE id = ?', [stripeRefund.id, refund.id]);
+        }
+        if (refund.status !== status || (refund.failure_reason ?? null) !== failureReason) {
+            await db.query(UPDATE_REFUND_STATUS, [status, failureReason, refund.id]);
+            await syncPaymentStatus(refund.payment_id);
+            console.log(`🔄 Reembolso ${refund.id} sincronizado desde Stripe: ${refund.status} → ${status}`);
+        }
+        if (status === 'succeeded') await tryIssueRefundCreditNote(refund.id);
+        return true;
+    },
+
+    /**
+     * Sincronizar los reembolsos de un cargo de Stripe (webhook `charge.refunded`).
+     * - Los reembolsos creados por la aplicación (con `metadata.refundId`) solo actualizan su estado (`syncFromStripe`).
+     * - Los hechos desde el panel de Stripe se registran en `refunds` sin líneas y recalculan el estado del pago.
+     *   Reciben su factura rectificativa cuando están completados (`succeeded`).
+     *   El pedido lo actualiza quien llama (el webhook cancela el pedido si queda reembolsado por completo).
+     * @param {Stripe.Charge} charge Cargo reembolsado
+     * @returns {Promise<number[]>} IDs de los reembolsos registrados desde el panel de Stripe
+     */
+    async syncChargeRefunds(charge: Stripe.Charge) {
+        const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+        if (!paymentIntentId) return [];
+
+        const imported: number[] = [];
+        const stripeRefunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+        for (const stripeRefund of stripeRefunds.data) {
+            if (await this.syncFromStripe(stripeRefund)) continue;
+            if (stripeRefund.metadata?.refundId) {
+                console.log(`Reembolso de Stripe ${stripeRefund.id} no registrado, se ignora`);
+                continue;
+            }
+
+            const status = (stripeRefund.status as RefundStatus) ?? 'pending';
+            const created = await withTransaction(async (conn) => {
+                const [payments]: any = await conn.query(LOCK_PAYMENT_BY_TRANSACTION, [paymentIntentId]);
+                if (!payments.length) return null;
+                const payment = payments[0];
+
+                // Otra entrega del mismo evento puede haberlo registrado mientras esperábamos el bloqueo
+                const [existing]: any = await conn.query(GET_REFUND_BY_STRIPE_ID, [stripeRefund.id]);
+                if (existing.length) return null;
+
+                const amount = roundMoney(stripeRefund.amount / 100);
+                const reason = `Reembolso hecho desde el panel de Stripe${stripeRefund.reason ? ` (${stripeRefund.reason})` : ''}`;
+                const [res]: any = await conn.query(INSERT_REFUND, [payment.order_id, payment.id, null, amount, reason, null]);
+                await conn.query(UPDATE_REFUND_RESULT, [stripeRefund.id, status, stripeRefund.failure_reason ?? null, res.insertId]);
+                return { id: res.insertId as number, payment_id: payment.id as number, order_id: payment.order_id as number };
+            });
+
+            if (!created) continue;
+            await syncPaymentStatus(created.payment_id);
+            if (status === 'succeeded') await tryIssueRefundCreditNote(created.id);
+            imported.push(created.id);
+            console.log(`💸 Reembolso ${stripeRefund.id} del panel de Stripe registrado en el pedido ${created.order_id} (reembolso ${created.id})`);
+        }
+        return imported;
+    },
+
+    /**
+     * Consultar en Stripe el estado actual de un reembolso y sincronizarlo.
+     * @param {number} refundId ID del reembolso
+     * @returns {Promise<Object>} Reembolso actualizado
+     * @throws {Error} Si no existe o todavía no se ha enviado a Stripe
+     */
+    async refreshRefund(refundId: number) {
+        const [rows]: any = await db.query(GET_REFUND_BY_ID, [refundId]);
+        if (!rows.length) throw new Error('Reembolso no encontrado');
+        if (!rows[0].stripe_refund_id) throw new Error('El reembolso no se ha enviado a Stripe');
+
+        const stripeRefund = await stripe.refunds.retrieve(rows[0].stripe_refund_id);
+        await this.syncFromStripe(stripeRefund);
+        return this.getRefund(refundId);
+    },
+
+    /**
+     * Obtener un reembolso con sus líneas
+     * @param {number} refundId ID del reembolso
+     * @returns {Promise<Object>} Reembolso
+     * @throws {Error} Si no existe
+     */
+    async getRefund(refundId: number) {
+        const [rows]: any = await db.query(GET_REFUND_BY_ID, [refundId]);
+        if (!rows.length) throw new Error('Reembolso no encontrado');
+        const [items]: any = await db.query(GET_REFUND_ITEMS_BY_REFUND_IDS, [[refundId]]);
+        return formatRefund(rows[0], items);
+    },
+
+    /**
+     * Listar los reembolsos de un pedido con sus líneas
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<Object[]>} Reembolsos del pedido
+     */
+    async getOrderRefunds(orderId: number) {
+        const [rows]: any = await db.query(GET_REFUNDS_BY_ORDER, [orderId]);
+        if (!rows.length) return [];
+        const [items]: any = await db.query(GET_REFUND_ITEMS_BY_REFUND_IDS, [rows.map((r: any) => r.id)]);
+        return rows.map((r: any) => ({ ...formatRefund(r, items), requested_by_name: r.requested_by_name ?? null }));
+    },
+
+    /**
+     * Listar reembolsos por estado (por defecto los fallidos, para reintentarlos)
+     * @param {RefundStatus} [status] Estado a filtrar
+     * @param {number} [limit] Máximo de resultados
+     * @returns {Promise<Object[]>} Reembolsos con el email del cliente
+     */
+    async listRefunds(status: RefundStatus = 'failed', limit: number = 50) {
+        const [rows]: any = await db.query(GET_REFUNDS_BY_STATUS, [status, limit]);
+        return rows.map((r: any) => ({ ...formatRefund(r), customer_email: r.customer_email }));
+    },
+};
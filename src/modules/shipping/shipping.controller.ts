@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { ShippingService } from './shipping.service';
+
+export const ShippingController = {
+    /**
+     * Listar los métodos de envío con sus tarifas por zona.
+     * @route GET /shipping/methods
+     * @access Admin
+     * @param {Request} req - Sin parámetros.
+     * @param {Response} res - `{ zones, bases, methods }`.
+     */
+    async listMethods(req: Request, res: Response) {
+        try {
+            const data = await ShippingService.listMethods();
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Configurar un método de envío y, opcionalmente, sustituir sus tramos de tarifa.
+     * @route PUT /shipping/methods/:code
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Param `code`; body `{ name?, description?, active?, sort_order?, rates? }`.
+     * @param {Response} res - Método guardado con sus tramos.
+     * @example
+     * PUT /shipping/methods/standard
+     * body: { active: true, rates: [{ zone: "peninsula", basis: "weight", max_value: 5, price: 4.95, free_from: 50 }] }
+     */
+    async updateMethod(req: AuthenticatedRequest, res: Response) {
+        try {
+            const data = await ShippingService.updateMethod(req.params.code, req.body ?? {}, req.user!.id);
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+};
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ShippingController } from './shipping.controller';
+import { authenticate, authorize } from '../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route GET /shipping/methods
+ * @desc Listar los métodos de envío (standard, express, pickup) con sus tramos de tarifa por zona
+ * @access Admin
+ * @returns {Object} { zones, bases, methods: [{ code, name, description, active, sort_order, configured, rates, updated_at }] }
+ */
+router.get('/methods', authenticate, authorize('admin'), ShippingController.listMethods);
+
+/**
+ * @route PUT /shipping/methods/:code
+ * @desc Configurar un método de envío. Si se envía `rates`, sustituye todos sus tramos.
+ * - Solo afecta a los pedidos nuevos.
+ * @access Admin
+ * @param {string} code standard, express o pickup
+ * @body {string} [name] Nombre que ve el cliente
+ * @body {string} [description] Descripción (plazo, punto de recogida...)
+ * @body {boolean} [active] Si se ofrece en el checkout
+ * @body {number} [sort_order] Orden en el checkout
+ * @body {Array} [rates] Tramos [{ zone, basis?, min_value?, max_value?, price, free_from? }] (importes en euros)
+ * @returns {Object} Método guardado con sus tramos
+ */
+router.put('/methods/:code', authenticate, authorize('admin'), ShippingController.updateMethod);
+
+export default router;
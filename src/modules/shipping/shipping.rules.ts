@@ -0,0 +1,265 @@
+import { roundMoney } from '../../utils/money.utils';
+import { resolveTaxZone } from '../taxes/taxes.rules';
+
+/** Métodos de envío que se pueden configurar */
+export const SHIPPING_METHODS = ['standard', 'express', 'pickup'] as const;
+export type ShippingMethodCode = typeof SHIPPING_METHODS[number];
+
+/** Método que se usa si el pedido no indica `shipping_method` */
+export const DEFAULT_SHIPPING_METHOD: ShippingMethodCode = 'standard';
+
+/** Nombre por defecto de cada método (si el administrador no le ha dado otro) */
+export const SHIPPING_METHOD_LABELS: Record<ShippingMethodCode, string> = {
+    standard: 'Envío estándar',
+    express: 'Envío exprés',
+    pickup: 'Recogida en tienda',
+};
+
+/**
+ * Zonas de envío del destino.
+ * - `peninsula`: España peninsular.
+ * - `baleares`: Islas Baleares.
+ * - `canarias`: Islas Canarias.
+ * - `eu`: resto de la Unión Europea.
+ * - `rest`: resto del mundo (también Ceuta y Melilla).
+ */
+export const SHIPPING_ZONES = ['peninsula', 'baleares', 'canarias', 'eu', 'rest'] as const;
+export type ShippingZone = typeof SHIPPING_ZONES[number];
+
+/** Nombre de cada zona de envío */
+export const SHIPPING_ZONE_LABELS: Record<ShippingZone, string> = {
+    peninsula: 'Península',
+    baleares: 'Baleares',
+    canarias: 'Canarias',
+    eu: 'Unión Europea',
+    rest: 'Resto del mundo',
+};
+
+/**
+ * Criterio de los tramos de una tarifa.
+ * - `weight`: peso total del pedido en kg (`products.weight` × unidades).
+ * - `value`: importe de los productos en euros.
+ */
+export const RATE_BASES = ['weight', 'value'] as const;
+export type RateBasis = typeof RATE_BASES[number];
+
+/**
+ * Tramo de tarifa de un método en una zona: se aplica si el peso o el importe está en `[min_value, max_value)`.
+ * `price` y `free_from` están en euros; desde `free_from` (importe de los productos) el envío es gratis.
+ */
+export interface ShippingRate {
+    zone: ShippingZone;
+    basis: RateBasis;
+    min_value: number;
+    max_value: number | null;
+    price: number;
+    free_from: number | null;
+}
+
+/**
+ * Paquete de un pedido a efectos de envío: peso total (kg) e importe de los productos en euros.
+ */
+export interface Parcel {
+    weight: number;
+    value: number;
+}
+
+/**
+ * Método de envío disponible para una dirección, con el coste en la divisa del pedido.
+ */
+export interface ShippingOption {
+    method: ShippingMethodCode;
+    name: string;
+    description: string | null;
+    zone: ShippingZone;
+    cost: number;
+    cost_eur: number;
+    free: boolean;
+    currency: string;
+}
+
+/**
+ * Envío de un pedido tal y como se devuelve en los pedidos y en la factura.
+ */
+export interface OrderShipping {
+    method: ShippingMethodCode;
+    name: string;
+    zone: ShippingZone | null;
+    zone_label: string | null;
+    cost: number;
+}
+
+/** Provincias de Baleares tal y como se escriben en `addresses.province` (normalizadas) */
+const BALEARES_PROVINCES = ['baleares', 'islas baleares', 'illes balears', 'balears', 'mallorca', 'menorca', 'ibiza', 'eivissa', 'formentera'];
+
+/**
+ * @function resolveShippingZone
+ * @summary Zona de envío de una dirección.
+ * @description
+ * Parte de la zona fiscal (`resolveTaxZone`) y separa Baleares del resto de España por código postal (07) o provincia.
+ *
+ * @param {{ country?: string | null, postal_code?: string | null, province?: string | null }} address Dirección de envío
+ * @returns {ShippingZone} Zona de envío
+ *
+ * @example
+ * ```ts
+ * resolveShippingZone({ country: 'España', postal_code: '07001' }); // 'baleares'
+ * resolveShippingZone({ country: 'Francia', postal_code: '75001' }); // 'eu'
+ * ```
+ */
+export function resolveShippingZone(address: { country?: string | null; postal_code?: string | null; province?: string | null }): ShippingZone {
+    switch (resolveTaxZone(address)) {
+        case 'es': {
+            const postalCode = (address.postal_code ?? '').replace(/\s/g, '');
+            const province = (address.province ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+            return postalCode.startsWith('07') || BALEARES_PROVINCES.includes(province) ? 'baleares' : 'peninsula';
+        }
+        case 'canarias': return 'canarias';
+        case 'eu': return 'eu';
+        default: return 'rest';
+    }
+}
+
+/**
+ * @function parseShippingMethod
+ * @summary Valida el método de envío recibido en la petición (`shipping_method`).
+ *
+ * @param {unknown} input - `standard`, `express` o `pickup`
+ * @returns {ShippingMethodCode | null} Método normalizado, o `null` si no se indica
+ * @throws Error si el método no existe
+ *
+ * @example
+ * ```ts
+ * parseShippingMethod('Express'); // 'express'
+ * ```
+ */
+export function parseShippingMethod(input: unknown): ShippingMethodCode | null {
+    if (input === undefined || input === null || input === '') return null;
+    const code = String(input).trim().toLowerCase();
+    if (!(SHIPPING_METHODS as readonly string[]).includes(code)) {
+        throw new Error(`Método de envío no válido. Valores permitidos: ${SHIPPING_METHODS.join(', ')}`);
+    }
+    return code as ShippingMethodCode;
+}
+
+/**
+ * @function parseShippingRates
+ * @summary Valida los tramos de tarifa de un método (admin).
+ *
+ * @param {unknown} input - Array de `{ zone, basis?, min_value?, max_value?, price, free_from? }`
+ * @returns {ShippingRate[]} Tramos normalizados (`basis` por defecto `weight`, `min_value` por defecto 0)
+ * @throws Error si algún tramo no es válido
+ *
+ * @example
+ * ```ts
+ * parseShippingRates([{ zone: 'peninsula', max_value: 2, price: 4.95, free_from: 50 }]);
+ * ```
+ */
+export function parseShippingRates(input: unknown): ShippingRate[] {
+    if (!Array.isArray(input)) throw new Error('rates debe ser un array de tramos { zone, basis?, min_value?, max_value?, price, free_from? }');
+
+    return input.map((raw: any, i) => {
+        const where = `rates[${i}]`;
+        if (!raw || typeof raw !== 'object') throw new Error(`${where} debe ser un objeto`);
+        if (!(SHIPPING_ZONES as readonly string[]).includes(raw.zone)) {
+            throw new Error(`${where}.zone no válida. Valores permitidos: ${SHIPPING_ZONES.join(', ')}`);
+        }
+        const basis = raw.basis ?? 'weight';
+        if (!(RATE_BASES as readonly string[]).includes(basis)) throw new Error(`${where}.basis debe ser ${RATE_BASES.join(' o ')}`);
+
+        const minValue = Number(raw.min_value ?? 0);
+        const maxValue = raw.max_value === undefined || raw.max_value === null ? null : Number(raw.max_value);
+        const price = Number(raw.price);
+        const freeFrom = raw.free_from === undefined || raw.free_from === null ? null : Number(raw.free_from);
+        if (!Number.isFinite(minValue) || minValue < 0) throw new Error(`${where}.min_value debe ser un número mayor o igual que 0`);
+        if (maxValue !== null && (!Number.isFinite(maxValue) || maxValue <= minValue)) throw new Error(`${where}.max_value debe ser mayor que min_value`);
+        if (!Number.isFinite(price) || price < 0) throw new Error(`${where}.price debe ser un número mayor o igual que 0`);
+        if (freeFrom !== null && (!Number.isFinite(freeFrom) || freeFrom < 0)) throw new Error(`${where}.free_from debe ser un número mayor o igual que 0`);
+
+        return { zone: raw.zone, basis, min_value: minValue, max_value: maxValue, price: roundMoney(price), free_from: freeFrom };
+    });
+}
+
+/**
+ * @function buildParcel
+ * @summary Peso e importe en euros de las líneas de un pedido (los productos sin peso cuentan 0 kg).
+ *
+ * @param {Array<{ quantity: number, weight?: number | null, price?: number | null }>} lines Unidades, peso (kg) y precio en euros de cada línea
+ * @returns {Parcel} Paquete del pedido
+ *
+ * @example
+ * ```ts
+ * buildParcel([{ quantity: 2, weight: 0.4, price: 19.99 }]); // { weight: 0.8, value: 39.98 }
+ * ```
+ */
+export function buildParcel(lines: Array<{ quantity: number; weight?: number | null; price?: number | null }>): Parcel {
+    return lines.reduce<Parcel>((parcel, line) => ({
+        weight: Math.round((parcel.weight + Number(line.weight ?? 0) * line.quantity) * 1000) / 1000,
+        value: roundMoney(parcel.value + Number(line.price ?? 0) * line.quantity),
+    }), { weight: 0, value: 0 });
+}
+
+/**
+ * @function shippingCostEur
+ * @summary Coste en euros de un método para un paquete, según sus tramos en la zona del destino.
+ *
+ * @param {ShippingRate[]} rates Tramos del método en la zona
+ * @param {Parcel} parcel Paquete del pedido
+ * @returns {number | null} Coste (0 si se alcanza `free_from`), o `null` si ningún tramo cubre el paquete
+ *
+ * @example
+ * ```ts
+ * shippingCostEur([{ zone: 'peninsula', basis: 'weight', min_value: 0, max_value: 2, price: 4.95, free_from: 50 }], { weight: 1, value: 60 }); // 0
+ * ```
+ */
+export function shippingCostEur(rates: ShippingRate[], parcel: Parcel): number | null {
+    const rate = rates.find(r => {
+        const metric = r.basis === 'weight' ? parcel.weight : parcel.value;
+        return metric >= r.min_value && (r.max_value === null || metric < r.max_value);
+    });
+    if (!rate) return null;
+    return rate.free_from !== null && parcel.value >= rate.free_from ? 0 : rate.price;
+}
+
+/**
+ * @function pickShippingOption
+ * @summary Método de envío de un pedido entre los disponibles para su dirección.
+ *
+ * @param {ShippingOption[]} options Métodos disponibles
+ * @param {ShippingMethodCode | null} requested Método elegido; si no se indica, `DEFAULT_SHIPPING_METHOD`
+ * @returns {ShippingOption} Método elegido
+ * @throws Error si no hay métodos disponibles, el elegido no lo está para esta dirección o no se indica
+ *   y el método por defecto no está disponible (hay que elegir uno de los que hay)
+ */
+export function pickShippingOption(options: ShippingOption[], requested: ShippingMethodCode | null): ShippingOption {
+    if (!options.length) throw new Error('No hay métodos de envío disponibles para esta dirección');
+    const option = options.find(o => o.method === (requested ?? DEFAULT_SHIPPING_METHOD));
+    if (option) return option;
+    if (requested) throw new Error(`El método de envío ${requested} no está disponible para esta dirección`);
+    throw new Error(`Indica el método de envío (shipping_method). Disponibles para esta dirección: ${options.map(o => o.method).join(', ')}`);
+}
+
+/**
+ * @function mapOrderShipping
+ * @summary Envío de un pedido a partir de su fila en `orders`.
+ *
+ * @param {any} row Fila con `shipping_method`, `shipping_method_name`, `shipping_zone` y `shipping_cost`
+ * @returns {OrderShipping | null} Envío del pedido, o `null` si no tiene método (anteriores a los envíos y pedidos de reposición)
+ *
+ * @example
+ * ```ts
+ * const shipping = mapOrderShipping(rows[0]);
+ * ```
+ */
+export function mapOrderShipping(row: any): OrderShipping | null {
+    if (!row?.shipping_method) return null;
+    const method = row.shipping_method as ShippingMethodCode;
+    const zone = (row.shipping_zone ?? null) as ShippingZone | null;
+    return {
+        method,
+        name: row.shipping_method_name ?? SHIPPING_METHOD_LABELS[method] ?? method,
+        zone,
+        zone_label: zone ? SHIPPING_ZONE_LABELS[zone] ?? zone : null,
+        cost: Number(row.shipping_cost ?? 0),
+    };
+}
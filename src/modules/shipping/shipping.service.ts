@@ -0,0 +1,198 @@
+import { PoolConnection } from 'mysql2/promise';
+import { db } from '../../config/config';
+import { withTransaction } from '../../database/db';
+import {
+    GET_SHIPPING_METHODS,
+    GET_SHIPPING_METHOD,
+    GET_SHIPPING_RATES,
+    GET_ACTIVE_SHIPPING_RATES_FOR_ZONE,
+    UPSERT_SHIPPING_METHOD,
+    DELETE_SHIPPING_RATES_BY_METHOD,
+    INSERT_SHIPPING_RATES,
+    GET_ADDRESS_FOR_SHIPPING,
+    GET_PRODUCTS_FOR_SHIPPING
+} from '../../database/queries/shipping.queries';
+import { CurrencyRate, convertFromEur } from '../currencies/currencies.rules';
+import {
+    SHIPPING_METHODS,
+    SHIPPING_METHOD_LABELS,
+    SHIPPING_ZONES,
+    SHIPPING_ZONE_LABELS,
+    RATE_BASES,
+    ShippingMethodCode,
+    ShippingRate,
+    ShippingOption,
+    Parcel,
+    parseShippingMethod,
+    parseShippingRates,
+    resolveShippingZone,
+    buildParcel,
+    shippingCostEur
+} from './shipping.rules';
+
+/**
+ * Convierte una fila de `shipping_rates` en un tramo de tarifa.
+ * @param {any} row Fila con `zone`, `basis`, `min_value`, `max_value`, `price` y `free_from`
+ * @returns {ShippingRate} Tramo
+ */
+function mapRate(row: any): ShippingRate {
+    return {
+        zone: row.zone,
+        basis: row.basis,
+        min_value: Number(row.min_value),
+        max_value: row.max_value !== null ? Number(row.max_value) : null,
+        price: Number(row.price),
+        free_from: row.free_from !== null ? Number(row.free_from) : null,
+    };
+}
+
+/**
+ * Servicio de envíos: métodos (estándar, exprés, recogida), tarifas por zona y cálculo del coste de un pedido.
+ * - Las tarifas están en euros y por tramos de peso o de importe; el coste se convierte a la divisa del pedido.
+ * - Un método solo se ofrece si está activo y tiene un tramo que cubre el paquete en la zona del destino.
+ */
+export const ShippingService = {
+    /**
+     * Paquete de unas líneas de pedido: peso total e importe en euros según el catálogo.
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {Array<{product_id: number, quantity: number}>} items Líneas del pedido
+     * @returns {Promise<Parcel>} Peso (kg) e importe (€) de los productos
+     * @example
+     * const parcel = await ShippingService.getParcel(db, cart.items);
+     */
+    async getParcel(executor: PoolConnection | typeof db, items: Array<{ product_id: number; quantity: number }>): Promise<Parcel> {
+        if (!items.length) return { weight: 0, value: 0 };
+        const [rows]: any = await executor.query(GET_PRODUCTS_FOR_SHIPPING, [items.map(it => Number(it.product_id))]);
+        const byId = new Map<number, any>(rows.map((r: any) => [Number(r.id), r]));
+        return buildParcel(items.map(it => ({
+            quantity: Number(it.quantity),
+            weight: byId.get(Number(it.product_id))?.weight ?? null,
+            price: byId.get(Number(it.product_id))?.price ?? null,
+        })));
+    },
+
+    /**
+     * Métodos de envío disponibles para una dirección y un paquete, con su coste en la divisa del pedido.
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {{ country?: string | null, postal_code?: string | null, province?: string | null }} address Dirección de envío
+     * @param {Parcel} parcel Paquete del pedido
+     * @param {CurrencyRate} currency Divisa del pedido
+     * @returns {Promise<{zone: ShippingZone, options: ShippingOption[]}>} Zona de envío y métodos ordenados (`sort_order`)
+     */
+    async getOptions(
+        executor: PoolConnection | typeof db,
+        address: { country?: string | null; postal_code?: string | null; province?: string | null },
+        parcel: Parcel,
+        currency: CurrencyRate
+    ) {
+        const zone = resolveShippingZone(address);
+        const [rows]: any = await executor.query(GET_ACTIVE_SHIPPING_RATES_FOR_ZONE, [zone]);
+
+        const methods = new Map<ShippingMethodCode, { row: any; rates: ShippingRate[] }>();
+        for (const row of rows) {
+            if (!methods.has(row.code)) methods.set(row.code, { row, rates: [] });
+            methods.get(row.code)!.rates.push(mapRate(row));
+        }
+
+        const options: ShippingOption[] = [];
+        for (const [method, { row, rates }] of methods) {
+            const costEur = shippingCostEur(rates, parcel);
+            if (costEur === null) continue;
+            options.push({
+                method,
+                name: row.name || SHIPPING_METHOD_LABELS[method],
+                description: row.description ?? null,
+                zone,
+                cost: convertFromEur(costEur, currency),
+                cost_eur: costEur,
+                free: costEur === 0,
+                currency: currency.code,
+            });
+        }
+        return { zone, options };
+    },
+
+    /**
+     * Métodos de envío disponibles para una dirección guardada (ver `getOptions`).
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {number} addressId ID de la dirección
+     * @param {Parcel} parcel Paquete del pedido
+     * @param {CurrencyRate} currency Divisa del pedido
+     * @param {number | null} [userId] Si se indica, la dirección debe ser de este usuario
+     * @returns {Promise<{zone: ShippingZone, options: ShippingOption[]}>} Zona de envío y métodos
+     * @throws Error si la dirección no existe (o no es del usuario)
+     */
+    async getAddressOptions(executor: PoolConnection | typeof db, addressId: number, parcel: Parcel, currency: CurrencyRate, userId: number | null = null) {
+        const [rows]: any = await executor.query(GET_ADDRESS_FOR_SHIPPING, [addressId]);
+        if (!rows.length || (userId !== null && Number(rows[0].user_id) !== userId)) throw new Error('Dirección no encontrada');
+        return this.getOptions(executor, rows[0], parcel, currency);
+    },
+
+    /**
+     * Listar los métodos de envío con sus tarifas (admin). Los métodos sin configurar aparecen inactivos y sin tramos.
+     * @returns {Promise<Object>} `{ zones, bases, methods: [{ code, name, description, active, sort_order, configured, rates, updated_at }] }`
+     */
+    async listMethods() {
+        const [methodRows]: any = await db.query(GET_SHIPPING_METHODS);
+        const [rateRows]: any = await db.query(GET_SHIPPING_RATES);
+        const byCode = new Map<string, any>(methodRows.map((r: any) => [r.code, r]));
+
+        return {
+            zones: SHIPPING_ZONES.map(zone => ({ code: zone, label: SHIPPING_ZONE_LABELS[zone] })),
+            bases: [...RATE_BASES],
+            methods: SHIPPING_METHODS.map((code, i) => {
+                const row = byCode.get(code);
+                return {
+                    code,
+                    name: row?.name || SHIPPING_METHOD_LABELS[code],
+                    description: row?.description ?? null,
+                    active: Boolean(row?.active),
+                    sort_order: row ? Number(row.sort_order) : i + 1,
+                    configured: Boolean(row),
+                    rates: rateRows.filter((r: any) => r.method_code === code).map(mapRate),
+                    updated_at: row?.updated_at ?? null,
+                };
+            }).sort((a, b) => a.sort_order - b.sort_order),
+        };
+    },
+
+    /**
+     * Configurar un método de envío (admin): datos del método y, si se envían, sus tramos (sustituyen a los anteriores).
+     * Solo afecta a los pedidos nuevos: cada pedido guarda el método y el coste con los que se creó.
+     * @param {unknown} code Método (`standard`, `express`, `pickup`)
+     * @param {Object} input `{ name?, description?, active?, sort_order?, rates? }`
+     * @param {number} updatedBy ID del administrador
+     * @returns {Promise<Object>} Método guardado con sus tramos (ver `listMethods`)
+     * @throws Error si el método o algún tramo no son válidos
+     */
+    async updateMethod(code: unknown, input: any, updatedBy: number) {
+        const method = parseShippingMethod(code);
+        if (!method) throw new Error('Método de envío requerido');
+        const rates = input?.rates !== undefined ? parseShippingRates(input.rates) : null;
+        if (input?.sort_order !== undefined && !Number.isInteger(Number(input.sort_order))) throw new Error('sort_order debe ser un número entero');
+
+        await withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(GET_SHIPPING_METHOD, [method]);
+            const current = rows[0];
+            await conn.query(UPSERT_SHIPPING_METHOD, [
+                method,
+                typeof input?.name === 'string' && input.name.trim() ? input.name.trim() : current?.name ?? SHIPPING_METHOD_LABELS[method],
+                input?.description !== undefined ? (String(input.description ?? '').trim() || null) : current?.description ?? null,
+                input?.active !== undefined ? input.active === true || input.active === 'true' : Boolean(current?.active ?? true),
+                input?.sort_order !== undefined ? Number(input.sort_order) : current?.sort_order ?? SHIPPING_METHODS.indexOf(method) + 1,
+                updatedBy,
+            ]);
+
+            if (rates) {
+                await conn.query(DELETE_SHIPPING_RATES_BY_METHOD, [method]);
+                if (rates.length) {
+                    const values = rates.map(r => [method, r.zone, r.basis, r.min_value, r.max_value, r.price, r.free_from]);
+                    await conn.query(INSERT_SHIPPING_RATES, [values]);
+                }
+            }
+        });
+
+        const { methods } = await this.listMethods();
+        return methods.find(m => m.code === method);
+    },
+};
@@ -0,0 +1,44 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { TaxService } from './taxes.service';
+
+export const TaxesController = {
+    /**
+     * Listar las categorías con su tipo de IVA.
+     * @route GET /taxes/categories
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Sin parámetros.
+     * @param {Response} res - `{ default_rate, allowed_rates, categories }`.
+     */
+    async listCategories(req: AuthenticatedRequest, res: Response) {
+        try {
+            const data = await TaxService.listCategoryRates();
+            res.json(data);
+        } catch (err: any) {
+            res.status(400).json({ message: err.message });
+        }
+    },
+
+    /**
+     * Cambiar el tipo de IVA de una categoría.
+     * @route PUT /taxes/categories/:id
+     * @access Admin
+     * @param {AuthenticatedRequest} req - Param `id`; body `{ vat_rate }` (21, 10, 4 o `null` para usar el general).
+     * @param {Response} res - Categoría actualizada.
+     * @example
+     * PUT /taxes/categories/3
+     * body: { vat_rate: 10 }
+     */
+    async updateCategory(req: AuthenticatedRequest, res: Response) {
+        try {
+            if (!('vat_rate' in (req.body ?? {}))) {
+                return res.status(400).json({ message: 'vat_rate es requerido' });
+            }
+            const data = await TaxService.setCategoryVatRate(Number(req.params.id), req.body.vat_rate);
+            res.json(data);
+        } catch (err: any) {
+            const status = err.message === 'Categoría no encontrada' ? 404 : 400;
+            res.status(status).json({ message: err.message });
+        }
+    },
+};
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { TaxesController } from './taxes.controller';
+import { authenticate, authorize } from '../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * Todas las rutas del módulo Taxes requieren:
+ *  - Usuario autenticado (authenticate)
+ *  - Rol de administrador (authorize('admin'))
+*/
+
+/**
+ * @route GET /taxes/categories
+ * @desc Listar las categorías con su tipo de IVA y el tipo general
+ * @access Admin
+ * @returns {Object} { default_rate, allowed_rates, categories: [{ id, name, vat_rate, effective_vat_rate, products_count }] }
+ */
+router.get('/categories', authenticate, authorize('admin'), TaxesController.listCategories);
+
+/**
+ * @route PUT /taxes/categories/:id
+ * @desc Asignar el tipo de IVA de una categoría (21, 10 o 4; `null` para usar el general).
+ * - Solo afecta a los pedidos que se creen a partir de ese momento.
+ * @access Admin
+ * @param {number} id ID de la categoría
+ * @body {number|null} vat_rate Tipo de IVA
+ * @returns {Object} { id, vat_rate }
+ */
+router.put('/categories/:id', authenticate, authorize('admin'), TaxesController.updateCategory);
+
+export default router;
@@ -0,0 +1,210 @@
+import { VAT_RATE } from '../../config/config';
+import { roundMoney, splitAmount } from '../../utils/money.utils';
+
+/** Tipos de IVA que se pueden asignar a una categoría: general, reducido y superreducido */
+export const CATEGORY_VAT_RATES = [21, 10, 4] as const;
+export type CategoryVatRate = typeof CATEGORY_VAT_RATES[number];
+
+/**
+ * Zona fiscal del destino del pedido.
+ * - `es`: península y Baleares (IVA español).
+ * - `eu`: resto de la Unión Europea (IVA español, venta a distancia por debajo del umbral de la OSS).
+ * - `canarias`, `ceuta`, `melilla`: fuera del territorio de aplicación del IVA (exento).
+ * - `export`: fuera de la Unión Europea (exportación exenta).
+ */
+export const TAX_ZONES = ['es', 'eu', 'canarias', 'ceuta', 'melilla', 'export'] as const;
+export type TaxZone = typeof TAX_ZONES[number];
+
+/** Nombre de cada zona fiscal (facturas, emails y `GET /orders/:id`) */
+export const TAX_ZONE_LABELS: Record<TaxZone, string> = {
+    es: 'España',
+    eu: 'Unión Europea',
+    canarias: 'Canarias (exento de IVA)',
+    ceuta: 'Ceuta (exento de IVA)',
+    melilla: 'Melilla (exento de IVA)',
+    export: 'Exportación fuera de la UE (exenta de IVA)',
+};
+
+/** Zonas en las que no se repercute IVA */
+const EXEMPT_ZONES: TaxZone[] = ['canarias', 'ceuta', 'melilla', 'export'];
+
+/** Nombres y códigos de España tal y como se escriben en `addresses.country` (normalizados) */
+const SPAIN_NAMES = ['es', 'esp', 'espana', 'spain', 'reino de espana'];
+
+/** Países de la Unión Europea (sin España): códigos ISO y nombres en español e inglés (normalizados) */
+const EU_COUNTRIES = new Set([
+    'at', 'austria', 'be', 'belgica', 'belgium', 'bg', 'bulgaria', 'cy', 'chipre', 'cyprus',
+    'cz', 'chequia', 'republica checa', 'czechia', 'czech republic', 'de', 'alemania', 'germany',
+    'dk', 'dinamarca', 'denmark', 'ee', 'estonia', 'fi', 'finlandia', 'finland', 'fr', 'francia', 'france',
+    'gr', 'grecia', 'greece', 'hr', 'croacia', 'croatia', 'hu', 'hungria', 'hungary', 'ie', 'irlanda', 'ireland',
+    'it', 'italia', 'italy', 'lt', 'lituania', 'lithuania', 'lu', 'luxemburgo', 'luxembourg', 'lv', 'letonia', 'latvia',
+    'mt', 'malta', 'nl', 'paises bajos', 'holanda', 'netherlands', 'pl', 'polonia', 'poland', 'pt', 'portugal',
+    'ro', 'rumania', 'romania', 'se', 'suecia', 'sweden', 'si', 'eslovenia', 'slovenia', 'sk', 'eslovaquia', 'slovakia',
+]);
+
+/**
+ * Desglose de IVA por tipo impositivo. `total` es la suma con IVA incluido de las líneas de ese tipo.
+ */
+export interface TaxBreakdownLine {
+    rate: number;
+    base: number;
+    tax: number;
+    total: number;
+}
+
+/**
+ * IVA de un pedido tal y como se devuelve en los pedidos y en la factura.
+ */
+export interface OrderTax {
+    zone: TaxZone;
+    zone_label: string;
+    exempt: boolean;
+    base: number;
+    amount: number;
+    breakdown: TaxBreakdownLine[];
+}
+
+/**
+ * Normaliza un texto para compararlo (minúsculas, sin tildes ni espacios de sobra).
+ * @param {string | null | undefined} text Texto a normalizar
+ * @returns {string} Texto normalizado
+ */
+function normalize(text: string | null | undefined): string {
+    return (text ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * @function resolveTaxZone
+ * @summary Zona fiscal de una dirección de envío.
+ * @description
+ * En España se distingue por código postal (35 y 38 Canarias, 51 Ceuta, 52 Melilla) o, si no lo tiene, por provincia.
+ * Un país que no es España ni de la UE se trata como exportación.
+ *
+ * @param {{ country?: string | null, postal_code?: string | null, province?: string | null }} address Dirección de envío
+ * @returns {TaxZone} Zona fiscal
+ *
+ * @example
+ * ```ts
+ * resolveTaxZone({ country: 'España', postal_code: '38001' }); // 'canarias'
+ * resolveTaxZone({ country: 'Suiza', postal_code: '8001' });   // 'export'
+ * ```
+ */
+export function resolveTaxZone(address: { country?: string | null; postal_code?: string | null; province?: string | null }): TaxZone {
+    const country = normalize(address.country);
+    const province = normalize(address.province);
+
+    if (['canarias', 'islas canarias', 'canary islands'].includes(country)) return 'canarias';
+    if (country === 'ceuta' || country === 'melilla') return country;
+
+    if (!country || SPAIN_NAMES.includes(country)) {
+        const postalCode = (address.postal_code ?? '').replace(/\s/g, '');
+        const prefix = /^\d{5}$/.test(postalCode) ? postalCode.slice(0, 2) : '';
+        if (prefix === '35' || prefix === '38' || ['las palmas', 'santa cruz de tenerife', 'canarias', 'islas canarias'].includes(province)) return 'canarias';
+        if (prefix === '51' || province === 'ceuta') return 'ceuta';
+        if (prefix === '52' || province === 'melilla') return 'melilla';
+        return 'es';
+    }
+
+    return EU_COUNTRIES.has(country) ? 'eu' : 'export';
+}
+
+/**
+ * @function isExemptZone
+ * @summary Indica si en una zona fiscal no se repercute IVA.
+ * @param {TaxZone} zone Zona fiscal
+ * @returns {boolean} `true` en Canarias, Ceuta, Melilla y exportaciones
+ */
+export function isExemptZone(zone: TaxZone): boolean {
+    return EXEMPT_ZONES.includes(zone);
+}
+
+/**
+ * @function effectiveVatRate
+ * @summary Tipo de IVA que se aplica a una línea según la zona del pedido.
+ * @param {number | null} rate Tipo de la línea (el de su categoría); `null` usa el general (`VAT_RATE`)
+ * @param {TaxZone} zone Zona fiscal del pedido
+ * @returns {number} 0 en las zonas exentas, el tipo de la línea en el resto
+ *
+ * @example
+ * ```ts
+ * effectiveVatRate(10, 'es');       // 10
+ * effectiveVatRate(10, 'canarias'); // 0
+ * ```
+ */
+export function effectiveVatRate(rate: number | null, zone: TaxZone): number {
+    return isExemptZone(zone) ? 0 : rate ?? VAT_RATE;
+}
+
+/**
+ * @function computeLineTax
+ * @summary Base imponible y cuota de un importe con IVA incluido.
+ *
+ * @param {number} amount Importe con IVA incluido (puede ser negativo)
+ * @param {number} rate Tipo de IVA (%)
+ * @returns {{ base: number, tax: number }} Base y cuota redondeadas; `base + tax === amount`
+ *
+ * @example
+ * ```ts
+ * computeLineTax(121, 21); // { base: 100, tax: 21 }
+ * ```
+ */
+export function computeLineTax(amount: number, rate: number): { base: number; tax: number } {
+    const base = roundMoney(amount / (1 + rate / 100));
+    return { base, tax: roundMoney(amount - base) };
+}
+
+/**
+ * @function buildTaxBreakdown
+ * @summary Agrupa por tipo de IVA unas líneas con IVA incluido.
+ * @description
+ * El descuento del pedido (cupón o crédito de un cambio) se reparte entre las líneas en proporción a su importe
+ * antes de agrupar, así la suma de `total` coincide con lo cobrado.
+ *
+ * @param {Array<{ amount: number, vat_rate: number }>} lines Importe con IVA incluido y tipo de cada línea
+ * @param {number} [discount=0] Descuento aplicado al pedido
+ * @returns {TaxBreakdownLine[]} Desglose ordenado de mayor a menor tipo
+ *
+ * @example
+ * ```ts
+ * buildTaxBreakdown([{ amount: 121, vat_rate: 21 }, { amount: 11, vat_rate: 10 }]);
+ * // [{ rate: 21, base: 100, tax: 21, total: 121 }, { rate: 10, base: 10, tax: 1, total: 11 }]
+ * ```
+ */
+export function buildTaxBreakdown(lines: Array<{ amount: number; vat_rate: number }>, discount: number = 0): TaxBreakdownLine[] {
+    const gross = lines.map(l => l.amount);
+    const grossTotal = gross.reduce((acc, a) => acc + a, 0);
+    const amounts = discount > 0 ? splitAmount(roundMoney(grossTotal - discount), gross) : gross;
+
+    const totals = new Map<number, number>();
+    lines.forEach((line, i) => totals.set(line.vat_rate, roundMoney((totals.get(line.vat_rate) ?? 0) + amounts[i]!)));
+
+    return [...totals.entries()]
+        .sort(([a], [b]) => b - a)
+        .map(([rate, total]) => ({ rate, ...computeLineTax(total, rate), total }));
+}
+
+/**
+ * @function mapOrderTax
+ * @summary Construye el IVA de un pedido a partir de su fila en `orders`.
+ *
+ * @param {any} row Fila con `tax_zone`, `tax_base`, `tax_amount` y `tax_breakdown`
+ * @returns {OrderTax | null} IVA del pedido, o `null` si es anterior al cálculo de IVA
+ *
+ * @example
+ * ```ts
+ * const tax = mapOrderTax(rows[0]);
+ * ```
+ */
+export function mapOrderTax(row: any): OrderTax | null {
+    if (!row?.tax_zone) return null;
+    const zone = row.tax_zone as TaxZone;
+    const breakdown = typeof row.tax_breakdown === 'string' ? JSON.parse(row.tax_breakdown) : row.tax_breakdown;
+    return {
+        zone,
+        zone_label: TAX_ZONE_LABELS[zone] ?? zone,
+        exempt: isExemptZone(zone),
+        base: Number(row.tax_base ?? 0),
+        amount: Number(row.tax_amount ?? 0),
+        breakdown: Array.isArray(breakdown) ? breakdown : [],
+    };
+}
@@ -0,0 +1,157 @@
+import { PoolConnection } from 'mysql2/promise';
+import { db, VAT_RATE } from '../../config/config';
+import {
+    GET_PRODUCT_VAT_RATES,
+    GET_ADDRESS_FOR_TAX,
+    GET_ORDER_FOR_TAX,
+    GET_ORDER_ITEMS_FOR_TAX,
+    UPDATE_ORDER_TAX,
+    GET_CATEGORIES_WITH_VAT_RATE,
+    UPDATE_CATEGORY_VAT_RATE
+} from '../../database/queries/taxes.queries';
+import { roundMoney } from '../../utils/money.utils';
+import {
+    CATEGORY_VAT_RATES,
+    TaxZone,
+    OrderTax,
+    TAX_ZONE_LABELS,
+    resolveTaxZone,
+    isExemptZone,
+    effectiveVatRate,
+    buildTaxBreakdown
+} from './taxes.rules';
+
+/**
+ * Línea de un pedido a efectos de IVA: importe con IVA incluido y tipo aplicado.
+ * `kind` distingue los productos del recargo de envoltorio de regalo y de los gastos de envío.
+ */
+export interface OrderTaxLine {
+    kind: 'item' | 'gift_wrap' | 'shipping';
+    order_item_id: number | null;
+    amount: number;
+    vat_rate: number;
+}
+
+/**
+ * Servicio de IVA: tipos por categoría, zona fiscal del destino y desglose de los pedidos.
+ * Los precios del catálogo llevan el IVA incluido; en las zonas exentas el precio no cambia y todo es base imponible.
+ */
+export const TaxService = {
+    /**
+     * Tipo de IVA de cada producto según sus categorías (el general, `VAT_RATE`, si ninguna tiene tipo propio).
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {number[]} productIds IDs de los productos
+     * @returns {Promise<Map<number, number>>} Tipo por producto
+     * @example
+     * const rates = await TaxService.getProductVatRates(conn, [1, 2]);
+     */
+    async getProductVatRates(executor: PoolConnection | typeof db, productIds: number[]) {
+        if (!productIds.length) return new Map<number, number>();
+        const [rows]: any = await executor.query(GET_PRODUCT_VAT_RATES, [productIds]);
+        return new Map<number, number>(rows.map((r: any) => [Number(r.product_id), r.vat_rate !== null ? Number(r.vat_rate) : VAT_RATE]));
+    },
+
+    /**
+     * Zona fiscal de una dirección de envío (ver `resolveTaxZone`).
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {number} addressId ID de la dirección
+     * @returns {Promise<TaxZone>} Zona fiscal
+     * @throws Error si la dirección no existe
+     */
+    async getAddressTaxZone(executor: PoolConnection | typeof db, addressId: number): Promise<TaxZone> {
+        const [rows]: any = await executor.query(GET_ADDRESS_FOR_TAX, [addressId]);
+        if (!rows.length) throw new Error('Dirección no encontrada');
+        return resolveTaxZone(rows[0]);
+    },
+
+    /**
+     * Líneas de un pedido con su tipo de IVA (productos, envoltorio de regalo y envío), zona fiscal y descuento.
+     * - Si el pedido aún no tiene zona fiscal, se calcula a partir de su dirección.
+     * - Las líneas sin tipo guardado (pedidos anteriores al cálculo de IVA), el envoltorio y el envío usan el general.
+     * - El descuento es la diferencia entre las líneas y lo cobrado (`total_paid`, o `total` si aún no se ha pagado):
+     *   cubre tanto el cupón de Stripe como el crédito de un pedido de reposición.
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<{zone: TaxZone, discount: number, lines: OrderTaxLine[]}>} Datos para el desglose
+     * @throws Error si el pedido no existe
+     */
+    async getOrderTaxLines(executor: PoolConnection | typeof db, orderId: number) {
+        const [orderRows]: any = await executor.query(GET_ORDER_FOR_TAX, [orderId]);
+        if (!orderRows.length) throw new Error('Pedido no encontrado');
+        const order = orderRows[0];
+        const zone: TaxZone = order.tax_zone ?? resolveTaxZone(order);
+
+        const [items]: any = await executor.query(GET_ORDER_ITEMS_FOR_TAX, [orderId]);
+        const lines: OrderTaxLine[] = items.map((it: any) => ({
+            kind: 'item',
+            order_item_id: Number(it.id),
+            amount: roundMoney(Number(it.price) * Number(it.quantity)),
+            vat_rate: it.vat_rate !== null ? Number(it.vat_rate) : effectiveVatRate(null, zone),
+        }));
+        const wrapFee = Number(order.gift_wrap_fee ?? 0);
+        if (wrapFee > 0) lines.push({ kind: 'gift_wrap', order_item_id: null, amount: wrapFee, vat_rate: effectiveVatRate(null, zone) });
+        const shippingCost = Number(order.shipping_cost ?? 0);
+        if (shippingCost > 0) lines.push({ kind: 'shipping', order_item_id: null, amount: shippingCost, vat_rate: effectiveVatRate(null, zone) });
+
+        const gross = roundMoney(lines.reduce((acc, l) => acc + l.amount, 0));
+        const charged = order.total_paid !== null && order.total_paid !== undefined ? Number(order.total_paid) : Number(order.total);
+        return { zone, discount: roundMoney(Math.max(0, gross - charged)), lines };
+    },
+
+    /**
+     * Calcula y guarda el IVA de un pedido: zona fiscal, base, cuota y desglose por tipo.
+     * Se llama al crear el pedido y de nuevo al confirmarse el pago (el cupón de Stripe reduce la base).
+     * @param {PoolConnection | typeof db} executor Conexión o pool
+     * @param {number} orderId ID del pedido
+     * @returns {Promise<OrderTax>} IVA guardado
+     * @throws Error si el pedido no existe
+     * @example
+     * await TaxService.updateOrderTaxes(conn, orderId);
+     */
+    async updateOrderTaxes(executor: PoolConnection | typeof db, orderId: number): Promise<OrderTax> {
+        const { zone, discount, lines } = await this.getOrderTaxLines(executor, orderId);
+        const breakdown = buildTaxBreakdown(lines, discount);
+        const base = roundMoney(breakdown.reduce((acc, b) => acc + b.base, 0));
+        const amount = roundMoney(breakdown.reduce((acc, b) => acc + b.tax, 0));
+
+        await executor.query(UPDATE_ORDER_TAX, [zone, base, amount, JSON.stringify(breakdown), orderId]);
+        return { zone, zone_label: TAX_ZONE_LABELS[zone], exempt: isExemptZone(zone), base, amount, breakdown };
+    },
+
+    /**
+     * Listar las categorías con su tipo de IVA (admin).
+     * @returns {Promise<Object>} `{ default_rate, allowed_rates, categories: [{ id, name, vat_rate, effective_vat_rate, products_count }] }`
+     */
+    async listCategoryRates() {
+        const [rows]: any = await db.query(GET_CATEGORIES_WITH_VAT_RATE);
+        return {
+            default_rate: VAT_RATE,
+            allowed_rates: [...CATEGORY_VAT_RATES],
+            categories: rows.map((r: any) => ({
+                id: r.id,
+                name: r.name,
+                vat_rate: r.vat_rate !== null ? Number(r.vat_rate) : null,
+                effective_vat_rate: r.vat_rate !== null ? Number(r.vat_rate) : VAT_RATE,
+                products_count: Number(r.products_count),
+            })),
+        };
+    },
+
+    /**
+     * Cambiar el tipo de IVA de una categoría (admin). Solo afecta a los pedidos nuevos.
+     * @param {number} categoryId ID de la categoría
+     * @param {unknown} vatRate 21, 10 o 4; `null` para volver al general
+     * @returns {Promise<{id: number, vat_rate: number | null}>} Categoría actualizada
+     * @throws Error si el tipo no es válido o la categoría no existe
+     */
+    async setCategoryVatRate(categoryId: number, vatRate: unknown) {
+        const rate = vatRate === null ? null : Number(vatRate);
+        if (rate !== null && !(CATEGORY_VAT_RATES as readonly number[]).includes(rate)) {
+            throw new Error(`vat_rate debe ser uno de ${CATEGORY_VAT_RATES.join(', ')} o null`);
+        }
+
+        const [res]: any = await db.query(UPDATE_CATEGORY_VAT_RATE, [rate, categoryId]);
+        if (!res.affectedRows) throw new Error('Categoría no encontrada');
+        return { id: categoryId, vat_rate: rate };
+    },
+};
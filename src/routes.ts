@@ -6,6 +6,10 @@ import productsRoutes from './modules/products/products.routes';
 import cartRoutes from './modules/cart/cart.routes';
 import ordersRoutes from './modules/orders/orders.routes';
 import paymentsRoutes from './modules/payments/payments.routes';
+import refundsRoutes from './modules/refunds/refunds.routes';
+import taxesRoutes from './modules/taxes/taxes.routes';
+import currenciesRoutes from './modules/currencies/currencies.routes';
+import shippingRoutes from './modules/shipping/shipping.routes';
 import dashboardRoutes from './modules/dashboard/dashboard.routes';
 import notificationsRoutes from './modules/notifications/notifications.routes';
 
@@ -33,6 +37,10 @@ router.use('/products', productsRoutes); // Gestión de productos
 router.use('/cart', cartRoutes);        // Gestión de carrito
 router.use('/orders', ordersRoutes);     // Gestión de pedidos
 router.use('/payments', paymentsRoutes); // Gestión de pagos
+router.use('/refunds', refundsRoutes);   // Reembolsos (admin)
+router.use('/taxes', taxesRoutes);       // Tipos de IVA por categoría (admin)
+router.use('/currencies', currenciesRoutes); // Divisas y tipos de cambio
+router.use('/shipping', shippingRoutes);   // Métodos y tarifas de envío (admin)
 router.use('/dashboard', dashboardRoutes); // Dashboard / panel de administración
 router.use('/notifications', notificationsRoutes); // Rutas de notificaciones
 
@@ -2,6 +2,7 @@ import app from './app';
 import dotenv from 'dotenv';
 import { db } from './config/config';
 import { notificationsGateway } from './modules/notifications/notifications.gateway'; // 🔹 Importar gateway
+import { startUnpaidOrdersExpiryJob } from './modules/orders/jobs/expire-unpaid-orders.job';
 
 // Cargar variables de entorno desde .env
 dotenv.config();
@@ -28,6 +29,10 @@ const PORT = process.env.PORT || 3000;
         notificationsGateway.init(server);
         console.log('🔔 Notifications WebSocket inicializado');
 
+        // Job periódico que caduca los pedidos sin pagar y libera su stock
+        startUnpaidOrdersExpiryJob();
+        console.log('⌛ Job de pedidos sin pagar inicializado');
+
     } catch (error) {
         console.error("❌ No se pudo conectar a la base de datos:", error);
         process.exit(1);
@@ -14,6 +14,7 @@ export const ORDER_STATUS_LABELS: Record<string, string> = {
     completed: 'Completado',
     delivered: 'Entregado',
     cancelled: 'Cancelado',
+    expired: 'Caducado',
     awaiting_return: 'Esperando retorno',
     returned: 'Devuelto'
 };
@@ -54,6 +55,7 @@ export const PAYMENT_STATUS_LABELS: Record<string, string> = {
     completed: 'Completado',
     failed: 'Fallido',
     refunded: 'Reembolsado',
+    partially_refunded: 'Reembolsado parcialmente',
 };
 
 /**
@@ -77,6 +79,78 @@ export function mapPaymentStatus(code?: string | null): string {
     return PAYMENT_STATUS_LABELS[code] ?? code;
 }
 
+/**
+ * @constant REFUND_STATUS_LABELS
+ * @description
+ * Etiquetas legibles en español para los estados de un reembolso (los mismos que usa Stripe).
+ *
+ * @example
+ * ```ts
+ * REFUND_STATUS_LABELS['succeeded']; // "Completado"
+ * ```
+ */
+export const REFUND_STATUS_LABELS: Record<string, string> = {
+    pending: 'En proceso',
+    requires_action: 'Requiere acción',
+    succeeded: 'Completado',
+    failed: 'Fallido',
+    canceled: 'Cancelado',
+};
+
+/**
+ * @function mapRefundStatus
+ * @summary Traduce un código de estado de reembolso a una etiqueta legible.
+ *
+ * @param {string | null} [code] - Código del estado del reembolso (por ejemplo `'pending'`, `'failed'`).
+ * @returns {string} Etiqueta legible o `'-'` si no se proporciona.
+ *
+ * @example
+ * ```ts
+ * mapRefundStatus('failed'); // "Fallido"
+ * ```
+ */
+export function mapRefundStatus(code?: string | null): string {
+    if (!code) return '-';
+    return REFUND_STATUS_LABELS[code] ?? code;
+}
+
+/**
+ * @constant DISPUTE_STATUS_LABELS
+ * @description
+ * Etiquetas legibles en español para los estados de una disputa (contracargo) de Stripe.
+ *
+ * @example
+ * ```ts
+ * DISPUTE_STATUS_LABELS['needs_response']; // "Pendiente de respuesta"
+ * ```
+ */
+export const DISPUTE_STATUS_LABELS: Record<string, string> = {
+    warning_needs_response: 'Consulta pendiente de respuesta',
+    warning_under_review: 'Consulta en revisión',
+    warning_closed: 'Consulta cerrada',
+    needs_response: 'Pendiente de respuesta',
+    under_review: 'En revisión',
+    won: 'Ganada',
+    lost: 'Perdida',
+};
+
+/**
+ * @function mapDisputeStatus
+ * @summary Traduce un código de estado de disputa a una etiqueta legible.
+ *
+ * @param {string | null} [code] - Código del estado de la disputa (por ejemplo `'needs_response'`, `'lost'`).
+ * @returns {string} Etiqueta legible o `'-'` si no se proporciona.
+ *
+ * @example
+ * ```ts
+ * mapDisputeStatus('won'); // "Ganada"
+ * ```
+ */
+export function mapDisputeStatus(code?: string | null): string {
+    if (!code) return '-';
+    return DISPUTE_STATUS_LABELS[code] ?? code;
+}
+
 /**
  * @constant PAYMENT_METHOD_LABELS
  * @description
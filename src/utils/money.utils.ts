@@ -0,0 +1,62 @@
+/**
+ * @function roundMoney
+ * @summary Redondea un importe a 2 decimales.
+ *
+ * @param {number} value - Importe
+ * @returns {number} Importe redondeado
+ *
+ * @example
+ * ```ts
+ * roundMoney(10.005); // 10.01
+ * ```
+ */
+export function roundMoney(value: number): number {
+    return Number(value.toFixed(2));
+}
+
+/**
+ * @function computeRefundShare
+ * @summary Calcula el importe reembolsable de una línea de pedido.
+ * @description
+ * Descuenta del importe bruto de la línea su parte proporcional del descuento aplicado al pedido
+ * (`discount_amount`), de modo que la suma de todas las líneas coincide con lo realmente cobrado.
+ *
+ * @param {number} lineGross - Importe de la línea sin descuento (precio x unidades)
+ * @param {number} itemsSubtotal - Suma de todas las líneas del pedido sin descuento
+ * @param {number} discount - Descuento total aplicado al pedido
+ * @returns {number} Importe reembolsable redondeado a 2 decimales
+ *
+ * @example
+ * ```ts
+ * computeRefundShare(20, 100, 10); // 18
+ * ```
+ */
+export function computeRefundShare(lineGross: number, itemsSubtotal: number, discount: number): number {
+    if (!itemsSubtotal || !discount) return roundMoney(lineGross);
+    return roundMoney(lineGross - (discount * lineGross) / itemsSubtotal);
+}
+
+/**
+ * @function splitAmount
+ * @summary Reparte un importe en partes proporcionales a unos pesos.
+ * @description
+ * Cada parte se redondea a 2 decimales y la última absorbe la diferencia de redondeo,
+ * de modo que la suma de las partes coincide exactamente con el importe.
+ *
+ * @param {number} total - Importe a repartir
+ * @param {number[]} weights - Pesos de cada parte (p.ej. el importe de cada línea)
+ * @returns {number[]} Partes del importe, en el mismo orden que los pesos
+ *
+ * @example
+ * ```ts
+ * splitAmount(10, [1, 1, 1]); // [3.33, 3.33, 3.34]
+ * ```
+ */
+export function splitAmount(total: number, weights: number[]): number[] {
+    if (!weights.length) return [];
+    const weightSum = weights.reduce((acc, w) => acc + w, 0);
+    const parts = weights.map(w => roundMoney(weightSum ? (total * w) / weightSum : total / weights.length));
+    const diff = roundMoney(total - parts.reduce((acc, p) => acc + p, 0));
+    parts[parts.length - 1] = roundMoney(parts[parts.length - 1]! + diff);
+    return parts;
+}
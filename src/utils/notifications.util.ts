@@ -77,3 +77,51 @@ export const notifyUsersNewProduct = (message: string) => {
         console.warn('Error enviando notificación users new product:', e);
     }
 };
+
+/**
+ * @function notifyAdminDisputeOpened
+ * @summary Avisa a los administradores de que el cliente ha abierto una disputa (contracargo) sobre un pago.
+ * @description
+ * Las disputas tienen un plazo para responder con pruebas desde el panel de Stripe, por eso se notifican en cuanto llegan.
+ * Se ejecuta de forma no bloqueante.
+ *
+ * @param {number} orderId - ID del pedido disputado.
+ * @param {string} amount - Importe disputado ya formateado (p.ej. `49,90 €`).
+ * @param {string | null} reason - Motivo indicado por el banco (`fraudulent`, `product_not_received`...).
+ *
+ * @example
+ * ```ts
+ * notifyAdminDisputeOpened(321, '49,90 €', 'fraudulent');
+ * // => "Disputa abierta en el pedido 321 por 49,90 € (motivo: fraudulent). Responde desde Stripe antes de que venza el plazo"
+ * ```
+ */
+export const notifyAdminDisputeOpened = (orderId: number, amount: string, reason: string | null) => {
+    try {
+        notificationsService.createNotificationForAdmin(
+            `Disputa abierta en el pedido ${orderId} por ${amount}${reason ? ` (motivo: ${reason})` : ''}. Responde desde Stripe antes de que venza el plazo`
+        );
+    } catch (e) {
+        console.warn('Error enviando notificación admin dispute opened:', e);
+    }
+};
+
+/**
+ * @function notifyAdminDisputeClosed
+ * @summary Avisa a los administradores del resultado de una disputa.
+ *
+ * @param {number} orderId - ID del pedido disputado.
+ * @param {string} result - Resultado legible de la disputa (p.ej. `Ganada`, `Perdida`).
+ *
+ * @example
+ * ```ts
+ * notifyAdminDisputeClosed(321, 'Perdida');
+ * // => "Disputa del pedido 321 cerrada: Perdida"
+ * ```
+ */
+export const notifyAdminDisputeClosed = (orderId: number, result: string) => {
+    try {
+        notificationsService.createNotificationForAdmin(`Disputa del pedido ${orderId} cerrada: ${result}`);
+    } catch (e) {
+        console.warn('Error enviando notificación admin dispute closed:', e);
+    }
+};